@@ -6,11 +6,13 @@ import { CabinetLibrary } from "@/components/cabinet-library"
 import { LayoutCanvas } from "@/components/layout-canvas"
 import { PropertiesPanel } from "@/components/properties-panel"
 import { KeyboardHandler } from "@/components/keyboard-handler"
+import { LayoutImportDialog } from "@/components/layout-import-dialog"
 
 export default function Home() {
   return (
     <EditorProvider>
       <KeyboardHandler />
+      <LayoutImportDialog />
       <div className="h-screen flex flex-col bg-background">
         <TopBar />
         <div className="flex-1 flex min-h-0">
@@ -0,0 +1,286 @@
+"use client"
+
+import { useState } from "react"
+import { useEditor } from "@/lib/editor-context"
+import type { LayoutData } from "@/lib/types"
+import { parseRouteCabinetId } from "@/lib/types"
+import { getCabinetBounds } from "@/lib/validation"
+import { getDataRoutePortLabel } from "@/lib/controllers"
+import { getDataRouteLoadPx } from "@/lib/data-utils"
+import {
+  START_CORNER_LABELS,
+  autoRouteDataRoutes,
+  getDefaultAutoRouteOptions,
+  type AutoRouteOptions,
+  type AutoRouteResult,
+  type RouteSerpentine,
+  type RouteStartCorner,
+} from "@/lib/data-routing"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { AlertTriangle, Info, Wand2 } from "lucide-react"
+
+const PREVIEW_COLORS = ["#3b82f6", "#f97316", "#22c55e", "#a855f7", "#eab308", "#ec4899", "#14b8a6", "#ef4444"]
+
+function RoutePreview({ layout, result }: { layout: LayoutData; result: AutoRouteResult }) {
+  const cabinetBounds = layout.cabinets.flatMap((cabinet) => {
+    const bounds = getCabinetBounds(cabinet, layout.cabinetTypes)
+    return bounds ? [{ id: cabinet.id, bounds }] : []
+  })
+  if (cabinetBounds.length === 0) return null
+  const boundsById = new Map(cabinetBounds.map((entry) => [entry.id, entry.bounds]))
+  const minX = Math.min(...cabinetBounds.map((entry) => entry.bounds.x))
+  const minY = Math.min(...cabinetBounds.map((entry) => entry.bounds.y))
+  const maxX = Math.max(...cabinetBounds.map((entry) => entry.bounds.x2))
+  const maxY = Math.max(...cabinetBounds.map((entry) => entry.bounds.y2))
+  const padding = Math.max(maxX - minX, maxY - minY) * 0.04
+  const strokeWidth = Math.max(maxX - minX, maxY - minY) * 0.008
+
+  // Two-card cabinets: card 1 sits in the upper half, card 2 in the lower half.
+  const getEndpointPoint = (endpointId: string) => {
+    const { cabinetId, cardIndex } = parseRouteCabinetId(endpointId)
+    const bounds = boundsById.get(cabinetId)
+    if (!bounds) return null
+    const y = cardIndex === undefined ? bounds.y + bounds.height / 2 : bounds.y + (bounds.height * (cardIndex * 2 + 1)) / 4
+    return { x: bounds.x + bounds.width / 2, y }
+  }
+
+  return (
+    <svg
+      viewBox={`${minX - padding} ${minY - padding} ${maxX - minX + padding * 2} ${maxY - minY + padding * 2}`}
+      className="h-56 w-full rounded-md border border-border bg-zinc-950"
+    >
+      {cabinetBounds.map(({ id, bounds }) => (
+        <rect
+          key={id}
+          x={bounds.x}
+          y={bounds.y}
+          width={bounds.width}
+          height={bounds.height}
+          fill="#27272a"
+          stroke="#52525b"
+          strokeWidth={strokeWidth / 2}
+        />
+      ))}
+      {result.routes.map((route, index) => {
+        const points = route.cabinetIds.flatMap((endpointId) => {
+          const point = getEndpointPoint(endpointId)
+          return point ? [point] : []
+        })
+        if (points.length === 0) return null
+        const color = PREVIEW_COLORS[index % PREVIEW_COLORS.length]
+        return (
+          <g key={route.id}>
+            <polyline
+              points={points.map((point) => `${point.x},${point.y}`).join(" ")}
+              fill="none"
+              stroke={color}
+              strokeWidth={strokeWidth}
+              strokeLinejoin="round"
+              strokeLinecap="round"
+            />
+            <circle cx={points[0].x} cy={points[0].y} r={strokeWidth * 2.4} fill={color} />
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
+
+export function AutoRouteDialog() {
+  const { state, dispatch } = useEditor()
+  const { layout } = state
+  const [isOpen, setIsOpen] = useState(false)
+  const [options, setOptions] = useState<AutoRouteOptions>(() => getDefaultAutoRouteOptions(layout))
+  const [portCapacityDraft, setPortCapacityDraft] = useState("")
+
+  const portCapacityPx = Number.parseInt(portCapacityDraft)
+  const resolvedOptions = { ...options, portCapacityPx: portCapacityPx > 0 ? portCapacityPx : undefined }
+  const result = isOpen ? autoRouteDataRoutes(layout, resolvedOptions) : null
+  const existingRouteCount = layout.project.dataRoutes.length
+
+  const updateOptions = (updates: Partial<AutoRouteOptions>) => setOptions({ ...options, ...updates })
+
+  const handleApply = () => {
+    if (!result) return
+    layout.project.dataRoutes.forEach((route) => {
+      dispatch({ type: "DELETE_DATA_ROUTE", payload: route.id })
+    })
+    result.routes.forEach((route) => {
+      dispatch({ type: "ADD_DATA_ROUTE", payload: route })
+    })
+    dispatch({ type: "PUSH_HISTORY" })
+    setIsOpen(false)
+  }
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open)
+        if (open) {
+          setOptions(getDefaultAutoRouteOptions(layout))
+          setPortCapacityDraft("")
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={layout.cabinets.length === 0}
+          title="Auto-route cabinets"
+          className="h-7 px-2 text-xs text-blue-100 hover:text-blue-50"
+        >
+          <Wand2 className="w-3 h-3 mr-1" />
+          Auto
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Auto-route data</DialogTitle>
+          <DialogDescription>Pick a routing pattern and check the preview before applying it.</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-[14rem_1fr] gap-4">
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Start corner</Label>
+              <Select
+                value={options.startCorner}
+                onValueChange={(value: RouteStartCorner) => updateOptions({ startCorner: value })}
+              >
+                <SelectTrigger className="h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(START_CORNER_LABELS) as RouteStartCorner[]).map((corner) => (
+                    <SelectItem key={corner} value={corner}>
+                      {START_CORNER_LABELS[corner]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Serpentine</Label>
+              <Select
+                value={options.serpentine}
+                onValueChange={(value: RouteSerpentine) => updateOptions({ serpentine: value })}
+              >
+                <SelectTrigger className="h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="columns">By columns</SelectItem>
+                  <SelectItem value="rows">By rows</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="auto-route-ports" className="text-xs">
+                  Max ports
+                </Label>
+                <Input
+                  id="auto-route-ports"
+                  type="number"
+                  min={1}
+                  value={options.maxPorts}
+                  onChange={(e) => updateOptions({ maxPorts: Math.max(1, Number.parseInt(e.target.value) || 1) })}
+                  className="h-8 text-sm"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auto-route-capacity" className="text-xs">
+                  Px / port
+                </Label>
+                <Input
+                  id="auto-route-capacity"
+                  type="number"
+                  value={portCapacityDraft}
+                  placeholder="Controller"
+                  onChange={(e) => setPortCapacityDraft(e.target.value)}
+                  className="h-8 text-sm"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="auto-route-split-capacity" className="text-xs">
+                Split at port capacity
+              </Label>
+              <Switch
+                id="auto-route-split-capacity"
+                checked={options.splitAtCapacity}
+                onCheckedChange={(checked) => updateOptions({ splitAtCapacity: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="auto-route-cross-screen" className="text-xs">
+                Chains may cross screens
+              </Label>
+              <Switch
+                id="auto-route-cross-screen"
+                checked={options.allowCrossScreen}
+                onCheckedChange={(checked) => updateOptions({ allowCrossScreen: checked })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            {result && <RoutePreview layout={layout} result={result} />}
+            <ul className="space-y-1 text-xs">
+              {result?.routes.map((route) => (
+                <li key={route.id} className="text-muted-foreground">
+                  <span className="font-medium text-foreground">{getDataRoutePortLabel(layout.project, route)}</span>:{" "}
+                  {route.cabinetIds.length} cards ·{" "}
+                  {getDataRouteLoadPx(route, layout.cabinets, layout.cabinetTypes, layout.project.pitch_mm).toLocaleString(
+                    undefined,
+                    { maximumFractionDigits: 0 },
+                  )}{" "}
+                  px
+                </li>
+              ))}
+              {result?.diagnostics.map((diagnostic, index) => (
+                <li
+                  key={`${diagnostic.type}-${index}`}
+                  className={`flex items-start gap-1.5 ${diagnostic.type === "warning" ? "text-warning" : "text-muted-foreground"}`}
+                >
+                  {diagnostic.type === "warning" ? (
+                    <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                  ) : (
+                    <Info className="w-3 h-3 mt-0.5 shrink-0" />
+                  )}
+                  {diagnostic.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        <DialogFooter className="items-center">
+          {existingRouteCount > 0 && (
+            <span className="mr-auto text-xs text-muted-foreground">
+              Replaces {existingRouteCount} existing data route{existingRouteCount === 1 ? "" : "s"}.
+            </span>
+          )}
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!result || result.routes.length === 0}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import { useState } from "react"
+import { useEditor } from "@/lib/editor-context"
+import type { BomPart } from "@/lib/types"
+import {
+  BOM_CATEGORY_LABELS,
+  DEFAULT_SPARE_PERCENT,
+  buildBom,
+  formatBomCsv,
+  getBomPart,
+  getBomTotalPrice,
+  setBomPart,
+} from "@/lib/bom"
+import { downloadBlob } from "@/lib/download"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { ClipboardList, Download } from "lucide-react"
+
+function parseOptionalNumber(value: string) {
+  const trimmed = value.trim()
+  if (!trimmed) return undefined
+  const parsed = Number.parseFloat(trimmed)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+export function BomDialog() {
+  const { state, dispatch } = useEditor()
+  const { layout } = state
+  const { project } = layout
+  const [isOpen, setIsOpen] = useState(false)
+  const lines = isOpen ? buildBom(layout) : []
+  const totalPrice = getBomTotalPrice(lines)
+
+  // Catalog edits land on every keystroke; history is pushed once the field loses focus.
+  const updatePart = (key: string, updates: Partial<BomPart>) => {
+    dispatch({ type: "UPDATE_PROJECT", payload: { bomParts: setBomPart(project.bomParts, key, updates) } })
+  }
+
+  const handleNumberChange = (key: string, field: "unitPrice" | "sparePercent", value: string) => {
+    const parsed = parseOptionalNumber(value)
+    if (parsed === null) return
+    updatePart(key, { [field]: parsed })
+  }
+
+  const handleExportCsv = () => {
+    const fileBaseName = project.name.replace(/\s+/g, "_")
+    downloadBlob(new Blob([formatBomCsv(lines)], { type: "text/csv" }), `${fileBaseName}_bom.csv`)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Bill of materials">
+          <ClipboardList className="w-4 h-4 mr-2" />
+          BOM
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Bill of Materials</DialogTitle>
+          <DialogDescription>
+            Quantities follow the layout. Part numbers, prices and spare percentages are saved with the project.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh]">
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr className="border-b border-border text-left">
+                <th className="py-1.5 pr-2 font-medium">Item</th>
+                <th className="py-1.5 pr-2 font-medium">Part number</th>
+                <th className="py-1.5 pr-2 text-right font-medium">Qty</th>
+                <th className="py-1.5 pr-2 text-right font-medium">Spare %</th>
+                <th className="py-1.5 pr-2 text-right font-medium">Total</th>
+                <th className="py-1.5 pr-2 text-right font-medium">Unit price</th>
+                <th className="py-1.5 text-right font-medium">Price</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map((line) => {
+                const part = getBomPart(project, line.key)
+                return (
+                  <tr key={line.key} className="border-b border-border/60">
+                    <td className="py-1.5 pr-2">
+                      <div className="font-medium">{line.description}</div>
+                      <div className="text-[10px] text-muted-foreground">{BOM_CATEGORY_LABELS[line.category]}</div>
+                    </td>
+                    <td className="py-1.5 pr-2">
+                      <Input
+                        aria-label={`${line.description} part number`}
+                        value={part?.partNumber ?? ""}
+                        onChange={(e) => updatePart(line.key, { partNumber: e.target.value })}
+                        onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+                        className="h-7 w-32 text-xs"
+                      />
+                    </td>
+                    <td className="py-1.5 pr-2 text-right font-mono">
+                      {line.quantity} {line.unit}
+                    </td>
+                    <td className="py-1.5 pr-2">
+                      <Input
+                        aria-label={`${line.description} spare percent`}
+                        type="number"
+                        min={0}
+                        value={part?.sparePercent ?? ""}
+                        placeholder={String(DEFAULT_SPARE_PERCENT[line.category])}
+                        onChange={(e) => handleNumberChange(line.key, "sparePercent", e.target.value)}
+                        onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+                        className="ml-auto h-7 w-16 text-right text-xs"
+                      />
+                    </td>
+                    <td className="py-1.5 pr-2 text-right font-mono">
+                      {line.totalQuantity} {line.unit}
+                    </td>
+                    <td className="py-1.5 pr-2">
+                      <Input
+                        aria-label={`${line.description} unit price`}
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={part?.unitPrice ?? ""}
+                        onChange={(e) => handleNumberChange(line.key, "unitPrice", e.target.value)}
+                        onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+                        className="ml-auto h-7 w-24 text-right text-xs"
+                      />
+                    </td>
+                    <td className="py-1.5 text-right font-mono">
+                      {line.totalPrice === null ? "-" : line.totalPrice.toFixed(2)}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </ScrollArea>
+        <div className="flex items-center justify-between border-t border-border pt-3">
+          <span className="text-sm">
+            Total: <span className="font-mono font-semibold">{totalPrice.toFixed(2)}</span>
+            {lines.some((line) => line.unitPrice === null) && (
+              <span className="ml-2 text-xs text-muted-foreground">(unpriced lines excluded)</span>
+            )}
+          </span>
+          <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={lines.length === 0}>
+            <Download className="w-4 h-4 mr-1" />
+            Export CSV
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
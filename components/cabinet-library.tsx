@@ -4,14 +4,75 @@ import type React from "react"
 
 import { useMemo, useState } from "react"
 import { useEditor } from "@/lib/editor-context"
-import type { CabinetType } from "@/lib/types"
+import type { CabinetType, CabinetTypeSpecs, ProjectMode } from "@/lib/types"
 import { getModeDefinition } from "@/lib/modes"
+import { getCabinetTypeMaxPowerW } from "@/lib/power-utils"
+import { getCabinetTypeWeightKg } from "@/lib/layout-summary"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
-import { Plus } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Pencil, Plus } from "lucide-react"
+
+const SPEC_FIELDS: { key: keyof CabinetTypeSpecs; label: string }[] = [
+  { key: "maxPowerW", label: "Max power (W)" },
+  { key: "typicalPowerW", label: "Typical (W)" },
+  { key: "weightKg", label: "Weight (kg)" },
+]
+
+// Area-based estimates shown as placeholders, since they apply whenever a spec is left empty.
+function getSpecPlaceholders(type: Partial<CabinetType>, mode: ProjectMode): Record<keyof CabinetTypeSpecs, string> {
+  if (!type.width_mm || !type.height_mm) return { maxPowerW: "", typicalPowerW: "", weightKg: "" }
+  const sized = { typeId: "", width_mm: type.width_mm, height_mm: type.height_mm }
+  return {
+    maxPowerW: `~${Math.round(getCabinetTypeMaxPowerW(sized, mode))}`,
+    typicalPowerW: "Optional",
+    weightKg: `~${getCabinetTypeWeightKg(sized, mode).toFixed(1)}`,
+  }
+}
+
+function CabinetSpecFields({
+  idPrefix,
+  specs,
+  placeholders,
+  onChange,
+  onBlur,
+}: {
+  idPrefix: string
+  specs: CabinetTypeSpecs
+  placeholders: Record<keyof CabinetTypeSpecs, string>
+  onChange: (updates: CabinetTypeSpecs) => void
+  onBlur?: () => void
+}) {
+  // An empty field clears the spec so the estimate applies again.
+  const handleChange = (key: keyof CabinetTypeSpecs, value: string) => {
+    const trimmed = value.trim()
+    const parsed = trimmed ? Number.parseFloat(trimmed) : undefined
+    if (parsed !== undefined && (!Number.isFinite(parsed) || parsed <= 0)) return
+    onChange({ [key]: parsed })
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-4">
+      {SPEC_FIELDS.map((field) => (
+        <div key={field.key} className="space-y-2">
+          <Label htmlFor={`${idPrefix}-${field.key}`}>{field.label}</Label>
+          <Input
+            id={`${idPrefix}-${field.key}`}
+            type="number"
+            min={0}
+            step={field.key === "weightKg" ? 0.1 : 1}
+            value={specs[field.key] ?? ""}
+            placeholder={placeholders[field.key]}
+            onChange={(e) => handleChange(field.key, e.target.value)}
+            onBlur={onBlur}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
 
 export function CabinetLibrary() {
   const { state, dispatch } = useEditor()
@@ -22,11 +83,13 @@ export function CabinetLibrary() {
     width_mm: 640,
     height_mm: 640,
   })
+  const [editingTypeId, setEditingTypeId] = useState<string | null>(null)
   const [draggedType, setDraggedType] = useState<string | null>(null)
   const [search, setSearch] = useState("")
   const mode = layout.project.mode ?? "indoor"
   const isOutdoorMode = mode === "outdoor"
   const modeLabel = getModeDefinition(mode).label
+  const editingType = layout.cabinetTypes.find((type) => type.typeId === editingTypeId) ?? null
   const filteredTypes = useMemo(() => {
     const query = search.trim().toLowerCase()
     const sizeMatch = query.match(/(\d+)\s*[xX]\s*(\d+)/)
@@ -109,6 +172,10 @@ export function CabinetLibrary() {
     setIsAddOpen(false)
   }
 
+  const handleSpecsChange = (typeId: string, updates: CabinetTypeSpecs) => {
+    dispatch({ type: "UPDATE_CABINET_TYPE_SPECS", payload: { typeId, updates } })
+  }
+
   const handleDragStart = (e: React.DragEvent, typeId: string) => {
     setDraggedType(typeId)
     e.dataTransfer.setData("cabinetTypeId", typeId)
@@ -178,6 +245,12 @@ export function CabinetLibrary() {
                       />
                     </div>
                   </div>
+                  <CabinetSpecFields
+                    idPrefix="new-type"
+                    specs={newType}
+                    placeholders={getSpecPlaceholders(newType, mode)}
+                    onChange={(updates) => setNewType({ ...newType, ...updates })}
+                  />
                   <Button onClick={handleAddType} className="w-full">
                     Add Type
                   </Button>
@@ -224,7 +297,22 @@ export function CabinetLibrary() {
                   <div className="flex-1">
                     <div className="text-sm font-semibold text-sidebar-foreground">{label}</div>
                     <div className="text-[10px] text-muted-foreground">{type.width_mm} x {type.height_mm} mm</div>
+                    <div className="text-[10px] text-muted-foreground">
+                      {Number.isFinite(type.maxPowerW) ? "" : "~"}
+                      {Math.round(getCabinetTypeMaxPowerW(type, mode))} W ·{" "}
+                      {Number.isFinite(type.weightKg) ? "" : "~"}
+                      {getCabinetTypeWeightKg(type, mode).toFixed(1)} kg
+                    </div>
                   </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditingTypeId(type.typeId)}
+                    className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                    title="Edit power and weight"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </Button>
                 </div>
               )
             })
@@ -232,6 +320,29 @@ export function CabinetLibrary() {
         </div>
       </ScrollArea>
 
+      <Dialog open={editingType !== null} onOpenChange={(open) => !open && setEditingTypeId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingType ? `${editingType.width_mm}x${editingType.height_mm}` : ""} Specs</DialogTitle>
+            <DialogDescription>
+              Feed loads, the PDF legend and the CAD export use these values. Leave a field empty to estimate it from
+              the cabinet area.
+            </DialogDescription>
+          </DialogHeader>
+          {editingType && (
+            <div className="pt-2">
+              <CabinetSpecFields
+                idPrefix="edit-type"
+                specs={editingType}
+                placeholders={getSpecPlaceholders(editingType, mode)}
+                onChange={(updates) => handleSpecsChange(editingType.typeId, updates)}
+                onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+              />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <div className="p-3 border-t border-sidebar-border text-xs text-muted-foreground">Drag to canvas to place</div>
     </div>
   )
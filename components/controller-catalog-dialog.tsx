@@ -0,0 +1,288 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { useEditor } from "@/lib/editor-context"
+import type { ControllerModel } from "@/lib/types"
+import {
+  DEFAULT_PER_PORT_MAX_PX,
+  getControllerCatalog,
+  getMainController,
+  isBuiltInControllerModel,
+} from "@/lib/controllers"
+import { checkControllerLibrary } from "@/lib/layout-schema"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Download, Plus, Settings2, Upload } from "lucide-react"
+
+type ModelDraft = {
+  id: string
+  ports: string
+  perPortMaxPx: string
+  totalMaxPx: string
+  maxWidthPx: string
+  maxHeightPx: string
+}
+
+const EMPTY_DRAFT: ModelDraft = {
+  id: "",
+  ports: "2",
+  perPortMaxPx: String(DEFAULT_PER_PORT_MAX_PX),
+  totalMaxPx: String(DEFAULT_PER_PORT_MAX_PX * 2),
+  maxWidthPx: "",
+  maxHeightPx: "",
+}
+
+function toDraft(model: ControllerModel): ModelDraft {
+  return {
+    id: model.id,
+    ports: String(model.ports),
+    perPortMaxPx: String(model.perPortMaxPx),
+    totalMaxPx: String(model.totalMaxPx),
+    maxWidthPx: model.maxWidthPx ? String(model.maxWidthPx) : "",
+    maxHeightPx: model.maxHeightPx ? String(model.maxHeightPx) : "",
+  }
+}
+
+function parseDraft(draft: ModelDraft): ControllerModel | string {
+  const id = draft.id.trim()
+  if (!id) return "Model name is required"
+  const ports = Number.parseInt(draft.ports)
+  const perPortMaxPx = Number.parseInt(draft.perPortMaxPx)
+  const totalMaxPx = Number.parseInt(draft.totalMaxPx)
+  if (!(ports > 0)) return "Port count must be at least 1"
+  if (!(perPortMaxPx > 0) || !(totalMaxPx > 0)) return "Pixel capacities must be positive"
+  const maxWidthPx = Number.parseInt(draft.maxWidthPx)
+  const maxHeightPx = Number.parseInt(draft.maxHeightPx)
+  return {
+    id,
+    ports,
+    perPortMaxPx,
+    totalMaxPx,
+    ...(maxWidthPx > 0 ? { maxWidthPx } : {}),
+    ...(maxHeightPx > 0 ? { maxHeightPx } : {}),
+  }
+}
+
+export function ControllerCatalogDialog() {
+  const { state, dispatch } = useEditor()
+  const { project } = state.layout
+  const catalog = getControllerCatalog(project)
+  const projectModels = project.controllerModels ?? []
+  const libraryInputRef = useRef<HTMLInputElement>(null)
+  const [isOpen, setIsOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<ModelDraft>(EMPTY_DRAFT)
+
+  const isOverridden = editingId !== null && projectModels.some((model) => model.id === editingId)
+  const isBuiltIn = editingId !== null && isBuiltInControllerModel(editingId)
+
+  const updateModels = (controllerModels: ControllerModel[]) => {
+    dispatch({ type: "UPDATE_PROJECT", payload: { controllerModels } })
+    dispatch({ type: "PUSH_HISTORY" })
+  }
+
+  const handleSelect = (model: ControllerModel | null) => {
+    setEditingId(model?.id ?? null)
+    setDraft(model ? toDraft(model) : EMPTY_DRAFT)
+  }
+
+  const handleSave = () => {
+    const parsed = parseDraft(draft)
+    if (typeof parsed === "string") {
+      alert(parsed)
+      return
+    }
+    if (parsed.id !== editingId && catalog.some((model) => model.id === parsed.id)) {
+      alert("A controller with this name already exists")
+      return
+    }
+    // Renaming a built-in adds a new model; renaming a project model replaces it.
+    const others = projectModels.filter(
+      (model) => model.id !== parsed.id && (isBuiltIn || model.id !== editingId),
+    )
+    const renamesModel = !isBuiltIn && editingId !== null && editingId !== parsed.id
+    dispatch({
+      type: "UPDATE_PROJECT",
+      payload: {
+        controllerModels: [...others, parsed],
+        ...(renamesModel
+          ? {
+              controllers: project.controllers.map((controller) =>
+                controller.model === editingId ? { ...controller, model: parsed.id } : controller,
+              ),
+            }
+          : {}),
+      },
+    })
+    dispatch({ type: "PUSH_HISTORY" })
+    setEditingId(parsed.id)
+  }
+
+  const handleRemove = () => {
+    if (!editingId) return
+    if (!isBuiltIn && project.controllers.some((controller) => controller.model === editingId)) {
+      alert("This controller is used by the project. Pick another controller first.")
+      return
+    }
+    updateModels(projectModels.filter((model) => model.id !== editingId))
+    const builtIn = isBuiltIn ? getControllerCatalog({}).find((model) => model.id === editingId) : null
+    handleSelect(builtIn ?? null)
+  }
+
+  const handleExportLibrary = () => {
+    const json = JSON.stringify({ controllerModels: projectModels }, null, 2)
+    const blob = new Blob([json], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = "controller-library.json"
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImportLibrary = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(event.target?.result as string)
+      } catch {
+        alert("Failed to parse controller library file.")
+        return
+      }
+      const { models, issues } = checkControllerLibrary(parsed)
+      if (issues.some((issue) => issue.action === "fatal")) {
+        alert("The file is not a controller library.")
+        return
+      }
+      if (issues.length > 0) {
+        const details = issues.map((issue) => `${issue.path} ${issue.message}`).join("\n")
+        if (!window.confirm(`Some entries have problems and will be skipped or repaired:\n${details}\n\nContinue?`)) {
+          return
+        }
+      }
+      const importedIds = new Set(models.map((model) => model.id))
+      updateModels([...projectModels.filter((model) => !importedIds.has(model.id)), ...models])
+    }
+    reader.readAsText(file)
+    e.target.value = ""
+  }
+
+  const renderField = (key: keyof ModelDraft, label: string, placeholder?: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`controller-${key}`} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={`controller-${key}`}
+        type={key === "id" ? "text" : "number"}
+        value={draft[key]}
+        placeholder={placeholder}
+        onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+        className="h-8 text-sm"
+      />
+    </div>
+  )
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open)
+        if (open) handleSelect(catalog.find((model) => model.id === getMainController(project).model) ?? null)
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Edit controller catalog">
+          <Settings2 className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Controller Catalog</DialogTitle>
+        </DialogHeader>
+        <div className="grid grid-cols-[11rem_1fr] gap-4">
+          <div className="space-y-2">
+            <ScrollArea className="h-64 rounded-md border border-border">
+              <div className="p-1 space-y-1">
+                {catalog.map((model) => (
+                  <button
+                    key={model.id}
+                    onClick={() => handleSelect(model)}
+                    className={`w-full rounded px-2 py-1 text-left text-xs transition-colors ${
+                      model.id === editingId ? "bg-primary/20 text-foreground" : "hover:bg-secondary"
+                    }`}
+                  >
+                    <div className="font-medium">{model.id}</div>
+                    <div className="text-[10px] text-muted-foreground">
+                      {model.ports} ports
+                      {isBuiltInControllerModel(model.id)
+                        ? projectModels.some((entry) => entry.id === model.id)
+                          ? " · edited"
+                          : " · built-in"
+                        : " · project"}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+            <Button variant="outline" size="sm" className="w-full" onClick={() => handleSelect(null)}>
+              <Plus className="w-3 h-3 mr-1" />
+              New model
+            </Button>
+          </div>
+          <div className="space-y-3">
+            {renderField("id", "Model")}
+            <div className="grid grid-cols-3 gap-3">
+              {renderField("ports", "Ports")}
+              {renderField("perPortMaxPx", "Max px / port")}
+              {renderField("totalMaxPx", "Max px total")}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {renderField("maxWidthPx", "Max width (px)", "No limit")}
+              {renderField("maxHeightPx", "Max height (px)", "No limit")}
+            </div>
+            <div className="flex items-center gap-2">
+              <Button size="sm" onClick={handleSave}>
+                {editingId ? "Save changes" : "Add model"}
+              </Button>
+              {editingId && (isOverridden || !isBuiltIn) && (
+                <Button variant="outline" size="sm" onClick={handleRemove}>
+                  {isBuiltIn ? "Restore built-in" : "Remove"}
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Models are saved with the project. Export them as a library file to share with other projects.
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center justify-end gap-2 border-t border-border pt-3">
+          <input
+            ref={libraryInputRef}
+            type="file"
+            accept=".json"
+            onChange={handleImportLibrary}
+            className="hidden"
+          />
+          <Button variant="outline" size="sm" onClick={() => libraryInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-1" />
+            Import library
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExportLibrary} disabled={projectModels.length === 0}>
+            <Download className="w-4 h-4 mr-1" />
+            Export library
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
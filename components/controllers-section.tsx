@@ -0,0 +1,173 @@
+"use client"
+
+import { useEditor } from "@/lib/editor-context"
+import type { ProjectController } from "@/lib/types"
+import { computeGridLabel } from "@/lib/types"
+import {
+  formatControllerOptionLabel,
+  getControllerCatalog,
+  getControllerDisplayLabel,
+  getControllerModel,
+  getNextControllerId,
+  getMainController,
+  isMainController,
+} from "@/lib/controllers"
+import { getControllerPixelLoad, getControllerRoutes, isControllerOverLimits } from "@/lib/data-utils"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Cpu, Plus, Trash2 } from "lucide-react"
+
+const EXTERNAL_PLACEMENT = "__external__"
+
+export function ControllersSection() {
+  const { state, dispatch } = useEditor()
+  const { layout } = state
+  const { project } = layout
+  const catalog = getControllerCatalog(project)
+  const gridLabelAxis = project.overview.gridLabelAxis ?? "columns"
+  const isOutdoorMode = (project.mode ?? "indoor") === "outdoor"
+
+  const updateControllers = (next: ProjectController[], dataRoutes = project.dataRoutes) => {
+    dispatch({ type: "UPDATE_PROJECT", payload: { controllers: next, dataRoutes } })
+    dispatch({ type: "PUSH_HISTORY" })
+  }
+
+  const handleAddController = () => {
+    const id = getNextControllerId(project)
+    updateControllers([...project.controllers, { id, model: getMainController(project).model, label: id }])
+  }
+
+  const handleUpdateController = (id: string, updates: Partial<ProjectController>) => {
+    updateControllers(
+      project.controllers.map((controller) => (controller.id === id ? { ...controller, ...updates } : controller)),
+    )
+  }
+
+  // Routes of a removed controller go back to the main controller.
+  const handleRemoveController = (id: string) => {
+    updateControllers(
+      project.controllers.filter((controller) => controller.id !== id),
+      project.dataRoutes.map((route) => (route.controllerId === id ? { ...route, controllerId: undefined } : route)),
+    )
+  }
+
+  const handlePlacementChange = (id: string, value: string) => {
+    handleUpdateController(
+      id,
+      value === EXTERNAL_PLACEMENT
+        ? { placement: "external", cabinetId: undefined }
+        : { placement: "cabinet", cabinetId: value },
+    )
+  }
+
+  const renderLoadLine = (controller: ProjectController) => {
+    const limits = getControllerModel(project, controller.model)
+    const load = getControllerPixelLoad(layout, controller.id)
+    const usedPorts = getControllerRoutes(project, controller.id).length
+    const isOver = isControllerOverLimits(layout, controller.id) || usedPorts > limits.ports
+    return (
+      <div className={`text-xs ${isOver ? "text-red-400" : "text-zinc-500"}`}>
+        {usedPorts}/{limits.ports} ports · {load.toLocaleString()} px / {limits.totalMaxPx.toLocaleString()} px
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+          <Cpu className="w-3 h-3 text-blue-500" />
+          Controllers
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleAddController}
+          title="Add a controller"
+          className="h-7 px-2 transition-transform duration-150 hover:scale-105 active:scale-95"
+        >
+          <Plus className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {project.controllers.map((controller) => {
+        if (isMainController(project, controller.id)) {
+          return (
+            <div key={controller.id} className="rounded-xl border border-zinc-800 bg-zinc-900/60 p-3 space-y-1">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-semibold text-zinc-100">{getControllerDisplayLabel(controller)}</div>
+                <span className="text-[11px] text-zinc-500">Main · {controller.model}</span>
+              </div>
+              {renderLoadLine(controller)}
+            </div>
+          )
+        }
+        const placementValue =
+          controller.placement === "cabinet" && controller.cabinetId ? controller.cabinetId : EXTERNAL_PLACEMENT
+        return (
+          <div key={controller.id} className="rounded-xl border border-zinc-800 bg-zinc-900/60 p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                aria-label="Controller label"
+                value={controller.label ?? ""}
+                placeholder={controller.model}
+                onChange={(e) =>
+                  dispatch({
+                    type: "UPDATE_PROJECT",
+                    payload: {
+                      controllers: project.controllers.map((entry) =>
+                        entry.id === controller.id ? { ...entry, label: e.target.value } : entry,
+                      ),
+                    },
+                  })
+                }
+                className="h-7 flex-1 text-xs bg-zinc-950/60 border-zinc-800 text-zinc-100"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemoveController(controller.id)}
+                className="h-7 w-7 p-0 text-zinc-400 hover:text-red-400"
+                title="Remove controller"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={controller.model}
+                onValueChange={(value) => handleUpdateController(controller.id, { model: value })}
+              >
+                <SelectTrigger className="h-7 text-xs bg-zinc-950/60 border-zinc-800 text-zinc-100">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {catalog.map((model) => (
+                    <SelectItem key={model.id} value={model.id}>
+                      {formatControllerOptionLabel(model)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={placementValue} onValueChange={(value) => handlePlacementChange(controller.id, value)}>
+                <SelectTrigger className="h-7 text-xs bg-zinc-950/60 border-zinc-800 text-zinc-100">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={EXTERNAL_PLACEMENT}>{isOutdoorMode ? "External LV box" : "External"}</SelectItem>
+                  {layout.cabinets.map((cabinet) => (
+                    <SelectItem key={cabinet.id} value={cabinet.id}>
+                      In {computeGridLabel(cabinet, layout.cabinets, layout.cabinetTypes, gridLabelAxis)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {renderLoadLine(controller)}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -9,62 +9,103 @@ import { Label } from "@/components/ui/label"
 import { Separator } from "@/components/ui/separator"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Plus, Trash2, Zap, Cable, Wand2, MousePointer, X, RotateCcw } from "lucide-react"
-import type { DataRoute, DataRouteStep, LayoutData, PowerFeed } from "@/lib/types"
+import { Plus, Trash2, Zap, Cable, Wand2, MousePointer, X, RotateCcw, Repeat } from "lucide-react"
+import type { CablingSettings, DataRoute, DataRouteStep, PowerFeed, PowerPhase } from "@/lib/types"
 import {
   computeGridLabel,
-  formatRouteCabinetId,
   getCabinetReceiverCardCount,
   parseRouteCabinetId,
 } from "@/lib/types"
 import {
-  getBreakerMaxW,
   getPowerFeedLoadW,
+  getPowerFeedMaxChain,
+  getPowerFeedMaxW,
   shouldSyncPowerFeedLabelToBreaker,
 } from "@/lib/power-utils"
 import {
   getControllerLimits,
+  getBackupDataRoutes,
+  getBackupRouteEndpointIds,
+  getControllerRoutes,
   getDataRouteLoadPx,
   getLayoutPixelLoad,
+  getRoutePortCapacityPx,
+  isBackupRouteInSync,
+  isControllerOverLimits,
   isDataRouteOverCapacity,
-  isLayoutOverControllerLimits,
 } from "@/lib/data-utils"
 import { getEffectivePitchMm } from "@/lib/pitch-utils"
 import { resolveControllerCabinetId } from "@/lib/controller-utils"
+import { requestCanvasFocus } from "@/lib/canvas-focus"
+import {
+  getControllerDisplayLabel,
+  getControllerModel,
+  getControllerUpgradeOrder,
+  getDataRoutePortLabel,
+  getMainController,
+  getProjectController,
+  getRouteControllerId,
+  hasMultipleControllers,
+  isMainController,
+  updateMainController,
+} from "@/lib/controllers"
 import { getTotalizedPixelMatrixDimensions } from "@/lib/pixel-matrix"
+import { formatBreakerOptionLabel, getBreakerCatalog, getConnectorCatalog } from "@/lib/electrical-catalog"
+import { POWER_PHASES, balanceFeedPhases, getDistroDisplayLabel, getPowerDistros } from "@/lib/power-phases"
+import {
+  ETHERNET_MAX_RUN_MM,
+  formatCableLength,
+  getCablingSettings,
+  getDataRouteCabling,
+} from "@/lib/cable-lengths"
+import { ControllersSection } from "@/components/controllers-section"
+import { AutoRouteDialog } from "@/components/auto-route-dialog"
+import { PowerDistrosSection } from "@/components/power-distros-section"
+import { ElectricalCatalogDialog } from "@/components/electrical-catalog-dialog"
+
+const NO_PHASE = "__none__"
 
 export function DataRoutesPanel() {
   const { state, dispatch } = useEditor()
   const { layout, routingMode } = state
-  const { dataRoutes, powerFeeds, controller } = layout.project
+  const { dataRoutes, powerFeeds } = layout.project
+  const mainController = getMainController(layout.project)
+  const controller = mainController.model
+  const powerDistros = getPowerDistros(layout.project)
+  const breakerCatalog = getBreakerCatalog(layout.project)
+  const connectorCatalog = getConnectorCatalog(layout.project)
   const powerMode = layout.project.mode ?? "indoor"
   const gridLabelAxis = layout.project.overview.gridLabelAxis ?? "columns"
   const activeRoute = routingMode.type === "data" ? dataRoutes.find((r) => r.id === routingMode.routeId) : null
 
-  const controllerPorts: Record<LayoutData["project"]["controller"], number> = {
-    A100: 2,
-    A200: 4,
-    "TB-50": 2,
-    X8E: 8,
-  }
-  const controllerOrder: LayoutData["project"]["controller"][] = ["A100", "TB-50", "A200", "X8E"]
-  const maxPorts = controllerPorts[controller]
-  const maxUsedPort = dataRoutes.reduce((max, route) => Math.max(max, route.port), 0)
+  const controllerModel = getControllerModel(layout.project, controller)
+  const controllerOrder = getControllerUpgradeOrder(layout.project)
+  const projectControllers = layout.project.controllers
+  const isMultiController = hasMultipleControllers(layout.project)
+  const maxPorts = controllerModel.ports
+  const totalPorts = projectControllers.reduce(
+    (sum, entry) => sum + getControllerModel(layout.project, entry.model).ports,
+    0,
+  )
+  const mainRoutes = getControllerRoutes(layout.project, mainController.id)
+  const maxUsedPort = mainRoutes.reduce((max, route) => Math.max(max, route.port), 0)
   const invalidPorts = maxUsedPort > maxPorts
   const portUpgradeTarget = invalidPorts
-    ? controllerOrder.find((type) => controllerPorts[type] >= maxUsedPort) ?? null
+    ? controllerOrder.find((model) => model.ports >= maxUsedPort)?.id ?? null
     : null
   const pitchMm = layout.project.pitch_mm
   const effectivePitchMm = getEffectivePitchMm(pitchMm)
-  const controllerLimits = getControllerLimits(controller)
+  const controllerLimits = getControllerLimits(layout.project)
   const totalPixelLoad = getLayoutPixelLoad(layout.cabinets, layout.cabinetTypes, effectivePitchMm)
-  const isOverCurrent = isLayoutOverControllerLimits(layout, controller)
+  const isOverCurrent = isControllerOverLimits(layout, mainController.id)
   const capacityUpgradeTarget = isOverCurrent
     ? controllerOrder.find(
-        (type) => type !== controller && !isLayoutOverControllerLimits(layout, type),
-      ) ?? null
+        (model) => model.id !== controller && !isControllerOverLimits(layout, mainController.id, model.id),
+      )?.id ?? null
     : null
   const matrix = getTotalizedPixelMatrixDimensions(layout)
+  const cablingSettings = getCablingSettings(layout.project)
+  const routeCabling = dataRoutes.map((route) => getDataRouteCabling(layout, route))
   const layoutWidthPx = matrix.widthPx
   const layoutHeightPx = matrix.heightPx
   const routingBannerClass =
@@ -83,12 +124,6 @@ export function DataRoutesPanel() {
   const [pendingScrollTarget, setPendingScrollTarget] = useState<
     { type: "data-route" | "power-feed"; id: string } | null
   >(null)
-  const requestCanvasFocus = (entity: "data-route" | "power-feed", id: string) => {
-    if (typeof window === "undefined") return
-    window.requestAnimationFrame(() => {
-      window.dispatchEvent(new CustomEvent("layout:focus-route", { detail: { entity, id } }))
-    })
-  }
 
   useEffect(() => {
     if (!pendingScrollTarget) return
@@ -138,359 +173,36 @@ export function DataRoutesPanel() {
     return `${label}${suffix}`
   }
 
-  const handleAutoRoute = () => {
-    if (layout.cabinets.length === 0) return
-
-    type RoutedCabinet = {
-      cabinet: (typeof layout.cabinets)[0]
-      cardCount: 0 | 1 | 2
-      centerX: number
-      centerY: number
-      bounds: NonNullable<ReturnType<typeof getCabinetBounds>>
-    }
-
-    // Get cabinet positions and group by columns
-    const cabinetsWithBounds = layout.cabinets
-      .map((c) => {
-        const bounds = getCabinetBounds(c, layout.cabinetTypes)
-        if (!bounds) return null
-        const cardCount = getCabinetReceiverCardCount(c)
-        if (cardCount === 0) return null
-        return {
-          cabinet: c,
-          cardCount,
-          centerX: bounds.x + bounds.width / 2,
-          centerY: bounds.y + bounds.height / 2,
-          bounds,
-        }
-      })
-      .filter(Boolean) as RoutedCabinet[]
-
-    if (powerMode === "outdoor") {
-      const areConnected = (
-        a: { x: number; y: number; width: number; height: number },
-        b: { x: number; y: number; width: number; height: number },
-      ) => {
-        const tolerance = 1
-        const ax2 = a.x + a.width
-        const ay2 = a.y + a.height
-        const bx2 = b.x + b.width
-        const by2 = b.y + b.height
-        const overlapX = a.x < bx2 && ax2 > b.x
-        const overlapY = a.y < by2 && ay2 > b.y
-        if (overlapX && overlapY) return true
-        const horizontalTouch =
-          (Math.abs(ax2 - b.x) <= tolerance || Math.abs(bx2 - a.x) <= tolerance) && !(ay2 <= b.y || by2 <= a.y)
-        const verticalTouch =
-          (Math.abs(ay2 - b.y) <= tolerance || Math.abs(by2 - a.y) <= tolerance) && !(ax2 <= b.x || bx2 <= a.x)
-        return horizontalTouch || verticalTouch
-      }
-
-      const groups: RoutedCabinet[][] = []
-      const visited = new Array(cabinetsWithBounds.length).fill(false)
-      for (let i = 0; i < cabinetsWithBounds.length; i++) {
-        if (visited[i]) continue
-        visited[i] = true
-        const queue = [i]
-        const group: RoutedCabinet[] = []
-        while (queue.length > 0) {
-          const current = queue.shift()
-          if (current === undefined) continue
-          const currentItem = cabinetsWithBounds[current]
-          group.push(currentItem)
-          for (let j = 0; j < cabinetsWithBounds.length; j++) {
-            if (visited[j]) continue
-            if (!areConnected(currentItem.bounds, cabinetsWithBounds[j].bounds)) {
-              continue
-            }
-            visited[j] = true
-            queue.push(j)
-          }
-        }
-        if (group.length > 0) groups.push(group)
-      }
-
-      // Outdoor auto-route must anchor from the LV-box cabinet (bottom-right fallback),
-      // regardless of current controller placement mode.
-      const controllerCabinetId = resolveControllerCabinetId(
-        "outdoor",
-        "cabinet",
-        layout.project.controllerCabinetId,
-        layout.cabinets,
-        layout.cabinetTypes,
-      )
-      const appendCardEndpoints = (
-        target: string[],
-        item: RoutedCabinet,
-        reversed: boolean,
-      ) => {
-        if (item.cardCount === 1) {
-          target.push(item.cabinet.id)
-          return
-        }
-        const cardOrder = reversed ? [0, 1] : [1, 0]
-        cardOrder.forEach((index) => {
-          if (index >= item.cardCount) return
-          target.push(formatRouteCabinetId(item.cabinet.id, index))
-        })
-      }
-
-      const rowTolerance = 100
-      const orderedEndpointIds: string[] = []
-      const anchorSourceItem = controllerCabinetId
-        ? cabinetsWithBounds.find((item) => item.cabinet.id === controllerCabinetId)
-        : undefined
-      let anchorX = anchorSourceItem?.centerX ?? Number.POSITIVE_INFINITY
-      let anchorY = anchorSourceItem?.centerY ?? Number.POSITIVE_INFINITY
-      const layoutCenterX =
-        cabinetsWithBounds.length > 0
-          ? (Math.min(...cabinetsWithBounds.map((item) => item.centerX)) +
-              Math.max(...cabinetsWithBounds.map((item) => item.centerX))) /
-            2
-          : 0
-      const lvSide: "left" | "right" =
-        anchorSourceItem && anchorSourceItem.centerX < layoutCenterX ? "left" : "right"
-      const primaryGroupIndex = groups.findIndex((group) =>
-        group.some((item) => item.cabinet.id === controllerCabinetId),
-      )
-      const remainingGroups = [...groups]
-      const orderedGroups: RoutedCabinet[][] = []
-      if (primaryGroupIndex >= 0) {
-        const [primary] = remainingGroups.splice(primaryGroupIndex, 1)
-        orderedGroups.push(primary)
-      }
-
-      while (remainingGroups.length > 0) {
-        let bestIndex = 0
-        if (Number.isFinite(anchorX) && Number.isFinite(anchorY)) {
-          let bestDistance = Number.POSITIVE_INFINITY
-          for (let i = 0; i < remainingGroups.length; i++) {
-            const group = remainingGroups[i]
-            const distance = group.reduce((best, item) => {
-              const dx = item.centerX - anchorX
-              const dy = item.centerY - anchorY
-              const d = dx * dx + dy * dy
-              return d < best ? d : best
-            }, Number.POSITIVE_INFINITY)
-            if (distance < bestDistance) {
-              bestDistance = distance
-              bestIndex = i
-            }
-          }
-        } else {
-          for (let i = 1; i < remainingGroups.length; i++) {
-            const current = remainingGroups[i]
-            const best = remainingGroups[bestIndex]
-            const currentMaxY = Math.max(...current.map((item) => item.centerY))
-            const bestMaxY = Math.max(...best.map((item) => item.centerY))
-            if (currentMaxY > bestMaxY) {
-              bestIndex = i
-            }
-          }
-        }
-        const [nextGroup] = remainingGroups.splice(bestIndex, 1)
-        orderedGroups.push(nextGroup)
-      }
-
-      orderedGroups.forEach((group, groupIndex) => {
-        const rows: RoutedCabinet[][] = []
-        group.forEach((item) => {
-          const existing = rows.find((row) => row.length > 0 && Math.abs(row[0].centerY - item.centerY) < rowTolerance)
-          if (existing) {
-            existing.push(item)
-          } else {
-            rows.push([item])
-          }
-        })
-        rows.forEach((row) => row.sort((a, b) => a.centerX - b.centerX))
-
-        const orderedRows: RoutedCabinet[][] = []
-        const remainingRows = [...rows]
-        let currentY = Number.isFinite(anchorY)
-          ? anchorY
-          : Math.max(...group.map((item) => item.centerY))
-        while (remainingRows.length > 0) {
-          let bestIndex = 0
-          let bestDistance = Math.abs(remainingRows[0][0].centerY - currentY)
-          for (let i = 1; i < remainingRows.length; i++) {
-            const distance = Math.abs(remainingRows[i][0].centerY - currentY)
-            if (distance < bestDistance) {
-              bestDistance = distance
-              bestIndex = i
-            }
-          }
-          const [nextRow] = remainingRows.splice(bestIndex, 1)
-          orderedRows.push(nextRow)
-          currentY = nextRow[0].centerY
-        }
-
-        let firstRowLeftX = Number.POSITIVE_INFINITY
-        let firstRowRightX = Number.NEGATIVE_INFINITY
-        orderedRows[0].forEach((item) => {
-          firstRowLeftX = Math.min(firstRowLeftX, item.centerX)
-          firstRowRightX = Math.max(firstRowRightX, item.centerX)
-        })
-        const startLtr =
-          !Number.isFinite(anchorX) ||
-          Math.abs(anchorX - firstRowLeftX) <= Math.abs(anchorX - firstRowRightX)
-
-        const buildTraversal = (candidateStartLtr: boolean) => {
-          const visited: Array<{ item: RoutedCabinet; reversed: boolean }> = []
-          let lastItem: RoutedCabinet | null = null
-          for (let rowIndex = 0; rowIndex < orderedRows.length; rowIndex++) {
-            const row = orderedRows[rowIndex]
-            const rowLtr = rowIndex % 2 === 0 ? candidateStartLtr : !candidateStartLtr
-            const isReversed = !rowLtr
-            const orderedRowItems = isReversed ? [...row].reverse() : [...row]
-            for (const item of orderedRowItems) {
-              visited.push({ item, reversed: isReversed })
-              lastItem = item
-            }
-          }
-          return { visited, lastItem }
-        }
-
-        let chosenStartLtr = startLtr
-        const isPrimaryGroup =
-          !!controllerCabinetId && group.some((item) => item.cabinet.id === controllerCabinetId)
-        const hasNextGroup = groupIndex < orderedGroups.length - 1
-        if (hasNextGroup && !isPrimaryGroup) {
-          const groupMinX = Math.min(...group.map((item) => item.centerX))
-          const groupMaxX = Math.max(...group.map((item) => item.centerX))
-          const preferredExitX = lvSide === "right" ? groupMinX : groupMaxX
-
-          const optionLtr = buildTraversal(true)
-          const optionRtl = buildTraversal(false)
-          const ltrDistance = optionLtr.lastItem
-            ? Math.abs(optionLtr.lastItem.centerX - preferredExitX)
-            : Number.POSITIVE_INFINITY
-          const rtlDistance = optionRtl.lastItem
-            ? Math.abs(optionRtl.lastItem.centerX - preferredExitX)
-            : Number.POSITIVE_INFINITY
-          chosenStartLtr = ltrDistance <= rtlDistance
-        }
-
-        const chosenTraversal = buildTraversal(chosenStartLtr)
-        for (const step of chosenTraversal.visited) {
-          appendCardEndpoints(orderedEndpointIds, step.item, step.reversed)
-        }
-
-        const lastVisitedItem = chosenTraversal.lastItem
-        if (lastVisitedItem) {
-          anchorX = lastVisitedItem.centerX
-          anchorY = lastVisitedItem.centerY
-        }
-      })
-
-      const newRoutes: DataRoute[] =
-        orderedEndpointIds.length > 0
-          ? [
-              {
-                id: "route-1",
-                port: 1,
-                cabinetIds: orderedEndpointIds,
-              },
-            ]
-          : []
-
-      layout.project.dataRoutes.forEach((r) => {
-        dispatch({ type: "DELETE_DATA_ROUTE", payload: r.id })
-      })
-      newRoutes.forEach((route) => {
-        dispatch({ type: "ADD_DATA_ROUTE", payload: route })
-      })
-      dispatch({ type: "PUSH_HISTORY" })
-      return
-    }
-
-    // Group by columns (X position with tolerance)
-    const tolerance = 100
-    const columns: (typeof cabinetsWithBounds)[] = []
-
-    cabinetsWithBounds.forEach((item) => {
-      const existingCol = columns.find((col) => col.length > 0 && Math.abs(col[0].centerX - item.centerX) < tolerance)
-      if (existingCol) {
-        existingCol.push(item)
-      } else {
-        columns.push([item])
-      }
-    })
-
-    // Sort columns left to right
-    columns.sort((a, b) => a[0].centerX - b[0].centerX)
-    // Order each column bottom -> top (higher Y is lower on the canvas)
-    columns.forEach((col) => col.sort((a, b) => b.centerY - a.centerY))
-
-    // Distribute columns across available ports
-    const newRoutes: DataRoute[] = []
-    const portsToUse = Math.min(maxPorts, columns.length)
-
-    for (let portIndex = 0; portIndex < portsToUse; portIndex++) {
-      const colsPerPort = Math.ceil(columns.length / portsToUse)
-      const startCol = portIndex * colsPerPort
-      const endCol = Math.min(startCol + colsPerPort, columns.length)
-
-      const cabinetIds: string[] = []
-      for (let c = startCol; c < endCol; c++) {
-        // Alternate direction for snake pattern
-        const isReversed = (c - startCol) % 2 === 1
-        const colCabinets = [...columns[c]]
-        if (isReversed) {
-          colCabinets.reverse()
-        }
-        const cardOrder = isReversed ? [0, 1] : [1, 0]
-
-        colCabinets.forEach((item) => {
-          if (item.cardCount === 1) {
-            cabinetIds.push(item.cabinet.id)
-            return
-          }
-          cardOrder.forEach((index) => {
-            if (index >= item.cardCount) return
-            cabinetIds.push(formatRouteCabinetId(item.cabinet.id, index))
-          })
-        })
-      }
-
-      if (cabinetIds.length > 0) {
-        newRoutes.push({
-          id: `route-${portIndex + 1}`,
-          port: portIndex + 1,
-          cabinetIds,
-        })
-      }
-    }
-
-    // Clear existing routes
-    layout.project.dataRoutes.forEach((r) => {
-      dispatch({ type: "DELETE_DATA_ROUTE", payload: r.id })
-    })
-
-    // Add new routes
-    newRoutes.forEach((route) => {
-      dispatch({ type: "ADD_DATA_ROUTE", payload: route })
-    })
-
-    dispatch({ type: "PUSH_HISTORY" })
+  const getFreePort = (controllerId: string, excludeRouteId?: string) => {
+    const ports = getControllerModel(layout.project, getProjectController(layout.project, controllerId).model).ports
+    const usedPorts = new Set(
+      getControllerRoutes(layout.project, controllerId)
+        .filter((route) => route.id !== excludeRouteId)
+        .map((route) => route.port),
+    )
+    let nextPort = 1
+    while (usedPorts.has(nextPort) && nextPort <= ports) nextPort++
+    return nextPort > ports ? null : nextPort
   }
 
   const handleAddRoute = () => {
-    const usedPorts = new Set(dataRoutes.map((r) => r.port))
-    let nextPort = 1
-    while (usedPorts.has(nextPort) && nextPort <= maxPorts) nextPort++
-
-    if (nextPort > maxPorts) return
+    // Fill the main controller first, then the extra controllers in order.
+    const target = projectControllers
+      .map((entry) => ({ controllerId: entry.id, port: getFreePort(entry.id) }))
+      .find((candidate) => candidate.port !== null)
+    if (!target || target.port === null) return
 
     const newRoute: DataRoute = {
       id: `route-${Date.now()}`,
-      port: nextPort,
+      port: target.port,
       cabinetIds: [],
+      ...(isMainController(layout.project, target.controllerId) ? {} : { controllerId: target.controllerId }),
     }
     dispatch({ type: "ADD_DATA_ROUTE", payload: newRoute })
     dispatch({ type: "PUSH_HISTORY" })
     setRecentRouteId(newRoute.id)
     setPendingScrollTarget({ type: "data-route", id: newRoute.id })
-    requestCanvasFocus("data-route", newRoute.id)
+    requestCanvasFocus({ entity: "data-route", id: newRoute.id })
   }
 
   const handleDeleteRoute = (id: string) => {
@@ -502,6 +214,58 @@ export function DataRoutesPanel() {
     dispatch({ type: "PUSH_HISTORY" })
   }
 
+  // Backups take a free port on the primary's controller first, then on any other controller.
+  const handleAddBackupRoute = (primary: DataRoute) => {
+    const primaryControllerId = getRouteControllerId(layout.project, primary)
+    const target = [primaryControllerId, ...projectControllers.map((entry) => entry.id)]
+      .map((controllerId) => ({ controllerId, port: getFreePort(controllerId) }))
+      .find((candidate) => candidate.port !== null)
+    if (!target || target.port === null) {
+      alert("No free controller port left for a backup loop.")
+      return
+    }
+    const backup: DataRoute = {
+      id: `route-${Date.now()}`,
+      port: target.port,
+      cabinetIds: getBackupRouteEndpointIds(primary),
+      backupForRouteId: primary.id,
+      ...(isMainController(layout.project, target.controllerId) ? {} : { controllerId: target.controllerId }),
+    }
+    dispatch({ type: "ADD_DATA_ROUTE", payload: backup })
+    dispatch({ type: "PUSH_HISTORY" })
+    setRecentRouteId(backup.id)
+    setPendingScrollTarget({ type: "data-route", id: backup.id })
+  }
+
+  const handleMirrorPrimaryRoute = (backup: DataRoute, primary: DataRoute) => {
+    dispatch({
+      type: "UPDATE_DATA_ROUTE",
+      payload: {
+        id: backup.id,
+        updates: { cabinetIds: getBackupRouteEndpointIds(primary), steps: undefined, manualMode: false },
+      },
+    })
+    dispatch({ type: "PUSH_HISTORY" })
+  }
+
+  // Keeps the port when it is free on the new controller, otherwise takes the first free one.
+  const handleRouteControllerChange = (route: DataRoute, controllerId: string) => {
+    const usedPorts = new Set(
+      getControllerRoutes(layout.project, controllerId)
+        .filter((entry) => entry.id !== route.id)
+        .map((entry) => entry.port),
+    )
+    const port = usedPorts.has(route.port) ? getFreePort(controllerId, route.id) ?? route.port : route.port
+    dispatch({
+      type: "UPDATE_DATA_ROUTE",
+      payload: {
+        id: route.id,
+        updates: { controllerId: isMainController(layout.project, controllerId) ? undefined : controllerId, port },
+      },
+    })
+    dispatch({ type: "PUSH_HISTORY" })
+  }
+
   const handleStartRouting = (routeId: string) => {
     dispatch({ type: "SET_ROUTING_MODE", payload: { type: "data", routeId } })
   }
@@ -627,6 +391,15 @@ export function DataRoutesPanel() {
     dispatch({ type: "UPDATE_POWER_FEED", payload: { id, updates: { loadOverrideW: parsed } } })
   }
 
+  const handleCablingChange = (key: keyof CablingSettings, value: string) => {
+    const parsed = Number.parseFloat(value)
+    if (!Number.isFinite(parsed) || parsed < 0) return
+    dispatch({
+      type: "UPDATE_PROJECT",
+      payload: { cabling: { ...cablingSettings, [key]: Math.round(parsed * 1000) } },
+    })
+  }
+
   const handleAddPowerFeed = () => {
     const newFeed: PowerFeed = {
       id: `feed-${Date.now()}`,
@@ -641,7 +414,7 @@ export function DataRoutesPanel() {
     dispatch({ type: "PUSH_HISTORY" })
     setRecentFeedId(newFeed.id)
     setPendingScrollTarget({ type: "power-feed", id: newFeed.id })
-    requestCanvasFocus("power-feed", newFeed.id)
+    requestCanvasFocus({ entity: "power-feed", id: newFeed.id })
   }
 
   const handleDeletePowerFeed = (id: string) => {
@@ -663,6 +436,12 @@ export function DataRoutesPanel() {
     })
   }
 
+  const handlePowerFeedPhaseChange = (feedId: string, value: string) => {
+    const [distroId, phase] = value === NO_PHASE ? [] : value.split(":")
+    handleUpdatePowerFeed(feedId, { distroId, phase: phase as PowerPhase | undefined })
+    dispatch({ type: "PUSH_HISTORY" })
+  }
+
   const handleStartPowerRouting = (feedId: string) => {
     dispatch({ type: "SET_ROUTING_MODE", payload: { type: "power", feedId } })
   }
@@ -703,6 +482,7 @@ export function DataRoutesPanel() {
       consumptionW: 0,
       assignedCabinetIds: [],
       connectLvBox: false,
+      distroId: defaultTemplate?.distroId,
     })
 
     const workingFeeds: PowerFeed[] = powerFeeds.length > 0 ? powerFeeds.map((feed) => ({ ...feed })) : []
@@ -735,6 +515,11 @@ export function DataRoutesPanel() {
       ]),
     )
 
+    // A feed takes cabinets until its breaker/connector watts or the connector's chain length would be exceeded.
+    const fitsOnFeed = (feed: PowerFeed, loadW: number, cabinetCount: number) =>
+      loadW <= (getPowerFeedMaxW(layout.project, feed) ?? Number.POSITIVE_INFINITY) &&
+      cabinetCount <= (getPowerFeedMaxChain(layout.project, feed) ?? Number.POSITIVE_INFINITY)
+
     if (powerMode === "outdoor") {
       const rowTolerance = 100
       const colTolerance = 100
@@ -778,7 +563,7 @@ export function DataRoutesPanel() {
       const controllerCabinetId = resolveControllerCabinetId(
         "outdoor",
         "cabinet",
-        layout.project.controllerCabinetId,
+        mainController.cabinetId,
         layout.cabinets,
         layout.cabinetTypes,
       )
@@ -860,12 +645,10 @@ export function DataRoutesPanel() {
             const cabinetLoadW = cabinetLoadWById.get(cabinetId) ?? 0
             ensureFeed(laneFeedIndex)
             const feed = workingFeeds[laneFeedIndex]
-            const maxW = getBreakerMaxW(feed.breaker)
-            const maxLoadW = maxW ?? Number.POSITIVE_INFINITY
             const nextLoadW = feedLoads[laneFeedIndex] + cabinetLoadW
             const isEmptyFeed = assignedByFeed[laneFeedIndex].length === 0
 
-            if (!(nextLoadW <= maxLoadW || isEmptyFeed)) {
+            if (!(fitsOnFeed(feed, nextLoadW, assignedByFeed[laneFeedIndex].length + 1) || isEmptyFeed)) {
               laneFeedIndex += 1
               ensureFeed(laneFeedIndex)
             }
@@ -910,12 +693,10 @@ export function DataRoutesPanel() {
         while (true) {
           ensureFeed(activeFeedIndex)
           const feed = workingFeeds[activeFeedIndex]
-          const maxW = getBreakerMaxW(feed.breaker)
-          const maxLoadW = maxW ?? Number.POSITIVE_INFINITY
           const nextLoadW = feedLoads[activeFeedIndex] + cabinetLoadW
           const isEmptyFeed = assignedByFeed[activeFeedIndex].length === 0
 
-          if (nextLoadW <= maxLoadW || isEmptyFeed) {
+          if (fitsOnFeed(feed, nextLoadW, assignedByFeed[activeFeedIndex].length + 1) || isEmptyFeed) {
             assignedByFeed[activeFeedIndex].push(cabinetId)
             feedLoads[activeFeedIndex] = nextLoadW
             break
@@ -930,6 +711,16 @@ export function DataRoutesPanel() {
       dispatch({ type: "ADD_POWER_FEED", payload: workingFeeds[index] })
     }
 
+    // With distros set up, spread the packed feeds across phases by watts.
+    const phaseAssignments = balanceFeedPhases(
+      powerDistros,
+      workingFeeds.flatMap((feed, index) =>
+        (assignedByFeed[index] ?? []).length > 0
+          ? [{ id: feed.id, distroId: feed.distroId, loadW: feedLoads[index] ?? 0 }]
+          : [],
+      ),
+    )
+
     workingFeeds.forEach((feed, index) => {
       const assignedCabinetIds = assignedByFeed[index] ?? []
       const existingFeed = feedLookup.get(feed.id)
@@ -943,6 +734,7 @@ export function DataRoutesPanel() {
           updates: {
             assignedCabinetIds,
             connectLvBox: false,
+            ...phaseAssignments.get(feed.id),
             steps: isManual
               ? assignedCabinetIds.map((cabinetId) => ({ type: "cabinet", endpointId: cabinetId }))
               : existingSteps,
@@ -996,6 +788,10 @@ export function DataRoutesPanel() {
             </div>
           </div>
         )}
+        <ControllersSection />
+
+        <Separator className="bg-zinc-700" />
+
         {/* Data Routes Section */}
         <div className="space-y-3">
           <div className="flex items-center justify-between">
@@ -1015,21 +811,12 @@ export function DataRoutesPanel() {
                 <RotateCcw className="w-3 h-3 mr-1" />
                 Reset
               </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={handleAutoRoute}
-                title="Auto-route cabinets"
-                className="h-7 px-2 text-xs text-blue-100 hover:text-blue-50"
-              >
-                <Wand2 className="w-3 h-3 mr-1" />
-                Auto
-              </Button>
+              <AutoRouteDialog />
               <Button
                 variant="ghost"
                 size="sm"
                 onClick={handleAddRoute}
-                disabled={dataRoutes.length >= maxPorts}
+                disabled={dataRoutes.length >= totalPorts}
                 className="h-7 px-2 transition-transform duration-150 hover:scale-105 active:scale-95"
               >
                 <Plus className="w-3 h-3" />
@@ -1038,12 +825,15 @@ export function DataRoutesPanel() {
           </div>
 
           <p className="text-xs text-zinc-500">
-            {controller}: {maxPorts} ports. Use Route to build a chain, or Auto for a quick snake pass.
-          </p>
-          <p className="text-xs text-zinc-500">
-            Total load: {totalPixelLoad.toLocaleString()} px / {controllerLimits.totalMaxPx.toLocaleString()} px
+            {isMultiController ? `${projectControllers.length} controllers: ${totalPorts}` : `${controller}: ${maxPorts}`}{" "}
+            ports. Use Route to build a chain, or Auto for a quick snake pass.
           </p>
-          {controllerLimits.maxWidthPx && controllerLimits.maxHeightPx && (
+          {!isMultiController && (
+            <p className="text-xs text-zinc-500">
+              Total load: {totalPixelLoad.toLocaleString()} px / {controllerLimits.totalMaxPx.toLocaleString()} px
+            </p>
+          )}
+          {!isMultiController && controllerLimits.maxWidthPx && controllerLimits.maxHeightPx && (
             <p
               className={`text-xs ${
                 layoutWidthPx > controllerLimits.maxWidthPx || layoutHeightPx > controllerLimits.maxHeightPx
@@ -1054,6 +844,33 @@ export function DataRoutesPanel() {
               Max dims: {controllerLimits.maxWidthPx} x {controllerLimits.maxHeightPx} px
             </p>
           )}
+          <div className="grid grid-cols-3 gap-2">
+            {(
+              [
+                ["jumperSlackMm", "Jumper slack (m)"],
+                ["serviceLoopMm", "Service loop (m)"],
+                ["controllerDistanceMm", "To controller (m)"],
+              ] as const
+            ).map(([key, label]) => (
+              <div key={key} className="space-y-1">
+                <Label className="text-[11px] text-zinc-400">{label}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={cablingSettings[key] / 1000}
+                  onChange={(e) => handleCablingChange(key, e.target.value)}
+                  onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+                  className="h-7 text-xs bg-zinc-950/60 border-zinc-800 text-zinc-100"
+                />
+              </div>
+            ))}
+          </div>
+          {dataRoutes.length > 0 && (
+            <p className="text-xs text-zinc-500">
+              Data cable: {formatCableLength(routeCabling.reduce((sum, cabling) => sum + cabling.totalMm, 0))} estimated
+            </p>
+          )}
           {invalidPorts && (
             <div className="flex items-center justify-between rounded-md border border-red-500/40 bg-red-500/10 px-2 py-1 text-xs text-red-300">
               <span>
@@ -1064,7 +881,14 @@ export function DataRoutesPanel() {
                 <Button
                   variant="secondary"
                   size="sm"
-                  onClick={() => dispatch({ type: "UPDATE_PROJECT", payload: { controller: portUpgradeTarget } })}
+                  onClick={() =>
+                    dispatch({
+                      type: "UPDATE_PROJECT",
+                      payload: {
+                        controllers: updateMainController(layout.project, { model: portUpgradeTarget }),
+                      },
+                    })
+                  }
                   className="h-6 px-2 text-xs bg-red-400 text-zinc-950 hover:bg-red-300"
                 >
                   Switch
@@ -1082,7 +906,14 @@ export function DataRoutesPanel() {
                 <Button
                   variant="secondary"
                   size="sm"
-                  onClick={() => dispatch({ type: "UPDATE_PROJECT", payload: { controller: capacityUpgradeTarget } })}
+                  onClick={() =>
+                    dispatch({
+                      type: "UPDATE_PROJECT",
+                      payload: {
+                        controllers: updateMainController(layout.project, { model: capacityUpgradeTarget }),
+                      },
+                    })
+                  }
                   className="h-6 px-2 text-xs bg-red-400 text-zinc-950 hover:bg-red-300"
                 >
                   Switch
@@ -1097,6 +928,14 @@ export function DataRoutesPanel() {
             <div className="space-y-2">
               {dataRoutes.map((route) => {
                 const isActiveRoute = routingMode.type === "data" && routingMode.routeId === route.id
+                const primaryRoute = route.backupForRouteId
+                  ? dataRoutes.find((entry) => entry.id === route.backupForRouteId) ?? null
+                  : null
+                const cabling = routeCabling.find((entry) => entry.routeId === route.id)
+                const canAddBackup =
+                  !route.backupForRouteId &&
+                  route.cabinetIds.length > 0 &&
+                  getBackupDataRoutes(dataRoutes, route.id).length === 0
                 return (
                   <div
                     key={route.id}
@@ -1115,8 +954,10 @@ export function DataRoutesPanel() {
                           P{route.port}
                         </span>
                         <div>
-                          <div className="text-sm font-semibold text-zinc-100">Data Route</div>
-                          <div className="text-xs text-zinc-500">Port {route.port}</div>
+                          <div className="text-sm font-semibold text-zinc-100">
+                            {route.backupForRouteId ? "Backup Loop" : "Data Route"}
+                          </div>
+                          <div className="text-xs text-zinc-500">{getDataRoutePortLabel(layout.project, route)}</div>
                         </div>
                         <Badge variant="secondary" className="text-xs">
                           {route.cabinetIds.length} cards
@@ -1175,15 +1016,95 @@ export function DataRoutesPanel() {
                     </div>
                     <div
                       className={`text-xs ${
-                        isDataRouteOverCapacity(route, layout.cabinets, layout.cabinetTypes, pitchMm)
+                        isDataRouteOverCapacity(
+                          route,
+                          layout.cabinets,
+                          layout.cabinetTypes,
+                          pitchMm,
+                          getRoutePortCapacityPx(layout.project, route),
+                        )
                           ? "text-red-400"
                           : "text-zinc-400"
                       }`}
                     >
                       Load: {getDataRouteLoadPx(route, layout.cabinets, layout.cabinetTypes, pitchMm).toLocaleString()} px
                       {" / "}
-                      650,000 px
+                      {getRoutePortCapacityPx(layout.project, route).toLocaleString()} px
                     </div>
+                    {cabling && cabling.hops.length > 0 && (
+                      <div
+                        className={`text-xs ${
+                          cabling.hops.some((hop) => hop.lengthMm > ETHERNET_MAX_RUN_MM) ? "text-red-400" : "text-zinc-400"
+                        }`}
+                        title="Controller run, then each card-to-card jumper"
+                      >
+                        Cable: {formatCableLength(cabling.totalMm)} (run {formatCableLength(cabling.controllerRunMm)}
+                        {cabling.hops.length > 1
+                          ? `, jumpers ${cabling.hops
+                              .slice(1)
+                              .map((hop) => (hop.lengthMm / 1000).toFixed(1))
+                              .join(" / ")} m`
+                          : ""}
+                        )
+                      </div>
+                    )}
+                    {route.backupForRouteId && (
+                      <div className="flex items-center justify-between text-xs">
+                        {primaryRoute ? (
+                          <span
+                            className={isBackupRouteInSync(primaryRoute, route) ? "text-zinc-400" : "text-red-400"}
+                          >
+                            Backup for {getDataRoutePortLabel(layout.project, primaryRoute)}
+                            {isBackupRouteInSync(primaryRoute, route) ? "" : " (out of sync)"}
+                          </span>
+                        ) : (
+                          <span className="text-red-400">Primary route was removed</span>
+                        )}
+                        {primaryRoute && !isBackupRouteInSync(primaryRoute, route) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleMirrorPrimaryRoute(route, primaryRoute)}
+                            className="h-6 px-2 text-[11px] text-blue-200 hover:text-blue-50"
+                          >
+                            Mirror primary
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    {canAddBackup && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleAddBackupRoute(route)}
+                        disabled={dataRoutes.length >= totalPorts}
+                        className="h-6 px-2 text-[11px] text-blue-200 hover:text-blue-50"
+                        title="Add a backup loop feeding this chain from its last card"
+                      >
+                        <Repeat className="w-3 h-3 mr-1" />
+                        Add backup loop
+                      </Button>
+                    )}
+                    {isMultiController && (
+                      <div className="space-y-1">
+                        <Label className="text-xs text-zinc-400">Controller</Label>
+                        <Select
+                          value={getRouteControllerId(layout.project, route)}
+                          onValueChange={(value) => handleRouteControllerChange(route, value)}
+                        >
+                          <SelectTrigger className="h-7 text-xs bg-zinc-950/60 border-zinc-800 text-zinc-100">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {projectControllers.map((entry) => (
+                              <SelectItem key={entry.id} value={entry.id}>
+                                {getControllerDisplayLabel(entry)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                     <div className="space-y-1">
                       <Label className="text-xs text-zinc-400">Label Position</Label>
                       <Select
@@ -1241,7 +1162,7 @@ export function DataRoutesPanel() {
                   variant="ghost"
                   size="sm"
                   onClick={handleAddRoute}
-                  disabled={dataRoutes.length >= maxPorts}
+                  disabled={dataRoutes.length >= totalPorts}
                   className="h-7 w-full text-xs text-blue-100 hover:text-blue-50 transition-transform duration-150 hover:scale-[1.01] active:scale-[0.99]"
                 >
                   <Plus className="w-3 h-3 mr-1" />
@@ -1254,6 +1175,10 @@ export function DataRoutesPanel() {
 
         <Separator className="bg-zinc-700" />
 
+        <PowerDistrosSection />
+
+        <Separator className="bg-zinc-700" />
+
         {/* Power Feeds Section */}
         <div className="space-y-3">
           <div className="flex items-center justify-between">
@@ -1283,6 +1208,7 @@ export function DataRoutesPanel() {
                 <Wand2 className="w-3 h-3 mr-1" />
                 Auto
               </Button>
+              <ElectricalCatalogDialog />
               <Button
                 variant="ghost"
                 size="sm"
@@ -1413,21 +1339,40 @@ export function DataRoutesPanel() {
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="220V 20A">220V 20A</SelectItem>
-                            <SelectItem value="110V 15A">110V 15A</SelectItem>
-                            <SelectItem value="120V 15A">120V 15A</SelectItem>
+                            {breakerCatalog.map((model) => (
+                              <SelectItem key={model.id} value={model.id}>
+                                {formatBreakerOptionLabel(model)}
+                              </SelectItem>
+                            ))}
+                            {feed.breaker && !breakerCatalog.some((model) => model.id === feed.breaker) && (
+                              <SelectItem value={feed.breaker}>{feed.breaker} (not in catalog)</SelectItem>
+                            )}
                           </SelectContent>
                         </Select>
                       </div>
                       <div className="space-y-1">
                         <Label className="text-xs text-zinc-400">Connector</Label>
-                        <Input
+                        <Select
                           value={feed.connector}
-                          onChange={(e) => handleUpdatePowerFeed(feed.id, { connector: e.target.value })}
-                          onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
-                          className="h-8 text-xs bg-zinc-950/60 border-zinc-800 text-zinc-100"
-                          placeholder="NAC3FX-W"
-                        />
+                          onValueChange={(value) => {
+                            handleUpdatePowerFeed(feed.id, { connector: value })
+                            dispatch({ type: "PUSH_HISTORY" })
+                          }}
+                        >
+                          <SelectTrigger className="h-8 text-xs bg-zinc-950/60 border-zinc-800 text-zinc-100">
+                            <SelectValue placeholder="Connector" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {connectorCatalog.map((model) => (
+                              <SelectItem key={model.id} value={model.id}>
+                                {model.id} ({model.maxCurrentA} A, {model.maxChainLength} cabs)
+                              </SelectItem>
+                            ))}
+                            {feed.connector && !connectorCatalog.some((model) => model.id === feed.connector) && (
+                              <SelectItem value={feed.connector}>{feed.connector} (not in catalog)</SelectItem>
+                            )}
+                          </SelectContent>
+                        </Select>
                       </div>
                       <div className="space-y-1">
                         <Label className="text-xs text-zinc-400">Secondary label</Label>
@@ -1443,6 +1388,29 @@ export function DataRoutesPanel() {
                           placeholder="Optional (second line)"
                         />
                       </div>
+                      {powerDistros.length > 0 && (
+                        <div className="space-y-1 col-span-2">
+                          <Label className="text-xs text-zinc-400">Distro phase</Label>
+                          <Select
+                            value={feed.distroId && feed.phase ? `${feed.distroId}:${feed.phase}` : NO_PHASE}
+                            onValueChange={(value) => handlePowerFeedPhaseChange(feed.id, value)}
+                          >
+                            <SelectTrigger className="h-8 text-xs bg-zinc-950/60 border-zinc-800 text-zinc-100">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_PHASE}>Not assigned</SelectItem>
+                              {powerDistros.flatMap((distro) =>
+                                POWER_PHASES.map((phase) => (
+                                  <SelectItem key={`${distro.id}:${phase}`} value={`${distro.id}:${phase}`}>
+                                    {getDistroDisplayLabel(distro)} · {phase}
+                                  </SelectItem>
+                                )),
+                              )}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
                       <div className="space-y-1 col-span-2">
                         <Label className="text-xs text-zinc-400">Label Position</Label>
                         <Select
@@ -1485,7 +1453,8 @@ export function DataRoutesPanel() {
                             layout.cabinetTypes,
                             powerMode,
                           )
-                          return `${autoLoadW} W`
+                          const maxW = getPowerFeedMaxW(layout.project, feed)
+                          return maxW === null ? `${autoLoadW} W` : `${autoLoadW} W / ${maxW} W max`
                         })()}
                       </div>
                     </div>
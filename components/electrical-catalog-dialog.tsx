@@ -0,0 +1,296 @@
+"use client"
+
+import { useState } from "react"
+import { useEditor } from "@/lib/editor-context"
+import type { BreakerModel, ConnectorModel } from "@/lib/types"
+import {
+  DEFAULT_BREAKER_DERATING,
+  getBreakerCatalog,
+  getBreakerContinuousW,
+  getConnectorCatalog,
+  isBuiltInBreaker,
+  isBuiltInConnector,
+} from "@/lib/electrical-catalog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Plus, Settings2, Trash2, Undo2 } from "lucide-react"
+
+function upsertModel<T extends { id: string }>(list: T[] | undefined, model: T): T[] {
+  const entries = list ?? []
+  return entries.some((entry) => entry.id === model.id)
+    ? entries.map((entry) => (entry.id === model.id ? model : entry))
+    : [...entries, model]
+}
+
+function parsePositive(value: string) {
+  const parsed = Number.parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+export function ElectricalCatalogDialog() {
+  const { state, dispatch } = useEditor()
+  const { project } = state.layout
+  const breakers = getBreakerCatalog(project)
+  const connectors = getConnectorCatalog(project)
+  const [newBreakerId, setNewBreakerId] = useState("")
+  const [newConnectorId, setNewConnectorId] = useState("")
+
+  const updateBreakers = (breakerModels: BreakerModel[]) => {
+    dispatch({ type: "UPDATE_PROJECT", payload: { breakerModels } })
+  }
+
+  const updateConnectors = (connectorModels: ConnectorModel[]) => {
+    dispatch({ type: "UPDATE_PROJECT", payload: { connectorModels } })
+  }
+
+  const handleBreakerChange = (model: BreakerModel, key: "voltageV" | "currentA" | "derating", value: string) => {
+    const parsed = parsePositive(value)
+    if (parsed === null) return
+    updateBreakers(
+      upsertModel(project.breakerModels, { ...model, [key]: key === "derating" ? Math.min(1, parsed / 100) : parsed }),
+    )
+  }
+
+  const handleConnectorChange = (model: ConnectorModel, key: "maxCurrentA" | "maxChainLength", value: string) => {
+    const parsed = parsePositive(value)
+    if (parsed === null) return
+    updateConnectors(
+      upsertModel(project.connectorModels, { ...model, [key]: key === "maxChainLength" ? Math.round(parsed) : parsed }),
+    )
+  }
+
+  const handleAddBreaker = () => {
+    const id = newBreakerId.trim()
+    if (!id) return
+    if (breakers.some((model) => model.id === id)) {
+      alert("A breaker with this name already exists")
+      return
+    }
+    const [, volts, amps] = id.match(/(\d+)\s*V\s*(\d+)\s*A/i) ?? []
+    updateBreakers([
+      ...(project.breakerModels ?? []),
+      {
+        id,
+        voltageV: Number(volts) || 230,
+        currentA: Number(amps) || 16,
+        derating: DEFAULT_BREAKER_DERATING,
+      },
+    ])
+    dispatch({ type: "PUSH_HISTORY" })
+    setNewBreakerId("")
+  }
+
+  const handleAddConnector = () => {
+    const id = newConnectorId.trim()
+    if (!id) return
+    if (connectors.some((model) => model.id === id)) {
+      alert("A connector with this name already exists")
+      return
+    }
+    updateConnectors([...(project.connectorModels ?? []), { id, maxCurrentA: 16, maxChainLength: 10 }])
+    dispatch({ type: "PUSH_HISTORY" })
+    setNewConnectorId("")
+  }
+
+  // Removing an edited built-in restores its defaults; feeds keep their id either way.
+  const handleRemoveBreaker = (id: string) => {
+    updateBreakers((project.breakerModels ?? []).filter((model) => model.id !== id))
+    dispatch({ type: "PUSH_HISTORY" })
+  }
+
+  const handleRemoveConnector = (id: string) => {
+    updateConnectors((project.connectorModels ?? []).filter((model) => model.id !== id))
+    dispatch({ type: "PUSH_HISTORY" })
+  }
+
+  const renderRemoveButton = (id: string, isBuiltIn: boolean, isEdited: boolean, onRemove: (id: string) => void) => {
+    if (isBuiltIn && !isEdited) return <span className="text-[10px] text-muted-foreground">built-in</span>
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onRemove(id)}
+        className="h-7 w-7 p-0 text-muted-foreground hover:text-red-400"
+        title={isBuiltIn ? "Restore built-in values" : "Remove"}
+      >
+        {isBuiltIn ? <Undo2 className="w-3 h-3" /> : <Trash2 className="w-3 h-3" />}
+      </Button>
+    )
+  }
+
+  const numberInputClass = "ml-auto h-7 w-20 text-right text-xs"
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Edit breaker and connector catalog">
+          <Settings2 className="w-3 h-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Electrical Catalog</DialogTitle>
+          <DialogDescription>
+            Feed overload checks and auto-power use these ratings. Entries are saved with the project.
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="breakers">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="breakers">Breakers</TabsTrigger>
+            <TabsTrigger value="connectors">Connectors</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="breakers" className="space-y-3">
+            <ScrollArea className="max-h-[50vh]">
+              <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                  <tr className="border-b border-border text-left">
+                    <th className="py-1.5 pr-2 font-medium">Breaker</th>
+                    <th className="py-1.5 pr-2 text-right font-medium">Voltage (V)</th>
+                    <th className="py-1.5 pr-2 text-right font-medium">Current (A)</th>
+                    <th className="py-1.5 pr-2 text-right font-medium">Derating (%)</th>
+                    <th className="py-1.5 pr-2 text-right font-medium">Continuous</th>
+                    <th className="py-1.5" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {breakers.map((model) => (
+                    <tr key={model.id} className="border-b border-border/60">
+                      <td className="py-1.5 pr-2 font-medium">{model.id}</td>
+                      <td className="py-1.5 pr-2">
+                        <Input
+                          aria-label={`${model.id} voltage`}
+                          type="number"
+                          min={1}
+                          value={model.voltageV}
+                          onChange={(e) => handleBreakerChange(model, "voltageV", e.target.value)}
+                          onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+                          className={numberInputClass}
+                        />
+                      </td>
+                      <td className="py-1.5 pr-2">
+                        <Input
+                          aria-label={`${model.id} current`}
+                          type="number"
+                          min={1}
+                          value={model.currentA}
+                          onChange={(e) => handleBreakerChange(model, "currentA", e.target.value)}
+                          onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+                          className={numberInputClass}
+                        />
+                      </td>
+                      <td className="py-1.5 pr-2">
+                        <Input
+                          aria-label={`${model.id} derating`}
+                          type="number"
+                          min={1}
+                          max={100}
+                          value={Math.round(model.derating * 100)}
+                          onChange={(e) => handleBreakerChange(model, "derating", e.target.value)}
+                          onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+                          className={numberInputClass}
+                        />
+                      </td>
+                      <td className="py-1.5 pr-2 text-right font-mono">{getBreakerContinuousW(model)} W</td>
+                      <td className="py-1.5 text-right">
+                        {renderRemoveButton(
+                          model.id,
+                          isBuiltInBreaker(model.id),
+                          (project.breakerModels ?? []).some((entry) => entry.id === model.id),
+                          handleRemoveBreaker,
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+            <div className="flex items-center gap-2">
+              <Input
+                aria-label="New breaker name"
+                value={newBreakerId}
+                placeholder="e.g. 230V 16A"
+                onChange={(e) => setNewBreakerId(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddBreaker()}
+                className="h-8 flex-1 text-sm"
+              />
+              <Button variant="outline" size="sm" onClick={handleAddBreaker} disabled={!newBreakerId.trim()}>
+                <Plus className="w-3 h-3 mr-1" />
+                Add breaker
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="connectors" className="space-y-3">
+            <ScrollArea className="max-h-[50vh]">
+              <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                  <tr className="border-b border-border text-left">
+                    <th className="py-1.5 pr-2 font-medium">Connector</th>
+                    <th className="py-1.5 pr-2 text-right font-medium">Max current (A)</th>
+                    <th className="py-1.5 pr-2 text-right font-medium">Max chain (cabinets)</th>
+                    <th className="py-1.5" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {connectors.map((model) => (
+                    <tr key={model.id} className="border-b border-border/60">
+                      <td className="py-1.5 pr-2 font-medium">{model.id}</td>
+                      <td className="py-1.5 pr-2">
+                        <Input
+                          aria-label={`${model.id} max current`}
+                          type="number"
+                          min={1}
+                          value={model.maxCurrentA}
+                          onChange={(e) => handleConnectorChange(model, "maxCurrentA", e.target.value)}
+                          onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+                          className={numberInputClass}
+                        />
+                      </td>
+                      <td className="py-1.5 pr-2">
+                        <Input
+                          aria-label={`${model.id} max chain length`}
+                          type="number"
+                          min={1}
+                          value={model.maxChainLength}
+                          onChange={(e) => handleConnectorChange(model, "maxChainLength", e.target.value)}
+                          onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+                          className={numberInputClass}
+                        />
+                      </td>
+                      <td className="py-1.5 text-right">
+                        {renderRemoveButton(
+                          model.id,
+                          isBuiltInConnector(model.id),
+                          (project.connectorModels ?? []).some((entry) => entry.id === model.id),
+                          handleRemoveConnector,
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+            <div className="flex items-center gap-2">
+              <Input
+                aria-label="New connector name"
+                value={newConnectorId}
+                placeholder="e.g. NAC3FX-W"
+                onChange={(e) => setNewConnectorId(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddConnector()}
+                className="h-8 flex-1 text-sm"
+              />
+              <Button variant="outline" size="sm" onClick={handleAddConnector} disabled={!newConnectorId.trim()}>
+                <Plus className="w-3 h-3 mr-1" />
+                Add connector
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
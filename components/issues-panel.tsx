@@ -0,0 +1,147 @@
+"use client"
+
+import { useEditor } from "@/lib/editor-context"
+import { validateLayout } from "@/lib/validation"
+import { applyValidationFix, getValidationFixLabel } from "@/lib/validation-fixes"
+import { requestCanvasFocus } from "@/lib/canvas-focus"
+import { getDataRoutePortLabel } from "@/lib/controllers"
+import { computeGridLabel, type ValidationError } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { AlertCircle, AlertTriangle, CheckCircle, Wand2 } from "lucide-react"
+
+export function IssuesPanel() {
+  const { state, dispatch } = useEditor()
+  const { layout } = state
+  const issues = validateLayout(layout)
+  const errors = issues.filter((issue) => issue.type === "error")
+  const warnings = issues.filter((issue) => issue.type === "warning")
+  const labelsMode = layout.project.overview.labelsMode
+  const gridLabelAxis = layout.project.overview.gridLabelAxis ?? "columns"
+
+  const getCabinetLabel = (cabinetId: string) => {
+    if (labelsMode !== "grid") return cabinetId
+    const cabinet = layout.cabinets.find((c) => c.id === cabinetId)
+    if (!cabinet) return cabinetId
+    return computeGridLabel(cabinet, layout.cabinets, layout.cabinetTypes, gridLabelAxis)
+  }
+
+  const getRoutePortLabel = (routeId?: string) => {
+    const route = routeId ? layout.project.dataRoutes.find((r) => r.id === routeId) : null
+    return route ? getDataRoutePortLabel(layout.project, route) : "A data route"
+  }
+
+  const getIssueMessage = (issue: ValidationError) => {
+    const [firstId, secondId] = issue.cabinetIds
+    const firstLabel = firstId ? getCabinetLabel(firstId) : "?"
+    const secondLabel = secondId ? getCabinetLabel(secondId) : "?"
+
+    switch (issue.code) {
+      case "DUPLICATE_ID":
+        return `Duplicate cabinet ID: ${firstLabel}`
+      case "MISSING_TYPE": {
+        const cabinet = firstId ? layout.cabinets.find((c) => c.id === firstId) : null
+        const typeId = cabinet?.typeId || "?"
+        return `Cabinet ${firstLabel} has unknown type: ${typeId}`
+      }
+      case "OVERLAP":
+        return `Cabinets ${firstLabel} and ${secondLabel} overlap`
+      case "OUT_OF_GRID":
+        return `Cabinet ${firstLabel} is not aligned to grid (${layout.project.grid.step_mm}mm)`
+      case "ISOLATED_CABINET":
+        return `Cabinet ${firstLabel} has no adjacent neighbors`
+      case "ROUTE_MISSING_CARD":
+        return `${getRoutePortLabel(issue.routeId)} uses a receiver card that ${firstLabel} no longer has`
+      case "UNROUTED_CARD":
+        return `Cabinet ${firstLabel} has a receiver card on no data route`
+      case "ENDPOINT_MULTIPLE_ROUTES":
+        return `Cabinet ${firstLabel} is on more than one data route`
+      case "UNPOWERED_CABINET":
+        return `Cabinet ${firstLabel} is not on any power feed`
+      case "DOUBLY_POWERED_CABINET":
+        return `Cabinet ${firstLabel} is on more than one power feed`
+      case "RECEIVER_CARD_OVER_CAPACITY":
+        return `Cabinet ${firstLabel} needs ${issue.suggestedCardCount ?? "more"} receiver cards`
+      default:
+        return issue.message
+    }
+  }
+
+  const handleLocate = (issue: ValidationError) => {
+    const existingIds = issue.cabinetIds.filter((id) => layout.cabinets.some((cabinet) => cabinet.id === id))
+    if (existingIds.length > 0) {
+      dispatch({ type: "SELECT_CABINET", payload: existingIds[0] })
+      requestCanvasFocus({ entity: "cabinets", ids: existingIds })
+      return
+    }
+    if (issue.routeId) {
+      requestCanvasFocus({ entity: "data-route", id: issue.routeId })
+    } else if (issue.feedId) {
+      requestCanvasFocus({ entity: "power-feed", id: issue.feedId })
+    }
+  }
+
+  const handleFix = (issue: ValidationError) => {
+    dispatch({ type: "APPLY_LAYOUT_FIX", payload: applyValidationFix(layout, issue) })
+    dispatch({ type: "PUSH_HISTORY" })
+  }
+
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <CheckCircle className="w-4 h-4 text-emerald-400" />
+        No issues detected
+      </div>
+    )
+  }
+
+  const renderGroup = (title: string, group: ValidationError[]) => {
+    if (group.length === 0) return null
+    return (
+      <div className="space-y-2">
+        <h3 className="text-xs font-semibold text-muted-foreground">
+          {title} ({group.length})
+        </h3>
+        {group.map((issue, i) => {
+          const fixLabel = getValidationFixLabel(layout, issue)
+          return (
+            <div
+              key={`${issue.code}-${i}`}
+              className={`rounded-md text-xs ${
+                issue.type === "error" ? "bg-error/10 text-error" : "bg-warning/10 text-warning"
+              }`}
+            >
+              <button
+                className="w-full text-left p-2 rounded-md hover:bg-sidebar-accent transition-colors"
+                onClick={() => handleLocate(issue)}
+              >
+                <div className="flex items-start gap-2">
+                  {issue.type === "error" ? (
+                    <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                  ) : (
+                    <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                  )}
+                  <span>{getIssueMessage(issue)}</span>
+                </div>
+              </button>
+              {fixLabel && (
+                <div className="px-2 pb-2 pl-7">
+                  <Button variant="outline" size="sm" className="h-6 text-[10px]" onClick={() => handleFix(issue)}>
+                    <Wand2 className="w-3 h-3 mr-1" />
+                    {fixLabel}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {renderGroup("Errors", errors)}
+      {renderGroup("Warnings", warnings)}
+    </div>
+  )
+}
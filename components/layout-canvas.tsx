@@ -5,7 +5,7 @@ import type React from "react"
 import { useRef, useEffect, useState, useCallback, useMemo } from "react"
 import { useEditor } from "@/lib/editor-context"
 import { getCabinetBounds, validateLayout } from "@/lib/validation"
-import type { Cabinet, CabinetType, DataRoute, DataRouteStep, LayoutData, PowerFeed } from "@/lib/types"
+import type { Cabinet, CabinetType, DataRoute, DataRouteStep, LayoutData, PowerFeed, Project } from "@/lib/types"
 import {
   computeGridLabel,
   DEFAULT_LAYOUT,
@@ -13,21 +13,21 @@ import {
   getCabinetReceiverCardCount,
   parseRouteCabinetId,
 } from "@/lib/types"
-import { isDataRouteOverCapacity } from "@/lib/data-utils"
+import { getRoutePortCapacityPx, isDataRouteOverCapacity } from "@/lib/data-utils"
 import { getPowerFeedDisplayLabel, getPowerFeedLoadW, isPowerFeedOverloaded } from "@/lib/power-utils"
 import { getEffectivePitchMm } from "@/lib/pitch-utils"
 import { getProjectHardwareDefaults } from "@/lib/modes"
 import { findRouteIdForEndpoint, getMappingNumberLabelMap } from "@/lib/mapping-numbers"
 import { getOverviewReadabilityScale } from "@/lib/overview-utils"
 import { getOrientedModuleSize } from "@/lib/module-utils"
-import { resolveControllerCabinetId } from "@/lib/controller-utils"
+import { getPlacedControllers, resolveControllerCabinetId, type PlacedController } from "@/lib/controller-utils"
+import { getDataRoutePortLabel, getMainController, getRouteControllerId } from "@/lib/controllers"
+import { LAYOUT_FOCUS_EVENT, type LayoutFocusRequestDetail } from "@/lib/canvas-focus"
 import { Button } from "@/components/ui/button"
 import { ZoomIn, ZoomOut, Maximize, Ruler } from "lucide-react"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 
-type LayoutFocusRequestDetail = { entity: "data-route" | "power-feed"; id: string }
 type WorldBounds = { minX: number; minY: number; maxX: number; maxY: number }
-const LAYOUT_FOCUS_EVENT = "layout:focus-route"
 
 function getLayoutBoundsFromCabinets(
   cabinets: Cabinet[],
@@ -145,7 +145,18 @@ function getPowerFeedFocusBounds(layout: LayoutData, feedId: string): WorldBound
   return finalizeFocusBounds(bounds)
 }
 
+function getCabinetsFocusBounds(layout: LayoutData, cabinetIds: string[]): WorldBounds | null {
+  let bounds: WorldBounds | null = null
+  cabinetIds.forEach((cabinetId) => {
+    bounds = includeCabinetInBounds(bounds, cabinetId, layout.cabinets, layout.cabinetTypes)
+  })
+  return finalizeFocusBounds(bounds)
+}
+
 function getFocusBoundsForRequest(layout: LayoutData, detail: LayoutFocusRequestDetail): WorldBounds | null {
+  if (detail.entity === "cabinets") {
+    return getCabinetsFocusBounds(layout, detail.ids)
+  }
   if (detail.entity === "data-route") {
     return getDataRouteFocusBounds(layout, detail.id)
   }
@@ -1356,10 +1367,10 @@ function drawDataRoutes(
   receiverCardModel: string,
   forcePortLabelsBottom: boolean,
   pitchMm: number,
+  project: Project,
+  placedControllers: PlacedController[],
   activeRouteId?: string,
   cardVariant: ReceiverCardVariant = "indoor",
-  outdoorLvBoxCabinetId?: string,
-  useExternalOutdoorLvBox = false,
 ) {
   const lineWidth = scaledWorldSize(5, zoom, 3, 9)
   const outlineWidth = lineWidth + scaledWorldSize(3, zoom, 2, 6)
@@ -1409,7 +1420,13 @@ function drawDataRoutes(
     const useManualSteps = cardVariant !== "outdoor" && hasManualPointSteps
     const useOutdoorChaining = cardVariant === "outdoor"
 
-    const isOverloaded = isDataRouteOverCapacity(route, cabinets, cabinetTypes, pitchMm)
+    const isOverloaded = isDataRouteOverCapacity(
+      route,
+      cabinets,
+      cabinetTypes,
+      pitchMm,
+      getRoutePortCapacityPx(project, route),
+    )
     const lineColor = isOverloaded ? "#ef4444" : "#3b82f6"
 
     ctx.save()
@@ -1418,6 +1435,10 @@ function drawDataRoutes(
     ctx.lineWidth = lineWidth
     ctx.lineCap = "round"
     ctx.lineJoin = "round"
+    // Backup loops run dashed over the same cards as their primary route.
+    if (route.backupForRouteId) {
+      ctx.setLineDash([lineWidth * 2, lineWidth * 2.2])
+    }
 
     // Get cabinet centers in order
     const points: {
@@ -1604,6 +1625,13 @@ function drawDataRoutes(
       })
     }
 
+    // Nudge auto-routed backups off the primary's anchors so the dashed run stays visible.
+    if (route.backupForRouteId && !useOutdoorChaining && !useManualSteps) {
+      points.forEach((point) => {
+        point.y += lineWidth * 1.6
+      })
+    }
+
     if (points.length === 0) {
       ctx.restore()
       return
@@ -1612,8 +1640,13 @@ function drawDataRoutes(
     const firstPoint = points[0]
     const firstBounds = firstPoint.bounds
     const isOutdoorDataRouting = cardVariant === "outdoor"
+    const routeControllerId = getRouteControllerId(project, route)
+    const routeController = placedControllers.find((placed) => placed.controller.id === routeControllerId)
+    const outdoorLvBoxCabinetId = isOutdoorDataRouting ? routeController?.cabinetId : undefined
     const externalOutdoorLvBoxRect =
-      isOutdoorDataRouting && useExternalOutdoorLvBox ? getExternalOutdoorControllerRect(layoutBounds, zoom) : null
+      isOutdoorDataRouting && routeController?.externalSlot !== undefined
+        ? getExternalOutdoorControllerRect(layoutBounds, zoom, undefined, routeController.externalSlot)
+        : null
     const lvBoxDataSource =
       isOutdoorDataRouting && (outdoorLvBoxCabinetId || externalOutdoorLvBoxRect)
         ? (() => {
@@ -1671,7 +1704,7 @@ function drawDataRoutes(
     let lineStartY = firstPoint.y
 
     if (!isOutdoorDataRouting) {
-      const portLabel = `Port ${route.port}`
+      const portLabel = getDataRoutePortLabel(project, route)
       ctx.font = `bold ${fontSize}px Inter, sans-serif`
       const labelWidth = ctx.measureText(portLabel).width + labelPadding * 2
       const labelHeight = fontSize + labelPadding * 1.6
@@ -2005,6 +2038,7 @@ function drawDataRoutes(
         drawReturnToLvBox("#ef4444", lineWidth)
       }
 
+      ctx.setLineDash([])
       if (useOutdoorChaining) {
         ctx.save()
         ctx.lineCap = "round"
@@ -2179,6 +2213,8 @@ function drawPowerFeeds(
   activeFeedId?: string,
   cardVariant: ReceiverCardVariant = "indoor",
   outdoorLvBoxCabinetId?: string,
+  getPortLabel: (route: DataRoute) => string = (route) => `Port ${route.port}`,
+  electricalCatalog: Pick<Project, "breakerModels" | "connectorModels"> = {},
 ) {
   const lineWidth = scaledWorldSize(5.5, zoom, 3, 9.5)
   const outlineWidth = lineWidth + scaledWorldSize(3, zoom, 2, 6)
@@ -2234,7 +2270,7 @@ function drawPowerFeeds(
       const anchorPoint = getCabinetDataAnchorPoint(cabinet, bounds, zoom, cardIndex, cardVariant)
       const anchor = { connectorX: anchorPoint.x, connectorY: anchorPoint.y }
 
-      const labelText = `Port ${route.port}`
+      const labelText = getPortLabel(route)
       ctx.font = `bold ${dataFontSize}px Inter, sans-serif`
       const labelWidth = ctx.measureText(labelText).width + dataLabelPadding * 2
       const labelHeight = dataFontSize + dataLabelPadding * 1.6
@@ -2493,6 +2529,7 @@ function drawPowerFeeds(
       feed,
       cabinets,
       cabinetTypes,
+      electricalCatalog,
       cardVariant === "outdoor" ? "outdoor" : "indoor",
     )
     const lineColor = isOverloaded ? "#ef4444" : "#f97316"
@@ -2879,9 +2916,10 @@ function drawPowerFeeds(
   })
 }
 
+// Draws one box per controller placed outside the wall, in slot order (main controller first).
 function drawControllerPorts(
   ctx: CanvasRenderingContext2D,
-  label: string,
+  labels: string[],
   cabinets: Cabinet[],
   cabinetTypes: CabinetType[],
   zoom: number,
@@ -2889,97 +2927,100 @@ function drawControllerPorts(
   mode: "indoor" | "outdoor" = "indoor",
 ) {
   const layoutBounds = getLayoutBoundsFromCabinets(cabinets, cabinetTypes)
-  if (!layoutBounds) return
+  if (!layoutBounds || labels.length === 0) return
 
   const { minX, maxX, maxY } = layoutBounds
-  const layoutHeight = Math.max(1, layoutBounds.maxY - layoutBounds.minY)
-  const layoutWidth = Math.max(1, layoutBounds.maxX - layoutBounds.minX)
-  const isCompactOutdoorLayout = layoutHeight <= 400 && layoutWidth >= layoutHeight * 2
 
   if (mode === "outdoor") {
-    const title = "LV BOX"
-    const items = [label, "PI", "SWITCH", "ANTENNA"]
-    const boxWidth = isCompactOutdoorLayout
-      ? scaledWorldSize(176, zoom, 150, 210)
-      : scaledWorldSize(188, zoom, 160, 224)
-    const boxHeight = isCompactOutdoorLayout
-      ? scaledWorldSize(74, zoom, 60, 92)
-      : scaledWorldSize(82, zoom, 66, 100)
-    const boxX = maxX - boxWidth
-    const baseY = maxY + scaledWorldSize(100, zoom, 70, 160)
-    const boxY = Math.max(baseY, minY ?? baseY)
-    const titleBandHeight = Math.max(10 / zoom, boxHeight * 0.24)
-    const listPadding = Math.max(6 / zoom, boxWidth * 0.08)
-    const listTop = boxY + titleBandHeight + Math.max(2 / zoom, boxHeight * 0.03)
-    const listBottom = boxY + boxHeight - Math.max(3 / zoom, boxHeight * 0.07)
-    const itemStep = (listBottom - listTop) / items.length
-    const titleFontSize = Math.max(7 / zoom, titleBandHeight * 0.46)
-    const itemFontSize = Math.max(6 / zoom, itemStep * 0.56)
+    labels.forEach((label, slot) => {
+      const title = "LV BOX"
+      const items = [label, "PI", "SWITCH", "ANTENNA"]
+      const {
+        x: boxX,
+        y: boxY,
+        width: boxWidth,
+        height: boxHeight,
+      } = getExternalOutdoorControllerRect(layoutBounds, zoom, minY, slot)
+      const titleBandHeight = Math.max(10 / zoom, boxHeight * 0.24)
+      const listPadding = Math.max(6 / zoom, boxWidth * 0.08)
+      const listTop = boxY + titleBandHeight + Math.max(2 / zoom, boxHeight * 0.03)
+      const listBottom = boxY + boxHeight - Math.max(3 / zoom, boxHeight * 0.07)
+      const itemStep = (listBottom - listTop) / items.length
+      const titleFontSize = Math.max(7 / zoom, titleBandHeight * 0.46)
+      const itemFontSize = Math.max(6 / zoom, itemStep * 0.56)
 
-    ctx.save()
-    ctx.shadowColor = "rgba(2, 6, 23, 0.45)"
-    ctx.shadowBlur = 4 / zoom
-    ctx.shadowOffsetY = 1 / zoom
-    ctx.fillStyle = "#0b1220"
-    ctx.strokeStyle = "#1f2a44"
-    ctx.lineWidth = Math.max(1.1 / zoom, 0.8 / zoom)
-    ctx.fillRect(boxX, boxY, boxWidth, boxHeight)
-    ctx.restore()
+      ctx.save()
+      ctx.shadowColor = "rgba(2, 6, 23, 0.45)"
+      ctx.shadowBlur = 4 / zoom
+      ctx.shadowOffsetY = 1 / zoom
+      ctx.fillStyle = "#0b1220"
+      ctx.strokeStyle = "#1f2a44"
+      ctx.lineWidth = Math.max(1.1 / zoom, 0.8 / zoom)
+      ctx.fillRect(boxX, boxY, boxWidth, boxHeight)
+      ctx.restore()
 
-    ctx.strokeStyle = "#1f2a44"
-    ctx.lineWidth = Math.max(1.1 / zoom, 0.8 / zoom)
-    ctx.strokeRect(boxX, boxY, boxWidth, boxHeight)
-    ctx.strokeStyle = "#334155"
-    ctx.lineWidth = Math.max(0.9 / zoom, 0.7 / zoom)
-    ctx.beginPath()
-    ctx.moveTo(boxX + listPadding, boxY + titleBandHeight)
-    ctx.lineTo(boxX + boxWidth - listPadding, boxY + titleBandHeight)
-    ctx.stroke()
+      ctx.strokeStyle = "#1f2a44"
+      ctx.lineWidth = Math.max(1.1 / zoom, 0.8 / zoom)
+      ctx.strokeRect(boxX, boxY, boxWidth, boxHeight)
+      ctx.strokeStyle = "#334155"
+      ctx.lineWidth = Math.max(0.9 / zoom, 0.7 / zoom)
+      ctx.beginPath()
+      ctx.moveTo(boxX + listPadding, boxY + titleBandHeight)
+      ctx.lineTo(boxX + boxWidth - listPadding, boxY + titleBandHeight)
+      ctx.stroke()
 
-    ctx.fillStyle = "#38bdf8"
-    ctx.font = `700 ${titleFontSize}px Inter, sans-serif`
-    ctx.textAlign = "left"
-    ctx.textBaseline = "middle"
-    ctx.fillText(title, boxX + listPadding, boxY + titleBandHeight / 2)
+      ctx.fillStyle = "#38bdf8"
+      ctx.font = `700 ${titleFontSize}px Inter, sans-serif`
+      ctx.textAlign = "left"
+      ctx.textBaseline = "middle"
+      ctx.fillText(title, boxX + listPadding, boxY + titleBandHeight / 2)
 
-    ctx.fillStyle = "#e2e8f0"
-    ctx.font = `600 ${itemFontSize}px Inter, sans-serif`
-    items.forEach((item, index) => {
-      const textY = listTop + itemStep * (index + 0.5)
-      ctx.fillText(`- ${item}`, boxX + listPadding, textY)
+      ctx.fillStyle = "#e2e8f0"
+      ctx.font = `600 ${itemFontSize}px Inter, sans-serif`
+      items.forEach((item, index) => {
+        const textY = listTop + itemStep * (index + 0.5)
+        ctx.fillText(`- ${item}`, boxX + listPadding, textY)
+      })
     })
     return
   }
 
   const boxWidth = Math.max(100, 120 / zoom)
   const boxHeight = Math.max(35, 40 / zoom)
+  const boxGap = scaledWorldSize(24, zoom, 16, 40)
   const fontSize = Math.max(10, 11 / zoom)
 
-  const boxX = (minX + maxX) / 2 - boxWidth / 2
+  const rowWidth = labels.length * boxWidth + (labels.length - 1) * boxGap
+  const rowX = (minX + maxX) / 2 - rowWidth / 2
   const baseY = maxY + scaledWorldSize(100, zoom, 70, 160)
   const boxY = Math.max(baseY, minY ?? baseY)
 
-  ctx.save()
+  labels.forEach((label, slot) => {
+    const boxX = rowX + slot * (boxWidth + boxGap)
+    ctx.save()
 
-  ctx.fillStyle = "#1e293b"
-  ctx.strokeStyle = "#475569"
-  ctx.lineWidth = 2 / zoom
-  ctx.fillRect(boxX, boxY, boxWidth, boxHeight)
-  ctx.strokeRect(boxX, boxY, boxWidth, boxHeight)
+    ctx.fillStyle = "#1e293b"
+    ctx.strokeStyle = "#475569"
+    ctx.lineWidth = 2 / zoom
+    ctx.fillRect(boxX, boxY, boxWidth, boxHeight)
+    ctx.strokeRect(boxX, boxY, boxWidth, boxHeight)
 
-  ctx.fillStyle = "#e2e8f0"
-  ctx.font = `bold ${fontSize}px Inter, sans-serif`
-  ctx.textAlign = "center"
-  ctx.textBaseline = "middle"
-  ctx.fillText(label, boxX + boxWidth / 2, boxY + boxHeight / 2)
+    ctx.fillStyle = "#e2e8f0"
+    ctx.font = `bold ${fontSize}px Inter, sans-serif`
+    ctx.textAlign = "center"
+    ctx.textBaseline = "middle"
+    ctx.fillText(label, boxX + boxWidth / 2, boxY + boxHeight / 2)
 
-  ctx.restore()
+    ctx.restore()
+  })
 }
 
+// Extra external LV boxes line up to the left of the main one.
 function getExternalOutdoorControllerRect(
   layoutBounds: { minX: number; minY: number; maxX: number; maxY: number },
   zoom: number,
   minY?: number,
+  slot = 0,
 ) {
   const layoutHeight = Math.max(1, layoutBounds.maxY - layoutBounds.minY)
   const layoutWidth = Math.max(1, layoutBounds.maxX - layoutBounds.minX)
@@ -2990,7 +3031,8 @@ function getExternalOutdoorControllerRect(
   const boxHeight = isCompactOutdoorLayout
     ? scaledWorldSize(74, zoom, 60, 92)
     : scaledWorldSize(82, zoom, 66, 100)
-  const boxX = layoutBounds.maxX - boxWidth
+  const boxGap = scaledWorldSize(24, zoom, 16, 40)
+  const boxX = layoutBounds.maxX - boxWidth - slot * (boxWidth + boxGap)
   const baseY = layoutBounds.maxY + scaledWorldSize(100, zoom, 70, 160)
   const boxY = Math.max(baseY, minY ?? baseY)
   return { x: boxX, y: boxY, width: boxWidth, height: boxHeight }
@@ -3149,25 +3191,24 @@ export function LayoutCanvas() {
     ctx.lineTo(0, 60)
     ctx.stroke()
 
-    const { overview, dataRoutes, powerFeeds, controller } = layout.project
-    const controllerLabel = layout.project.controllerLabel?.trim() || controller
+    const { overview, dataRoutes, powerFeeds } = layout.project
     const isOutdoorMode = (layout.project.mode ?? "indoor") === "outdoor"
     const outdoorFlowByCabinet = isOutdoorMode
       ? getOutdoorPowerFlowDirectionByCabinet(powerFeeds ?? [], layout.cabinets)
       : new Map<string, OutdoorPowerFlowDirection>()
-    const controllerPlacement = layout.project.controllerPlacement ?? "external"
+    const mainController = getMainController(layout.project)
+    const controllerPlacement = mainController.placement ?? "external"
     const controllerCabinetId = resolveControllerCabinetId(
       isOutdoorMode ? "outdoor" : "indoor",
       controllerPlacement,
-      layout.project.controllerCabinetId,
+      mainController.cabinetId,
       layout.cabinets,
       layout.cabinetTypes,
     )
-    const controllerCabinet =
-      controllerPlacement === "cabinet" && controllerCabinetId
-        ? layout.cabinets.find((cabinet) => cabinet.id === controllerCabinetId)
-        : null
-    const controllerInCabinet = !!controllerCabinet
+    const placedControllers = getPlacedControllers(layout.project, layout.cabinets, layout.cabinetTypes)
+    const externalControllerLabels = placedControllers
+      .filter((placed) => placed.externalSlot !== undefined)
+      .map((placed) => placed.label)
     const labelsMode = overview?.labelsMode || "internal"
     const gridLabelAxis = overview?.gridLabelAxis ?? "columns"
     const showCabinetLabels = overview?.showCabinetLabels ?? true
@@ -3281,9 +3322,10 @@ export function LayoutCanvas() {
         }
       }
 
-      if (controllerPlacement === "cabinet" && controllerCabinetId === cabinet.id) {
-        drawControllerBadge(ctx, bounds, controllerLabel, uiZoom, isOutdoorMode ? "outdoor" : "indoor")
-      }
+      placedControllers.forEach((placed) => {
+        if (placed.cabinetId !== cabinet.id) return
+        drawControllerBadge(ctx, bounds, placed.label, uiZoom, isOutdoorMode ? "outdoor" : "indoor")
+      })
 
       ctx.fillStyle = "#64748b"
       const smallFontSize = Math.max(8, 9 / uiZoom)
@@ -3367,6 +3409,8 @@ export function LayoutCanvas() {
         routingMode.type === "power" ? routingMode.feedId : undefined,
         isOutdoorMode ? "outdoor" : "indoor",
         isOutdoorMode && controllerPlacement === "cabinet" ? controllerCabinetId : undefined,
+        (route) => getDataRoutePortLabel(layout.project, route),
+        layout.project,
       )
     }
 
@@ -3401,10 +3445,10 @@ export function LayoutCanvas() {
         receiverCardModel,
         forcePortLabelsBottom,
         layout.project.pitch_mm,
+        layout.project,
+        placedControllers,
         routingMode.type === "data" ? routingMode.routeId : undefined,
         isOutdoorMode ? "outdoor" : "indoor",
-        isOutdoorMode && controllerPlacement === "cabinet" ? controllerCabinetId : undefined,
-        isOutdoorMode && controllerPlacement === "external",
       )
     }
 
@@ -3474,7 +3518,7 @@ export function LayoutCanvas() {
     }
 
     // Draw controller
-    if (layout.cabinets.length > 0 && !controllerInCabinet) {
+    if (layout.cabinets.length > 0 && externalControllerLabels.length > 0) {
       const layoutBounds = getLayoutBoundsFromCabinets(layout.cabinets, layout.cabinetTypes)
       if (layoutBounds) {
         const rowCenters: number[] = []
@@ -3575,7 +3619,7 @@ export function LayoutCanvas() {
         )
         drawControllerPorts(
           ctx,
-          controllerLabel,
+          externalControllerLabels,
           layout.cabinets,
           layout.cabinetTypes,
           uiZoom,
@@ -3698,8 +3742,8 @@ export function LayoutCanvas() {
 
     const handleFocusRequest = (event: Event) => {
       const detail = (event as CustomEvent<LayoutFocusRequestDetail>).detail
-      if (!detail || !detail.id) return
-      if (detail.entity !== "data-route" && detail.entity !== "power-feed") return
+      if (!detail) return
+      if (detail.entity === "cabinets" ? detail.ids.length === 0 : !detail.id) return
 
       requestAnimationFrame(() => {
         const canvas = canvasRef.current
@@ -3783,11 +3827,12 @@ export function LayoutCanvas() {
       routingMode.type === "power" ? layout.project.powerFeeds.find((f) => f.id === routingMode.feedId) : null
     const mode = layout.project.mode ?? "indoor"
     const isOutdoorMode = mode === "outdoor"
-    const controllerPlacement = layout.project.controllerPlacement ?? "external"
+    const mainController = getMainController(layout.project)
+    const controllerPlacement = mainController.placement ?? "external"
     const controllerCabinetId = resolveControllerCabinetId(
       isOutdoorMode ? "outdoor" : "indoor",
       controllerPlacement,
-      layout.project.controllerCabinetId,
+      mainController.cabinetId,
       layout.cabinets,
       layout.cabinetTypes,
     )
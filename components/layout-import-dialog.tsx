@@ -0,0 +1,68 @@
+"use client"
+
+import { useEditor } from "@/lib/editor-context"
+import type { LayoutSchemaIssue } from "@/lib/layout-schema"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+const ACTION_LABELS: Record<LayoutSchemaIssue["action"], string> = {
+  dropped: "Skipped",
+  removed: "Removed",
+  reset: "Reset",
+  coerced: "Converted",
+  fatal: "Blocking",
+}
+
+export function LayoutImportDialog() {
+  const { pendingImport, resolvePendingImport } = useEditor()
+  if (!pendingImport) return null
+
+  const { report, source } = pendingImport
+  const canImport = !!report.layout
+  const sourceLabel = source === "url" ? "layout link" : "layout file"
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && resolvePendingImport(false)}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{canImport ? "Layout needs repairs" : "Layout cannot be imported"}</DialogTitle>
+          <DialogDescription>
+            {canImport
+              ? `The ${sourceLabel} has ${report.issues.length} problem${report.issues.length === 1 ? "" : "s"}. You can import the repaired layout or keep the current one.`
+              : `The ${sourceLabel} could not be read. The current layout was kept.`}
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-80 rounded-md border border-border">
+          <ul className="divide-y divide-border text-xs">
+            {report.issues.map((issue, index) => (
+              <li key={`${issue.path}-${index}`} className="flex items-start gap-2 px-3 py-2">
+                <Badge variant={issue.action === "fatal" ? "destructive" : "secondary"} className="shrink-0">
+                  {ACTION_LABELS[issue.action]}
+                </Badge>
+                <div className="min-w-0">
+                  <div className="font-mono text-foreground break-all">{issue.path}</div>
+                  <div className="text-muted-foreground">{issue.message}</div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => resolvePendingImport(false)}>
+            {canImport ? "Cancel" : "Close"}
+          </Button>
+          {canImport && <Button onClick={() => resolvePendingImport(true)}>Import repaired layout</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
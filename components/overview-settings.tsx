@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from "react"
 import { useEditor } from "@/lib/editor-context"
-import { DEFAULT_LAYOUT, type ModuleSize } from "@/lib/types"
+import { DEFAULT_LAYOUT, type ModuleSize, type PdfOutputMode } from "@/lib/types"
 import { coerceModeModuleSize, getModeModuleSizeOptions, getProjectHardwareDefaults } from "@/lib/modes"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
@@ -10,11 +10,13 @@ import { Switch } from "@/components/ui/switch"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Separator } from "@/components/ui/separator"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import {
-  RECEIVER_CARD_MODELS,
   formatReceiverCardOptionLabel,
+  getReceiverCardCatalog,
+  type ReceiverCardModelOption,
 } from "@/lib/receiver-cards"
-import { Cpu, Tag, Ruler, Cable, Zap, LayoutGrid, FileDown, Hash } from "lucide-react"
+import { Cpu, Tag, Ruler, Cable, Zap, LayoutGrid, FileDown, Hash, Plus } from "lucide-react"
 
 export function OverviewSettings() {
   const { state, dispatch } = useEditor()
@@ -32,6 +34,9 @@ export function OverviewSettings() {
   const isModuleOrientationEnabled = selectedModuleSize !== "320x320"
   const labelSequenceValue = mappingNumbers.labels?.join(", ") ?? ""
   const [labelSequenceDraft, setLabelSequenceDraft] = useState(labelSequenceValue)
+  const receiverCardCatalog = getReceiverCardCatalog(layout.project)
+  const [isAddCardOpen, setIsAddCardOpen] = useState(false)
+  const [newCard, setNewCard] = useState({ id: "", width_px: 256, height_px: 512 })
 
   useEffect(() => {
     setLabelSequenceDraft(labelSequenceValue)
@@ -55,6 +60,24 @@ export function OverviewSettings() {
     updateMappingNumbers({ labels: parsed.length > 0 ? parsed : undefined })
   }
 
+  const handleAddReceiverCard = () => {
+    const id = newCard.id.trim()
+    if (!id || !newCard.width_px || !newCard.height_px) return
+    if (receiverCardCatalog.some((option) => option.id.toLowerCase() === id.toLowerCase())) {
+      alert("Receiver card model already exists")
+      return
+    }
+    const card: ReceiverCardModelOption = { id, label: id, width_px: newCard.width_px, height_px: newCard.height_px }
+    dispatch({
+      type: "UPDATE_PROJECT",
+      payload: { receiverCardModels: [...(layout.project.receiverCardModels ?? []), card] },
+    })
+    dispatch({ type: "UPDATE_OVERVIEW", payload: { receiverCardModel: id } })
+    dispatch({ type: "PUSH_HISTORY" })
+    setNewCard({ id: "", width_px: 256, height_px: 512 })
+    setIsAddCardOpen(false)
+  }
+
   const handleClearManualAssignments = () => {
     updateMappingNumbers({ manualAssignments: { perChain: {}, perEndpoint: {} } })
   }
@@ -95,7 +118,55 @@ export function OverviewSettings() {
             />
           </div>
           <div className="space-y-1.5">
-            <Label className="text-xs">Preset</Label>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Preset</Label>
+              <Dialog open={isAddCardOpen} onOpenChange={setIsAddCardOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-4 w-4 p-0" title="Add receiver card model">
+                    <Plus className="w-3 h-3" />
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Add Receiver Card</DialogTitle>
+                  </DialogHeader>
+                  <div className="space-y-4 pt-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="receiver-card-id">Model</Label>
+                      <Input
+                        id="receiver-card-id"
+                        placeholder="e.g., MRV416"
+                        value={newCard.id}
+                        onChange={(e) => setNewCard({ ...newCard, id: e.target.value })}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="receiver-card-width">Width (px)</Label>
+                        <Input
+                          id="receiver-card-width"
+                          type="number"
+                          value={newCard.width_px}
+                          onChange={(e) => setNewCard({ ...newCard, width_px: Number.parseInt(e.target.value) || 0 })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="receiver-card-height">Height (px)</Label>
+                        <Input
+                          id="receiver-card-height"
+                          type="number"
+                          value={newCard.height_px}
+                          onChange={(e) => setNewCard({ ...newCard, height_px: Number.parseInt(e.target.value) || 0 })}
+                        />
+                      </div>
+                    </div>
+                    <Button onClick={handleAddReceiverCard} className="w-full">
+                      Add Card
+                    </Button>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            </div>
             <Select
               onValueChange={(value) =>
                 dispatch({ type: "UPDATE_OVERVIEW", payload: { receiverCardModel: value } })
@@ -105,7 +176,7 @@ export function OverviewSettings() {
                 <SelectValue placeholder="Select" />
               </SelectTrigger>
               <SelectContent>
-                {RECEIVER_CARD_MODELS.map((option) => (
+                {receiverCardCatalog.map((option) => (
                   <SelectItem key={option.id} value={option.id}>
                     {formatReceiverCardOptionLabel(option)}
                   </SelectItem>
@@ -500,6 +571,23 @@ export function OverviewSettings() {
             </SelectContent>
           </Select>
         </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Output</Label>
+          <Select
+            value={exportSettings?.pdfOutput ?? "vector"}
+            onValueChange={(value: PdfOutputMode) =>
+              dispatch({ type: "UPDATE_EXPORT_SETTINGS", payload: { pdfOutput: value } })
+            }
+          >
+            <SelectTrigger className="h-8 bg-input text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="vector">Vector (selectable text)</SelectItem>
+              <SelectItem value="raster">Raster image</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
         <div className="flex items-center justify-between">
           <Label htmlFor="double-sided-title" className="text-sm">
             Double-Sided Title Logic
@@ -543,6 +631,64 @@ export function OverviewSettings() {
             }
           />
         </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="show-power-report" className="text-sm">
+            Power Report
+          </Label>
+          <Switch
+            id="show-power-report"
+            checked={exportSettings?.showPowerReport ?? false}
+            onCheckedChange={(checked) =>
+              dispatch({ type: "UPDATE_EXPORT_SETTINGS", payload: { showPowerReport: checked } })
+            }
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="show-bom" className="text-sm">
+            BOM Page
+          </Label>
+          <Switch
+            id="show-bom"
+            checked={exportSettings?.showBom ?? false}
+            onCheckedChange={(checked) => dispatch({ type: "UPDATE_EXPORT_SETTINGS", payload: { showBom: checked } })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="show-quote" className="text-sm">
+            Quote Page
+          </Label>
+          <Switch
+            id="show-quote"
+            checked={exportSettings?.showQuote ?? false}
+            onCheckedChange={(checked) =>
+              dispatch({ type: "UPDATE_EXPORT_SETTINGS", payload: { showQuote: checked } })
+            }
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="show-cad-views" className="text-sm">
+            Side, Top &amp; Iso Pages
+          </Label>
+          <Switch
+            id="show-cad-views"
+            checked={exportSettings?.showCadViews ?? false}
+            onCheckedChange={(checked) =>
+              dispatch({ type: "UPDATE_EXPORT_SETTINGS", payload: { showCadViews: checked } })
+            }
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="drawing-set" className="text-sm">
+            Drawing Set
+          </Label>
+          <Switch
+            id="drawing-set"
+            checked={exportSettings?.drawingSet ?? false}
+            onCheckedChange={(checked) =>
+              dispatch({ type: "UPDATE_EXPORT_SETTINGS", payload: { drawingSet: checked } })
+            }
+          />
+        </div>
       </div>
     </div>
   )
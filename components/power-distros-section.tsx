@@ -0,0 +1,185 @@
+"use client"
+
+import { useEditor } from "@/lib/editor-context"
+import type { PowerDistro } from "@/lib/types"
+import {
+  DEFAULT_POWER_DISTRO,
+  PHASE_IMBALANCE_WARN_PERCENT,
+  balanceFeedPhases,
+  getDistroPhaseLoads,
+  getNextDistroId,
+  getPowerDistros,
+} from "@/lib/power-phases"
+import { getPowerFeedLoadW } from "@/lib/power-utils"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Plus, Scale, Trash2, Waypoints } from "lucide-react"
+
+export function PowerDistrosSection() {
+  const { state, dispatch } = useEditor()
+  const { layout } = state
+  const { project } = layout
+  const distros = getPowerDistros(project)
+  const mode = project.mode ?? "indoor"
+
+  const updateDistros = (next: PowerDistro[], powerFeeds = project.powerFeeds) => {
+    dispatch({ type: "UPDATE_PROJECT", payload: { powerDistros: next, powerFeeds } })
+  }
+
+  const handleAddDistro = () => {
+    const id = getNextDistroId(project)
+    updateDistros([...distros, { id, label: id, ...DEFAULT_POWER_DISTRO }])
+    dispatch({ type: "PUSH_HISTORY" })
+  }
+
+  // Feeds on a removed distro lose their phase.
+  const handleRemoveDistro = (id: string) => {
+    updateDistros(
+      distros.filter((distro) => distro.id !== id),
+      project.powerFeeds.map((feed) =>
+        feed.distroId === id ? { ...feed, distroId: undefined, phase: undefined } : feed,
+      ),
+    )
+    dispatch({ type: "PUSH_HISTORY" })
+  }
+
+  const handleUpdateDistro = (id: string, updates: Partial<PowerDistro>) => {
+    updateDistros(distros.map((distro) => (distro.id === id ? { ...distro, ...updates } : distro)))
+  }
+
+  const handleNumberChange = (id: string, key: "phaseVoltageV" | "ratedCurrentA", value: string) => {
+    const parsed = Number.parseFloat(value)
+    if (!Number.isFinite(parsed) || parsed <= 0) return
+    handleUpdateDistro(id, { [key]: parsed })
+  }
+
+  const handleBalance = () => {
+    const feeds = project.powerFeeds.filter((feed) => feed.assignedCabinetIds.length > 0)
+    const assignments = balanceFeedPhases(
+      distros,
+      feeds.map((feed) => ({
+        id: feed.id,
+        distroId: feed.distroId,
+        loadW: getPowerFeedLoadW(feed, layout.cabinets, layout.cabinetTypes, mode),
+      })),
+    )
+    dispatch({
+      type: "UPDATE_PROJECT",
+      payload: { powerFeeds: project.powerFeeds.map((feed) => ({ ...feed, ...assignments.get(feed.id) })) },
+    })
+    dispatch({ type: "PUSH_HISTORY" })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+          <Waypoints className="w-3 h-3 text-orange-500" />
+          Distribution
+        </div>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleBalance}
+            disabled={distros.length === 0 || project.powerFeeds.length === 0}
+            title="Spread feeds across phases to even out the load"
+            className="h-7 px-2 text-xs text-orange-100 hover:text-orange-50"
+          >
+            <Scale className="w-3 h-3 mr-1" />
+            Balance
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleAddDistro}
+            title="Add a three-phase distro"
+            className="h-7 px-2 transition-transform duration-150 hover:scale-105 active:scale-95"
+          >
+            <Plus className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+
+      {distros.length === 0 ? (
+        <p className="text-xs text-zinc-500 italic">No distros. Feeds are not tied to a phase.</p>
+      ) : (
+        distros.map((distro) => {
+          const loads = getDistroPhaseLoads(layout, distro)
+          return (
+            <div key={distro.id} className="rounded-xl border border-zinc-800 bg-zinc-900/60 p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  aria-label="Distro label"
+                  value={distro.label}
+                  placeholder={distro.id}
+                  onChange={(e) => handleUpdateDistro(distro.id, { label: e.target.value })}
+                  onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+                  className="h-7 flex-1 text-xs bg-zinc-950/60 border-zinc-800 text-zinc-100"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemoveDistro(distro.id)}
+                  className="h-7 w-7 p-0 text-zinc-400 hover:text-red-400"
+                  title="Remove distro"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-[11px] text-zinc-400">Phase voltage (V)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={distro.phaseVoltageV}
+                    onChange={(e) => handleNumberChange(distro.id, "phaseVoltageV", e.target.value)}
+                    onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+                    className="h-7 text-xs bg-zinc-950/60 border-zinc-800 text-zinc-100"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-[11px] text-zinc-400">Rated current (A)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={distro.ratedCurrentA}
+                    onChange={(e) => handleNumberChange(distro.id, "ratedCurrentA", e.target.value)}
+                    onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+                    className="h-7 text-xs bg-zinc-950/60 border-zinc-800 text-zinc-100"
+                  />
+                </div>
+              </div>
+              <div className="space-y-0.5">
+                {loads.phases.map((entry) => (
+                  <div
+                    key={entry.phase}
+                    className={`flex items-center justify-between text-xs ${
+                      loads.overloadedPhases.includes(entry.phase) ? "text-red-400" : "text-zinc-400"
+                    }`}
+                  >
+                    <span>
+                      {entry.phase} · {entry.feedIds.length} feed{entry.feedIds.length === 1 ? "" : "s"}
+                    </span>
+                    <span className="font-mono">
+                      {entry.loadW} W · {entry.currentA} / {distro.ratedCurrentA} A
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div
+                className={`text-xs ${
+                  loads.imbalancePercent > PHASE_IMBALANCE_WARN_PERCENT ? "text-warning" : "text-zinc-500"
+                }`}
+              >
+                Imbalance: {loads.imbalancePercent}%
+              </div>
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import { useEditor } from "@/lib/editor-context"
+import type { PowerReportSettings } from "@/lib/types"
+import { POWER_REPORT_VOLTAGES, buildPowerReport } from "@/lib/power-report"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+export function PowerReportSection() {
+  const { state, dispatch } = useEditor()
+  const { layout } = state
+  const report = buildPowerReport(layout)
+  const { settings } = report
+  const voltages = POWER_REPORT_VOLTAGES.includes(settings.voltageV)
+    ? POWER_REPORT_VOLTAGES
+    : [...POWER_REPORT_VOLTAGES, settings.voltageV].sort((a, b) => a - b)
+
+  const updateSettings = (updates: Partial<PowerReportSettings>) => {
+    dispatch({ type: "UPDATE_PROJECT", payload: { powerReport: { ...settings, ...updates } } })
+  }
+
+  const handlePercentChange = (key: "typicalDutyPercent" | "standbyPercent", value: string) => {
+    const parsed = Number.parseFloat(value)
+    if (!Number.isFinite(parsed) || parsed < 0) return
+    updateSettings({ [key]: Math.min(100, parsed) })
+  }
+
+  return (
+    <div className="border border-sidebar-border rounded-md p-3">
+      <h3 className="text-xs font-semibold text-muted-foreground mb-2">Power & Heat</h3>
+      <div className="grid grid-cols-[auto_1fr_1fr_1fr] gap-x-3 gap-y-1 text-xs">
+        <span />
+        <span className="text-right text-muted-foreground">W</span>
+        <span className="text-right text-muted-foreground">A</span>
+        <span className="text-right text-muted-foreground">BTU/h</span>
+        {report.levels.map((level) => (
+          <div key={level.key} className="contents">
+            <span className="text-muted-foreground">{level.label}:</span>
+            <span className="text-right font-mono">{level.watts}</span>
+            <span className="text-right font-mono">{level.currentA}</span>
+            <span className="text-right font-mono">{level.btuPerHour}</span>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-2 mt-3">
+        <div className="space-y-1">
+          <Label htmlFor="power-typical-duty" className="text-[11px] text-muted-foreground">
+            Typical (%)
+          </Label>
+          <Input
+            id="power-typical-duty"
+            type="number"
+            min={0}
+            max={100}
+            value={settings.typicalDutyPercent}
+            onChange={(e) => handlePercentChange("typicalDutyPercent", e.target.value)}
+            onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+            className="h-7 bg-input text-xs"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="power-standby" className="text-[11px] text-muted-foreground">
+            Standby (%)
+          </Label>
+          <Input
+            id="power-standby"
+            type="number"
+            min={0}
+            max={100}
+            value={settings.standbyPercent}
+            onChange={(e) => handlePercentChange("standbyPercent", e.target.value)}
+            onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+            className="h-7 bg-input text-xs"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-[11px] text-muted-foreground">Voltage</Label>
+          <Select
+            value={String(settings.voltageV)}
+            onValueChange={(value) => {
+              updateSettings({ voltageV: Number(value) })
+              dispatch({ type: "PUSH_HISTORY" })
+            }}
+          >
+            <SelectTrigger className="h-7 bg-input text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {voltages.map((voltage) => (
+                <SelectItem key={voltage} value={String(voltage)}>
+                  {voltage} V
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="text-[11px] text-zinc-500 mt-2">
+        Typical applies to cabinet types without a typical rating in the library.
+      </div>
+    </div>
+  )
+}
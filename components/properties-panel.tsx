@@ -12,19 +12,21 @@ import {
 } from "@/lib/types"
 import { getProjectHardwareDefaults } from "@/lib/modes"
 import { resolveControllerCabinetId } from "@/lib/controller-utils"
+import { getMainController, updateMainController } from "@/lib/controllers"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import {
-  RECEIVER_CARD_MODELS,
-  formatReceiverCardOptionLabel,
-} from "@/lib/receiver-cards"
-import { AlertCircle, AlertTriangle, Trash2, CheckCircle, Settings, Sliders, Cable } from "lucide-react"
+import { formatReceiverCardOptionLabel, getReceiverCardCatalog } from "@/lib/receiver-cards"
+import { getReceiverCardCapacity } from "@/lib/receiver-card-capacity"
+import { AlertCircle, AlertTriangle, Trash2, CheckCircle, Settings, Sliders, Cable, Receipt } from "lucide-react"
 import { OverviewSettings } from "./overview-settings"
 import { DataRoutesPanel } from "./data-routes-panel"
+import { IssuesPanel } from "./issues-panel"
+import { QuotePanel } from "./quote-panel"
+import { PowerReportSection } from "./power-report-section"
 
 export function PropertiesPanel() {
   const { state, dispatch } = useEditor()
@@ -44,14 +46,17 @@ export function PropertiesPanel() {
   const heightPx = bounds.height > 0 ? Math.round(bounds.height / pitch) : 0
 
   const receiverCardCount = selectedCabinet ? getCabinetReceiverCardCount(selectedCabinet) : 1
+  const receiverCardCapacity = selectedCabinet ? getReceiverCardCapacity(layout, selectedCabinet) : null
   const receiverModelDefault = layout.project.overview.receiverCardModel || hardwareDefaults.receiverCardModel
   const [receiverModelDraft, setReceiverModelDraft] = useState(receiverModelDefault)
   const [gridLabelDraft, setGridLabelDraft] = useState("")
-  const controllerPlacement = layout.project.controllerPlacement ?? "external"
+  const [activeTab, setActiveTab] = useState("properties")
+  const mainController = getMainController(layout.project)
+  const controllerPlacement = mainController.placement ?? "external"
   const controllerCabinetId = resolveControllerCabinetId(
     mode,
     controllerPlacement,
-    layout.project.controllerCabinetId,
+    mainController.cabinetId,
     layout.cabinets,
     layout.cabinetTypes,
   )
@@ -174,7 +179,9 @@ export function PropertiesPanel() {
     if (controllerPlacement === "cabinet" && controllerCabinetId === selectedCabinet.id) return
     dispatch({
       type: "UPDATE_PROJECT",
-      payload: { controllerPlacement: "cabinet", controllerCabinetId: selectedCabinet.id },
+      payload: {
+        controllers: updateMainController(layout.project, { placement: "cabinet", cabinetId: selectedCabinet.id }),
+      },
     })
     dispatch({ type: "PUSH_HISTORY" })
   }
@@ -183,7 +190,7 @@ export function PropertiesPanel() {
     if (controllerPlacement !== "cabinet" && !controllerCabinetId) return
     dispatch({
       type: "UPDATE_PROJECT",
-      payload: { controllerPlacement: "external", controllerCabinetId: undefined },
+      payload: { controllers: updateMainController(layout.project, { placement: "external", cabinetId: undefined }) },
     })
     dispatch({ type: "PUSH_HISTORY" })
   }
@@ -237,34 +244,10 @@ export function PropertiesPanel() {
 
   const controllerCabinetLabel = controllerCabinet ? getCabinetLabel(controllerCabinet.id) : null
 
-  const getErrorMessage = (error: (typeof errors)[number]) => {
-    const [firstId, secondId] = error.cabinetIds
-    const firstLabel = firstId ? getCabinetLabel(firstId) : "?"
-    const secondLabel = secondId ? getCabinetLabel(secondId) : "?"
-
-    switch (error.code) {
-      case "DUPLICATE_ID":
-        return `Duplicate cabinet ID: ${firstLabel}`
-      case "MISSING_TYPE": {
-        const cabinet = firstId ? layout.cabinets.find((c) => c.id === firstId) : null
-        const typeId = cabinet?.typeId || "?"
-        return `Cabinet ${firstLabel} has unknown type: ${typeId}`
-      }
-      case "OVERLAP":
-        return `Cabinets ${firstLabel} and ${secondLabel} overlap`
-      case "OUT_OF_GRID":
-        return `Cabinet ${firstLabel} is not aligned to grid (${layout.project.grid.step_mm}mm)`
-      case "ISOLATED_CABINET":
-        return `Cabinet ${firstLabel} has no adjacent neighbors`
-      default:
-        return error.message
-    }
-  }
-
   return (
     <div className="w-[21.25rem] bg-sidebar border-l border-sidebar-border flex flex-col min-h-0 overflow-hidden">
-      <Tabs defaultValue="properties" className="flex-1 flex flex-col min-h-0">
-        <TabsList className="grid w-full grid-cols-3 m-2 mb-0">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col min-h-0">
+        <TabsList className="grid w-full grid-cols-5 m-2 mb-0">
           <TabsTrigger value="properties" className="text-xs">
             <Settings className="w-3 h-3 mr-1" />
             Props
@@ -277,6 +260,19 @@ export function PropertiesPanel() {
             <Sliders className="w-3 h-3 mr-1" />
             View
           </TabsTrigger>
+          <TabsTrigger value="quote" className="text-xs">
+            <Receipt className="w-3 h-3 mr-1" />
+            Quote
+          </TabsTrigger>
+          <TabsTrigger value="issues" className="text-xs">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            Issues
+            {errorCount + warningCount > 0 && (
+              <span className={`ml-1 font-mono ${errorCount > 0 ? "text-error" : "text-warning"}`}>
+                {errorCount + warningCount}
+              </span>
+            )}
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="properties" className="flex-1 flex flex-col min-h-0 mt-0 data-[state=inactive]:hidden">
@@ -331,7 +327,7 @@ export function PropertiesPanel() {
                             <SelectValue placeholder="Preset" />
                           </SelectTrigger>
                           <SelectContent>
-                            {RECEIVER_CARD_MODELS.map((option) => (
+                            {getReceiverCardCatalog(layout.project).map((option) => (
                               <SelectItem key={option.id} value={option.id}>
                                 {formatReceiverCardOptionLabel(option)}
                               </SelectItem>
@@ -376,6 +372,19 @@ export function PropertiesPanel() {
                       <div className="text-[11px] text-zinc-500">
                         Two cards split routing as A1a/A1b to optimize mapping.
                       </div>
+                      {receiverCardCapacity && (
+                        <div
+                          className={`text-[11px] ${
+                            receiverCardCapacity.requiredCards > receiverCardCapacity.cardCount
+                              ? "text-red-400"
+                              : "text-zinc-500"
+                          }`}
+                        >
+                          {receiverCardCapacity.cabinetWidthPx} x {receiverCardCapacity.cabinetHeightPx} px needs{" "}
+                          {receiverCardCapacity.requiredCards} x {receiverCardCapacity.modelId} (
+                          {receiverCardCapacity.cardWidthPx} x {receiverCardCapacity.cardHeightPx} px each)
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -384,11 +393,11 @@ export function PropertiesPanel() {
                     <div className="text-[11px] text-zinc-500">
                       {isOutdoorMode
                         ? controllerPlacement === "cabinet" && controllerCabinetLabel
-                          ? `LV Box dans cabinet ${controllerCabinetLabel} (${layout.project.controller}, PI, SWITCH, ANTENNA)`
-                          : `LV Box externe (${layout.project.controller}, PI, SWITCH, ANTENNA)`
+                          ? `LV Box dans cabinet ${controllerCabinetLabel} (${mainController.model}, PI, SWITCH, ANTENNA)`
+                          : `LV Box externe (${mainController.model}, PI, SWITCH, ANTENNA)`
                         : controllerPlacement === "cabinet" && controllerCabinetLabel
-                          ? `${layout.project.controller} in cabinet ${controllerCabinetLabel}`
-                          : `${layout.project.controller} external`}
+                          ? `${mainController.model} in cabinet ${controllerCabinetLabel}`
+                          : `${mainController.model} external`}
                     </div>
                     <div className="flex flex-wrap gap-2">
                       <Button
@@ -446,6 +455,8 @@ export function PropertiesPanel() {
                 </div>
               </div>
 
+              <PowerReportSection />
+
               <div className="border border-sidebar-border rounded-md p-3">
                 <div className="flex items-center gap-2 mb-2">
                   {errorCount === 0 && warningCount === 0 ? (
@@ -459,29 +470,19 @@ export function PropertiesPanel() {
                 {errors.length === 0 ? (
                   <p className="text-xs text-muted-foreground">No issues detected</p>
                 ) : (
-                  <div className="space-y-2">
-                    {errors.map((error, i) => (
-                      <button
-                        key={i}
-                        className={`w-full text-left p-2 rounded-md text-xs hover:bg-sidebar-accent transition-colors ${
-                          error.type === "error" ? "bg-error/10 text-error" : "bg-warning/10 text-warning"
-                        }`}
-                        onClick={() => {
-                          if (error.cabinetIds.length > 0) {
-                            dispatch({ type: "SELECT_CABINET", payload: error.cabinetIds[0] })
-                          }
-                        }}
-                      >
-                        <div className="flex items-start gap-2">
-                          {error.type === "error" ? (
-                            <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
-                          ) : (
-                            <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
-                          )}
-                          <span>{getErrorMessage(error)}</span>
-                        </div>
-                      </button>
-                    ))}
+                  <div className="flex items-center justify-between gap-2 text-xs">
+                    <span>
+                      <span className="text-error">
+                        {errorCount} error{errorCount === 1 ? "" : "s"}
+                      </span>
+                      <span className="text-muted-foreground">, </span>
+                      <span className="text-warning">
+                        {warningCount} warning{warningCount === 1 ? "" : "s"}
+                      </span>
+                    </span>
+                    <Button variant="outline" size="sm" className="h-6 text-[10px]" onClick={() => setActiveTab("issues")}>
+                      Review issues
+                    </Button>
                   </div>
                 )}
               </div>
@@ -504,6 +505,22 @@ export function PropertiesPanel() {
             </div>
           </ScrollArea>
         </TabsContent>
+
+        <TabsContent value="quote" className="flex-1 flex flex-col min-h-0 mt-0 data-[state=inactive]:hidden">
+          <ScrollArea className="flex-1 min-h-0">
+            <div className="p-3 pr-14">
+              <QuotePanel />
+            </div>
+          </ScrollArea>
+        </TabsContent>
+
+        <TabsContent value="issues" className="flex-1 flex flex-col min-h-0 mt-0 data-[state=inactive]:hidden">
+          <ScrollArea className="flex-1 min-h-0">
+            <div className="p-3 pr-14">
+              <IssuesPanel />
+            </div>
+          </ScrollArea>
+        </TabsContent>
       </Tabs>
     </div>
   )
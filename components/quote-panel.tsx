@@ -0,0 +1,202 @@
+"use client"
+
+import { useEditor } from "@/lib/editor-context"
+import type { QuoteSettings } from "@/lib/types"
+import { setBomPart } from "@/lib/bom"
+import {
+  MAX_MARGIN_PERCENT,
+  buildQuote,
+  formatMoney,
+  formatQuoteCsv,
+  getQuoteSettings,
+  getQuoteSummaryRows,
+} from "@/lib/quote"
+import { downloadBlob } from "@/lib/download"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Separator } from "@/components/ui/separator"
+import { Download, Receipt, Wrench, Package } from "lucide-react"
+
+export function QuotePanel() {
+  const { state, dispatch } = useEditor()
+  const { layout } = state
+  const { project } = layout
+  const settings = getQuoteSettings(project)
+  const quote = buildQuote(layout)
+  const materialLines = quote.lines.filter((line) => line.kind === "material")
+  const labourLines = quote.lines.filter((line) => line.kind === "labour")
+  const formatAmount = (amount: number) => formatMoney(amount, quote.currency)
+
+  const updateSettings = (updates: Partial<QuoteSettings>) => {
+    dispatch({ type: "UPDATE_PROJECT", payload: { quote: { ...settings, ...project.quote, ...updates } } })
+  }
+
+  const handleNumberChange = (key: Exclude<keyof QuoteSettings, "currency">, value: string) => {
+    const parsed = Number.parseFloat(value)
+    if (!Number.isFinite(parsed) || parsed < 0) return
+    updateSettings({ [key]: key === "marginPercent" ? Math.min(MAX_MARGIN_PERCENT, parsed) : parsed })
+  }
+
+  // Unit costs live in the BOM part catalog, so the BOM dialog and the quote stay in step.
+  const handleUnitCostChange = (key: string, value: string) => {
+    const trimmed = value.trim()
+    const parsed = trimmed ? Number.parseFloat(trimmed) : undefined
+    if (parsed !== undefined && (!Number.isFinite(parsed) || parsed < 0)) return
+    dispatch({
+      type: "UPDATE_PROJECT",
+      payload: { bomParts: setBomPart(project.bomParts, key, { unitPrice: parsed }) },
+    })
+  }
+
+  const handleExportCsv = () => {
+    const fileBaseName = project.name.replace(/\s+/g, "_")
+    downloadBlob(new Blob([formatQuoteCsv(quote)], { type: "text/csv" }), `${fileBaseName}_quote.csv`)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <div className="flex items-center gap-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+          <Receipt className="w-3 h-3" />
+          Quote Settings
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="quote-currency" className="text-xs">
+              Currency
+            </Label>
+            <Input
+              id="quote-currency"
+              value={project.quote?.currency ?? settings.currency}
+              maxLength={3}
+              onChange={(e) => updateSettings({ currency: e.target.value.toUpperCase() })}
+              onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+              className="h-8 bg-input text-sm font-mono"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="quote-margin" className="text-xs">
+              Margin (%)
+            </Label>
+            <Input
+              id="quote-margin"
+              type="number"
+              min={0}
+              max={MAX_MARGIN_PERCENT}
+              value={settings.marginPercent}
+              onChange={(e) => handleNumberChange("marginPercent", e.target.value)}
+              onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+              className="h-8 bg-input text-sm"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="quote-labour-cabinet" className="text-xs">
+              Labour / cabinet
+            </Label>
+            <Input
+              id="quote-labour-cabinet"
+              type="number"
+              min={0}
+              step={0.01}
+              value={settings.labourPerCabinet}
+              onChange={(e) => handleNumberChange("labourPerCabinet", e.target.value)}
+              onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+              className="h-8 bg-input text-sm"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="quote-labour-route" className="text-xs">
+              Labour / route
+            </Label>
+            <Input
+              id="quote-labour-route"
+              type="number"
+              min={0}
+              step={0.01}
+              value={settings.labourPerRoute}
+              onChange={(e) => handleNumberChange("labourPerRoute", e.target.value)}
+              onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+              className="h-8 bg-input text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+          <Package className="w-3 h-3" />
+          Materials
+        </div>
+        {materialLines.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Add cabinets to start the quote.</p>
+        ) : (
+          materialLines.map((line) => (
+            <div key={line.key} className="flex items-center gap-2 text-xs">
+              <div className="min-w-0 flex-1">
+                <div className="truncate">{line.description}</div>
+                <div className="font-mono text-[10px] text-muted-foreground">
+                  {line.quantity} {line.unit} = {line.cost === null ? "unpriced" : formatAmount(line.cost)}
+                </div>
+              </div>
+              <Input
+                aria-label={`${line.description} unit cost`}
+                type="number"
+                min={0}
+                step={0.01}
+                value={line.unitCost ?? ""}
+                placeholder="Unit cost"
+                onChange={(e) => handleUnitCostChange(line.key, e.target.value)}
+                onBlur={() => dispatch({ type: "PUSH_HISTORY" })}
+                className="h-7 w-24 bg-input text-right text-xs"
+              />
+            </div>
+          ))
+        )}
+      </div>
+
+      {labourLines.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+            <Wrench className="w-3 h-3" />
+            Labour
+          </div>
+          {labourLines.map((line) => (
+            <div key={line.key} className="flex items-center justify-between text-xs">
+              <span>
+                {line.description} x{line.quantity}
+              </span>
+              <span className="font-mono">{formatAmount(line.cost ?? 0)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Separator />
+
+      <div className="space-y-1">
+        {getQuoteSummaryRows(quote).map((row, index, rows) => (
+          <div
+            key={row.label}
+            className={`flex items-center justify-between ${index === rows.length - 1 ? "text-sm font-semibold" : "text-xs"}`}
+          >
+            <span>{row.label}</span>
+            <span className="font-mono">{formatAmount(row.amount)}</span>
+          </div>
+        ))}
+        {quote.unpricedCount > 0 && (
+          <p className="text-[11px] text-warning">
+            {quote.unpricedCount} item{quote.unpricedCount === 1 ? "" : "s"} without a unit cost left out of the total
+          </p>
+        )}
+      </div>
+
+      <Button variant="outline" size="sm" className="w-full" onClick={handleExportCsv}>
+        <Download className="w-4 h-4 mr-1" />
+        Export Quote CSV
+      </Button>
+    </div>
+  )
+}
@@ -4,19 +4,33 @@ import type React from "react"
 
 import { useRef } from "react"
 import { useEditor } from "@/lib/editor-context"
-import type { LayoutData, OutdoorHardwareProfile, ProjectMode } from "@/lib/types"
+import type { OutdoorHardwareProfile, ProjectMode } from "@/lib/types"
 import { coerceModePitch, getModeOptions, getModePitchOptions, getProjectHardwareDefaults } from "@/lib/modes"
 import { exportOverviewPdf } from "@/lib/export-pdf"
+import { exportOverviewSvg } from "@/lib/export-svg"
 import { buildCadExport } from "@/lib/cad-export"
+import { buildCadDxf } from "@/lib/cad-dxf"
+import { buildCableSchedule, buildCableScheduleXlsx, formatCableScheduleCsv } from "@/lib/cable-schedule"
+import { downloadBlob } from "@/lib/download"
+import { getUnreadableLayoutReport } from "@/lib/layout-schema"
+import { POWER_VALIDATION_CODES, validateLayout } from "@/lib/validation"
+import {
+  formatControllerOptionLabel,
+  getControllerCatalog,
+  getMainController,
+  updateMainController,
+} from "@/lib/controllers"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Download, Upload, Undo2, Redo2, Grid3X3, FileDown, Trash2 } from "lucide-react"
+import { ControllerCatalogDialog } from "@/components/controller-catalog-dialog"
+import { BomDialog } from "@/components/bom-dialog"
+import { Download, Upload, Undo2, Redo2, Grid3X3, FileDown, FileImage, FileSpreadsheet, Trash2 } from "lucide-react"
 
 export function TopBar() {
-  const { state, dispatch, resetEditor } = useEditor()
+  const { state, dispatch, resetEditor, importLayout, showImportReport } = useEditor()
   const { layout } = state
   const fileInputRef = useRef<HTMLInputElement>(null)
   const modeOptions = getModeOptions()
@@ -27,16 +41,31 @@ export function TopBar() {
   const pitchMode = currentPitch.pitch_is_gob ? "gob" : "std"
   const projectNumber = layout.project.name.replace(/\D/g, "")
   const outdoorHardwareProfile = layout.project.outdoorHardwareProfile ?? "standard"
+  const mainController = getMainController(layout.project)
+
+  const fileBaseName = layout.project.name.replace(/\s+/g, "_")
 
   const handleExportJSON = () => {
     const json = JSON.stringify(buildCadExport(layout), null, 2)
-    const blob = new Blob([json], { type: "application/json" })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement("a")
-    a.href = url
-    a.download = `${layout.project.name.replace(/\s+/g, "_")}_cad.json`
-    a.click()
-    URL.revokeObjectURL(url)
+    downloadBlob(new Blob([json], { type: "application/json" }), `${fileBaseName}_cad.json`)
+  }
+
+  const handleExportDxf = () => {
+    const dxf = buildCadDxf(buildCadExport(layout))
+    downloadBlob(new Blob([dxf], { type: "application/dxf" }), `${fileBaseName}.dxf`)
+  }
+
+  const handleExportCableCsv = () => {
+    const csv = formatCableScheduleCsv(buildCableSchedule(layout))
+    downloadBlob(new Blob([csv], { type: "text/csv" }), `${fileBaseName}_cables.csv`)
+  }
+
+  const handleExportCableXlsx = () => {
+    const xlsx = buildCableScheduleXlsx(buildCableSchedule(layout))
+    downloadBlob(
+      new Blob([xlsx], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+      `${fileBaseName}_cables.xlsx`,
+    )
   }
 
   const handleImportJSON = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -45,21 +74,46 @@ export function TopBar() {
 
     const reader = new FileReader()
     reader.onload = (event) => {
+      let imported: unknown
       try {
-        const imported = JSON.parse(event.target?.result as string) as LayoutData
-        if (imported.schemaVersion && imported.project && imported.cabinets) {
-          dispatch({ type: "SET_LAYOUT", payload: imported })
-        } else {
-          alert("Invalid layout file format")
-        }
+        imported = JSON.parse(event.target?.result as string)
       } catch {
-        alert("Failed to parse JSON file")
+        showImportReport(getUnreadableLayoutReport("Failed to parse JSON file."), "file")
+        return
       }
+      importLayout(imported, "file")
     }
     reader.readAsText(file)
     e.target.value = ""
   }
 
+  // Power errors block the PDF (it would ship a wrong electrical plan); warnings ask first.
+  const handleExportPdf = () => {
+    const powerIssues = validateLayout(layout).filter((issue) => POWER_VALIDATION_CODES.includes(issue.code))
+    const powerErrors = powerIssues.filter((issue) => issue.type === "error")
+    const powerWarnings = powerIssues.filter((issue) => issue.type === "warning")
+    const formatIssues = (issues: typeof powerIssues) => {
+      const lines = issues.slice(0, 8).map((issue) => `• ${issue.message}`)
+      if (issues.length > lines.length) lines.push(`• …and ${issues.length - lines.length} more`)
+      return lines.join("\n")
+    }
+    if (powerErrors.length > 0) {
+      alert(`Fix these power issues before exporting the PDF:\n\n${formatIssues(powerErrors)}`)
+      return
+    }
+    if (
+      powerWarnings.length > 0 &&
+      !window.confirm(`The layout has power warnings:\n\n${formatIssues(powerWarnings)}\n\nExport the PDF anyway?`)
+    ) {
+      return
+    }
+    void exportOverviewPdf(layout).then((result) => {
+      if (result?.vectorError !== undefined) {
+        alert("The vector PDF could not be drawn, so the overview was exported as raster pages instead.")
+      }
+    })
+  }
+
   const handleUndo = () => dispatch({ type: "UNDO" })
   const handleRedo = () => dispatch({ type: "REDO" })
   const canUndo = state.historyIndex > 0
@@ -146,7 +200,10 @@ export function TopBar() {
               const defaults = getProjectHardwareDefaults("outdoor", value)
               dispatch({
                 type: "UPDATE_PROJECT",
-                payload: { outdoorHardwareProfile: value, controller: defaults.controller },
+                payload: {
+                  outdoorHardwareProfile: value,
+                  controllers: updateMainController(layout.project, { model: defaults.controller }),
+                },
               })
               dispatch({
                 type: "UPDATE_OVERVIEW",
@@ -217,26 +274,36 @@ export function TopBar() {
           Controller
         </Label>
         <Select
-          value={layout.project.controller}
-          onValueChange={(value: "A100" | "A200" | "X8E" | "TB-50") =>
-            dispatch({ type: "UPDATE_PROJECT", payload: { controller: value } })
+          value={mainController.model}
+          onValueChange={(value) =>
+            dispatch({
+              type: "UPDATE_PROJECT",
+              payload: { controllers: updateMainController(layout.project, { model: value }) },
+            })
           }
         >
           <SelectTrigger className="h-8 w-28 bg-secondary text-sm">
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="A100">A100 (2 ports)</SelectItem>
-            <SelectItem value="A200">A200 (4 ports)</SelectItem>
-            <SelectItem value="TB-50">TB-50 (2 ports)</SelectItem>
-            <SelectItem value="X8E">X8E (8 ports)</SelectItem>
+            {getControllerCatalog(layout.project).map((model) => (
+              <SelectItem key={model.id} value={model.id}>
+                {formatControllerOptionLabel(model)}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
+        <ControllerCatalogDialog />
         <Input
           id="controller-label"
           aria-label="Custom controller label"
-          value={layout.project.controllerLabel ?? ""}
-          onChange={(e) => dispatch({ type: "UPDATE_PROJECT", payload: { controllerLabel: e.target.value } })}
+          value={mainController.label ?? ""}
+          onChange={(e) =>
+            dispatch({
+              type: "UPDATE_PROJECT",
+              payload: { controllers: updateMainController(layout.project, { label: e.target.value }) },
+            })
+          }
           placeholder="Custom label"
           className="h-8 w-28 bg-secondary text-sm"
         />
@@ -260,14 +327,31 @@ export function TopBar() {
           <Upload className="w-4 h-4 mr-2" />
           Import
         </Button>
-        <Button variant="outline" size="sm" onClick={() => void exportOverviewPdf(layout)}>
+        <Button variant="outline" size="sm" onClick={handleExportPdf}>
           <FileDown className="w-4 h-4 mr-2" />
           PDF
         </Button>
+        <Button variant="outline" size="sm" onClick={() => exportOverviewSvg(layout)} title="Layered overview drawing (SVG)">
+          <FileImage className="w-4 h-4 mr-2" />
+          SVG
+        </Button>
         <Button variant="outline" size="sm" onClick={handleExportJSON}>
           <Download className="w-4 h-4 mr-2" />
           JSON CAD
         </Button>
+        <Button variant="outline" size="sm" onClick={handleExportDxf} title="Rear requirements drawing (DXF R12)">
+          <Download className="w-4 h-4 mr-2" />
+          DXF
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleExportCableCsv} title="Cable schedule (CSV)">
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Cables CSV
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleExportCableXlsx} title="Cable schedule (Excel)">
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Cables XLSX
+        </Button>
+        <BomDialog />
         <Button
           variant="outline"
           size="sm"
@@ -0,0 +1,212 @@
+import type { BomCategory, BomPart, LayoutData } from "./types"
+import { getCabinetReceiverCardCount } from "./types"
+import { getModuleSpec, getTotalModuleCount } from "./layout-summary"
+import { getCabinetReceiverCardModelId } from "./receiver-card-capacity"
+import { getDataRouteCabling, getPowerFeedCabling } from "./cable-lengths"
+import { formatCsv } from "./csv"
+
+// Bill of materials built from the layout. Part numbers, prices and spare allowances come from the
+// project's BOM catalog (`project.bomParts`), matched by line key.
+
+export interface BomLine {
+  key: string
+  category: BomCategory
+  description: string
+  partNumber: string
+  unit: "pcs" | "m"
+  quantity: number
+  spareQuantity: number
+  totalQuantity: number
+  unitPrice: number | null
+  totalPrice: number | null
+}
+
+export const BOM_CATEGORY_LABELS: Record<BomCategory, string> = {
+  cabinet: "Cabinets",
+  module: "Modules",
+  "receiver-card": "Receiver cards",
+  controller: "Controllers",
+  "power-connector": "Power connectors",
+  "data-jumper": "Data jumpers",
+  "data-cable": "Data cable",
+  "power-jumper": "Power jumpers",
+  "power-cable": "Power cable",
+}
+
+export const DEFAULT_SPARE_PERCENT: Record<BomCategory, number> = {
+  cabinet: 0,
+  module: 3,
+  "receiver-card": 5,
+  controller: 0,
+  "power-connector": 5,
+  "data-jumper": 10,
+  "data-cable": 10,
+  "power-jumper": 10,
+  "power-cable": 10,
+}
+
+type BomCount = { key: string; category: BomCategory; description: string; unit: "pcs" | "m"; quantity: number }
+
+function addCount(counts: Map<string, BomCount>, entry: BomCount) {
+  const existing = counts.get(entry.key)
+  if (existing) existing.quantity += entry.quantity
+  else counts.set(entry.key, { ...entry })
+}
+
+function getBomCounts(layout: LayoutData): BomCount[] {
+  const counts = new Map<string, BomCount>()
+
+  layout.cabinets.forEach((cabinet) => {
+    const type = layout.cabinetTypes.find((entry) => entry.typeId === cabinet.typeId)
+    addCount(counts, {
+      key: `cabinet:${cabinet.typeId}`,
+      category: "cabinet",
+      description: type ? `Cabinet ${type.width_mm}x${type.height_mm} mm` : `Cabinet ${cabinet.typeId}`,
+      unit: "pcs",
+      quantity: 1,
+    })
+  })
+
+  const { baseModule } = getModuleSpec(layout)
+  const moduleSize = `${baseModule.width}x${baseModule.height}`
+  addCount(counts, {
+    key: `module:${moduleSize}`,
+    category: "module",
+    description: `Module ${moduleSize} mm, P${layout.project.pitch_mm}`,
+    unit: "pcs",
+    quantity: getTotalModuleCount(layout),
+  })
+
+  layout.cabinets.forEach((cabinet) => {
+    const cardCount = getCabinetReceiverCardCount(cabinet)
+    const modelId = getCabinetReceiverCardModelId(layout, cabinet)
+    if (cardCount === 0 || !modelId) return
+    addCount(counts, {
+      key: `receiver-card:${modelId}`,
+      category: "receiver-card",
+      description: `Receiver card ${modelId}`,
+      unit: "pcs",
+      quantity: cardCount,
+    })
+  })
+
+  layout.project.controllers.forEach((controller) => {
+    addCount(counts, {
+      key: `controller:${controller.model}`,
+      category: "controller",
+      description: `Controller ${controller.model}`,
+      unit: "pcs",
+      quantity: 1,
+    })
+  })
+
+  // Controller runs and power leads are bought by the meter; jumpers by the piece.
+  layout.project.dataRoutes.forEach((route) => {
+    const { hops } = getDataRouteCabling(layout, route)
+    if (hops.length === 0) return
+    addCount(counts, {
+      key: "data-cable",
+      category: "data-cable",
+      description: "Data cable, controller runs",
+      unit: "m",
+      quantity: hops[0].lengthMm / 1000,
+    })
+    addCount(counts, {
+      key: "data-jumper",
+      category: "data-jumper",
+      description: "Data jumper",
+      unit: "pcs",
+      quantity: hops.length - 1,
+    })
+  })
+
+  layout.project.powerFeeds.forEach((feed) => {
+    const { hops } = getPowerFeedCabling(layout, feed)
+    if (hops.length === 0) return
+    addCount(counts, {
+      key: "power-cable",
+      category: "power-cable",
+      description: "Power cable, feed leads",
+      unit: "m",
+      quantity: hops[0].lengthMm / 1000,
+    })
+    addCount(counts, {
+      key: "power-jumper",
+      category: "power-jumper",
+      description: "Power jumper",
+      unit: "pcs",
+      quantity: hops.length - 1,
+    })
+    // One connector per power cable, lead included.
+    const connector = feed.connector.trim() || "Power connector"
+    addCount(counts, {
+      key: `power-connector:${connector}`,
+      category: "power-connector",
+      description: `Connector ${connector}`,
+      unit: "pcs",
+      quantity: hops.length,
+    })
+  })
+
+  return Array.from(counts.values()).filter((count) => count.quantity > 0)
+}
+
+function roundQuantity(quantity: number, unit: "pcs" | "m") {
+  return unit === "m" ? Math.ceil(quantity * 10) / 10 : Math.ceil(quantity)
+}
+
+export function getBomPart(project: Pick<LayoutData["project"], "bomParts">, key: string): BomPart | undefined {
+  return project.bomParts?.find((part) => part.key === key)
+}
+
+// Returns the catalog with the entry for `key` updated, adding it when missing.
+export function setBomPart(parts: BomPart[] | undefined, key: string, updates: Partial<BomPart>): BomPart[] {
+  const list = parts ?? []
+  return list.some((part) => part.key === key)
+    ? list.map((part) => (part.key === key ? { ...part, ...updates } : part))
+    : [...list, { key, ...updates }]
+}
+
+export function buildBom(layout: LayoutData): BomLine[] {
+  return getBomCounts(layout).map((count) => {
+    const part = getBomPart(layout.project, count.key)
+    const quantity = roundQuantity(count.quantity, count.unit)
+    const sparePercent = part?.sparePercent ?? DEFAULT_SPARE_PERCENT[count.category]
+    const spareQuantity = roundQuantity((quantity * sparePercent) / 100, count.unit)
+    const totalQuantity = roundQuantity(quantity + spareQuantity, count.unit)
+    const unitPrice = part?.unitPrice ?? null
+    return {
+      key: count.key,
+      category: count.category,
+      description: part?.description?.trim() || count.description,
+      partNumber: part?.partNumber?.trim() ?? "",
+      unit: count.unit,
+      quantity,
+      spareQuantity,
+      totalQuantity,
+      unitPrice,
+      totalPrice: unitPrice === null ? null : Math.round(unitPrice * totalQuantity * 100) / 100,
+    }
+  })
+}
+
+// Lines without a price are left out of the total.
+export function getBomTotalPrice(lines: BomLine[]) {
+  return Math.round(lines.reduce((sum, line) => sum + (line.totalPrice ?? 0), 0) * 100) / 100
+}
+
+export function formatBomCsv(lines: BomLine[]): string {
+  const header = ["Category", "Part number", "Description", "Unit", "Quantity", "Spare", "Total", "Unit price", "Price"]
+  const rows = lines.map((line) => [
+    BOM_CATEGORY_LABELS[line.category],
+    line.partNumber,
+    line.description,
+    line.unit,
+    line.quantity,
+    line.spareQuantity,
+    line.totalQuantity,
+    line.unitPrice ?? "",
+    line.totalPrice ?? "",
+  ])
+  return formatCsv([header, ...rows])
+}
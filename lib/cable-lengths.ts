@@ -0,0 +1,171 @@
+import type { CablingSettings, DataRoute, DataRouteStep, LayoutData, PowerFeed, Project } from "./types"
+import { parseRouteCabinetId } from "./types"
+import { getCabinetBounds } from "./validation"
+import { getRouteControllerId } from "./controllers"
+import { getPlacedControllers } from "./controller-utils"
+import { getCabinetDataAnchorPoint, getReceiverCardVariant } from "./receiver-card-geometry"
+
+// Cable length estimates for data routes and power feeds. Cables are assumed to run along the cabinet frames,
+// so every leg is measured as horizontal plus vertical distance between manual points and the endpoints: the
+// receiver card connectors for data, the cabinet centers for power.
+
+export const ETHERNET_MAX_RUN_MM = 100_000 // Cat5e/Cat6 channel limit
+
+export const DEFAULT_CABLING_SETTINGS: CablingSettings = {
+  jumperSlackMm: 300,
+  serviceLoopMm: 1000,
+  controllerDistanceMm: 0,
+}
+
+export interface CableHop {
+  fromEndpointId: string | null // null = the controller, or the supply for power feeds
+  toEndpointId: string
+  lengthMm: number // including slack or service loop
+}
+
+export interface DataRouteCabling {
+  routeId: string
+  hops: CableHop[] // controller run first, then one jumper per card-to-card link
+  controllerRunMm: number
+  totalMm: number
+}
+
+export interface PowerFeedCabling {
+  feedId: string
+  hops: CableHop[] // lead from below the wall first, then one jumper per cabinet-to-cabinet link
+  totalMm: number
+}
+
+type Point = { x: number; y: number }
+
+export function getCablingSettings(project: Pick<Project, "cabling">): CablingSettings {
+  return { ...DEFAULT_CABLING_SETTINGS, ...project.cabling }
+}
+
+export function formatCableLength(lengthMm: number) {
+  return `${(lengthMm / 1000).toFixed(1)} m`
+}
+
+function getLegLength(a: Point, b: Point) {
+  return Math.abs(a.x - b.x) + Math.abs(a.y - b.y)
+}
+
+function getRouteSteps(route: DataRoute): DataRouteStep[] {
+  if (route.manualMode && route.steps && route.steps.length > 0) return route.steps
+  return route.cabinetIds.map((endpointId) => ({ type: "cabinet", endpointId }))
+}
+
+function getPowerSteps(feed: PowerFeed): DataRouteStep[] {
+  if (feed.manualMode && feed.steps && feed.steps.length > 0) return feed.steps
+  return feed.assignedCabinetIds.map((cabinetId) => ({ type: "cabinet", endpointId: cabinetId }))
+}
+
+function getWallBottom(layout: LayoutData) {
+  return Math.max(
+    ...layout.cabinets.map((entry) => getCabinetBounds(entry, layout.cabinetTypes)?.y2 ?? Number.NEGATIVE_INFINITY),
+  )
+}
+
+function getDataEndpointAnchor(layout: LayoutData) {
+  const variant = getReceiverCardVariant(layout.project.mode)
+  return (endpointId: string): Point | null => {
+    const { cabinetId, cardIndex } = parseRouteCabinetId(endpointId)
+    const cabinet = layout.cabinets.find((entry) => entry.id === cabinetId)
+    const bounds = cabinet ? getCabinetBounds(cabinet, layout.cabinetTypes) : null
+    if (!cabinet || !bounds) return null
+    const anchor = getCabinetDataAnchorPoint(cabinet, bounds, 1, cardIndex, variant)
+    return { x: anchor.x, y: anchor.y }
+  }
+}
+
+function getCabinetCenterAnchor(layout: LayoutData) {
+  return (endpointId: string): Point | null => {
+    const cabinet = layout.cabinets.find((entry) => entry.id === parseRouteCabinetId(endpointId).cabinetId)
+    const bounds = cabinet ? getCabinetBounds(cabinet, layout.cabinetTypes) : null
+    return bounds ? { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 } : null
+  }
+}
+
+// Splits the steps into one leg per cabinet endpoint; manual points between two cabinets belong to the leg
+// that ends at the second one.
+function getChainLegs(steps: DataRouteStep[], getAnchor: (endpointId: string) => Point | null) {
+  const legs: { endpointId: string; points: Point[] }[] = []
+  let pending: Point[] = []
+  steps.forEach((step) => {
+    if (step.type === "point") {
+      pending.push({ x: step.x_mm, y: step.y_mm })
+      return
+    }
+    const anchor = getAnchor(step.endpointId)
+    if (!anchor) return
+    legs.push({ endpointId: step.endpointId, points: [...pending, anchor] })
+    pending = []
+  })
+  return legs
+}
+
+// Walks the legs from the origin; the first hop gets `leadExtraMm`, every later one the jumper slack.
+function measureChain(
+  legs: { endpointId: string; points: Point[] }[],
+  origin: Point,
+  leadExtraMm: number,
+  jumperSlackMm: number,
+): CableHop[] {
+  let position = origin
+  return legs.map((leg, index) => {
+    const pathMm = leg.points.reduce((sum, point) => {
+      const length = sum + getLegLength(position, point)
+      position = point
+      return length
+    }, 0)
+    return {
+      fromEndpointId: index === 0 ? null : legs[index - 1].endpointId,
+      toEndpointId: leg.endpointId,
+      lengthMm: pathMm + (index === 0 ? leadExtraMm : jumperSlackMm),
+    }
+  })
+}
+
+// In-cabinet controllers start at their cabinet; external ones sit below the wall, under the first card.
+function getControllerOrigin(layout: LayoutData, route: DataRoute, firstPoint: Point) {
+  const controllerId = getRouteControllerId(layout.project, route)
+  const placed = getPlacedControllers(layout.project, layout.cabinets, layout.cabinetTypes).find(
+    (entry) => entry.controller.id === controllerId,
+  )
+  const cabinet = placed?.cabinetId ? layout.cabinets.find((entry) => entry.id === placed.cabinetId) : undefined
+  const bounds = cabinet ? getCabinetBounds(cabinet, layout.cabinetTypes) : null
+  if (bounds) return { point: { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }, external: false }
+
+  const wallBottom = getWallBottom(layout)
+  return { point: { x: firstPoint.x, y: Number.isFinite(wallBottom) ? wallBottom : firstPoint.y }, external: true }
+}
+
+export function getDataRouteCabling(layout: LayoutData, route: DataRoute): DataRouteCabling {
+  const settings = getCablingSettings(layout.project)
+  const legs = getChainLegs(getRouteSteps(route), getDataEndpointAnchor(layout))
+  if (legs.length === 0) return { routeId: route.id, hops: [], controllerRunMm: 0, totalMm: 0 }
+
+  const firstPoint = legs[0].points[legs[0].points.length - 1]
+  const origin = getControllerOrigin(layout, route, firstPoint)
+  const leadExtraMm = settings.serviceLoopMm + (origin.external ? settings.controllerDistanceMm : 0)
+  const hops = measureChain(legs, origin.point, leadExtraMm, settings.jumperSlackMm)
+  return {
+    routeId: route.id,
+    hops,
+    controllerRunMm: hops[0].lengthMm,
+    totalMm: hops.reduce((sum, hop) => sum + hop.lengthMm, 0),
+  }
+}
+
+// Power leads come up from below the wall to the first cabinet of the feed.
+export function getPowerFeedCabling(layout: LayoutData, feed: PowerFeed): PowerFeedCabling {
+  const settings = getCablingSettings(layout.project)
+  const legs = getChainLegs(getPowerSteps(feed), getCabinetCenterAnchor(layout))
+  if (legs.length === 0) return { feedId: feed.id, hops: [], totalMm: 0 }
+
+  const firstPoint = legs[0].points[legs[0].points.length - 1]
+  const wallBottom = getWallBottom(layout)
+  const origin = { x: firstPoint.x, y: Number.isFinite(wallBottom) ? wallBottom : firstPoint.y }
+  const hops = measureChain(legs, origin, settings.serviceLoopMm, settings.jumperSlackMm)
+  return { feedId: feed.id, hops, totalMm: hops.reduce((sum, hop) => sum + hop.lengthMm, 0) }
+}
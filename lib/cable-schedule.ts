@@ -0,0 +1,86 @@
+import type { LayoutData } from "./types"
+import { parseRouteCabinetId } from "./types"
+import { getGridLabelMap } from "./overview-utils"
+import { getDataRoutePortLabel } from "./controllers"
+import { getPowerFeedDisplayLabel } from "./power-utils"
+import { getDataRouteCabling, getPowerFeedCabling } from "./cable-lengths"
+import { buildXlsx, type SheetCell } from "./xlsx"
+import { formatCsv } from "./csv"
+
+// Installer cut list: one row per data or power cable, in chain order.
+
+export const DATA_CABLE_CONNECTOR = "RJ45"
+
+export interface CableScheduleRow {
+  kind: "data" | "power"
+  run: string // port label for data, feed label for power
+  order: number // 1 = controller run / power lead, then jumpers along the chain
+  from: string
+  to: string
+  port: string // data port number, or the feed breaker
+  connector: string
+  lengthM: number
+}
+
+export interface CableSchedule {
+  data: CableScheduleRow[]
+  power: CableScheduleRow[]
+}
+
+const SCHEDULE_HEADER = ["Run", "Order", "From", "To", "Port / Breaker", "Connector", "Length (m)"]
+
+export function buildCableSchedule(layout: LayoutData): CableSchedule {
+  const gridLabels = getGridLabelMap(layout)
+  const formatEndpoint = (endpointId: string) => {
+    const { cabinetId, cardIndex } = parseRouteCabinetId(endpointId)
+    const label = gridLabels.get(cabinetId) ?? cabinetId
+    return cardIndex === undefined ? label : `${label}${String.fromCharCode(97 + cardIndex)}`
+  }
+  const toMeters = (lengthMm: number) => Math.round(lengthMm / 100) / 10
+
+  const data = layout.project.dataRoutes.flatMap((route) =>
+    getDataRouteCabling(layout, route).hops.map<CableScheduleRow>((hop, index) => ({
+      kind: "data",
+      run: getDataRoutePortLabel(layout.project, route),
+      order: index + 1,
+      from: hop.fromEndpointId ? formatEndpoint(hop.fromEndpointId) : "Controller",
+      to: formatEndpoint(hop.toEndpointId),
+      port: String(route.port),
+      connector: DATA_CABLE_CONNECTOR,
+      lengthM: toMeters(hop.lengthMm),
+    })),
+  )
+  const power = layout.project.powerFeeds.flatMap((feed) =>
+    getPowerFeedCabling(layout, feed).hops.map<CableScheduleRow>((hop, index) => ({
+      kind: "power",
+      run: getPowerFeedDisplayLabel(feed),
+      order: index + 1,
+      from: hop.fromEndpointId ? formatEndpoint(hop.fromEndpointId) : "Supply",
+      to: formatEndpoint(hop.toEndpointId),
+      port: feed.breaker ?? "",
+      connector: feed.connector,
+      lengthM: toMeters(hop.lengthMm),
+    })),
+  )
+  return { data, power }
+}
+
+function toCells(row: CableScheduleRow): SheetCell[] {
+  return [row.run, row.order, row.from, row.to, row.port, row.connector, row.lengthM]
+}
+
+export function formatCableScheduleCsv(schedule: CableSchedule): string {
+  const rows = [
+    ["Type", ...SCHEDULE_HEADER],
+    ...schedule.data.map((row) => ["Data", ...toCells(row)]),
+    ...schedule.power.map((row) => ["Power", ...toCells(row)]),
+  ]
+  return formatCsv(rows)
+}
+
+export function buildCableScheduleXlsx(schedule: CableSchedule): Uint8Array<ArrayBuffer> {
+  return buildXlsx([
+    { name: "Data", rows: [SCHEDULE_HEADER, ...schedule.data.map(toCells)] },
+    { name: "Power", rows: [SCHEDULE_HEADER, ...schedule.power.map(toCells)] },
+  ])
+}
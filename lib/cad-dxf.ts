@@ -0,0 +1,346 @@
+import type { CadEntry, CadEntryType, CadExport } from "./cad-export"
+import { buildDxf, type DxfEntity, type DxfLayer, type DxfPoint, type DxfTextAlign } from "./dxf"
+
+// Rear requirements drawing as DXF, built from the CAD export so it matches the JSON handed to the CAD team.
+// CadExport measures y down from the top edge like the editor; the DXF puts the origin at the bottom-left
+// corner of the screen as CadAssembly declares, with Y pointing up.
+
+export const CAD_DXF_LAYERS = {
+  cabinets: { name: "CABINETS", color: 7 },
+  moduleGrid: { name: "MODULE_GRID", color: 8 },
+  receiverCards: { name: "RECEIVER_CARDS", color: 4 },
+  dataEntries: { name: "DATA_ENTRIES", color: 5 },
+  powerEntries: { name: "POWER_ENTRIES", color: 1 },
+  powerDataEntries: { name: "POWER_DATA_ENTRIES", color: 6 },
+  dimensions: { name: "DIMENSIONS", color: 3 },
+  titleBlock: { name: "TITLE_BLOCK", color: 7 },
+} satisfies Record<string, DxfLayer>
+
+const ENTRY_LAYERS: Record<CadEntryType, string> = {
+  data: CAD_DXF_LAYERS.dataEntries.name,
+  power: CAD_DXF_LAYERS.powerEntries.name,
+  power_data: CAD_DXF_LAYERS.powerDataEntries.name,
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value))
+}
+
+function formatMm(value: number) {
+  return String(Math.round(value * 10) / 10)
+}
+
+function rectangle(layer: string, x: number, y: number, width: number, height: number): DxfEntity {
+  return {
+    type: "polyline",
+    layer,
+    closed: true,
+    points: [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height },
+    ],
+  }
+}
+
+function arrowHead(layer: string, tip: DxfPoint, towards: DxfPoint, size: number): DxfEntity {
+  const length = Math.hypot(towards.x - tip.x, towards.y - tip.y) || 1
+  const ux = (towards.x - tip.x) / length
+  const uy = (towards.y - tip.y) / length
+  const base = { x: tip.x + ux * size, y: tip.y + uy * size }
+  const half = size / 3
+  return {
+    type: "solid",
+    layer,
+    points: [tip, { x: base.x - uy * half, y: base.y + ux * half }, { x: base.x + uy * half, y: base.y - ux * half }],
+  }
+}
+
+// Plain-geometry linear dimension (extension lines, arrows, text): R12 DIMENSION entities need
+// pre-built anonymous blocks that many readers regenerate differently.
+function linearDimension(
+  from: DxfPoint,
+  to: DxfPoint,
+  orientation: "horizontal" | "vertical",
+  at: number,
+  label: string,
+  textHeight: number,
+): DxfEntity[] {
+  const layer = CAD_DXF_LAYERS.dimensions.name
+  const overshoot = textHeight * 0.4
+  const arrowSize = textHeight * 0.6
+  if (orientation === "horizontal") {
+    const start = { x: from.x, y: at }
+    const end = { x: to.x, y: at }
+    const direction = Math.sign(at - from.y) || 1
+    return [
+      { type: "line", layer, from, to: { x: from.x, y: at + direction * overshoot } },
+      { type: "line", layer, from: to, to: { x: to.x, y: at + direction * overshoot } },
+      { type: "line", layer, from: start, to: end },
+      arrowHead(layer, start, end, arrowSize),
+      arrowHead(layer, end, start, arrowSize),
+      {
+        type: "text",
+        layer,
+        at: { x: (start.x + end.x) / 2, y: at + textHeight * 0.3 },
+        height: textHeight,
+        value: label,
+        align: "center",
+        baseline: "bottom",
+      },
+    ]
+  }
+  const start = { x: at, y: from.y }
+  const end = { x: at, y: to.y }
+  const direction = Math.sign(at - from.x) || 1
+  return [
+    { type: "line", layer, from, to: { x: at + direction * overshoot, y: from.y } },
+    { type: "line", layer, from: to, to: { x: at + direction * overshoot, y: to.y } },
+    { type: "line", layer, from: start, to: end },
+    arrowHead(layer, start, end, arrowSize),
+    arrowHead(layer, end, start, arrowSize),
+    {
+      type: "text",
+      layer,
+      at: { x: at - textHeight * 0.3, y: (start.y + end.y) / 2 },
+      height: textHeight,
+      value: label,
+      align: "center",
+      baseline: "bottom",
+      rotationDeg: 90,
+    },
+  ]
+}
+
+// Marker on the connector, a 45° leader towards the preferred side and a shoulder carrying the label.
+function entryLeader(entry: CadEntry, anchor: DxfPoint, textHeight: number): DxfEntity[] {
+  const layer = ENTRY_LAYERS[entry.type]
+  const direction = entry.leaderPreferredDirection ?? "top-right"
+  const dx = direction.includes("left") ? -1 : direction.includes("right") ? 1 : 0
+  const dy = direction.startsWith("top") ? 1 : direction.startsWith("bottom") ? -1 : 0
+  const reach = textHeight * 4
+  const elbow = { x: anchor.x + dx * reach, y: anchor.y + dy * reach }
+  const side = dx || 1
+  const shoulder = { x: elbow.x + side * textHeight * 2, y: elbow.y }
+  const textX = shoulder.x + side * textHeight * 0.5
+  const align: DxfTextAlign = side > 0 ? "left" : "right"
+
+  return [
+    { type: "circle", layer, center: anchor, radius: textHeight * 0.4 },
+    { type: "polyline", layer, points: [anchor, elbow, shoulder] },
+    arrowHead(layer, anchor, elbow, textHeight * 0.6),
+    {
+      type: "text",
+      layer,
+      at: { x: textX, y: shoulder.y },
+      height: textHeight,
+      value: entry.label,
+      align,
+      baseline: "bottom",
+    },
+    ...(entry.connectorName
+      ? [
+          {
+            type: "text" as const,
+            layer,
+            at: { x: textX, y: shoulder.y - textHeight * 0.4 },
+            height: textHeight * 0.7,
+            value: entry.connectorName,
+            align,
+            baseline: "top" as const,
+          },
+        ]
+      : []),
+  ]
+}
+
+function titleBlock(cad: CadExport, origin: DxfPoint, textHeight: number): DxfEntity[] {
+  const layer = CAD_DXF_LAYERS.titleBlock.name
+  const { titleBlock: block, layout } = cad
+  const rows: [string, string][] = [
+    ["PROJECT", block.projectName],
+    ["NC", block.nc],
+    ["CLIENT", block.client],
+    [
+      "SCREEN",
+      `${formatMm(block.screenWidth_mm)} x ${formatMm(block.screenHeight_mm)} x ${formatMm(block.screenDepth_mm)} mm`,
+    ],
+    ["PITCH", `${block.pixelPitchLabel} ${block.mode.toUpperCase()}`],
+    ["CABINETS", String(block.totalCabinetCount)],
+    ...(block.totalModuleCount !== undefined ? [["MODULES", String(block.totalModuleCount)] as [string, string]] : []),
+    ["MAX POWER", `${layout.totalPower_W} W`],
+    ["WEIGHT", `${layout.totalWeight_kg} kg`],
+    ["REVISION", block.revision],
+    ["DATE", block.date],
+    ["UNIT", block.unit],
+  ]
+  const rowHeight = textHeight * 2
+  const labelWidth = textHeight * 9
+  const valueWidth = textHeight * 26
+  const width = labelWidth + valueWidth
+  const titleHeight = textHeight * 3
+  const height = titleHeight + rows.length * rowHeight
+  const top = origin.y
+  const left = origin.x - width
+  const pad = textHeight * 0.6
+
+  return [
+    rectangle(layer, left, top - height, width, height),
+    {
+      type: "text",
+      layer,
+      at: { x: left + pad, y: top - titleHeight / 2 },
+      height: textHeight * 1.4,
+      value: block.drawingTitle,
+      baseline: "middle",
+    },
+    { type: "line", layer, from: { x: left, y: top - titleHeight }, to: { x: left + width, y: top - titleHeight } },
+    {
+      type: "line",
+      layer,
+      from: { x: left + labelWidth, y: top - titleHeight },
+      to: { x: left + labelWidth, y: top - height },
+    },
+    ...rows.flatMap(([label, value], index): DxfEntity[] => {
+      const rowTop = top - titleHeight - index * rowHeight
+      const textY = rowTop - rowHeight / 2
+      return [
+        ...(index > 0
+          ? [{ type: "line" as const, layer, from: { x: left, y: rowTop }, to: { x: left + width, y: rowTop } }]
+          : []),
+        {
+          type: "text",
+          layer,
+          at: { x: left + pad, y: textY },
+          height: textHeight * 0.8,
+          value: label,
+          baseline: "middle",
+        },
+        {
+          type: "text",
+          layer,
+          at: { x: left + labelWidth + pad, y: textY },
+          height: textHeight,
+          value,
+          baseline: "middle",
+        },
+      ]
+    }),
+  ]
+}
+
+export function buildCadDxf(cad: CadExport) {
+  const width = cad.layout.totalWidth_mm
+  const height = cad.layout.totalHeight_mm
+  const textHeight = clamp(Math.round(Math.max(width, height) / 100), 20, 150)
+  const toDxf = (x: number, y: number): DxfPoint => ({ x, y: height - y })
+  const typeById = new Map(cad.cabinetTypes.map((type) => [type.typeId, type]))
+  const moduleGrid = cad.layout.moduleGrid
+  const entities: DxfEntity[] = []
+
+  cad.cabinets.forEach((cabinet) => {
+    const type = typeById.get(cabinet.typeId)
+    if (!type || cabinet.suppressInCad) return
+    const isRotated = cabinet.rot_deg === 90 || cabinet.rot_deg === 270
+    const cabinetWidth = isRotated ? type.height_mm : type.width_mm
+    const cabinetHeight = isRotated ? type.width_mm : type.height_mm
+    const bottomLeft = toDxf(cabinet.x_mm, cabinet.y_mm + cabinetHeight)
+
+    entities.push(rectangle(CAD_DXF_LAYERS.cabinets.name, bottomLeft.x, bottomLeft.y, cabinetWidth, cabinetHeight))
+    entities.push({
+      type: "text",
+      layer: CAD_DXF_LAYERS.cabinets.name,
+      at: { x: bottomLeft.x + cabinetWidth / 2, y: bottomLeft.y + cabinetHeight - textHeight * 0.6 },
+      height: textHeight,
+      value: cabinet.gridLabel ?? cabinet.id,
+      align: "center",
+      baseline: "top",
+    })
+
+    if (!moduleGrid) return
+    const layer = CAD_DXF_LAYERS.moduleGrid.name
+    for (let x = moduleGrid.moduleWidth_mm; x < cabinetWidth - 0.001; x += moduleGrid.moduleWidth_mm) {
+      entities.push({
+        type: "line",
+        layer,
+        from: { x: bottomLeft.x + x, y: bottomLeft.y },
+        to: { x: bottomLeft.x + x, y: bottomLeft.y + cabinetHeight },
+      })
+    }
+    for (let y = moduleGrid.moduleHeight_mm; y < cabinetHeight - 0.001; y += moduleGrid.moduleHeight_mm) {
+      entities.push({
+        type: "line",
+        layer,
+        from: { x: bottomLeft.x, y: bottomLeft.y + cabinetHeight - y },
+        to: { x: bottomLeft.x + cabinetWidth, y: bottomLeft.y + cabinetHeight - y },
+      })
+    }
+  })
+
+  cad.receiverCards.forEach((card) => {
+    const layer = CAD_DXF_LAYERS.receiverCards.name
+    const bottomLeft = toDxf(card.x_mm, card.y_mm + card.height_mm)
+    entities.push(rectangle(layer, bottomLeft.x, bottomLeft.y, card.width_mm, card.height_mm))
+    if (!card.model) return
+    entities.push({
+      type: "text",
+      layer,
+      at: { x: bottomLeft.x + card.width_mm / 2, y: bottomLeft.y + card.height_mm / 2 },
+      height: Math.min(textHeight * 0.6, card.height_mm * 0.5),
+      value: card.model,
+      align: "center",
+      baseline: "middle",
+    })
+  })
+
+  cad.entries.forEach((entry) => {
+    entities.push(...entryLeader(entry, toDxf(entry.x_mm, entry.y_mm), textHeight))
+  })
+
+  // Overall sizes sit above and left of the screen; connector offsets stack in tiers below and to the right.
+  // Offsets from the right edge are left out, they follow from the overall width.
+  const dims = cad.dimensions
+  const tier = textHeight * 3
+  const topLeft = { x: 0, y: height }
+  if (dims.showOverallWidth) {
+    const topRight = { x: width, y: height }
+    entities.push(...linearDimension(topLeft, topRight, "horizontal", height + tier, formatMm(width), textHeight))
+  }
+  if (dims.showOverallHeight) {
+    entities.push(...linearDimension({ x: 0, y: 0 }, topLeft, "vertical", -tier, formatMm(height), textHeight))
+  }
+  let bottomTiers = 0
+  let rightTiers = 0
+  if (dims.showConnectorOffsets) {
+    const entryById = new Map(cad.entries.map((entry) => [entry.id, entry]))
+    dims.connectorOffsets.forEach((offset) => {
+      const entry = entryById.get(offset.targetEntryId)
+      if (!entry) return
+      const anchor = toDxf(entry.x_mm, entry.y_mm)
+      if (offset.from === "left") {
+        bottomTiers += 1
+        entities.push(
+          ...linearDimension({ x: 0, y: 0 }, anchor, "horizontal", -tier * bottomTiers, formatMm(anchor.x), textHeight),
+        )
+      } else if (offset.from === "top") {
+        rightTiers += 1
+        entities.push(
+          ...linearDimension(
+            { x: width, y: height },
+            anchor,
+            "vertical",
+            width + tier * rightTiers,
+            formatMm(height - anchor.y),
+            textHeight,
+          ),
+        )
+      }
+    })
+  }
+
+  const titleTop = -tier * (bottomTiers + 1.5)
+  entities.push(...titleBlock(cad, { x: width + tier * rightTiers, y: titleTop }, textHeight))
+
+  return buildDxf(Object.values(CAD_DXF_LAYERS), entities)
+}
@@ -2,12 +2,21 @@ import { getOrientedModuleSize } from "./module-utils"
 import {
   getCabinetReceiverCardCount,
   parseRouteCabinetId,
-  type Cabinet,
   type DataRouteStep,
   type LayoutData,
   type ProjectMode,
 } from "./types"
 import { getLayoutBounds, getCabinetBounds } from "./validation"
+import { getCabinetTypeMaxPowerW } from "./power-utils"
+import { getCabinetTypeWeightKg, getTotalLayoutLoadW, getTotalLayoutWeight } from "./layout-summary"
+import { getCabinetReceiverCardModelId } from "./receiver-card-capacity"
+import { buildCadViews } from "./cad-views"
+import {
+  getCabinetDataAnchorPoint,
+  getReceiverCardRects,
+  getReceiverCardVariant,
+  type ReceiverCardRect,
+} from "./receiver-card-geometry"
 
 export type CadDrawingView = "front" | "rear" | "side" | "top" | "iso"
 export type CadEntryType = "power" | "data" | "power_data"
@@ -59,6 +68,8 @@ export interface CadLayout {
   cabinetCount: number
   moduleCount?: number
   moduleGrid?: CadModuleGrid
+  totalPower_W: number
+  totalWeight_kg: number
 }
 
 export interface CadCabinetType {
@@ -68,6 +79,9 @@ export interface CadCabinetType {
   height_mm: number
   depth_mm?: number
   description?: string
+  maxPower_W: number
+  typicalPower_W?: number
+  weight_kg: number
 }
 
 export interface CadCabinetInstance {
@@ -146,6 +160,16 @@ export interface CadEntry {
   }
 }
 
+export interface CadReceiverCard {
+  id: string
+  cabinetId: string
+  model?: string
+  x_mm: number
+  y_mm: number
+  width_mm: number
+  height_mm: number
+}
+
 export interface CadConnectorOffset {
   id: string
   targetEntryId: string
@@ -193,6 +217,56 @@ export interface CadDimensions {
   mountingHoles: CadMountingHole[]
 }
 
+// Projections keep the export's convention: millimetres from the view's top-left corner, y pointing down.
+// Side and top views put the front face at 0 and read depth towards the rear.
+export interface CadViewRect {
+  cabinetId: string
+  x_mm: number
+  y_mm: number
+  width_mm: number
+  height_mm: number
+}
+
+export interface CadViewMarker {
+  entryId: string
+  label: string
+  type: CadEntryType
+  x_mm: number
+  y_mm: number
+}
+
+export interface CadProjection {
+  view: "side" | "top"
+  width_mm: number
+  height_mm: number
+  rects: CadViewRect[]
+  entries: CadViewMarker[]
+}
+
+// Isometric from the upper right of the rear; faces are listed back to front so they can be painted in order.
+export interface CadIsoFace {
+  cabinetId: string
+  face: "rear" | "top" | "right"
+  points: { x_mm: number; y_mm: number }[]
+}
+
+export interface CadIsoEntry extends CadViewMarker {
+  offsets: Pick<CadConnectorOffset, "from" | "value_mm">[]
+}
+
+export interface CadIsoView {
+  width_mm: number
+  height_mm: number
+  faces: CadIsoFace[]
+  entries: CadIsoEntry[]
+}
+
+export interface CadViews {
+  side: CadProjection
+  top: CadProjection
+  iso: CadIsoView
+}
+
 export interface CadAnnotations {
   notes?: string[]
 }
@@ -212,27 +286,16 @@ export interface CadExport {
   layout: CadLayout
   cabinetTypes: CadCabinetType[]
   cabinets: CadCabinetInstance[]
+  receiverCards: CadReceiverCard[]
   drawing: CadDrawing
   titleBlock: CadTitleBlock
   entries: CadEntry[]
   dimensions: CadDimensions
+  views: CadViews
   annotations?: CadAnnotations
   exports?: CadExports
 }
 
-type ReceiverCardRect = {
-  x: number
-  y: number
-  width: number
-  height: number
-  centerX: number
-  centerY: number
-  connectorX: number
-  connectorY: number
-}
-
-type ReceiverCardVariant = "indoor" | "outdoor"
-
 const CAD_SCHEMA_VERSION = 3
 const DEFAULT_DRAWING_TEMPLATE_KEY = "NUMMAX_STANDARD"
 const DEFAULT_OUTPUT_SUBFOLDER = "03_Plans"
@@ -244,6 +307,10 @@ function roundMm(value: number) {
   return Number(value.toFixed(3))
 }
 
+function roundWeightKg(value: number) {
+  return Math.round(value * 10) / 10
+}
+
 function clamp(value: number, min: number, max: number) {
   return Math.max(min, Math.min(max, value))
 }
@@ -307,160 +374,6 @@ function getPowerSteps(feed: LayoutData["project"]["powerFeeds"][number]): DataR
   return feed.assignedCabinetIds.map((cabinetId) => ({ type: "cabinet", endpointId: cabinetId }))
 }
 
-function isCompactOutdoorCabinetBounds(bounds: { width: number; height: number }) {
-  return bounds.height <= 400 && bounds.width >= bounds.height * 2
-}
-
-function getReceiverCardRect(
-  bounds: { x: number; y: number; width: number; height: number },
-  zoom: number,
-  heightFraction = 0.28,
-  variant: ReceiverCardVariant = "indoor",
-): ReceiverCardRect {
-  const isCompactOutdoor = variant === "outdoor" && isCompactOutdoorCabinetBounds(bounds)
-  const maxWidth =
-    variant === "outdoor"
-      ? Math.min((isCompactOutdoor ? 106 : 68) / zoom, bounds.width * (isCompactOutdoor ? 0.64 : 0.55))
-      : Math.min(84 / zoom, bounds.width * 0.65)
-  const minWidth =
-    variant === "outdoor"
-      ? Math.min((isCompactOutdoor ? 48 : 30) / zoom, maxWidth)
-      : Math.min(40 / zoom, maxWidth)
-  const maxHeight =
-    variant === "outdoor"
-      ? Math.min(
-          (isCompactOutdoor ? 40 : 29) / zoom,
-          bounds.height * (heightFraction + (isCompactOutdoor ? 0.18 : 0.11)),
-        )
-      : Math.min(18 / zoom, bounds.height * heightFraction)
-  const minHeight =
-    variant === "outdoor"
-      ? Math.min((isCompactOutdoor ? 22 : 16.5) / zoom, maxHeight)
-      : Math.min(12 / zoom, maxHeight)
-  const cardWidth =
-    variant === "outdoor"
-      ? Math.min(maxWidth, Math.max(minWidth, bounds.width * (isCompactOutdoor ? 0.52 : 0.42)))
-      : Math.min(maxWidth, Math.max(minWidth, bounds.width * 0.7))
-  const cardHeight =
-    variant === "outdoor"
-      ? Math.min(maxHeight, Math.max(minHeight, bounds.height * (isCompactOutdoor ? 0.38 : 0.297)))
-      : Math.min(maxHeight, Math.max(minHeight, bounds.height * 0.2))
-  const cardX = bounds.x + bounds.width / 2 - cardWidth / 2
-  const cardCenterY =
-    variant === "outdoor" ? bounds.y + Math.min(160, bounds.height / 2) : bounds.y + bounds.height / 2
-  const cardY = cardCenterY - cardHeight / 2
-  const connectorX = cardX + cardWidth / 2
-  const connectorY = cardY + cardHeight + 6 / zoom
-
-  return {
-    x: cardX,
-    y: cardY,
-    width: cardWidth,
-    height: cardHeight,
-    centerX: cardX + cardWidth / 2,
-    centerY: cardY + cardHeight / 2,
-    connectorX,
-    connectorY,
-  }
-}
-
-function getReceiverCardRects(
-  bounds: { x: number; y: number; width: number; height: number } | null,
-  zoom: number,
-  count: 0 | 1 | 2,
-  variant: ReceiverCardVariant = "indoor",
-): ReceiverCardRect[] {
-  if (!bounds || count <= 0) return []
-  const heightFraction = count === 2 ? 0.2 : 0.26
-  const base = getReceiverCardRect(bounds, zoom, heightFraction, variant)
-  if (count === 1) return [base]
-
-  const gap = Math.min(10 / zoom, base.height)
-  const totalHeight = base.height * 2 + gap
-  const targetCenterY =
-    variant === "outdoor" ? bounds.y + Math.min(160, bounds.height / 2) : bounds.y + bounds.height / 2
-  const startY = targetCenterY - totalHeight / 2
-  const cardX = base.x
-  const connectorOffset = 6 / zoom
-
-  const top: ReceiverCardRect = {
-    ...base,
-    x: cardX,
-    y: startY,
-    centerX: cardX + base.width / 2,
-    centerY: startY + base.height / 2,
-    connectorX: cardX + base.width / 2,
-    connectorY: startY + base.height + connectorOffset,
-  }
-  const bottomY = startY + base.height + gap
-  const bottom: ReceiverCardRect = {
-    ...base,
-    x: cardX,
-    y: bottomY,
-    centerX: cardX + base.width / 2,
-    centerY: bottomY + base.height / 2,
-    connectorX: cardX + base.width / 2,
-    connectorY: bottomY + base.height + connectorOffset,
-  }
-  return [top, bottom]
-}
-
-function getOutdoorReceiverCardDataPorts(rect: ReceiverCardRect, zoom: number) {
-  const bodyH = Math.max(13 / zoom, rect.height * 0.97)
-  const bodyW = Math.min(rect.width * 0.72, bodyH * 1.45)
-  const bodyX = rect.centerX - bodyW / 2
-  const portW = Math.max(5 / zoom, bodyW * 0.16)
-  const portH = Math.max(3 / zoom, bodyH * 0.16)
-  const portGap = Math.max(5 / zoom, bodyH * 0.58)
-  const portX = bodyX - portW * 0.9
-  const topPortY = rect.centerY - portGap / 2 - portH
-  const anchorX = portX + portW * 0.5
-
-  return {
-    in: { x: anchorX, y: topPortY + portH * 0.5 },
-  }
-}
-
-function getCabinetDataAnchorPoint(
-  cabinet: Cabinet,
-  bounds: { x: number; y: number; width: number; height: number },
-  zoom: number,
-  cardIndex?: number,
-  cardVariant: ReceiverCardVariant = "indoor",
-) {
-  const cardCount = getCabinetReceiverCardCount(cabinet)
-  if (cardCount > 0) {
-    const rects = getReceiverCardRects(bounds, zoom, cardCount, cardVariant)
-    const resolvedIndex = cardIndex === undefined ? 0 : Math.max(0, Math.min(rects.length - 1, cardIndex))
-    const anchorRect = rects[resolvedIndex]
-    if (anchorRect) {
-      if (cardVariant === "outdoor") {
-        const ports = getOutdoorReceiverCardDataPorts(anchorRect, zoom)
-        return {
-          x: ports.in.x,
-          y: ports.in.y,
-          resolvedIndex,
-          isVirtual: false,
-        }
-      }
-      return {
-        x: anchorRect.connectorX,
-        y: anchorRect.connectorY,
-        resolvedIndex,
-        isVirtual: false,
-      }
-    }
-  }
-
-  const override = cabinet.dataAnchorOverride
-  return {
-    x: bounds.x + bounds.width * clamp(override?.x ?? 0.5, 0, 1),
-    y: bounds.y + bounds.height * clamp(override?.y ?? 0.5, 0, 1),
-    resolvedIndex: undefined,
-    isVirtual: true,
-  }
-}
-
 function getPowerAnchorPoint(
   cardRect: ReceiverCardRect,
   bounds: { x: number; y: number; width: number; height: number },
@@ -522,7 +435,7 @@ function buildDataEntries(
   layout: LayoutData,
   bounds: { minX: number; minY: number; maxX: number; maxY: number },
 ): CadEntry[] {
-  const variant: ReceiverCardVariant = (layout.project.mode ?? "indoor") === "outdoor" ? "outdoor" : "indoor"
+  const variant = getReceiverCardVariant(layout.project.mode)
 
   return layout.project.dataRoutes.flatMap<CadEntry>((route) => {
     const steps = getRouteSteps(route)
@@ -657,11 +570,31 @@ function buildPowerEntries(
   })
 }
 
-function buildConnectorOffsets(
-  entries: CadEntry[],
-  layoutWidth: number,
-  layoutHeight: number,
-): CadConnectorOffset[] {
+// Card rectangles as the overview draws them at 1:1, for CAD outputs that show the rear hardware.
+function buildReceiverCards(
+  layout: LayoutData,
+  bounds: { minX: number; minY: number; maxX: number; maxY: number },
+): CadReceiverCard[] {
+  const variant = getReceiverCardVariant(layout.project.mode)
+
+  return layout.cabinets.flatMap((cabinet) => {
+    const cabinetBounds = getCabinetBounds(cabinet, layout.cabinetTypes)
+    const rects = getReceiverCardRects(cabinetBounds, 1, getCabinetReceiverCardCount(cabinet), variant)
+    const model = getCabinetReceiverCardModelId(layout, cabinet) ?? undefined
+    return rects.map((rect, index) => ({
+      id: rects.length > 1 ? `RC_${cabinet.id}_${index + 1}` : `RC_${cabinet.id}`,
+      cabinetId: cabinet.id,
+      model,
+      x_mm: roundMm(rect.x - bounds.minX),
+      y_mm: roundMm(rect.y - bounds.minY),
+      width_mm: roundMm(rect.width),
+      height_mm: roundMm(rect.height),
+    }))
+  })
+}
+
+// Entry y is measured down from the top edge, so it is already the offset from the top.
+function buildConnectorOffsets(entries: CadEntry[], layoutWidth: number): CadConnectorOffset[] {
   return entries.flatMap((entry) => [
     {
       id: `DIM_${entry.id}_LEFT`,
@@ -675,7 +608,7 @@ function buildConnectorOffsets(
       targetEntryId: entry.id,
       view: "rear",
       from: "top",
-      value_mm: roundMm(layoutHeight - entry.y_mm),
+      value_mm: roundMm(entry.y_mm),
     },
     {
       id: `DIM_${entry.id}_RIGHT`,
@@ -811,6 +744,7 @@ export function buildCadExport(layout: LayoutData): CadExport {
   const nc = extractNc(projectName)
   const moduleGrid = buildModuleGrid(layout, bounds.width, bounds.height)
   const primaryView: CadDrawingView = "rear"
+  const mode = layout.project.mode ?? "indoor"
 
   const cabinets = layout.cabinets.map((cabinet, index) => ({
     id: cabinet.id,
@@ -827,7 +761,20 @@ export function buildCadExport(layout: LayoutData): CadExport {
   const dataEntries = buildDataEntries(layout, bounds)
   const powerEntries = buildPowerEntries(layout, bounds)
   const entries = mergePowerAndDataEntries(layout, powerEntries, dataEntries)
-  const connectorOffsets = buildConnectorOffsets(entries, bounds.width, bounds.height)
+  const connectorOffsets = buildConnectorOffsets(entries, bounds.width)
+  const cabinetTypes: CadCabinetType[] = layout.cabinetTypes
+    .filter((type) => usedTypeIds.has(type.typeId))
+    .map((type) => ({
+      typeId: type.typeId,
+      cadKey: type.cadKey?.trim() || type.typeId,
+      width_mm: type.width_mm,
+      height_mm: type.height_mm,
+      depth_mm: type.depth_mm ?? 90,
+      description: type.description?.trim() || undefined,
+      maxPower_W: Math.round(getCabinetTypeMaxPowerW(type, mode)),
+      typicalPower_W: type.typicalPowerW,
+      weight_kg: roundWeightKg(getCabinetTypeWeightKg(type, mode)),
+    }))
 
   return {
     schemaVersion: CAD_SCHEMA_VERSION,
@@ -835,7 +782,7 @@ export function buildCadExport(layout: LayoutData): CadExport {
       name: projectName,
       nc,
       client: clientName,
-      mode: layout.project.mode ?? "indoor",
+      mode,
       units: "mm",
       pixelPitch: formatPixelPitch(layout),
       pitchMm: Number.isFinite(layout.project.pitch_mm) ? layout.project.pitch_mm : undefined,
@@ -854,16 +801,12 @@ export function buildCadExport(layout: LayoutData): CadExport {
       cabinetCount: layout.cabinets.length,
       moduleCount: moduleGrid?.totalModules,
       moduleGrid,
+      totalPower_W: getTotalLayoutLoadW(layout),
+      totalWeight_kg: roundWeightKg(getTotalLayoutWeight(layout).totalKg),
     },
-    cabinetTypes: layout.cabinetTypes.filter((type) => usedTypeIds.has(type.typeId)).map((type) => ({
-      typeId: type.typeId,
-      cadKey: type.cadKey?.trim() || type.typeId,
-      width_mm: type.width_mm,
-      height_mm: type.height_mm,
-      depth_mm: type.depth_mm ?? 90,
-      description: type.description?.trim() || undefined,
-    })),
+    cabinetTypes,
     cabinets,
+    receiverCards: buildReceiverCards(layout, bounds),
     drawing: {
       createDrawing: true,
       createPdf: true,
@@ -876,8 +819,8 @@ export function buildCadExport(layout: LayoutData): CadExport {
       includeFrontView: false,
       includeRearView: true,
       includeSideView: true,
-      includeTopView: false,
-      includeIso: false,
+      includeTopView: true,
+      includeIso: true,
     },
     titleBlock: buildTitleBlock(layout, projectName, clientName, nc, bounds.width, bounds.height, totalDepth, moduleGrid),
     entries,
@@ -895,6 +838,14 @@ export function buildCadExport(layout: LayoutData): CadExport {
       customDimensions: [],
       mountingHoles: [],
     },
+    views: buildCadViews({
+      cabinets,
+      cabinetTypes,
+      entries,
+      connectorOffsets,
+      width_mm: bounds.width,
+      height_mm: bounds.height,
+    }),
     annotations: {
       notes: [
         "ENTRY LABELS ARE FINAL DRAWING LABELS.",
@@ -904,7 +855,7 @@ export function buildCadExport(layout: LayoutData): CadExport {
     exports: {
       exportPdf: true,
       exportStep: false,
-      exportDxf: false,
+      exportDxf: true,
       outputSubfolder: DEFAULT_OUTPUT_SUBFOLDER,
       namingMode: "projectName",
     },
@@ -0,0 +1,209 @@
+import type {
+  CadCabinetInstance,
+  CadCabinetType,
+  CadConnectorOffset,
+  CadEntry,
+  CadIsoEntry,
+  CadIsoFace,
+  CadProjection,
+  CadViewRect,
+  CadViews,
+} from "./cad-export"
+
+// Side, top and isometric projections of the wall built from each cabinet type's depth. Cabinets stand on
+// z = z_mm with their front face there; rear entries sit on the rear face of their cabinet.
+
+interface CadViewInput {
+  cabinets: CadCabinetInstance[]
+  cabinetTypes: CadCabinetType[]
+  entries: CadEntry[]
+  connectorOffsets: CadConnectorOffset[]
+  width_mm: number
+  height_mm: number
+}
+
+interface CabinetBox {
+  cabinetId: string
+  x: number
+  y: number
+  z: number
+  width: number
+  height: number
+  depth: number
+}
+
+const DEFAULT_DEPTH_MM = 90
+const ISO_COS = Math.cos(Math.PI / 6)
+const ISO_SIN = Math.sin(Math.PI / 6)
+
+function roundMm(value: number) {
+  return Number(value.toFixed(3))
+}
+
+function getCabinetBoxes(input: CadViewInput): CabinetBox[] {
+  const typeById = new Map(input.cabinetTypes.map((type) => [type.typeId, type]))
+  return input.cabinets.flatMap((cabinet) => {
+    const type = typeById.get(cabinet.typeId)
+    if (!type || cabinet.suppressInCad) return []
+    const isRotated = cabinet.rot_deg === 90 || cabinet.rot_deg === 270
+    return [
+      {
+        cabinetId: cabinet.id,
+        x: cabinet.x_mm,
+        y: cabinet.y_mm,
+        z: cabinet.z_mm,
+        width: isRotated ? type.height_mm : type.width_mm,
+        height: isRotated ? type.width_mm : type.height_mm,
+        depth: type.depth_mm ?? DEFAULT_DEPTH_MM,
+      },
+    ]
+  })
+}
+
+function getRearZ(boxes: CabinetBox[], entry: CadEntry) {
+  const box = boxes.find((item) => item.cabinetId === entry.cabinetId)
+  if (box) return box.z + box.depth
+  return Math.max(DEFAULT_DEPTH_MM, ...boxes.map((item) => item.z + item.depth))
+}
+
+// Cabinets in the same column (side view) or row (top view) project onto each other; one outline is enough.
+function dedupeRects(rects: CadViewRect[]) {
+  const seen = new Set<string>()
+  return rects.filter((rect) => {
+    const key = [rect.x_mm, rect.y_mm, rect.width_mm, rect.height_mm].join(":")
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+// Seen from the right-hand side: depth runs left to right from the front face, height top to bottom.
+function buildSideProjection(input: CadViewInput, boxes: CabinetBox[]): CadProjection {
+  const rects = boxes.map((box) => ({
+    cabinetId: box.cabinetId,
+    x_mm: roundMm(box.z),
+    y_mm: roundMm(box.y),
+    width_mm: box.depth,
+    height_mm: box.height,
+  }))
+  return {
+    view: "side",
+    width_mm: Math.max(0, ...boxes.map((box) => box.z + box.depth)),
+    height_mm: input.height_mm,
+    rects: dedupeRects(rects),
+    entries: input.entries.map((entry) => ({
+      entryId: entry.id,
+      label: entry.label,
+      type: entry.type,
+      x_mm: roundMm(getRearZ(boxes, entry)),
+      y_mm: entry.y_mm,
+    })),
+  }
+}
+
+// Seen from above: width runs left to right, depth top to bottom from the front face.
+function buildTopProjection(input: CadViewInput, boxes: CabinetBox[]): CadProjection {
+  const rects = boxes.map((box) => ({
+    cabinetId: box.cabinetId,
+    x_mm: roundMm(box.x),
+    y_mm: roundMm(box.z),
+    width_mm: box.width,
+    height_mm: box.depth,
+  }))
+  return {
+    view: "top",
+    width_mm: input.width_mm,
+    height_mm: Math.max(0, ...boxes.map((box) => box.z + box.depth)),
+    rects: dedupeRects(rects),
+    entries: input.entries.map((entry) => ({
+      entryId: entry.id,
+      label: entry.label,
+      type: entry.type,
+      x_mm: entry.x_mm,
+      y_mm: roundMm(getRearZ(boxes, entry)),
+    })),
+  }
+}
+
+// x to the right, height up, depth towards the viewer; the eye sits on the (1, 1, 1) diagonal behind the wall,
+// so the rear, top and right faces are the visible ones.
+function buildIsoView(input: CadViewInput, boxes: CabinetBox[]) {
+  const project = (x: number, yDown: number, z: number) => {
+    const up = input.height_mm - yDown
+    return { x: (x - z) * ISO_COS, y: -up + (x + z) * ISO_SIN }
+  }
+
+  const faces = [...boxes]
+    .sort((a, b) => a.x + (input.height_mm - a.y) + a.z - (b.x + (input.height_mm - b.y) + b.z))
+    .flatMap((box) => {
+      const x0 = box.x
+      const x1 = box.x + box.width
+      const top = box.y
+      const bottom = box.y + box.height
+      const z0 = box.z
+      const z1 = box.z + box.depth
+      const face = (name: CadIsoFace["face"], corners: [number, number, number][]) => ({
+        cabinetId: box.cabinetId,
+        face: name,
+        points: corners.map(([x, y, z]) => project(x, y, z)),
+      })
+      return [
+        face("rear", [
+          [x0, bottom, z1],
+          [x1, bottom, z1],
+          [x1, top, z1],
+          [x0, top, z1],
+        ]),
+        face("top", [
+          [x0, top, z0],
+          [x1, top, z0],
+          [x1, top, z1],
+          [x0, top, z1],
+        ]),
+        face("right", [
+          [x1, bottom, z0],
+          [x1, bottom, z1],
+          [x1, top, z1],
+          [x1, top, z0],
+        ]),
+      ]
+    })
+
+  const offsetsByEntry = new Map<string, CadIsoEntry["offsets"]>()
+  input.connectorOffsets.forEach((offset) => {
+    const offsets = offsetsByEntry.get(offset.targetEntryId) ?? []
+    offsets.push({ from: offset.from, value_mm: offset.value_mm })
+    offsetsByEntry.set(offset.targetEntryId, offsets)
+  })
+  const entries = input.entries.map((entry) => ({
+    entryId: entry.id,
+    label: entry.label,
+    type: entry.type,
+    ...project(entry.x_mm, entry.y_mm, getRearZ(boxes, entry)),
+    offsets: offsetsByEntry.get(entry.id) ?? [],
+  }))
+
+  // Shift everything so the view starts at its own top-left corner.
+  const points = [...faces.flatMap((face) => face.points), ...entries]
+  const minX = Math.min(0, ...points.map((point) => point.x))
+  const minY = Math.min(0, ...points.map((point) => point.y))
+  const maxX = Math.max(0, ...points.map((point) => point.x))
+  const maxY = Math.max(0, ...points.map((point) => point.y))
+  const toView = (point: { x: number; y: number }) => ({ x_mm: roundMm(point.x - minX), y_mm: roundMm(point.y - minY) })
+
+  return {
+    width_mm: roundMm(maxX - minX),
+    height_mm: roundMm(maxY - minY),
+    faces: faces.map((face) => ({ ...face, points: face.points.map(toView) })),
+    entries: entries.map(({ x, y, ...entry }) => ({ ...entry, ...toView({ x, y }) })),
+  }
+}
+
+export function buildCadViews(input: CadViewInput): CadViews {
+  const boxes = getCabinetBoxes(input)
+  return {
+    side: buildSideProjection(input, boxes),
+    top: buildTopProjection(input, boxes),
+    iso: buildIsoView(input, boxes),
+  }
+}
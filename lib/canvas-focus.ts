@@ -0,0 +1,13 @@
+export const LAYOUT_FOCUS_EVENT = "layout:focus-route"
+
+export type LayoutFocusRequestDetail =
+  | { entity: "data-route" | "power-feed"; id: string }
+  | { entity: "cabinets"; ids: string[] }
+
+// Asks the layout canvas to pan/zoom onto a route, feed or set of cabinets.
+export function requestCanvasFocus(detail: LayoutFocusRequestDetail) {
+  if (typeof window === "undefined") return
+  window.requestAnimationFrame(() => {
+    window.dispatchEvent(new CustomEvent<LayoutFocusRequestDetail>(LAYOUT_FOCUS_EVENT, { detail }))
+  })
+}
@@ -1,5 +1,6 @@
-import type { Cabinet, CabinetType, ProjectMode } from "./types"
+import type { Cabinet, CabinetType, Project, ProjectController, ProjectMode } from "./types"
 import { getCabinetBounds } from "./validation"
+import { getControllerDisplayLabel } from "./controllers"
 
 export function getDefaultOutdoorLvBoxCabinetId(
   cabinets: Cabinet[],
@@ -46,3 +47,33 @@ export function resolveControllerCabinetId(
 
   return controllerCabinetId
 }
+
+export interface PlacedController {
+  controller: ProjectController
+  label: string
+  cabinetId?: string // set when the controller sits in an existing cabinet
+  externalSlot?: number // position among the controllers drawn outside the wall, main controller first
+}
+
+// Where each controller is drawn. The main controller keeps the outdoor LV box default cabinet.
+export function getPlacedControllers(
+  project: Project,
+  cabinets: Cabinet[],
+  cabinetTypes: CabinetType[],
+): PlacedController[] {
+  const mode = project.mode ?? "indoor"
+  let nextSlot = 0
+  return project.controllers.map((controller, index) => {
+    const placement = controller.placement ?? "external"
+    const requestedCabinetId =
+      index === 0
+        ? resolveControllerCabinetId(mode, placement, controller.cabinetId, cabinets, cabinetTypes)
+        : placement === "cabinet"
+          ? controller.cabinetId
+          : undefined
+    const cabinetId =
+      requestedCabinetId && cabinets.some((cabinet) => cabinet.id === requestedCabinetId) ? requestedCabinetId : undefined
+    const label = getControllerDisplayLabel(controller)
+    return cabinetId ? { controller, label, cabinetId } : { controller, label, externalSlot: nextSlot++ }
+  })
+}
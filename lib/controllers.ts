@@ -0,0 +1,118 @@
+import type { ControllerModel, DataRoute, Project, ProjectController } from "./types"
+
+export const DEFAULT_PER_PORT_MAX_PX = 650_000
+
+export const DEFAULT_CONTROLLER_MODELS: ControllerModel[] = [
+  { id: "A100", ports: 2, perPortMaxPx: DEFAULT_PER_PORT_MAX_PX, totalMaxPx: 1_300_000 },
+  {
+    id: "TB-50",
+    ports: 2,
+    perPortMaxPx: DEFAULT_PER_PORT_MAX_PX,
+    totalMaxPx: 1_300_000,
+    maxWidthPx: 4096,
+    maxHeightPx: 4096,
+  },
+  {
+    id: "A200",
+    ports: 4,
+    perPortMaxPx: DEFAULT_PER_PORT_MAX_PX,
+    totalMaxPx: 2_300_000,
+    maxWidthPx: 4096,
+    maxHeightPx: 2560,
+  },
+  {
+    id: "X8E",
+    ports: 8,
+    perPortMaxPx: DEFAULT_PER_PORT_MAX_PX,
+    totalMaxPx: 5_240_000,
+    maxWidthPx: 16384,
+    maxHeightPx: 8192,
+  },
+]
+
+type ControllerCatalogSource = Pick<Project, "controllerModels">
+
+// Built-in models followed by project entries; a project entry replaces the built-in with the same id in place.
+export function getControllerCatalog(project: ControllerCatalogSource): ControllerModel[] {
+  const custom = project.controllerModels ?? []
+  const builtIns = DEFAULT_CONTROLLER_MODELS.map((model) => custom.find((entry) => entry.id === model.id) ?? model)
+  return [...builtIns, ...custom.filter((model) => !isBuiltInControllerModel(model.id))]
+}
+
+export function isBuiltInControllerModel(id: string) {
+  return DEFAULT_CONTROLLER_MODELS.some((model) => model.id === id)
+}
+
+// Unknown ids (e.g. a model removed from the catalog) fall back to the smallest built-in limits.
+export function getControllerModel(project: ControllerCatalogSource, controllerId: string): ControllerModel {
+  const model = getControllerCatalog(project).find((entry) => entry.id === controllerId)
+  return model ?? { ...DEFAULT_CONTROLLER_MODELS[0], id: controllerId }
+}
+
+// Smallest models first, used when suggesting an upgrade.
+export function getControllerUpgradeOrder(project: ControllerCatalogSource): ControllerModel[] {
+  return [...getControllerCatalog(project)].sort((a, b) => a.ports - b.ports || a.totalMaxPx - b.totalMaxPx)
+}
+
+export function formatControllerOptionLabel(model: ControllerModel) {
+  return `${model.id} (${model.ports} port${model.ports === 1 ? "" : "s"})`
+}
+
+// Id of the first controller in new and migrated projects. Other code asks getMainController instead of
+// comparing against it, since a project may list its controllers under any ids.
+export const MAIN_CONTROLLER_ID = "main"
+
+type ProjectControllerSource = Pick<Project, "controllers">
+
+export function getMainController(project: ProjectControllerSource): ProjectController {
+  return project.controllers[0]
+}
+
+export function isMainController(project: ProjectControllerSource, controllerId: string) {
+  return getMainController(project).id === controllerId
+}
+
+// Applies `updates` to the main controller and returns the new controller list.
+export function updateMainController(
+  project: ProjectControllerSource,
+  updates: Partial<ProjectController>,
+): ProjectController[] {
+  return project.controllers.map((controller, index) => (index === 0 ? { ...controller, ...updates } : controller))
+}
+
+export function hasMultipleControllers(project: ProjectControllerSource) {
+  return project.controllers.length > 1
+}
+
+// Routes without a controller, or pointing at a removed one, belong to the main controller.
+export function getRouteControllerId(project: ProjectControllerSource, route: Pick<DataRoute, "controllerId">) {
+  const id = route.controllerId
+  if (id && project.controllers.some((controller) => controller.id === id)) return id
+  return getMainController(project).id
+}
+
+export function getProjectController(project: ProjectControllerSource, controllerId: string): ProjectController {
+  return project.controllers.find((controller) => controller.id === controllerId) ?? getMainController(project)
+}
+
+export function getControllerDisplayLabel(controller: ProjectController) {
+  return controller.label?.trim() || controller.model
+}
+
+// "Port 2" on single-controller projects, "A200 Port 2" once routes can belong to different controllers.
+export function getDataRoutePortLabel(
+  project: ProjectControllerSource,
+  route: Pick<DataRoute, "port" | "controllerId" | "backupForRouteId">,
+) {
+  const suffix = route.backupForRouteId ? " (backup)" : ""
+  if (!hasMultipleControllers(project)) return `Port ${route.port}${suffix}`
+  const controller = getProjectController(project, getRouteControllerId(project, route))
+  return `${getControllerDisplayLabel(controller)} Port ${route.port}${suffix}`
+}
+
+export function getNextControllerId(project: ProjectControllerSource) {
+  const ids = new Set(project.controllers.map((controller) => controller.id))
+  let index = 2
+  while (ids.has(`CTRL${index}`)) index++
+  return `CTRL${index}`
+}
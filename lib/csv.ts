@@ -0,0 +1,10 @@
+export type CsvCell = string | number
+
+function escapeCsvCell(value: CsvCell) {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function formatCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(",")).join("\n") + "\n"
+}
@@ -0,0 +1,554 @@
+import type { Cabinet, DataRoute, LayoutData } from "./types"
+import { computeGridLabel, formatRouteCabinetId, getCabinetReceiverCardCount, parseRouteCabinetId } from "./types"
+import { getCabinetBounds } from "./validation"
+import { getDataRouteLoadPx } from "./data-utils"
+import { resolveControllerCabinetId } from "./controller-utils"
+import { getControllerModel, getDataRoutePortLabel, getMainController } from "./controllers"
+
+// Auto-routing engine: orders receiver card endpoints into serpentine chains, one per controller port.
+// Pure function of the layout so the panel, exports and scripts all route the same way.
+
+export type RouteStartCorner = "controller" | "bottom-left" | "bottom-right" | "top-left" | "top-right"
+export type RouteSerpentine = "columns" | "rows"
+
+export interface AutoRouteOptions {
+  startCorner: RouteStartCorner
+  serpentine: RouteSerpentine
+  maxPorts: number
+  portCapacityPx?: number // overrides the per-port limit of each controller model
+  allowCrossScreen: boolean // let one chain continue into the next screen
+  splitAtCapacity: boolean // open a new port when a chain reaches the port limit instead of splitting by lanes
+}
+
+export interface AutoRouteDiagnostic {
+  type: "info" | "warning"
+  message: string
+  routeId?: string
+}
+
+export interface AutoRouteResult {
+  routes: DataRoute[]
+  diagnostics: AutoRouteDiagnostic[]
+}
+
+type CabinetBounds = NonNullable<ReturnType<typeof getCabinetBounds>>
+
+type RoutedCabinet = {
+  cabinet: Cabinet
+  cardCount: 1 | 2
+  centerX: number
+  centerY: number
+  bounds: CabinetBounds
+}
+
+// items sorted along the "forward" direction; forward, when set, fixes the direction the chain runs the lane
+type Lane = { items: RoutedCabinet[]; screenIndex: number; forward?: boolean }
+
+type PortSlot = { controllerId?: string; port: number; capacityPx: number } // controllerId unset = main controller
+
+type Point = { x: number; y: number }
+
+const LANE_TOLERANCE_MM = 100
+const TOUCH_TOLERANCE_MM = 1
+
+export const START_CORNER_LABELS: Record<RouteStartCorner, string> = {
+  controller: "Controller / LV box",
+  "bottom-left": "Bottom left",
+  "bottom-right": "Bottom right",
+  "top-left": "Top left",
+  "top-right": "Top right",
+}
+
+// Indoor walls snake up the columns from the bottom-left; outdoor walls run rows out of the LV box. maxPorts only caps
+// the ports: a new one opens when the next endpoint would push a chain over portCapacityPx, and the load is then
+// evened out across the ports that were opened.
+export function getDefaultAutoRouteOptions(layout: LayoutData): AutoRouteOptions {
+  if ((layout.project.mode ?? "indoor") === "outdoor") {
+    return {
+      startCorner: "controller",
+      serpentine: "rows",
+      maxPorts: getPortSlots(layout).length,
+      allowCrossScreen: true,
+      splitAtCapacity: true,
+    }
+  }
+  return {
+    startCorner: "bottom-left",
+    serpentine: "columns",
+    maxPorts: getPortSlots(layout).length,
+    allowCrossScreen: true,
+    splitAtCapacity: true,
+  }
+}
+
+// Ports of every project controller, main controller first.
+function getPortSlots(layout: LayoutData, portCapacityPx?: number): PortSlot[] {
+  return layout.project.controllers.flatMap((controller, controllerIndex) => {
+    const model = getControllerModel(layout.project, controller.model)
+    return Array.from({ length: model.ports }, (_, index) => ({
+      controllerId: controllerIndex === 0 ? undefined : controller.id,
+      port: index + 1,
+      capacityPx: portCapacityPx ?? model.perPortMaxPx,
+    }))
+  })
+}
+
+function areBoundsConnected(a: CabinetBounds, b: CabinetBounds) {
+  const overlapX = a.x < b.x2 && a.x2 > b.x
+  const overlapY = a.y < b.y2 && a.y2 > b.y
+  if (overlapX && overlapY) return true
+  const horizontalTouch =
+    (Math.abs(a.x2 - b.x) <= TOUCH_TOLERANCE_MM || Math.abs(b.x2 - a.x) <= TOUCH_TOLERANCE_MM) &&
+    !(a.y2 <= b.y || b.y2 <= a.y)
+  const verticalTouch =
+    (Math.abs(a.y2 - b.y) <= TOUCH_TOLERANCE_MM || Math.abs(b.y2 - a.y) <= TOUCH_TOLERANCE_MM) &&
+    !(a.x2 <= b.x || b.x2 <= a.x)
+  return horizontalTouch || verticalTouch
+}
+
+// Screens are groups of touching cabinets.
+function groupScreens(items: RoutedCabinet[]): RoutedCabinet[][] {
+  const screens: RoutedCabinet[][] = []
+  const visited = new Array(items.length).fill(false)
+  for (let i = 0; i < items.length; i++) {
+    if (visited[i]) continue
+    visited[i] = true
+    const queue = [i]
+    const screen: RoutedCabinet[] = []
+    while (queue.length > 0) {
+      const current = queue.shift() as number
+      screen.push(items[current])
+      for (let j = 0; j < items.length; j++) {
+        if (visited[j] || !areBoundsConnected(items[current].bounds, items[j].bounds)) continue
+        visited[j] = true
+        queue.push(j)
+      }
+    }
+    screens.push(screen)
+  }
+  return screens
+}
+
+function getDistanceSq(item: RoutedCabinet, point: Point) {
+  const dx = item.centerX - point.x
+  const dy = item.centerY - point.y
+  return dx * dx + dy * dy
+}
+
+// The cabinet housing the main controller; outdoor falls back to the default LV box cabinet.
+function getControllerItem(layout: LayoutData, items: RoutedCabinet[]) {
+  const mainController = getMainController(layout.project)
+  const controllerCabinetId = resolveControllerCabinetId(
+    layout.project.mode ?? "indoor",
+    layout.project.mode === "outdoor" ? "cabinet" : mainController.placement,
+    mainController.cabinetId,
+    layout.cabinets,
+    layout.cabinetTypes,
+  )
+  return items.find((item) => item.cabinet.id === controllerCabinetId)
+}
+
+function getStartPoint(layout: LayoutData, items: RoutedCabinet[], corner: RouteStartCorner): Point {
+  const minX = Math.min(...items.map((item) => item.bounds.x))
+  const maxX = Math.max(...items.map((item) => item.bounds.x2))
+  const minY = Math.min(...items.map((item) => item.bounds.y))
+  const maxY = Math.max(...items.map((item) => item.bounds.y2))
+  if (corner === "controller") {
+    const controllerItem = getControllerItem(layout, items)
+    if (controllerItem) return { x: controllerItem.centerX, y: controllerItem.centerY }
+    return { x: (minX + maxX) / 2, y: maxY }
+  }
+  return {
+    x: corner.endsWith("left") ? minX : maxX,
+    y: corner.startsWith("top") ? minY : maxY,
+  }
+}
+
+// Lanes are columns (forward = bottom to top) or rows (forward = left to right).
+function buildScreenLanes(screen: RoutedCabinet[], serpentine: RouteSerpentine, start: Point) {
+  const getCoord = (item: RoutedCabinet) => (serpentine === "columns" ? item.centerX : item.centerY)
+  const lanes: RoutedCabinet[][] = []
+  screen.forEach((item) => {
+    const lane = lanes.find((entry) => Math.abs(getCoord(entry[0]) - getCoord(item)) < LANE_TOLERANCE_MM)
+    if (lane) lane.push(item)
+    else lanes.push([item])
+  })
+  lanes.forEach((lane) =>
+    lane.sort((a, b) => (serpentine === "columns" ? b.centerY - a.centerY : a.centerX - b.centerX)),
+  )
+
+  // Walk lanes outward from the one nearest the start point.
+  const startCoord = serpentine === "columns" ? start.x : start.y
+  const ordered: RoutedCabinet[][] = []
+  const remaining = [...lanes]
+  let current = startCoord
+  while (remaining.length > 0) {
+    let bestIndex = 0
+    for (let i = 1; i < remaining.length; i++) {
+      if (Math.abs(getCoord(remaining[i][0]) - current) < Math.abs(getCoord(remaining[bestIndex][0]) - current)) {
+        bestIndex = i
+      }
+    }
+    const [lane] = remaining.splice(bestIndex, 1)
+    ordered.push(lane)
+    current = getCoord(lane[0])
+  }
+  return ordered
+}
+
+function orderScreens(screens: RoutedCabinet[][], start: Point) {
+  const distance = (screen: RoutedCabinet[]) => Math.min(...screen.map((item) => getDistanceSq(item, start)))
+  return [...screens].sort((a, b) => distance(a) - distance(b))
+}
+
+// Controller / rows, the outdoor LV box run: screens in order of distance from the LV box, each one walked row by
+// row from the row nearest where the chain left the previous screen, entering on the side nearest that point.
+// Screens after the LV box screen instead pick the side that makes the chain leave away from the LV box, towards
+// the next screen. Without an LV box cabinet the lowest screen goes first.
+function buildControllerRowLanes(screens: RoutedCabinet[][], controllerItem: RoutedCabinet | undefined): Lane[][] {
+  const centerXs = screens.flat().map((item) => item.centerX)
+  const layoutCenterX = (Math.min(...centerXs) + Math.max(...centerXs)) / 2
+  const lvSide = controllerItem && controllerItem.centerX < layoutCenterX ? "left" : "right"
+  const getBottomY = (screen: RoutedCabinet[]) => Math.max(...screen.map((item) => item.centerY))
+  let anchor: Point | null = controllerItem ? { x: controllerItem.centerX, y: controllerItem.centerY } : null
+  const ordered = anchor ? orderScreens(screens, anchor) : [...screens].sort((a, b) => getBottomY(b) - getBottomY(a))
+
+  return ordered.map((screen, screenIndex) => {
+    const rows = buildScreenLanes(screen, "rows", { x: 0, y: anchor ? anchor.y : getBottomY(screen) })
+    const firstRow = rows[0]
+    let startLtr =
+      !anchor ||
+      Math.abs(anchor.x - firstRow[0].centerX) <= Math.abs(anchor.x - firstRow[firstRow.length - 1].centerX)
+    const isLvBoxScreen = !!controllerItem && screen.includes(controllerItem)
+    if (!isLvBoxScreen && screenIndex < ordered.length - 1) {
+      const screenXs = screen.map((item) => item.centerX)
+      const exitX = lvSide === "right" ? Math.min(...screenXs) : Math.max(...screenXs)
+      const lastRow = rows[rows.length - 1]
+      const getExitX = (ltr: boolean) => {
+        const lastRowLtr = rows.length % 2 === 1 ? ltr : !ltr
+        return (lastRowLtr ? lastRow[lastRow.length - 1] : lastRow[0]).centerX
+      }
+      startLtr = Math.abs(getExitX(true) - exitX) <= Math.abs(getExitX(false) - exitX)
+    }
+
+    const lanes = rows.map<Lane>((items, rowIndex) => ({
+      items,
+      screenIndex,
+      forward: rowIndex % 2 === 0 ? startLtr : !startLtr,
+    }))
+    const lastLane = lanes[lanes.length - 1]
+    const exit = lastLane.forward ? lastLane.items[lastLane.items.length - 1] : lastLane.items[0]
+    anchor = { x: exit.centerX, y: exit.centerY }
+    return lanes
+  })
+}
+
+// Both-card cabinets list the lower card first when the chain moves forward.
+function appendCardEndpoints(target: string[], item: RoutedCabinet, forward: boolean) {
+  if (item.cardCount === 1) {
+    target.push(item.cabinet.id)
+    return
+  }
+  const cardOrder = forward ? [1, 0] : [0, 1]
+  cardOrder.forEach((index) => target.push(formatRouteCabinetId(item.cabinet.id, index)))
+}
+
+// Serpentine through the lanes of one chain. Each lane starts at the end nearest the previous position,
+// so a chain restarts from the start point and picks up where it left off when it enters another screen.
+// Lanes with a fixed direction keep it.
+function buildChainEndpoints(lanes: Lane[], start: Point) {
+  const endpointIds: string[] = []
+  let position = start
+  let previousScreen: number | null = null
+  let forward = true
+  lanes.forEach((lane, laneIndex) => {
+    const first = lane.items[0]
+    const last = lane.items[lane.items.length - 1]
+    if (lane.forward !== undefined) {
+      forward = lane.forward
+    } else if (laneIndex === 0 || lane.screenIndex !== previousScreen) {
+      forward = getDistanceSq(first, position) <= getDistanceSq(last, position)
+    } else {
+      forward = !forward
+    }
+    const items = forward ? lane.items : [...lane.items].reverse()
+    items.forEach((item) => appendCardEndpoints(endpointIds, item, forward))
+    const end = items[items.length - 1]
+    position = { x: end.centerX, y: end.centerY }
+    previousScreen = lane.screenIndex
+  })
+  return endpointIds
+}
+
+// Consecutive lanes split evenly across the ports, as many ports as lanes at most.
+function splitLanes(lanes: Lane[], portCount: number): Lane[][] {
+  const portsToUse = Math.min(portCount, lanes.length)
+  if (portsToUse <= 0) return []
+  const lanesPerPort = Math.ceil(lanes.length / portsToUse)
+  const groups: Lane[][] = []
+  for (let start = 0; start < lanes.length; start += lanesPerPort) {
+    groups.push(lanes.slice(start, start + lanesPerPort))
+  }
+  return groups
+}
+
+// Without cross-screen chains every screen needs its own ports; spare ports go to the screens with most lanes.
+function allocateScreenPorts(laneCounts: number[], portCount: number) {
+  const ports = laneCounts.map<number>((count, index) => (index < portCount && count > 0 ? 1 : 0))
+  let spare = portCount - ports.reduce((sum, count) => sum + count, 0)
+  while (spare > 0) {
+    let best = -1
+    laneCounts.forEach((count, index) => {
+      if (ports[index] === 0 || ports[index] >= count) return
+      if (best === -1 || count / ports[index] > laneCounts[best] / ports[best]) best = index
+    })
+    if (best === -1) break
+    ports[best] += 1
+    spare -= 1
+  }
+  return ports
+}
+
+function formatPx(value: number) {
+  return `${Math.round(value).toLocaleString()} px`
+}
+
+function formatEndpointLabel(layout: LayoutData, endpointId: string) {
+  const { cabinetId, cardIndex } = parseRouteCabinetId(endpointId)
+  const cabinet = layout.cabinets.find((entry) => entry.id === cabinetId)
+  if (!cabinet) return endpointId
+  const gridLabelAxis = layout.project.overview.gridLabelAxis ?? "columns"
+  const label = computeGridLabel(cabinet, layout.cabinets, layout.cabinetTypes, gridLabelAxis)
+  return cardIndex === undefined ? label : `${label}${String.fromCharCode(97 + cardIndex)}`
+}
+
+function getEndpointLoadPx(layout: LayoutData, endpointId: string) {
+  return getDataRouteLoadPx(
+    { id: endpointId, port: 0, cabinetIds: [endpointId] },
+    layout.cabinets,
+    layout.cabinetTypes,
+    layout.project.pitch_mm,
+  )
+}
+
+// Greedy cut: a chain closes when the next endpoint would take it over its limit. Returns chain start indices.
+function splitByLimit(loads: number[], getLimit: (chainIndex: number) => number) {
+  const starts = [0]
+  let current = 0
+  loads.forEach((load, index) => {
+    if (current > 0 && current + load > getLimit(starts.length - 1)) {
+      starts.push(index)
+      current = 0
+    }
+    current += load
+  })
+  return starts
+}
+
+// The greedy cut gives the fewest chains; the lowest ceiling that still needs no more chains evens them out.
+// When the free ports cannot hold the load, it is spread as evenly as possible over the ports there are.
+function splitByCapacity(loads: number[], limits: number[]) {
+  const getLimit = (chainIndex: number) => limits[Math.min(chainIndex, limits.length - 1)]
+  const neededPorts = splitByLimit(loads, getLimit).length
+  const fits = neededPorts <= limits.length
+  const chainCount = Math.min(neededPorts, limits.length)
+  const split = (ceiling: number) =>
+    splitByLimit(loads, fits ? (chainIndex) => Math.min(ceiling, getLimit(chainIndex)) : () => ceiling)
+
+  let low = Math.ceil(Math.max(...loads))
+  let high = Math.max(low, Math.ceil(fits ? Math.max(...limits) : loads.reduce((sum, load) => sum + load, 0)))
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2)
+    if (split(mid).length <= chainCount) high = mid
+    else low = mid + 1
+  }
+  return { starts: split(low), neededPorts }
+}
+
+function createRoute(index: number, slot: PortSlot, cabinetIds: string[]): DataRoute {
+  return {
+    id: `route-${index + 1}`,
+    port: slot.port,
+    cabinetIds,
+    ...(slot.controllerId ? { controllerId: slot.controllerId } : {}),
+  }
+}
+
+// Geometric split: whole lanes shared evenly between the ports, regardless of load.
+function buildLaneRoutes(
+  screenLanes: Lane[][],
+  start: Point,
+  slots: PortSlot[],
+  allowCrossScreen: boolean,
+  diagnostics: AutoRouteDiagnostic[],
+) {
+  let chains: Lane[][]
+  if (allowCrossScreen) {
+    chains = splitLanes(screenLanes.flat(), slots.length)
+  } else {
+    const screenPorts = allocateScreenPorts(
+      screenLanes.map((lanes) => lanes.length),
+      slots.length,
+    )
+    const unrouted = screenPorts.filter((count) => count === 0).length
+    if (unrouted > 0) {
+      diagnostics.push({
+        type: "warning",
+        message: `${screenLanes.length} screens need at least ${screenLanes.length} ports; ${unrouted} screen${unrouted === 1 ? " was" : "s were"} left unrouted`,
+      })
+    }
+    chains = screenLanes.flatMap((lanes, index) => splitLanes(lanes, screenPorts[index]))
+  }
+  return chains.map((lanes, index) => createRoute(index, slots[index], buildChainEndpoints(lanes, start)))
+}
+
+// One serpentine per group (the whole wall, or each screen when chains stay on their screen), cut at the port
+// limits. Every split gets an info line saying why it happened.
+function buildCapacityRoutes(
+  layout: LayoutData,
+  groups: Lane[][],
+  start: Point,
+  slots: PortSlot[],
+  perScreen: boolean,
+  diagnostics: AutoRouteDiagnostic[],
+) {
+  const routes: DataRoute[] = []
+  let unrouted = 0
+  groups.forEach((lanes, groupIndex) => {
+    // Keep one port back for each screen still to come.
+    const reserved = Math.min(groups.length - groupIndex - 1, Math.max(0, slots.length - routes.length - 1))
+    const available = slots.slice(routes.length, slots.length - reserved)
+    if (available.length === 0) {
+      unrouted += 1
+      return
+    }
+    const prefix = perScreen ? `Screen ${groupIndex + 1}: ` : ""
+    const endpointIds = buildChainEndpoints(lanes, start)
+    const loads = endpointIds.map((endpointId) => getEndpointLoadPx(layout, endpointId))
+    const { starts, neededPorts } = splitByCapacity(
+      loads,
+      available.map((slot) => slot.capacityPx),
+    )
+    const sumLoads = (from: number, to: number) => loads.slice(from, to).reduce((sum, load) => sum + load, 0)
+
+    const fits = neededPorts <= available.length
+    if (!fits) {
+      diagnostics.push({
+        type: "warning",
+        message: `${prefix}needs ${neededPorts} ports to stay within the port limit but only ${available.length} ${available.length === 1 ? "is" : "are"} free; load is spread over the free ports`,
+      })
+    }
+    starts.forEach((startIndex, chainIndex) => {
+      const endIndex = starts[chainIndex + 1] ?? endpointIds.length
+      const route = createRoute(routes.length, available[chainIndex], endpointIds.slice(startIndex, endIndex))
+      routes.push(route)
+      const label = getDataRoutePortLabel(layout.project, route)
+      const endpointLabel = formatEndpointLabel(layout, endpointIds[startIndex])
+      if (chainIndex === 0) {
+        if (routes.length > 1) {
+          diagnostics.push({
+            type: "info",
+            message: `${label} starts at ${endpointLabel}: chains stay on their own screen`,
+            routeId: route.id,
+          })
+        }
+        return
+      }
+      const previous = routes[routes.length - 2]
+      const previousLabel = getDataRoutePortLabel(layout.project, previous)
+      const previousLoad = sumLoads(starts[chainIndex - 1], startIndex)
+      const limit = available[chainIndex - 1].capacityPx
+      diagnostics.push({
+        type: "info",
+        message: !fits
+          ? `${label} starts at ${endpointLabel} to share the overload evenly with ${previousLabel}`
+          : previousLoad + loads[startIndex] > limit
+            ? `${label} starts at ${endpointLabel}: one more card would take ${previousLabel} past its ${formatPx(limit)} limit`
+            : `${label} starts at ${endpointLabel} to even out load; ${previousLabel} stops at ${formatPx(previousLoad)} of ${formatPx(limit)}`,
+        routeId: route.id,
+      })
+    })
+  })
+  if (unrouted > 0) {
+    diagnostics.push({
+      type: "warning",
+      message: `${groups.length} screens need at least ${groups.length} ports; ${unrouted} screen${unrouted === 1 ? " was" : "s were"} left unrouted`,
+    })
+  }
+  return routes
+}
+
+export function autoRouteDataRoutes(layout: LayoutData, overrides: Partial<AutoRouteOptions> = {}): AutoRouteResult {
+  const options = { ...getDefaultAutoRouteOptions(layout), ...overrides }
+  const diagnostics: AutoRouteDiagnostic[] = []
+  const slots = getPortSlots(layout, options.portCapacityPx).slice(0, Math.max(0, options.maxPorts))
+
+  let skippedCount = 0
+  const items = layout.cabinets.flatMap<RoutedCabinet>((cabinet) => {
+    const bounds = getCabinetBounds(cabinet, layout.cabinetTypes)
+    const cardCount = getCabinetReceiverCardCount(cabinet)
+    if (!bounds || cardCount === 0) {
+      skippedCount += 1
+      return []
+    }
+    return [
+      {
+        cabinet,
+        cardCount,
+        centerX: bounds.x + bounds.width / 2,
+        centerY: bounds.y + bounds.height / 2,
+        bounds,
+      },
+    ]
+  })
+  if (skippedCount > 0) {
+    diagnostics.push({
+      type: "info",
+      message: `${skippedCount} cabinet${skippedCount === 1 ? " has" : "s have"} no receiver card and ${skippedCount === 1 ? "was" : "were"} skipped`,
+    })
+  }
+  if (items.length === 0) return { routes: [], diagnostics }
+  if (slots.length === 0) {
+    diagnostics.push({ type: "warning", message: "No controller ports available" })
+    return { routes: [], diagnostics }
+  }
+
+  const start = getStartPoint(layout, items, options.startCorner)
+  const screenLanes =
+    options.startCorner === "controller" && options.serpentine === "rows"
+      ? buildControllerRowLanes(groupScreens(items), getControllerItem(layout, items))
+      : orderScreens(groupScreens(items), start).map((screen, screenIndex) =>
+          buildScreenLanes(screen, options.serpentine, start).map<Lane>((laneItems) => ({
+            items: laneItems,
+            screenIndex,
+          })),
+        )
+
+  const routes = options.splitAtCapacity
+    ? buildCapacityRoutes(
+        layout,
+        options.allowCrossScreen ? [screenLanes.flat()] : screenLanes,
+        start,
+        slots,
+        !options.allowCrossScreen,
+        diagnostics,
+      )
+    : buildLaneRoutes(screenLanes, start, slots, options.allowCrossScreen, diagnostics)
+
+  const endpointCount = routes.reduce((sum, route) => sum + route.cabinetIds.length, 0)
+  diagnostics.push({
+    type: "info",
+    message: `${endpointCount} receiver card${endpointCount === 1 ? "" : "s"} on ${routes.length} port${routes.length === 1 ? "" : "s"}`,
+  })
+  routes.forEach((route, index) => {
+    const loadPx = getDataRouteLoadPx(route, layout.cabinets, layout.cabinetTypes, layout.project.pitch_mm)
+    if (loadPx <= slots[index].capacityPx) return
+    diagnostics.push({
+      type: "warning",
+      message: `${getDataRoutePortLabel(layout.project, route)} carries ${Math.round(loadPx).toLocaleString()} px, over the ${slots[index].capacityPx.toLocaleString()} px port limit`,
+      routeId: route.id,
+    })
+  })
+
+  return { routes, diagnostics }
+}
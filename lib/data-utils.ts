@@ -2,16 +2,13 @@ import type { Cabinet, CabinetType, DataRoute, LayoutData } from "./types"
 import { getCabinetReceiverCardCount, parseRouteCabinetId } from "./types"
 import { getEffectivePitchMm } from "./pitch-utils"
 import { getTotalizedPixelMatrixDimensions } from "./pixel-matrix"
-
-const PER_PORT_MAX_PX = 650_000
-type ControllerType = LayoutData["project"]["controller"]
-
-const CONTROLLER_LIMITS: Record<ControllerType, { totalMaxPx: number; maxWidthPx?: number; maxHeightPx?: number }> = {
-  A100: { totalMaxPx: 1_300_000 },
-  A200: { totalMaxPx: 2_300_000, maxWidthPx: 4096, maxHeightPx: 2560 },
-  "TB-50": { totalMaxPx: 1_300_000, maxWidthPx: 4096, maxHeightPx: 4096 },
-  X8E: { totalMaxPx: 5_240_000, maxWidthPx: 16384, maxHeightPx: 8192 },
-}
+import {
+  getControllerModel,
+  getMainController,
+  getProjectController,
+  getRouteControllerId,
+  hasMultipleControllers,
+} from "./controllers"
 
 function getCabinetPixelArea(cabinet: Cabinet, types: CabinetType[], pitchMm: number): number {
   const type = types.find((t) => t.typeId === cabinet.typeId)
@@ -45,13 +42,46 @@ export function getDataRouteLoadPx(
   }, 0)
 }
 
+export function isBackupDataRoute(route: Pick<DataRoute, "backupForRouteId">) {
+  return !!route.backupForRouteId
+}
+
+export function getBackupDataRoutes(routes: DataRoute[], primaryRouteId: string): DataRoute[] {
+  return routes.filter((route) => route.backupForRouteId === primaryRouteId)
+}
+
+// A backup loop enters at the last card of the primary chain and walks it back to the first.
+export function getBackupRouteEndpointIds(primary: DataRoute): string[] {
+  return [...primary.cabinetIds].reverse()
+}
+
+export function isBackupRouteInSync(primary: DataRoute, backup: DataRoute) {
+  const expected = getBackupRouteEndpointIds(primary)
+  return (
+    expected.length === backup.cabinetIds.length &&
+    expected.every((endpointId, index) => backup.cabinetIds[index] === endpointId)
+  )
+}
+
 export function isDataRouteOverCapacity(
   route: DataRoute,
   cabinets: Cabinet[],
   types: CabinetType[],
   pitchMm: number,
+  perPortMaxPx: number,
 ): boolean {
-  return getDataRouteLoadPx(route, cabinets, types, pitchMm) > PER_PORT_MAX_PX
+  return getDataRouteLoadPx(route, cabinets, types, pitchMm) > perPortMaxPx
+}
+
+export function getPortCapacityPx(
+  project: LayoutData["project"],
+  controllerId: string = getMainController(project).id,
+): number {
+  return getControllerModel(project, getProjectController(project, controllerId).model).perPortMaxPx
+}
+
+export function getRoutePortCapacityPx(project: LayoutData["project"], route: DataRoute): number {
+  return getPortCapacityPx(project, getRouteControllerId(project, route))
 }
 
 export function getLayoutPixelLoad(cabinets: Cabinet[], types: CabinetType[], pitchMm: number): number {
@@ -59,16 +89,19 @@ export function getLayoutPixelLoad(cabinets: Cabinet[], types: CabinetType[], pi
   return cabinets.reduce((sum, cabinet) => sum + getCabinetPixelArea(cabinet, types, effectivePitch), 0)
 }
 
-export function getControllerLimits(controller: ControllerType) {
-  return CONTROLLER_LIMITS[controller]
+export function getControllerLimits(
+  project: LayoutData["project"],
+  controller: string = getMainController(project).model,
+) {
+  return getControllerModel(project, controller)
 }
 
 export function isControllerOverCapacity(layout: LayoutData): boolean {
-  return isLayoutOverControllerLimits(layout, layout.project.controller)
+  return layout.project.controllers.some((controller) => isControllerOverLimits(layout, controller.id))
 }
 
-export function isLayoutOverControllerLimits(layout: LayoutData, controller: ControllerType): boolean {
-  const limits = CONTROLLER_LIMITS[controller]
+export function isLayoutOverControllerLimits(layout: LayoutData, controller: string): boolean {
+  const limits = getControllerModel(layout.project, controller)
   const effectivePitch = getEffectivePitchMm(layout.project.pitch_mm)
   const totalLoad = getLayoutPixelLoad(layout.cabinets, layout.cabinetTypes, effectivePitch)
   if (totalLoad > limits.totalMaxPx) return true
@@ -81,3 +114,48 @@ export function isLayoutOverControllerLimits(layout: LayoutData, controller: Con
   }
   return false
 }
+
+export function getControllerRoutes(project: LayoutData["project"], controllerId: string): DataRoute[] {
+  return project.dataRoutes.filter((route) => getRouteControllerId(project, route) === controllerId)
+}
+
+// Load one controller carries. With a single controller that is the whole wall, routed or not.
+// Backup loops repeat pixels already counted on their primary route.
+export function getControllerPixelLoad(layout: LayoutData, controllerId: string): number {
+  const { project, cabinets, cabinetTypes } = layout
+  if (!hasMultipleControllers(project)) {
+    return getLayoutPixelLoad(cabinets, cabinetTypes, getEffectivePitchMm(project.pitch_mm))
+  }
+  return getControllerRoutes(project, controllerId)
+    .filter((route) => !isBackupDataRoute(route))
+    .reduce(
+      (sum, route) => sum + getDataRouteLoadPx(route, cabinets, cabinetTypes, project.pitch_mm),
+      0,
+    )
+}
+
+// Pixel span of the cabinets a controller's routes reach.
+export function getControllerPixelSpan(layout: LayoutData, controllerId: string) {
+  const cabinetIds = new Set(
+    getControllerRoutes(layout.project, controllerId).flatMap((route) =>
+      route.cabinetIds.map((endpointId) => parseRouteCabinetId(endpointId).cabinetId),
+    ),
+  )
+  const cabinets = layout.cabinets.filter((cabinet) => cabinetIds.has(cabinet.id))
+  if (cabinets.length === 0) return { widthPx: 0, heightPx: 0 }
+  return getTotalizedPixelMatrixDimensions({ ...layout, cabinets })
+}
+
+export function isControllerOverLimits(layout: LayoutData, controllerId: string, model?: string): boolean {
+  const { project } = layout
+  const modelId = model ?? getProjectController(project, controllerId).model
+  if (!hasMultipleControllers(project)) return isLayoutOverControllerLimits(layout, modelId)
+  const limits = getControllerModel(project, modelId)
+  if (getControllerPixelLoad(layout, controllerId) > limits.totalMaxPx) return true
+  if (limits.maxWidthPx || limits.maxHeightPx) {
+    const span = getControllerPixelSpan(layout, controllerId)
+    if (limits.maxWidthPx && span.widthPx > limits.maxWidthPx) return true
+    if (limits.maxHeightPx && span.heightPx > limits.maxHeightPx) return true
+  }
+  return false
+}
@@ -0,0 +1,179 @@
+// Minimal DXF writer: AutoCAD R12 (AC1009) ASCII with named layers and the handful of entities the CAD
+// drawings need. R12 is the lowest common denominator every CAD package still opens.
+
+export interface DxfLayer {
+  name: string
+  // AutoCAD color index (1 red, 2 yellow, 3 green, 4 cyan, 5 blue, 6 magenta, 7 black/white, 8 grey)
+  color: number
+}
+
+export interface DxfPoint {
+  x: number
+  y: number
+}
+
+export type DxfTextAlign = "left" | "center" | "right"
+export type DxfTextBaseline = "baseline" | "bottom" | "middle" | "top"
+
+export type DxfEntity =
+  | { type: "line"; layer: string; from: DxfPoint; to: DxfPoint }
+  | { type: "polyline"; layer: string; points: DxfPoint[]; closed?: boolean }
+  | { type: "circle"; layer: string; center: DxfPoint; radius: number }
+  | { type: "solid"; layer: string; points: [DxfPoint, DxfPoint, DxfPoint] | [DxfPoint, DxfPoint, DxfPoint, DxfPoint] }
+  | {
+      type: "text"
+      layer: string
+      at: DxfPoint
+      height: number
+      value: string
+      align?: DxfTextAlign
+      baseline?: DxfTextBaseline
+      rotationDeg?: number
+    }
+
+const TEXT_ALIGN_CODES: Record<DxfTextAlign, number> = { left: 0, center: 1, right: 2 }
+const TEXT_BASELINE_CODES: Record<DxfTextBaseline, number> = { baseline: 0, bottom: 1, middle: 2, top: 3 }
+
+function formatNumber(value: number) {
+  return String(Number(value.toFixed(4)))
+}
+
+// R12 only reads plain ASCII in one line; anything else becomes \U+XXXX escapes AutoCAD understands.
+function sanitizeText(value: string) {
+  return value
+    .replace(/[\r\n]+/g, " ")
+    .replace(/[^\x20-\x7e]/g, (char) => `\\U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")}`)
+}
+
+function pair(code: number, value: string | number) {
+  return `${code}\n${typeof value === "number" ? formatNumber(value) : value}`
+}
+
+function point(codeX: number, { x, y }: DxfPoint) {
+  return [pair(codeX, x), pair(codeX + 10, y), pair(codeX + 20, 0)]
+}
+
+function writeEntity(entity: DxfEntity): string[] {
+  const layer = pair(8, entity.layer)
+  switch (entity.type) {
+    case "line":
+      return [pair(0, "LINE"), layer, ...point(10, entity.from), ...point(11, entity.to)]
+    case "polyline":
+      return [
+        pair(0, "POLYLINE"),
+        layer,
+        pair(66, 1),
+        ...point(10, { x: 0, y: 0 }),
+        pair(70, entity.closed ? 1 : 0),
+        ...entity.points.flatMap((vertex) => [pair(0, "VERTEX"), layer, ...point(10, vertex)]),
+        pair(0, "SEQEND"),
+        layer,
+      ]
+    case "circle":
+      return [pair(0, "CIRCLE"), layer, ...point(10, entity.center), pair(40, entity.radius)]
+    case "solid": {
+      // SOLID takes its corners in zig-zag order; a triangle repeats the last corner.
+      const [a, b, c, d = c] = entity.points
+      return [pair(0, "SOLID"), layer, ...point(10, a), ...point(11, b), ...point(12, d), ...point(13, c)]
+    }
+    case "text": {
+      const align = TEXT_ALIGN_CODES[entity.align ?? "left"]
+      const baseline = TEXT_BASELINE_CODES[entity.baseline ?? "baseline"]
+      return [
+        pair(0, "TEXT"),
+        layer,
+        ...point(10, entity.at),
+        pair(40, entity.height),
+        pair(1, sanitizeText(entity.value)),
+        ...(entity.rotationDeg ? [pair(50, entity.rotationDeg)] : []),
+        ...(align || baseline ? [pair(72, align), ...point(11, entity.at)] : []),
+        ...(baseline ? [pair(73, baseline)] : []),
+      ]
+    }
+  }
+}
+
+function getEntityPoints(entity: DxfEntity): DxfPoint[] {
+  switch (entity.type) {
+    case "line":
+      return [entity.from, entity.to]
+    case "polyline":
+    case "solid":
+      return entity.points
+    case "circle":
+      return [
+        { x: entity.center.x - entity.radius, y: entity.center.y - entity.radius },
+        { x: entity.center.x + entity.radius, y: entity.center.y + entity.radius },
+      ]
+    case "text":
+      return [entity.at]
+  }
+}
+
+export function buildDxf(layers: DxfLayer[], entities: DxfEntity[]) {
+  const extMin = { x: 0, y: 0 }
+  const extMax = { x: 0, y: 0 }
+  entities.flatMap(getEntityPoints).forEach(({ x, y }) => {
+    extMin.x = Math.min(extMin.x, x)
+    extMin.y = Math.min(extMin.y, y)
+    extMax.x = Math.max(extMax.x, x)
+    extMax.y = Math.max(extMax.y, y)
+  })
+
+  const lines = [
+    pair(0, "SECTION"),
+    pair(2, "HEADER"),
+    pair(9, "$ACADVER"),
+    pair(1, "AC1009"),
+    pair(9, "$EXTMIN"),
+    ...point(10, extMin),
+    pair(9, "$EXTMAX"),
+    ...point(10, extMax),
+    pair(0, "ENDSEC"),
+    pair(0, "SECTION"),
+    pair(2, "TABLES"),
+    pair(0, "TABLE"),
+    pair(2, "LTYPE"),
+    pair(70, 1),
+    pair(0, "LTYPE"),
+    pair(2, "CONTINUOUS"),
+    pair(70, 0),
+    pair(3, "Solid line"),
+    pair(72, 65),
+    pair(73, 0),
+    pair(40, 0),
+    pair(0, "ENDTAB"),
+    pair(0, "TABLE"),
+    pair(2, "LAYER"),
+    pair(70, layers.length + 1),
+    ...[{ name: "0", color: 7 }, ...layers].flatMap((layer) => [
+      pair(0, "LAYER"),
+      pair(2, layer.name),
+      pair(70, 0),
+      pair(62, layer.color),
+      pair(6, "CONTINUOUS"),
+    ]),
+    pair(0, "ENDTAB"),
+    pair(0, "TABLE"),
+    pair(2, "STYLE"),
+    pair(70, 1),
+    pair(0, "STYLE"),
+    pair(2, "STANDARD"),
+    pair(70, 0),
+    pair(40, 0),
+    pair(41, 1),
+    pair(50, 0),
+    pair(71, 0),
+    pair(42, 2.5),
+    pair(3, "txt"),
+    pair(4, ""),
+    pair(0, "ENDTAB"),
+    pair(0, "ENDSEC"),
+    pair(0, "SECTION"),
+    pair(2, "ENTITIES"),
+    ...entities.flatMap(writeEntity),
+    pair(0, "ENDSEC"),
+    pair(0, "EOF"),
+  ]
+  return `${lines.join("\n")}\n`
+}
@@ -2,15 +2,28 @@
 
 import type React from "react"
 
-import { createContext, useContext, useReducer, useCallback, useEffect, useRef, type ReactNode } from "react"
-import type { Cabinet, CabinetType, LayoutData, EditorState, DataRoute, PowerFeed, ProjectMode, RoutingMode } from "./types"
+import { createContext, useContext, useReducer, useCallback, useEffect, useRef, useState, type ReactNode } from "react"
+import type {
+  Cabinet,
+  CabinetType,
+  CabinetTypeSpecs,
+  LayoutData,
+  EditorState,
+  DataRoute,
+  PowerFeed,
+  ProjectMode,
+  RoutingMode,
+} from "./types"
 import { DEFAULT_LAYOUT } from "./types"
 import { normalizeLayout } from "./layout-io"
+import { getLayoutSchemaVersionError } from "./layout-migrations"
 import { decodeLayoutFromUrlParam } from "./layout-url"
+import { checkLayoutSchema, getUnreadableLayoutReport, type LayoutSchemaReport } from "./layout-schema"
 import { coerceModeModuleSize, coerceModePitch, getModeCabinetTypes, getProjectHardwareDefaults } from "./modes"
 
 type EditorAction =
   | { type: "SET_LAYOUT"; payload: LayoutData }
+  | { type: "APPLY_LAYOUT_FIX"; payload: LayoutData } // replace the layout but keep selection and history
   | { type: "SELECT_CABINET"; payload: string | null }
   | { type: "SET_CABINET_SELECTION"; payload: string[] }
   | { type: "TOGGLE_CABINET_SELECTION"; payload: string }
@@ -23,6 +36,7 @@ type EditorAction =
   | { type: "DUPLICATE_CABINET"; payload: string }
   | { type: "ADD_CABINET_TYPE"; payload: CabinetType }
   | { type: "DELETE_CABINET_TYPE"; payload: string }
+  | { type: "UPDATE_CABINET_TYPE_SPECS"; payload: { typeId: string; updates: Partial<CabinetTypeSpecs> } }
   | { type: "SET_PROJECT_MODE"; payload: ProjectMode }
   | { type: "UPDATE_PROJECT"; payload: Partial<LayoutData["project"]> }
   | { type: "UPDATE_OVERVIEW"; payload: Partial<LayoutData["project"]["overview"]> }
@@ -71,6 +85,16 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
         historyIndex: 0,
       }
 
+    case "APPLY_LAYOUT_FIX": {
+      const cabinetIds = new Set(action.payload.cabinets.map((c) => c.id))
+      return {
+        ...state,
+        layout: action.payload,
+        selectedCabinetId: state.selectedCabinetId && cabinetIds.has(state.selectedCabinetId) ? state.selectedCabinetId : null,
+        selectedCabinetIds: state.selectedCabinetIds.filter((id) => cabinetIds.has(id)),
+      }
+    }
+
     case "RESTORE_EDITOR_STATE": {
       const normalized = normalizeLayout(action.payload.layout)
       return {
@@ -274,16 +298,19 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
 
     case "DELETE_CABINET":
       const remainingSelection = state.selectedCabinetIds.filter((id) => id !== action.payload)
-      const isControllerCabinet =
-        state.layout.project.controllerPlacement === "cabinet" &&
-        state.layout.project.controllerCabinetId === action.payload
       const isOutdoorMode = (state.layout.project.mode ?? "indoor") === "outdoor"
       const fallbackPlacement: "cabinet" | "external" = isOutdoorMode ? "cabinet" : "external"
-      const nextProject = isControllerCabinet
+      // The main controller falls back to the mode's default placement; the others move outside the wall.
+      const nextProject = state.layout.project.controllers.some(
+        (controller) => controller.placement === "cabinet" && controller.cabinetId === action.payload,
+      )
         ? {
             ...state.layout.project,
-            controllerPlacement: fallbackPlacement,
-            controllerCabinetId: undefined,
+            controllers: state.layout.project.controllers.map((controller, index) =>
+              controller.placement === "cabinet" && controller.cabinetId === action.payload
+                ? { ...controller, placement: index === 0 ? fallbackPlacement : "external", cabinetId: undefined }
+                : controller,
+            ),
           }
         : state.layout.project
       return {
@@ -351,6 +378,18 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
         },
       }
 
+    // Power and weight specs stay editable in every mode, including the fixed outdoor list.
+    case "UPDATE_CABINET_TYPE_SPECS":
+      return {
+        ...state,
+        layout: {
+          ...state.layout,
+          cabinetTypes: state.layout.cabinetTypes.map((t) =>
+            t.typeId === action.payload.typeId ? { ...t, ...action.payload.updates } : t,
+          ),
+        },
+      }
+
     case "SET_PROJECT_MODE": {
       const mode = action.payload
       if ((state.layout.project.mode ?? "indoor") === mode) return state
@@ -365,12 +404,16 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
           ...DEFAULT_LAYOUT.project,
           mode,
           outdoorHardwareProfile,
-          controller: hardwareDefaults.controller,
           // Keep project identity fields while resetting the design.
           name: state.layout.project.name,
           client: state.layout.project.client,
-          controllerPlacement: nextControllerPlacement,
-          controllerCabinetId: undefined,
+          controllers: [
+            {
+              ...DEFAULT_LAYOUT.project.controllers[0],
+              model: hardwareDefaults.controller,
+              placement: nextControllerPlacement,
+            },
+          ],
           overview: {
             ...DEFAULT_LAYOUT.project.overview,
             receiverCardModel: hardwareDefaults.receiverCardModel,
@@ -471,7 +514,10 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
           ...state.layout,
           project: {
             ...state.layout.project,
-            dataRoutes: state.layout.project.dataRoutes.filter((r) => r.id !== action.payload),
+            // Backup loops go with their primary route.
+            dataRoutes: state.layout.project.dataRoutes.filter(
+              (r) => r.id !== action.payload && r.backupForRouteId !== action.payload,
+            ),
           },
         },
       }
@@ -690,19 +736,56 @@ const initialState: EditorState = {
 
 const STORAGE_KEY = "led-layout-editor:v1"
 
+export interface PendingLayoutImport {
+  source: "file" | "url"
+  report: LayoutSchemaReport
+}
+
 interface EditorContextValue {
   state: EditorState
   dispatch: React.Dispatch<EditorAction>
   generateCabinetId: () => string
   resetEditor: () => void
+  pendingImport: PendingLayoutImport | null
+  importLayout: (raw: unknown, source: PendingLayoutImport["source"]) => void
+  showImportReport: (report: LayoutSchemaReport, source: PendingLayoutImport["source"]) => void
+  resolvePendingImport: (accept: boolean) => void
 }
 
 const EditorContext = createContext<EditorContextValue | null>(null)
 
 export function EditorProvider({ children }: { children: ReactNode }) {
   const [state, dispatch] = useReducer(editorReducer, initialState)
+  const [pendingImport, setPendingImport] = useState<PendingLayoutImport | null>(null)
   const hasRestoredRef = useRef(false)
 
+  const showImportReport = useCallback((report: LayoutSchemaReport, source: PendingLayoutImport["source"]) => {
+    setPendingImport({ source, report })
+  }, [])
+
+  // Clean layouts load directly; anything with issues waits for the user in the import dialog.
+  const importLayout = useCallback(
+    (raw: unknown, source: PendingLayoutImport["source"]) => {
+      const report = checkLayoutSchema(raw)
+      if (report.layout && report.issues.length === 0) {
+        dispatch({ type: "SET_LAYOUT", payload: report.layout })
+        return
+      }
+      setPendingImport({ source, report })
+    },
+    [dispatch],
+  )
+
+  const resolvePendingImport = useCallback(
+    (accept: boolean) => {
+      if (accept && pendingImport?.report.layout) {
+        dispatch({ type: "SET_LAYOUT", payload: pendingImport.report.layout })
+      }
+      setPendingImport(null)
+    },
+    [dispatch, pendingImport],
+  )
+
   useEffect(() => {
     if (hasRestoredRef.current) return
     hasRestoredRef.current = true
@@ -718,7 +801,7 @@ export function EditorProvider({ children }: { children: ReactNode }) {
           panY?: number
           showDimensions?: boolean
         }
-        if (!parsed.layout) return
+        if (!parsed.layout || getLayoutSchemaVersionError(parsed.layout)) return
         dispatch({
           type: "RESTORE_EDITOR_STATE",
           payload: {
@@ -736,26 +819,26 @@ export function EditorProvider({ children }: { children: ReactNode }) {
 
     const searchParams = new URLSearchParams(window.location.search)
     const layoutParam = searchParams.get("layout")
-    if (layoutParam) {
-      const loadFromParam = async () => {
-        const decoded = decodeLayoutFromUrlParam(layoutParam)
-        if (!decoded) return false
-        dispatch({ type: "SET_LAYOUT", payload: decoded })
-        searchParams.delete("layout")
-        const nextQuery = searchParams.toString()
-        const nextUrl = `${window.location.pathname}${nextQuery ? `?${nextQuery}` : ""}${window.location.hash}`
-        window.history.replaceState({}, "", nextUrl)
-        return true
-      }
-
-      loadFromParam().then((loaded) => {
-        if (!loaded) restoreFromStorage()
-      })
+    if (!layoutParam) {
+      restoreFromStorage()
       return
     }
 
-    restoreFromStorage()
-  }, [])
+    // A layout link wins over the saved session; the session only shows behind the dialog when the link has issues.
+    const decoded = decodeLayoutFromUrlParam(layoutParam)
+    const report =
+      decoded === null ? getUnreadableLayoutReport("The layout link could not be decoded.") : checkLayoutSchema(decoded)
+    if (report.layout && report.issues.length === 0) {
+      dispatch({ type: "SET_LAYOUT", payload: report.layout })
+    } else {
+      restoreFromStorage()
+      showImportReport(report, "url")
+    }
+    searchParams.delete("layout")
+    const nextQuery = searchParams.toString()
+    const nextUrl = `${window.location.pathname}${nextQuery ? `?${nextQuery}` : ""}${window.location.hash}`
+    window.history.replaceState({}, "", nextUrl)
+  }, [showImportReport])
 
   const generateCabinetId = useCallback(() => {
     const existingIds = state.layout.cabinets.map((c) => c.id)
@@ -791,7 +874,18 @@ export function EditorProvider({ children }: { children: ReactNode }) {
   }, [dispatch])
 
   return (
-    <EditorContext.Provider value={{ state, dispatch, generateCabinetId, resetEditor }}>
+    <EditorContext.Provider
+      value={{
+        state,
+        dispatch,
+        generateCabinetId,
+        resetEditor,
+        pendingImport,
+        importLayout,
+        showImportReport,
+        resolvePendingImport,
+      }}
+    >
       {children}
     </EditorContext.Provider>
   )
@@ -0,0 +1,56 @@
+import type { BreakerModel, ConnectorModel, Project } from "./types"
+
+export const DEFAULT_BREAKER_DERATING = 0.8 // continuous loads may use 80% of the breaker rating
+
+export const DEFAULT_BREAKER_MODELS: BreakerModel[] = [
+  { id: "220V 20A", voltageV: 220, currentA: 20, derating: DEFAULT_BREAKER_DERATING },
+  { id: "110V 15A", voltageV: 110, currentA: 15, derating: DEFAULT_BREAKER_DERATING },
+  { id: "120V 15A", voltageV: 120, currentA: 15, derating: DEFAULT_BREAKER_DERATING },
+]
+
+export const DEFAULT_CONNECTOR_MODELS: ConnectorModel[] = [{ id: "NAC3FX-W", maxCurrentA: 16, maxChainLength: 10 }]
+
+type ElectricalCatalogSource = Pick<Project, "breakerModels" | "connectorModels">
+
+// Built-in entries followed by project entries; a project entry replaces the built-in with the same id in place.
+function mergeCatalog<T extends { id: string }>(builtIns: T[], custom: T[] = []): T[] {
+  const merged = builtIns.map((entry) => custom.find((item) => item.id === entry.id) ?? entry)
+  return [...merged, ...custom.filter((entry) => !builtIns.some((builtIn) => builtIn.id === entry.id))]
+}
+
+export function getBreakerCatalog(project: ElectricalCatalogSource): BreakerModel[] {
+  return mergeCatalog(DEFAULT_BREAKER_MODELS, project.breakerModels)
+}
+
+export function getConnectorCatalog(project: ElectricalCatalogSource): ConnectorModel[] {
+  return mergeCatalog(DEFAULT_CONNECTOR_MODELS, project.connectorModels)
+}
+
+export function isBuiltInBreaker(id: string) {
+  return DEFAULT_BREAKER_MODELS.some((model) => model.id === id)
+}
+
+export function isBuiltInConnector(id: string) {
+  return DEFAULT_CONNECTOR_MODELS.some((model) => model.id === id)
+}
+
+export function getBreakerModel(project: ElectricalCatalogSource, id?: string | null): BreakerModel | null {
+  const key = id?.trim()
+  if (!key) return null
+  return getBreakerCatalog(project).find((model) => model.id === key) ?? null
+}
+
+export function getConnectorModel(project: ElectricalCatalogSource, id?: string | null): ConnectorModel | null {
+  const key = id?.trim()
+  if (!key) return null
+  return getConnectorCatalog(project).find((model) => model.id === key) ?? null
+}
+
+// Continuous watts the breaker may carry after derating.
+export function getBreakerContinuousW(model: BreakerModel) {
+  return Math.round(model.voltageV * model.currentA * model.derating)
+}
+
+export function formatBreakerOptionLabel(model: BreakerModel) {
+  return `${model.id} (${getBreakerContinuousW(model)} W)`
+}
@@ -1,15 +1,29 @@
 import { jsPDF } from "jspdf"
-import type { LayoutData } from "./types"
+import type { Cabinet, DataRouteStep, LayoutData, OverviewSettings, PdfOutputMode } from "./types"
 import { getCabinetBounds, getLayoutBounds } from "./validation"
-import { drawOverview } from "./overview-renderer"
+import { PRINT_OVERVIEW_PALETTE, drawOverview } from "./overview-renderer"
 import { getOverviewReadabilityScale, getTitleParts } from "./overview-utils"
-import { getCabinetReceiverCardCount, parseRouteCabinetId } from "./types"
+import { computeGridLabel, getCabinetReceiverCardCount, parseRouteCabinetId } from "./types"
 import { getPowerFeedDisplayLabel, getPowerFeedLoadW } from "./power-utils"
-import { getProjectHardwareDefaults } from "./modes"
-import { getEffectivePitchMm } from "./pitch-utils"
-import { getOrientedModuleSize } from "./module-utils"
-import { getTotalizedPixelMatrixDimensions } from "./pixel-matrix"
-import { resolveControllerCabinetId } from "./controller-utils"
+import { getModeDefinition, getProjectHardwareDefaults } from "./modes"
+import {
+  buildLayoutSummary,
+  getCabinetSizeCounts,
+  getModuleSpec,
+  getScreenSizeCounts,
+  getTotalLayoutLoadW,
+  getTotalLayoutWeight,
+  getTotalModuleCount,
+} from "./layout-summary"
+import { getPlacedControllers } from "./controller-utils"
+import { getControllerDisplayLabel, getDataRoutePortLabel } from "./controllers"
+import { BOM_CATEGORY_LABELS, buildBom, getBomTotalPrice } from "./bom"
+import { buildQuote, getQuoteSummaryRows } from "./quote"
+import { formatPhaseLoadSummary, getProjectPhaseLoads } from "./power-phases"
+import { getBreakerModel } from "./electrical-catalog"
+import { buildPowerReport, getPowerReportLegendRows } from "./power-report"
+import { buildCadExport, type CadEntryType, type CadIsoFace, type CadViewRect } from "./cad-export"
+import { buildCableSchedule } from "./cable-schedule"
 
 const PAGE_SIZES_MM = {
   A4: { width: 210, height: 297 },
@@ -17,17 +31,6 @@ const PAGE_SIZES_MM = {
 }
 
 const FONT_FAMILY = "Geist, sans-serif"
-const WEIGHT_REF_AREA_MM2 = 1120 * 640
-const WEIGHT_REF_KG = 19
-// Die-cast cabinet density for export summaries.
-const DIE_CAST_WEIGHT_DENSITY_LB_M2 = 35.8
-const LB_PER_KG = 2.20462
-const INDOOR_WEIGHT_DENSITY_LB_M2 = (WEIGHT_REF_KG * LB_PER_KG) / (WEIGHT_REF_AREA_MM2 / 1_000_000)
-const WEIGHT_DENSITY_LB_M2_BY_MODE: Record<LayoutData["project"]["mode"], number> = {
-  indoor: INDOOR_WEIGHT_DENSITY_LB_M2,
-  "die-cast": DIE_CAST_WEIGHT_DENSITY_LB_M2,
-  outdoor: 131,
-}
 const NUMMAX_LOGO_SRC = "/nummax-logo-lockup.png"
 const NUMMAX_LOGO_ASPECT = 3 // 600x200 lockup
 const NUMMAX_LEGEND_LOGO_HEIGHT_RATIO = 0.72
@@ -98,176 +101,6 @@ function getPowerLabelOffset(baseOffset: number, boxHeight: number) {
   return Math.max(baseOffset, boxHeight * 0.78)
 }
 
-function getCabinetAreaMm2(cabinet: LayoutData["cabinets"][number], types: LayoutData["cabinetTypes"]) {
-  const bounds = getCabinetBounds(cabinet, types)
-  if (!bounds) return 0
-  return bounds.width * bounds.height
-}
-
-function getTotalLayoutLoadW(layout: LayoutData) {
-  if (layout.cabinets.length === 0) return 0
-  return getPowerFeedLoadW(
-    {
-      id: "__layout__",
-      label: "",
-      connector: "",
-      consumptionW: 0,
-      assignedCabinetIds: layout.cabinets.map((cabinet) => cabinet.id),
-    },
-    layout.cabinets,
-    layout.cabinetTypes,
-    layout.project.mode ?? "indoor",
-  )
-}
-
-function getTotalLayoutWeight(layout: LayoutData) {
-  const totalArea = layout.cabinets.reduce((sum, cabinet) => sum + getCabinetAreaMm2(cabinet, layout.cabinetTypes), 0)
-  const totalAreaM2 = totalArea / 1_000_000
-  const mode = layout.project.mode ?? "indoor"
-  const densityLbM2 = WEIGHT_DENSITY_LB_M2_BY_MODE[mode] ?? WEIGHT_DENSITY_LB_M2_BY_MODE.indoor
-  const totalLb = totalAreaM2 * densityLbM2
-  const totalKg = totalLb / LB_PER_KG
-  return { totalKg, totalLb }
-}
-
-function getModuleSpec(layout: LayoutData) {
-  const moduleSize = layout.project.overview.moduleSize
-  const moduleOrientation = layout.project.overview.moduleOrientation
-  const { baseModule, moduleWidth, moduleHeight } = getOrientedModuleSize(moduleSize, moduleOrientation)
-  return { baseModule, moduleWidth, moduleHeight, moduleOrientation }
-}
-
-function getTotalModuleCount(layout: LayoutData) {
-  const { moduleWidth, moduleHeight } = getModuleSpec(layout)
-  if (!moduleWidth || !moduleHeight) return 0
-  return layout.cabinets.reduce((sum, cabinet) => {
-    const bounds = getCabinetBounds(cabinet, layout.cabinetTypes)
-    if (!bounds) return sum
-    const cols = Math.max(0, Math.round(bounds.width / moduleWidth))
-    const rows = Math.max(0, Math.round(bounds.height / moduleHeight))
-    return sum + cols * rows
-  }, 0)
-}
-
-function getCabinetSizeCounts(layout: LayoutData) {
-  const counts = new Map<string, { width: number; height: number; count: number }>()
-  layout.cabinets.forEach((cabinet) => {
-    const bounds = getCabinetBounds(cabinet, layout.cabinetTypes)
-    if (!bounds) return
-    const width = Math.round(bounds.width)
-    const height = Math.round(bounds.height)
-    const key = `${width}x${height}`
-    const entry = counts.get(key)
-    if (entry) {
-      entry.count += 1
-    } else {
-      counts.set(key, { width, height, count: 1 })
-    }
-  })
-  return Array.from(counts.values()).sort((a, b) => {
-    const areaDiff = b.width * b.height - a.width * a.height
-    if (areaDiff !== 0) return areaDiff
-    if (b.width !== a.width) return b.width - a.width
-    return b.height - a.height
-  })
-}
-
-function areCabinetBoundsConnected(
-  a: { x: number; y: number; x2: number; y2: number },
-  b: { x: number; y: number; x2: number; y2: number },
-) {
-  const tolerance = 1 // 1mm tolerance for near-touching cabinets
-  const overlapX = a.x < b.x2 && a.x2 > b.x
-  const overlapY = a.y < b.y2 && a.y2 > b.y
-  if (overlapX && overlapY) return true
-
-  const horizontalTouch =
-    (Math.abs(a.x2 - b.x) <= tolerance || Math.abs(b.x2 - a.x) <= tolerance) && !(a.y2 <= b.y || b.y2 <= a.y)
-  const verticalTouch =
-    (Math.abs(a.y2 - b.y) <= tolerance || Math.abs(b.y2 - a.y) <= tolerance) && !(a.x2 <= b.x || b.x2 <= a.x)
-
-  return horizontalTouch || verticalTouch
-}
-
-type ScreenSizeCount = { widthPx: number; heightPx: number; count: number }
-
-function getScreenSizeCounts(layout: LayoutData): ScreenSizeCount[] {
-  const pitchMm = getEffectivePitchMm(layout.project.pitch_mm || 0)
-  if (!pitchMm || layout.cabinets.length === 0) {
-    return []
-  }
-
-  const cabinetBounds = layout.cabinets
-    .map((cabinet) => getCabinetBounds(cabinet, layout.cabinetTypes))
-    .filter((bounds): bounds is NonNullable<ReturnType<typeof getCabinetBounds>> => bounds !== null)
-
-  if (cabinetBounds.length === 0) {
-    return []
-  }
-
-  // Non-outdoor workflows expect one global matrix totalizing all cabinets,
-  // while ignoring physical spacing between disconnected groups.
-  if ((layout.project.mode ?? "indoor") !== "outdoor") {
-    const matrix = getTotalizedPixelMatrixDimensions(layout)
-
-    return [
-      {
-        widthPx: matrix.widthPx,
-        heightPx: matrix.heightPx,
-        count: 1,
-      },
-    ]
-  }
-
-  const visited = new Array(cabinetBounds.length).fill(false)
-  const counts = new Map<string, ScreenSizeCount>()
-
-  for (let i = 0; i < cabinetBounds.length; i++) {
-    if (visited[i]) continue
-    visited[i] = true
-
-    const queue = [i]
-    let minX = cabinetBounds[i].x
-    let minY = cabinetBounds[i].y
-    let maxX = cabinetBounds[i].x2
-    let maxY = cabinetBounds[i].y2
-
-    while (queue.length > 0) {
-      const currentIndex = queue.shift()
-      if (currentIndex === undefined) continue
-      const current = cabinetBounds[currentIndex]
-      minX = Math.min(minX, current.x)
-      minY = Math.min(minY, current.y)
-      maxX = Math.max(maxX, current.x2)
-      maxY = Math.max(maxY, current.y2)
-
-      for (let j = 0; j < cabinetBounds.length; j++) {
-        if (visited[j]) continue
-        if (!areCabinetBoundsConnected(current, cabinetBounds[j])) continue
-        visited[j] = true
-        queue.push(j)
-      }
-    }
-
-    const widthPx = Math.round((maxX - minX) / pitchMm)
-    const heightPx = Math.round((maxY - minY) / pitchMm)
-    const key = `${widthPx}x${heightPx}`
-    const entry = counts.get(key)
-    if (entry) {
-      entry.count += 1
-    } else {
-      counts.set(key, { widthPx, heightPx, count: 1 })
-    }
-  }
-
-  return Array.from(counts.values()).sort((a, b) => {
-    const areaDiff = b.widthPx * b.heightPx - a.widthPx * a.heightPx
-    if (areaDiff !== 0) return areaDiff
-    if (b.widthPx !== a.widthPx) return b.widthPx - a.widthPx
-    return b.heightPx - a.heightPx
-  })
-}
-
 type LegendRow = { label: string; valueLines: string[] }
 type LegendLayout = {
   rows: LegendRow[]
@@ -302,8 +135,7 @@ function buildPdfLegendLayout(ctx: CanvasRenderingContext2D, layout: LayoutData,
     layout.project.outdoorHardwareProfile ?? "standard",
   )
   const receiverType = layout.project.overview.receiverCardModel?.trim() || receiverDefaults.receiverCardModel
-  const controllerOverride = layout.project.controllerLabel?.trim()
-  const controllerLabel = controllerOverride || layout.project.controller
+  const controllerLabel = layout.project.controllers.map(getControllerDisplayLabel).join(" + ")
   const totalLoadW = getTotalLayoutLoadW(layout)
   const { totalKg, totalLb } = getTotalLayoutWeight(layout)
   const weightLb = Math.ceil(totalLb)
@@ -327,14 +159,8 @@ function buildPdfLegendLayout(ctx: CanvasRenderingContext2D, layout: LayoutData,
   const breakerCounts = (layout.project.powerFeeds ?? []).reduce(
     (acc, feed) => {
       if (feed.assignedCabinetIds.length === 0) return acc
-      const breakerLabel = feed.breaker ?? ""
-      const voltage = breakerLabel.includes("220")
-        ? "220V"
-        : breakerLabel.includes("120")
-          ? "120V"
-          : breakerLabel.includes("110")
-            ? "110V"
-            : "n/a"
+      const voltageV = getBreakerModel(layout.project, feed.breaker)?.voltageV
+      const voltage = voltageV ? `${voltageV}V` : "n/a"
       acc[voltage] = (acc[voltage] ?? 0) + 1
       return acc
     },
@@ -344,10 +170,26 @@ function buildPdfLegendLayout(ctx: CanvasRenderingContext2D, layout: LayoutData,
     .filter(([, count]) => count > 0)
     .map(([voltage, count]) => `${voltage} x${count}`)
   const breakerValue = breakerCountParts.length > 0 ? breakerCountParts.join(", ") : "0"
+  const phaseLines = getProjectPhaseLoads(layout)
+    .filter((loads) => loads.totalW > 0)
+    .map(formatPhaseLoadSummary)
+  const dataRoutes = layout.project.dataRoutes ?? []
+  const backupLoopLines = dataRoutes.flatMap((route) => {
+    const primary = route.backupForRouteId ? dataRoutes.find((entry) => entry.id === route.backupForRouteId) : null
+    if (!primary) return []
+    const backupPort = getDataRoutePortLabel(layout.project, { ...route, backupForRouteId: undefined })
+    return [`${getDataRoutePortLabel(layout.project, primary)} <- ${backupPort}`]
+  })
+
+  const powerReportRows = layout.project.exportSettings.showPowerReport
+    ? getPowerReportLegendRows(buildPowerReport(layout))
+    : []
 
   const rows = [
     { label: "Max Power", value: `${totalLoadW} W` },
+    ...powerReportRows,
     { label: "Breaker", value: breakerValue },
+    ...(phaseLines.length > 0 ? [{ label: "Phases", value: phaseLines.join("\n") }] : []),
     { label: "Receiver", value: receiverType },
     { label: "Card Type", value: controllerLabel },
     { label: "Weight", value: `${weightLb} lb / ${weightKg.toFixed(1)} kg` },
@@ -355,6 +197,7 @@ function buildPdfLegendLayout(ctx: CanvasRenderingContext2D, layout: LayoutData,
     { label: "Nb. of Display", value: `${numberOfDisplays}` },
     { label: "Pixel Matrix", value: pixelMatrixValue },
     { label: "Cabinets", value: cabinetsValue },
+    ...(backupLoopLines.length > 0 ? [{ label: "Backup Loops", value: backupLoopLines.join("\n") }] : []),
   ]
 
   const titleFont = `700 ${titleFontPx}px ${FONT_FAMILY}`
@@ -474,22 +317,29 @@ function drawNummaxLogoMark(ctx: CanvasRenderingContext2D, x: number, y: number,
   ctx.stroke()
 }
 
+// Canvas output draws the decoded image; vector output places compressed PNG data straight on the PDF page.
+interface SheetLogo {
+  width: number
+  height: number
+  draw: (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number) => void
+}
+
 function drawNummaxLogo(
   ctx: CanvasRenderingContext2D,
   x: number,
   y: number,
   width: number,
   height: number,
-  logoImage: HTMLImageElement | null,
+  logo: SheetLogo | null,
 ) {
-  if (logoImage && logoImage.naturalWidth > 0 && logoImage.naturalHeight > 0 && width > 0 && height > 0) {
-    const sourceAspect = logoImage.naturalWidth / logoImage.naturalHeight
+  if (logo && logo.width > 0 && logo.height > 0 && width > 0 && height > 0) {
+    const sourceAspect = logo.width / logo.height
     const targetAspect = width / height
     const drawWidth = sourceAspect >= targetAspect ? width : height * sourceAspect
     const drawHeight = sourceAspect >= targetAspect ? width / sourceAspect : height
     const drawX = x + (width - drawWidth) / 2
     const drawY = y + (height - drawHeight) / 2
-    ctx.drawImage(logoImage, drawX, drawY, drawWidth, drawHeight)
+    logo.draw(ctx, drawX, drawY, drawWidth, drawHeight)
     return
   }
   const fallbackSize = Math.min(width, height)
@@ -501,9 +351,9 @@ function drawNummaxLogo(
 function drawPdfLegend(
   ctx: CanvasRenderingContext2D,
   legend: LegendLayout,
-  options: { rightX: number; topY: number; logoImage?: HTMLImageElement | null },
+  options: { rightX: number; topY: number; logo?: SheetLogo | null },
 ) {
-  const { rightX, topY, logoImage = null } = options
+  const { rightX, topY, logo = null } = options
   const {
     rows,
     boxWidth,
@@ -557,7 +407,7 @@ function drawPdfLegend(
   ctx.textAlign = "left"
   ctx.textBaseline = "top"
 
-  drawNummaxLogo(ctx, logoX, logoY, logoWidth, logoHeight, logoImage)
+  drawNummaxLogo(ctx, logoX, logoY, logoWidth, logoHeight, logo)
 
   ctx.font = titleFont
   ctx.fillStyle = "#0f172a"
@@ -637,18 +487,9 @@ function computeLabelBounds(
   let maxX = layoutBounds.maxX
   let maxY = layoutBounds.maxY
   const mode = layout.project.mode ?? "indoor"
-  const controllerPlacement = layout.project.controllerPlacement ?? "external"
-  const controllerCabinetId = resolveControllerCabinetId(
-    mode,
-    controllerPlacement,
-    layout.project.controllerCabinetId,
-    layout.cabinets,
-    layout.cabinetTypes,
-  )
-  const controllerInCabinet =
-    controllerPlacement === "cabinet" &&
-    !!controllerCabinetId &&
-    layout.cabinets.some((cabinet) => cabinet.id === controllerCabinetId)
+  const externalControllerCount = getPlacedControllers(layout.project, layout.cabinets, layout.cabinetTypes).filter(
+    (placed) => placed.externalSlot !== undefined,
+  ).length
 
   const dataRoutes = layout.project.dataRoutes ?? []
   const isOutdoorMode = (layout.project.mode ?? "indoor") === "outdoor"
@@ -978,57 +819,58 @@ function computeLabelBounds(
     })
   }
 
-  if (layout.cabinets.length > 0 && !controllerInCabinet) {
-    const controllerLabel = layout.project.controllerLabel?.trim() || layout.project.controller
-    if (controllerLabel) {
-      if (mode === "outdoor") {
-        const boxWidth = isCompactOutdoorLayout
-          ? scaledReadableWorldSize(176, uiZoom, 150, 210, readabilityScale)
-          : scaledReadableWorldSize(188, uiZoom, 160, 224, readabilityScale)
-        const boxHeight = isCompactOutdoorLayout
-          ? scaledReadableWorldSize(74, uiZoom, 60, 92, readabilityScale)
-          : scaledReadableWorldSize(82, uiZoom, 66, 100, readabilityScale)
-        const boxX = layoutBounds.maxX - boxWidth
-        const baseY =
-          layoutBounds.maxY +
-          getCompactLayoutGap(layoutHeight, uiZoom, readabilityScale, {
-            basePx: 100,
-            minPx: 70,
-            maxPx: 160,
-            compactRatio: 0.24,
-            compactMinMm: 46,
-            compactMaxMm: 120,
-          })
-        const boxY = baseY
-        minX = Math.min(minX, boxX)
-        maxX = Math.max(maxX, boxX + boxWidth)
-        minY = Math.min(minY, boxY)
-        maxY = Math.max(maxY, boxY + boxHeight)
-      } else {
-        const boxWidth = scaledReadableWorldSize(120, uiZoom, 100, 160, readabilityScale)
-        const boxHeight = scaledReadableWorldSize(40, uiZoom, 32, 60, readabilityScale)
-        const baseY =
-          layoutBounds.maxY +
-          getCompactLayoutGap(layoutHeight, uiZoom, readabilityScale, {
-            basePx: 100,
-            minPx: 70,
-            maxPx: 160,
-            compactRatio: 0.22,
-            compactMinMm: 42,
-            compactMaxMm: 112,
-          })
-        const clearance = scaledReadableWorldSize(24, uiZoom, 16, 40, readabilityScale)
-        const controllerMinY = Math.max(
-          baseY,
-          (maxPortLabelBottom ?? -Infinity) + clearance,
-        )
-        const boxX = (layoutBounds.minX + layoutBounds.maxX) / 2 - boxWidth / 2
-        const boxY = controllerMinY
-        minX = Math.min(minX, boxX)
-        maxX = Math.max(maxX, boxX + boxWidth)
-        minY = Math.min(minY, boxY)
-        maxY = Math.max(maxY, boxY + boxHeight)
-      }
+  if (layout.cabinets.length > 0 && externalControllerCount > 0) {
+    if (mode === "outdoor") {
+      const boxWidth = isCompactOutdoorLayout
+        ? scaledReadableWorldSize(176, uiZoom, 150, 210, readabilityScale)
+        : scaledReadableWorldSize(188, uiZoom, 160, 224, readabilityScale)
+      const boxHeight = isCompactOutdoorLayout
+        ? scaledReadableWorldSize(74, uiZoom, 60, 92, readabilityScale)
+        : scaledReadableWorldSize(82, uiZoom, 66, 100, readabilityScale)
+      const boxGap = scaledReadableWorldSize(24, uiZoom, 16, 40, readabilityScale)
+      const rowWidth = externalControllerCount * boxWidth + (externalControllerCount - 1) * boxGap
+      const boxX = layoutBounds.maxX - rowWidth
+      const baseY =
+        layoutBounds.maxY +
+        getCompactLayoutGap(layoutHeight, uiZoom, readabilityScale, {
+          basePx: 100,
+          minPx: 70,
+          maxPx: 160,
+          compactRatio: 0.24,
+          compactMinMm: 46,
+          compactMaxMm: 120,
+        })
+      const boxY = baseY
+      minX = Math.min(minX, boxX)
+      maxX = Math.max(maxX, boxX + rowWidth)
+      minY = Math.min(minY, boxY)
+      maxY = Math.max(maxY, boxY + boxHeight)
+    } else {
+      const boxWidth = scaledReadableWorldSize(120, uiZoom, 100, 160, readabilityScale)
+      const boxHeight = scaledReadableWorldSize(40, uiZoom, 32, 60, readabilityScale)
+      const baseY =
+        layoutBounds.maxY +
+        getCompactLayoutGap(layoutHeight, uiZoom, readabilityScale, {
+          basePx: 100,
+          minPx: 70,
+          maxPx: 160,
+          compactRatio: 0.22,
+          compactMinMm: 42,
+          compactMaxMm: 112,
+        })
+      const clearance = scaledReadableWorldSize(24, uiZoom, 16, 40, readabilityScale)
+      const controllerMinY = Math.max(
+        baseY,
+        (maxPortLabelBottom ?? -Infinity) + clearance,
+      )
+      const boxGap = scaledReadableWorldSize(24, uiZoom, 16, 40, readabilityScale)
+      const rowWidth = externalControllerCount * boxWidth + (externalControllerCount - 1) * boxGap
+      const boxX = (layoutBounds.minX + layoutBounds.maxX) / 2 - rowWidth / 2
+      const boxY = controllerMinY
+      minX = Math.min(minX, boxX)
+      maxX = Math.max(maxX, boxX + rowWidth)
+      minY = Math.min(minY, boxY)
+      maxY = Math.max(maxY, boxY + boxHeight)
     }
   }
 
@@ -1104,25 +946,439 @@ function getRectOverlap(
   }
 }
 
-export async function exportOverviewPdf(layout: LayoutData) {
-  const { pageSize, viewSide } = layout.project.exportSettings
-  const orientation: "portrait" | "landscape" = "landscape"
-  const baseSize = PAGE_SIZES_MM[pageSize]
-  const pageWidthMm = orientation === "landscape" ? baseSize.height : baseSize.width
-  const pageHeightMm = orientation === "landscape" ? baseSize.width : baseSize.height
+// Vector table on its own page(s); continues on a new page when the rows run past the bottom margin.
+function addBomPages(pdf: jsPDF, layout: LayoutData, pageWidthMm: number, pageHeightMm: number) {
+  const lines = buildBom(layout)
+  const marginMm = 12
+  const rowHeightMm = 6
+  const columns = [
+    { label: "Category", x: marginMm, align: "left" as const },
+    { label: "Part number", x: marginMm + 38, align: "left" as const },
+    { label: "Description", x: marginMm + 78, align: "left" as const },
+    { label: "Qty", x: pageWidthMm - marginMm - 92, align: "right" as const },
+    { label: "Spare", x: pageWidthMm - marginMm - 74, align: "right" as const },
+    { label: "Total", x: pageWidthMm - marginMm - 54, align: "right" as const },
+    { label: "Unit price", x: pageWidthMm - marginMm - 26, align: "right" as const },
+    { label: "Price", x: pageWidthMm - marginMm, align: "right" as const },
+  ]
+  const formatPrice = (value: number | null) => (value === null ? "-" : value.toFixed(2))
+  const title = `${layout.project.name?.trim() || "NC"} - BILL OF MATERIALS`
+
+  let y = pageHeightMm
+  const startPage = () => {
+    pdf.addPage()
+    pdf.setFont("helvetica", "bold")
+    pdf.setFontSize(14)
+    pdf.text(title, marginMm, marginMm + 4)
+    pdf.setFontSize(9)
+    y = marginMm + 14
+    columns.forEach((column) => pdf.text(column.label, column.x, y, { align: column.align }))
+    pdf.setLineWidth(0.3)
+    pdf.line(marginMm, y + 2, pageWidthMm - marginMm, y + 2)
+    pdf.setFont("helvetica", "normal")
+    y += rowHeightMm + 1
+  }
+
+  lines.forEach((line) => {
+    if (y > pageHeightMm - marginMm - rowHeightMm) startPage()
+    const cells = [
+      BOM_CATEGORY_LABELS[line.category],
+      line.partNumber || "-",
+      line.description,
+      `${line.quantity} ${line.unit}`,
+      String(line.spareQuantity),
+      `${line.totalQuantity} ${line.unit}`,
+      formatPrice(line.unitPrice),
+      formatPrice(line.totalPrice),
+    ]
+    cells.forEach((cell, index) => {
+      const column = columns[index]
+      const maxWidth = index === 2 ? columns[3].x - column.x - 16 : undefined
+      const text = maxWidth ? (pdf.splitTextToSize(cell, maxWidth) as string[])[0] : cell
+      pdf.text(text, column.x, y, { align: column.align })
+    })
+    y += rowHeightMm
+  })
 
-  const renderDpi = 300
-  const outputDpi = 200
-  const pxPerMm = renderDpi / 25.4
-  const outputPxPerMm = outputDpi / 25.4
+  if (y > pageHeightMm - marginMm - rowHeightMm) startPage()
+  pdf.setLineWidth(0.2)
+  pdf.line(marginMm, y - rowHeightMm + 2, pageWidthMm - marginMm, y - rowHeightMm + 2)
+  pdf.setFont("helvetica", "bold")
+  pdf.text("Total", columns[6].x, y, { align: "right" })
+  pdf.text(getBomTotalPrice(lines).toFixed(2), columns[7].x, y, { align: "right" })
+}
+
+// Amounts are printed with the currency code in the header; the built-in PDF fonts lack most currency symbols.
+function addQuotePages(pdf: jsPDF, layout: LayoutData, pageWidthMm: number, pageHeightMm: number) {
+  const quote = buildQuote(layout)
+  const marginMm = 12
+  const rowHeightMm = 6
+  const columns = [
+    { label: "Type", x: marginMm, align: "left" as const },
+    { label: "Description", x: marginMm + 26, align: "left" as const },
+    { label: "Qty", x: pageWidthMm - marginMm - 64, align: "right" as const },
+    { label: `Unit cost (${quote.currency})`, x: pageWidthMm - marginMm - 32, align: "right" as const },
+    { label: `Cost (${quote.currency})`, x: pageWidthMm - marginMm, align: "right" as const },
+  ]
+  const formatAmount = (value: number | null) => (value === null ? "-" : value.toFixed(2))
+  const title = `${layout.project.name?.trim() || "NC"} - COST ESTIMATE`
+
+  let y = pageHeightMm
+  const startPage = () => {
+    pdf.addPage()
+    pdf.setFont("helvetica", "bold")
+    pdf.setFontSize(14)
+    pdf.text(title, marginMm, marginMm + 4)
+    pdf.setFontSize(9)
+    y = marginMm + 14
+    columns.forEach((column) => pdf.text(column.label, column.x, y, { align: column.align }))
+    pdf.setLineWidth(0.3)
+    pdf.line(marginMm, y + 2, pageWidthMm - marginMm, y + 2)
+    pdf.setFont("helvetica", "normal")
+    y += rowHeightMm + 1
+  }
+
+  quote.lines.forEach((line) => {
+    if (y > pageHeightMm - marginMm - rowHeightMm) startPage()
+    const cells = [
+      line.kind === "material" ? "Material" : "Labour",
+      line.description,
+      `${line.quantity} ${line.unit}`,
+      formatAmount(line.unitCost),
+      formatAmount(line.cost),
+    ]
+    cells.forEach((cell, index) => {
+      const column = columns[index]
+      const maxWidth = index === 1 ? columns[2].x - column.x - 16 : undefined
+      const text = maxWidth ? (pdf.splitTextToSize(cell, maxWidth) as string[])[0] : cell
+      pdf.text(text, column.x, y, { align: column.align })
+    })
+    y += rowHeightMm
+  })
+
+  const summaryRows = getQuoteSummaryRows(quote)
+  if (y > pageHeightMm - marginMm - rowHeightMm * (summaryRows.length + 1)) startPage()
+  pdf.setLineWidth(0.2)
+  pdf.line(marginMm, y - rowHeightMm + 2, pageWidthMm - marginMm, y - rowHeightMm + 2)
+  summaryRows.forEach((row, index) => {
+    pdf.setFont("helvetica", index === summaryRows.length - 1 ? "bold" : "normal")
+    pdf.text(row.label, columns[3].x, y, { align: "right" })
+    pdf.text(formatAmount(row.amount), columns[4].x, y, { align: "right" })
+    y += rowHeightMm
+  })
+  if (quote.unpricedCount > 0) {
+    pdf.setFont("helvetica", "italic")
+    pdf.setFontSize(8)
+    pdf.text(`${quote.unpricedCount} item(s) without a unit cost are not included.`, marginMm, y)
+  }
+}
+
+// Same table layout as the BOM; data cables first, then power, each in chain order.
+function addCableSchedulePages(pdf: jsPDF, layout: LayoutData, pageWidthMm: number, pageHeightMm: number) {
+  const schedule = buildCableSchedule(layout)
+  const marginMm = 12
+  const rowHeightMm = 6
+  const columns = [
+    { label: "Type", x: marginMm, align: "left" as const },
+    { label: "Run", x: marginMm + 18, align: "left" as const },
+    { label: "#", x: marginMm + 66, align: "left" as const },
+    { label: "From", x: marginMm + 76, align: "left" as const },
+    { label: "To", x: marginMm + 110, align: "left" as const },
+    { label: "Port / Breaker", x: marginMm + 144, align: "left" as const },
+    { label: "Connector", x: pageWidthMm - marginMm - 64, align: "left" as const },
+    { label: "Length (m)", x: pageWidthMm - marginMm, align: "right" as const },
+  ]
+  const title = `${layout.project.name?.trim() || "NC"} - CABLE SCHEDULE`
+
+  let y = pageHeightMm
+  const startPage = () => {
+    pdf.addPage()
+    pdf.setFont("helvetica", "bold")
+    pdf.setFontSize(14)
+    pdf.text(title, marginMm, marginMm + 4)
+    pdf.setFontSize(9)
+    y = marginMm + 14
+    columns.forEach((column) => pdf.text(column.label, column.x, y, { align: column.align }))
+    pdf.setLineWidth(0.3)
+    pdf.line(marginMm, y + 2, pageWidthMm - marginMm, y + 2)
+    pdf.setFont("helvetica", "normal")
+    y += rowHeightMm + 1
+  }
+
+  startPage()
+  const rows = [...schedule.data, ...schedule.power]
+  rows.forEach((row) => {
+    if (y > pageHeightMm - marginMm - rowHeightMm) startPage()
+    const cells = [
+      row.kind === "data" ? "Data" : "Power",
+      row.run,
+      String(row.order),
+      row.from,
+      row.to,
+      row.port || "-",
+      row.connector || "-",
+      row.lengthM.toFixed(1),
+    ]
+    cells.forEach((cell, index) => {
+      const column = columns[index]
+      const nextColumn = columns[index + 1]
+      const maxWidth = nextColumn ? nextColumn.x - column.x - (nextColumn.align === "right" ? 20 : 3) : undefined
+      const text = maxWidth ? (pdf.splitTextToSize(cell, maxWidth) as string[])[0] : cell
+      pdf.text(text, column.x, y, { align: column.align })
+    })
+    y += rowHeightMm
+  })
+
+  const totals = [
+    { label: "Data total", lengthM: schedule.data.reduce((sum, row) => sum + row.lengthM, 0) },
+    { label: "Power total", lengthM: schedule.power.reduce((sum, row) => sum + row.lengthM, 0) },
+  ]
+  if (y > pageHeightMm - marginMm - rowHeightMm * (totals.length + 1)) startPage()
+  pdf.setLineWidth(0.2)
+  pdf.line(marginMm, y - rowHeightMm + 2, pageWidthMm - marginMm, y - rowHeightMm + 2)
+  pdf.setFont("helvetica", "bold")
+  totals.forEach((total) => {
+    pdf.text(total.label, columns[6].x, y)
+    pdf.text(total.lengthM.toFixed(1), columns[7].x, y, { align: "right" })
+    y += rowHeightMm
+  })
+}
+
+const CAD_VIEW_SCALES = [1, 2, 5, 10, 20, 25, 50, 100, 200, 500]
+const CAD_ENTRY_COLORS: Record<CadEntryType, [number, number, number]> = {
+  power: [220, 38, 38],
+  data: [37, 99, 235],
+  power_data: [168, 85, 247],
+}
+const CAD_ISO_FACE_SHADES: Record<CadIsoFace["face"], number> = { rear: 236, top: 214, right: 188 }
+
+function getCadViewScale(worldWidth: number, worldHeight: number, areaWidth: number, areaHeight: number) {
+  const needed = Math.max(worldWidth / areaWidth, worldHeight / areaHeight)
+  return CAD_VIEW_SCALES.find((scale) => scale >= needed) ?? Math.ceil(needed / 100) * 100
+}
+
+function formatCadMm(value: number) {
+  return String(Math.round(value))
+}
+
+// Third-angle sheet around the rear elevation (top view above it, side view on its left so the rear faces meet),
+// then an isometric sheet listing the rear-entry offsets. Both come from the CAD export so they match the JSON.
+function addCadViewPages(pdf: jsPDF, layout: LayoutData, pageWidthMm: number, pageHeightMm: number) {
+  const cad = buildCadExport(layout)
+  const { side, top, iso } = cad.views
+  if (top.rects.length === 0) return
+
+  const marginMm = 12
+  const gapMm = 18
+  const captionMm = 8
+  const areaTop = marginMm + 14
+  const areaBottom = pageHeightMm - marginMm - 8
+  const title = `${layout.project.name?.trim() || "NC"} - CAD VIEWS`
+  const startPage = (subtitle: string) => {
+    pdf.addPage()
+    pdf.setTextColor(0)
+    pdf.setDrawColor(0)
+    pdf.setFont("helvetica", "bold")
+    pdf.setFontSize(14)
+    pdf.text(`${title} - ${subtitle}`, marginMm, marginMm + 4)
+  }
+  const drawMarker = (type: CadEntryType, x: number, y: number, radius: number) => {
+    pdf.setFillColor(...CAD_ENTRY_COLORS[type])
+    pdf.circle(x, y, radius, "F")
+  }
+  const caption = (lines: string[], x: number, y: number) => {
+    pdf.setFont("helvetica", "bold")
+    pdf.setFontSize(8)
+    pdf.text(lines[0], x, y)
+    pdf.setFont("helvetica", "normal")
+    pdf.text(lines.slice(1).join("  "), x, y + 3.5)
+  }
+
+  const width = top.width_mm
+  const height = side.height_mm
+  const depth = side.width_mm
+  const typeById = new Map(cad.cabinetTypes.map((type) => [type.typeId, type]))
+  const rearRects = cad.cabinets.flatMap((cabinet) => {
+    const type = typeById.get(cabinet.typeId)
+    if (!type || cabinet.suppressInCad) return []
+    const isRotated = cabinet.rot_deg === 90 || cabinet.rot_deg === 270
+    return [
+      {
+        x_mm: cabinet.x_mm,
+        y_mm: cabinet.y_mm,
+        width_mm: isRotated ? type.height_mm : type.width_mm,
+        height_mm: isRotated ? type.width_mm : type.height_mm,
+      },
+    ]
+  })
+
+  startPage("ORTHOGRAPHIC")
+  const areaWidth = pageWidthMm - marginMm * 2 - gapMm
+  const areaHeight = areaBottom - areaTop - gapMm - captionMm * 2
+  const scale = getCadViewScale(depth + width, depth + height, areaWidth, areaHeight)
+  const mmToPaper = 1 / scale
+  const sheetWidth = (depth + width) * mmToPaper + gapMm
+  const sheetHeight = (depth + height) * mmToPaper + gapMm + captionMm * 2
+  const sideX = marginMm + (areaWidth + gapMm - sheetWidth) / 2
+  const topY = areaTop + captionMm + Math.max(0, (areaBottom - areaTop - sheetHeight) / 2)
+  const elevationX = sideX + depth * mmToPaper + gapMm
+  const elevationY = topY + depth * mmToPaper + gapMm
+  const markerRadius = 0.9
+
+  const drawRects = (rects: Omit<CadViewRect, "cabinetId">[], x: number, y: number) => {
+    pdf.setDrawColor(0)
+    pdf.setLineWidth(0.2)
+    rects.forEach((rect) => {
+      const left = x + rect.x_mm * mmToPaper
+      const topEdge = y + rect.y_mm * mmToPaper
+      pdf.rect(left, topEdge, rect.width_mm * mmToPaper, rect.height_mm * mmToPaper, "S")
+    })
+  }
+
+  drawRects(rearRects, elevationX, elevationY)
+  drawRects(top.rects, elevationX, topY)
+  drawRects(side.rects, sideX, elevationY)
+
+  pdf.setFont("helvetica", "normal")
+  pdf.setFontSize(6)
+  cad.entries.forEach((entry) => {
+    const x = elevationX + entry.x_mm * mmToPaper
+    const y = elevationY + entry.y_mm * mmToPaper
+    drawMarker(entry.type, x, y, markerRadius)
+    pdf.setTextColor(...CAD_ENTRY_COLORS[entry.type])
+    pdf.text(entry.label, x + markerRadius + 0.6, y - markerRadius)
+  })
+  top.entries.forEach((marker) =>
+    drawMarker(marker.type, elevationX + marker.x_mm * mmToPaper, topY + marker.y_mm * mmToPaper, markerRadius),
+  )
+  side.entries.forEach((marker) =>
+    drawMarker(marker.type, sideX + marker.x_mm * mmToPaper, elevationY + marker.y_mm * mmToPaper, markerRadius),
+  )
+  pdf.setTextColor(0)
+
+  // Captions sit in the gaps between views and in the band reserved above the top view; the narrow side view
+  // takes its caption underneath so it cannot run into the rear view's.
+  caption(["REAR VIEW", `W ${formatCadMm(width)} mm`, `H ${formatCadMm(height)} mm`], elevationX, elevationY - 6)
+  caption(["TOP VIEW", "FRONT FACE UP", `D ${formatCadMm(depth)} mm`], elevationX, topY - 6)
+  caption(["SIDE VIEW", "FRONT FACE LEFT", `D ${formatCadMm(depth)} mm`], sideX, elevationY + height * mmToPaper + 5)
+
+  pdf.setFont("helvetica", "bold")
+  pdf.setFontSize(9)
+  pdf.text(`SCALE 1:${scale}    DIMENSIONS IN MM`, marginMm, pageHeightMm - marginMm)
+
+  startPage("ISOMETRIC")
+  const columnWidth = 72
+  const isoAreaWidth = pageWidthMm - marginMm * 2 - columnWidth - 8
+  const isoAreaHeight = areaBottom - areaTop
+  const isoScale = Math.min(isoAreaWidth / Math.max(iso.width_mm, 1), isoAreaHeight / Math.max(iso.height_mm, 1))
+  const isoX = marginMm + (isoAreaWidth - iso.width_mm * isoScale) / 2
+  const isoY = areaTop + (isoAreaHeight - iso.height_mm * isoScale) / 2
+  const toIso = (point: { x_mm: number; y_mm: number }) => ({
+    x: isoX + point.x_mm * isoScale,
+    y: isoY + point.y_mm * isoScale,
+  })
+
+  pdf.setDrawColor(60)
+  pdf.setLineWidth(0.15)
+  iso.faces.forEach((face) => {
+    const [first, ...rest] = face.points.map(toIso)
+    if (!first) return
+    let previous = first
+    const deltas = rest.map((point) => {
+      const delta = [point.x - previous.x, point.y - previous.y]
+      previous = point
+      return delta
+    })
+    const shade = CAD_ISO_FACE_SHADES[face.face]
+    pdf.setFillColor(shade, shade, shade)
+    pdf.lines(deltas, first.x, first.y, [1, 1], "FD", true)
+  })
+
+  pdf.setFontSize(6)
+  iso.entries.forEach((entry, index) => {
+    const { x, y } = toIso(entry)
+    drawMarker(entry.type, x, y, markerRadius)
+    pdf.setTextColor(...CAD_ENTRY_COLORS[entry.type])
+    pdf.text(String(index + 1), x + markerRadius + 0.6, y - markerRadius)
+  })
+
+  const columnX = pageWidthMm - marginMm - columnWidth
+  const rowHeightMm = 4.5
+  let y = areaTop + 2
+  pdf.setTextColor(0)
+  pdf.setFont("helvetica", "bold")
+  pdf.setFontSize(8)
+  pdf.text("REAR ENTRIES", columnX, y)
+  pdf.text("OFFSETS (MM)", columnX + columnWidth, y, { align: "right" })
+  pdf.setLineWidth(0.3)
+  pdf.setDrawColor(0)
+  pdf.line(columnX, y + 1.5, columnX + columnWidth, y + 1.5)
+  y += rowHeightMm + 1
+  pdf.setFont("helvetica", "normal")
+  pdf.setFontSize(7)
+  const maxRows = Math.floor((areaBottom - y) / rowHeightMm)
+  iso.entries.slice(0, maxRows).forEach((entry, index) => {
+    drawMarker(entry.type, columnX + 1, y - 1, markerRadius)
+    pdf.text(`${index + 1}. ${entry.label}`, columnX + 3.5, y)
+    const offsets = entry.offsets.map((offset) => `${offset.from[0].toUpperCase()} ${formatCadMm(offset.value_mm)}`)
+    pdf.text(offsets.join("  "), columnX + columnWidth, y, { align: "right" })
+    y += rowHeightMm
+  })
+  if (iso.entries.length > maxRows) {
+    pdf.setFont("helvetica", "italic")
+    pdf.text(`+${iso.entries.length - maxRows} more, see the orthographic sheet.`, columnX, y)
+  }
+
+  pdf.setFont("helvetica", "bold")
+  pdf.setFontSize(9)
+  pdf.text("NOT TO SCALE    L/T/R = FROM LEFT, TOP, RIGHT EDGE OF THE WALL", marginMm, pageHeightMm - marginMm)
+}
+
+export interface OverviewPdfRenderOptions {
+  // Lets non-browser callers (e.g. the layout compiler CLI) supply their own canvas and logo.
+  createCanvas?: (width: number, height: number) => HTMLCanvasElement
+  logoImage?: HTMLImageElement | null
+  output?: PdfOutputMode // overrides the project export setting
+}
+
+export interface OverviewPdfResult {
+  pdf: jsPDF
+  output: PdfOutputMode // what was written: raster when asked for, or when the vector pages failed
+  vectorError?: unknown // why the vector pages failed, when they fell back to raster
+}
+
+// The overview is laid out on a 300 DPI pixel grid whatever the output, so vector and raster sheets match.
+const SHEET_DPI = 300
+const RASTER_OUTPUT_DPI = 200
+const CSS_PX_PER_MM = 96 / 25.4
+
+interface OverviewSheet {
+  widthPx: number
+  heightPx: number
+  pxPerMm: number
+  uiScale: number
+}
+
+function createBrowserCanvas(width: number, height: number) {
   const canvas = document.createElement("canvas")
-  canvas.width = Math.round(pageWidthMm * pxPerMm)
-  canvas.height = Math.round(pageHeightMm * pxPerMm)
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
 
-  const ctx = canvas.getContext("2d")
-  if (!ctx) return
-  const nummaxLogoImage = await loadNummaxLogo()
+export function getOverviewPdfFilename(layout: LayoutData) {
+  const projectName = layout.project.name?.trim() || "NC"
+  return `${projectName} - OVERVIEW.pdf`
+}
 
+function drawOverviewSheet(
+  ctx: CanvasRenderingContext2D,
+  layout: LayoutData,
+  sheet: OverviewSheet,
+  logo: SheetLogo | null,
+  pixelMap = false,
+) {
+  const { pxPerMm, uiScale } = sheet
   const headerMm = 8
   const marginMm = 6
   const headerPx = Math.round(headerMm * pxPerMm)
@@ -1161,8 +1417,8 @@ export async function exportOverviewPdf(layout: LayoutData) {
     minY: bounds.minY - extraTopMm,
     maxY: bounds.maxY + extraBottomMm,
   }
-  const availableWidth = canvas.width - marginPx * 2
-  const availableHeight = canvas.height - headerPx - marginPx * 2 - viewLabelReservePx
+  const availableWidth = sheet.widthPx - marginPx * 2
+  const availableHeight = sheet.heightPx - headerPx - marginPx * 2 - viewLabelReservePx
   const isCompactLayout = layout.cabinets.length <= 4 && (layoutWidthMm <= 1600 || layoutHeightMm <= 700)
   const isSingleCompactWideLayout =
     layout.cabinets.length <= 2 && layoutHeightMm <= 420 && layoutWidthMm >= layoutHeightMm * 2
@@ -1183,13 +1439,12 @@ export async function exportOverviewPdf(layout: LayoutData) {
       )
     : 0
   let legendPosition: { rightX: number; topY: number } | null = null
-  const uiScale = clamp(renderDpi / outputDpi, 1, 2)
   const fixedLegendPosition =
     legendLayout === null
       ? null
       : {
           rightX: marginPx + legendLayout.boxWidth,
-          topY: canvas.height - marginPx - legendLayout.boxHeight,
+          topY: sheet.heightPx - marginPx - legendLayout.boxHeight,
         }
   const fixedLegendRect =
     legendLayout === null || fixedLegendPosition === null
@@ -1305,8 +1560,8 @@ export async function exportOverviewPdf(layout: LayoutData) {
     zoom,
     panX,
     panY,
-    viewportWidth: canvas.width,
-    viewportHeight: canvas.height,
+    viewportWidth: sheet.widthPx,
+    viewportHeight: sheet.heightPx,
     showGrid: true,
     showOrigin: false,
     labelsMode: layout.project.overview.labelsMode,
@@ -1322,38 +1577,22 @@ export async function exportOverviewPdf(layout: LayoutData) {
     uiScale,
     dimensionOffsetMm,
     dimensionSide: "right",
-    palette: {
-      background: "#ffffff",
-      gridLine: "#e5e7eb",
-      cabinetFill: "rgba(224, 242, 254, 0.9)",
-      cabinetFillAlt: "rgba(191, 219, 254, 0.9)",
-      cabinetStroke: "#1d4ed8",
-      cabinetSelected: "#1d4ed8",
-      cabinetErrorFill: "rgba(248, 113, 113, 0.25)",
-      cabinetErrorStroke: "#b91c1c",
-      labelPrimary: "#0f172a",
-      labelSecondary: "#334155",
-      receiverCardFill: "#0b1220",
-      receiverCardStroke: "#1f2a44",
-      receiverCardText: "#f8fafc",
-      dimensionLine: "#1f2937",
-      dimensionText: "#111827",
-      moduleGridLine: "rgba(148, 163, 184, 0.35)",
-    },
+    palette: PRINT_OVERVIEW_PALETTE,
+    showPixelMap: pixelMap,
   })
 
   // Sheet header title + brand
   const headerLogoHeight = Math.round(headerPx * NUMMAX_HEADER_LOGO_HEIGHT_RATIO)
   const headerLogoWidth = Math.round(headerLogoHeight * NUMMAX_LOGO_ASPECT)
-  const headerLogoX = canvas.width - marginPx - headerLogoWidth
+  const headerLogoX = sheet.widthPx - marginPx - headerLogoWidth
   const headerLogoY = Math.round((headerPx - headerLogoHeight) / 2)
-  drawNummaxLogo(ctx, headerLogoX, headerLogoY, headerLogoWidth, headerLogoHeight, nummaxLogoImage)
+  drawNummaxLogo(ctx, headerLogoX, headerLogoY, headerLogoWidth, headerLogoHeight, logo)
 
   const customTitle = layout.project.exportSettings.title?.trim()
   const title = customTitle && customTitle.length > 0 ? customTitle : getTitleParts(layout).join(" - ")
   const titleLeftBound = marginPx + Math.round(1.6 * pxPerMm)
   const titleRightBound = headerLogoX - Math.round(2.0 * pxPerMm)
-  const titleCenterX = canvas.width / 2
+  const titleCenterX = sheet.widthPx / 2
   const titleHalfAvailable = Math.max(0, Math.min(titleCenterX - titleLeftBound, titleRightBound - titleCenterX))
   const titleAvailableWidth = Math.max(0, titleHalfAvailable * 2)
   let titleFontPx = Math.round(5 * pxPerMm)
@@ -1368,7 +1607,7 @@ export async function exportOverviewPdf(layout: LayoutData) {
   ctx.textBaseline = "middle"
   ctx.fillText(title, titleCenterX, headerPx / 2)
 
-  const viewLabel = viewSide === "back" ? "BACK VIEW" : "FRONT VIEW"
+  const viewLabel = layout.project.exportSettings.viewSide === "back" ? "BACK VIEW" : "FRONT VIEW"
   const viewFontPx = Math.round(3.4 * pxPerMm)
   ctx.font = `700 ${viewFontPx}px Geist, sans-serif`
   ctx.textAlign = "center"
@@ -1378,41 +1617,417 @@ export async function exportOverviewPdf(layout: LayoutData) {
   const viewClearancePx = Math.round(6 * pxPerMm)
   const bottomMarginPx = Math.round(4.5 * pxPerMm)
   const desiredViewLabelY = Math.max(contentBottomY, legendBottomY) + viewClearancePx
-  const maxViewLabelY = canvas.height - bottomMarginPx
+  const maxViewLabelY = sheet.heightPx - bottomMarginPx
   const viewLabelY = Math.min(desiredViewLabelY, maxViewLabelY)
-  ctx.fillText(viewLabel, canvas.width / 2, viewLabelY)
+  ctx.fillText(viewLabel, sheet.widthPx / 2, viewLabelY)
 
   if (legendLayout && legendPosition) {
     drawPdfLegend(ctx, legendLayout, {
       rightX: legendPosition.rightX,
       topY: legendPosition.topY,
-      logoImage: nummaxLogoImage,
+      logo,
     })
   }
+}
+
+function getRasterLogo(image: HTMLImageElement | null): SheetLogo | null {
+  if (!image) return null
+  return {
+    width: image.naturalWidth,
+    height: image.naturalHeight,
+    draw: (ctx, x, y, width, height) => ctx.drawImage(image, x, y, width, height),
+  }
+}
+
+// The logo is only drawn outside any canvas transform, so sheet pixels map straight to page millimetres.
+function getVectorLogo(
+  pdf: jsPDF,
+  pxPerMm: number,
+  image: HTMLImageElement | null,
+  createCanvas: (width: number, height: number) => HTMLCanvasElement,
+): SheetLogo | null {
+  if (!image || image.naturalWidth <= 0 || image.naturalHeight <= 0) return null
+  let pngData: string
+  try {
+    const canvas = createCanvas(image.naturalWidth, image.naturalHeight)
+    canvas.getContext("2d")?.drawImage(image, 0, 0)
+    pngData = canvas.toDataURL("image/png")
+  } catch {
+    return null
+  }
+  return {
+    width: image.naturalWidth,
+    height: image.naturalHeight,
+    draw: (_ctx, x, y, width, height) =>
+      pdf.addImage(pngData, "PNG", x / pxPerMm, y / pxPerMm, width / pxPerMm, height / pxPerMm, "nummax-logo", "FAST"),
+  }
+}
+
+// jsPDF's context2d turns canvas calls into PDF paths and text. The sheet is drawn in 300 DPI pixels, so the
+// context is scaled to mm; text widths and dash lengths are not scaled by jsPDF and are converted here.
+function createPdfCanvasContext(pdf: jsPDF, pxPerMm: number) {
+  const ctx = pdf.context2d as unknown as CanvasRenderingContext2D
+  ctx.scale(1 / pxPerMm, 1 / pxPerMm)
+  const measureText = ctx.measureText.bind(ctx)
+  const setLineDash = ctx.setLineDash.bind(ctx)
+  ctx.measureText = (text: string) => ({ width: measureText(text).width / CSS_PX_PER_MM }) as TextMetrics
+  ctx.setLineDash = (segments: number[]) => setLineDash(segments.map((segment) => segment / pxPerMm))
+  return ctx
+}
+
+function getOverviewPageSetup(layout: LayoutData) {
+  const { pageSize } = layout.project.exportSettings
+  const orientation: "portrait" | "landscape" = "landscape"
+  const baseSize = PAGE_SIZES_MM[pageSize]
+  const pageWidthMm = orientation === "landscape" ? baseSize.height : baseSize.width
+  const pageHeightMm = orientation === "landscape" ? baseSize.width : baseSize.height
+  const pxPerMm = SHEET_DPI / 25.4
+  const sheet: OverviewSheet = {
+    widthPx: Math.round(pageWidthMm * pxPerMm),
+    heightPx: Math.round(pageHeightMm * pxPerMm),
+    pxPerMm,
+    uiScale: clamp(SHEET_DPI / RASTER_OUTPUT_DPI, 1, 2),
+  }
+  return { pageSize, orientation, pageWidthMm, pageHeightMm, sheet }
+}
+
+// Draws one overview sheet on the PDF's current page; false when no canvas context could be created.
+type OverviewSheetDrawer = (layout: LayoutData, pixelMap: boolean) => boolean
+
+function createVectorSheetDrawer(
+  pdf: jsPDF,
+  sheet: OverviewSheet,
+  createCanvas: (width: number, height: number) => HTMLCanvasElement,
+  logoImage: HTMLImageElement | null,
+): OverviewSheetDrawer {
+  const logo = getVectorLogo(pdf, sheet.pxPerMm, logoImage, createCanvas)
+  const ctx = createPdfCanvasContext(pdf, sheet.pxPerMm)
+  return (layout, pixelMap) => {
+    // context2d only writes colours when they are assigned; a new page starts from the PDF defaults again.
+    ctx.fillStyle = "#000000"
+    ctx.strokeStyle = "#000000"
+    drawOverviewSheet(ctx, layout, sheet, logo, pixelMap)
+    return true
+  }
+}
+
+function createRasterSheetDrawer(
+  pdf: jsPDF,
+  sheet: OverviewSheet,
+  createCanvas: (width: number, height: number) => HTMLCanvasElement,
+  logo: SheetLogo | null,
+): OverviewSheetDrawer {
+  const widthMm = sheet.widthPx / sheet.pxPerMm
+  const heightMm = sheet.heightPx / sheet.pxPerMm
+  const outputPxPerMm = RASTER_OUTPUT_DPI / 25.4
+  return (layout, pixelMap) => {
+    const canvas = createCanvas(sheet.widthPx, sheet.heightPx)
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return false
+    drawOverviewSheet(ctx, layout, sheet, logo, pixelMap)
+
+    const outputCanvas = (() => {
+      const downscaled = createCanvas(Math.round(widthMm * outputPxPerMm), Math.round(heightMm * outputPxPerMm))
+      const downscaledCtx = downscaled.getContext("2d")
+      if (!downscaledCtx) return canvas
+      downscaledCtx.imageSmoothingEnabled = true
+      downscaledCtx.imageSmoothingQuality = "high"
+      downscaledCtx.drawImage(canvas, 0, 0, downscaled.width, downscaled.height)
+      return downscaled
+    })()
+    const imgData = outputCanvas.toDataURL("image/jpeg", 0.82)
+    pdf.addImage(imgData, "JPEG", 0, 0, widthMm, heightMm, undefined, "MEDIUM")
+    return true
+  }
+}
+
+// Drawing sets keep a band at the bottom of every page for the title block; overview sheets are laid out above it.
+const TITLE_BLOCK_MM = 16
+
+interface DrawingSetSheet {
+  title: string
+  layout: LayoutData
+  pixelMap?: boolean
+}
+
+function withOverviewSettings(layout: LayoutData, overview: Partial<OverviewSettings>): LayoutData {
+  return { ...layout, project: { ...layout.project, overview: { ...layout.project.overview, ...overview } } }
+}
 
-  const pdf = new jsPDF({
-    orientation,
-    unit: "mm",
-    format: pageSize,
+// Keeps the cabinet steps on the face. A manual point stays with the cabinet step it leads to, or with the last
+// cabinet step when it trails the chain.
+function clipStepsToFace(steps: DataRouteStep[] | undefined, isOnFace: (endpointId: string) => boolean) {
+  if (!steps) return undefined
+  const clipped: DataRouteStep[] = []
+  let pending: DataRouteStep[] = []
+  let lastOnFace = false
+  steps.forEach((step) => {
+    if (step.type === "point") {
+      pending.push(step)
+      return
+    }
+    lastOnFace = isOnFace(step.endpointId)
+    if (lastOnFace) clipped.push(...pending, step)
+    pending = []
   })
-  const outputCanvas =
-    outputDpi === renderDpi
-      ? canvas
-      : (() => {
-          const downscaled = document.createElement("canvas")
-          downscaled.width = Math.round(pageWidthMm * outputPxPerMm)
-          downscaled.height = Math.round(pageHeightMm * outputPxPerMm)
-          const downscaledCtx = downscaled.getContext("2d")
-          if (!downscaledCtx) return canvas
-          downscaledCtx.imageSmoothingEnabled = true
-          downscaledCtx.imageSmoothingQuality = "high"
-          downscaledCtx.drawImage(canvas, 0, 0, downscaled.width, downscaled.height)
-          return downscaled
-        })()
-  const imgData = outputCanvas.toDataURL("image/jpeg", 0.82)
-  pdf.addImage(imgData, "JPEG", 0, 0, pageWidthMm, pageHeightMm, undefined, "MEDIUM")
-  const projectName = layout.project.name?.trim() || "NC"
-  const filename = `${projectName} - OVERVIEW.pdf`
-  pdf.save(filename)
+  return lastOnFace ? [...clipped, ...pending] : clipped
+}
+
+// A face sheet keeps that face's cabinets, and routes and feeds cut down to their part on it so the sheet still
+// shows them and their breakers. Grid labels are pinned from the whole wall so a cabinet reads the same on every sheet.
+function getFaceLayout(layout: LayoutData, face: NonNullable<Cabinet["face"]>): LayoutData {
+  const gridLabelAxis = layout.project.overview.gridLabelAxis ?? "columns"
+  const cabinetIds = new Set(layout.cabinets.filter((cabinet) => cabinet.face === face).map((cabinet) => cabinet.id))
+  const isOnFace = (endpointId: string) => cabinetIds.has(parseRouteCabinetId(endpointId).cabinetId)
+  return {
+    ...layout,
+    cabinets: layout.cabinets
+      .filter((cabinet) => cabinetIds.has(cabinet.id))
+      .map((cabinet) => ({
+        ...cabinet,
+        gridLabelOverride: computeGridLabel(cabinet, layout.cabinets, layout.cabinetTypes, gridLabelAxis),
+      })),
+    project: {
+      ...layout.project,
+      dataRoutes: layout.project.dataRoutes.flatMap((route) => {
+        const endpointIds = route.cabinetIds.filter(isOnFace)
+        if (endpointIds.length === 0) return []
+        return [{ ...route, cabinetIds: endpointIds, steps: clipStepsToFace(route.steps, isOnFace) }]
+      }),
+      powerFeeds: layout.project.powerFeeds.flatMap((feed) => {
+        const assignedCabinetIds = feed.assignedCabinetIds.filter(isOnFace)
+        if (assignedCabinetIds.length === 0) return []
+        return [{ ...feed, assignedCabinetIds, steps: clipStepsToFace(feed.steps, isOnFace) }]
+      }),
+    },
+  }
+}
+
+function getSystemSheets(layout: LayoutData): DrawingSetSheet[] {
+  return [
+    { title: "DATA", layout: withOverviewSettings(layout, { showDataRoutes: true, showPowerRoutes: false }) },
+    {
+      title: "POWER",
+      layout: withOverviewSettings(layout, { showDataRoutes: false, showPowerRoutes: true, showReceiverCards: false }),
+    },
+    {
+      title: "PIXEL MAP",
+      layout: withOverviewSettings(layout, {
+        showDataRoutes: false,
+        showPowerRoutes: false,
+        showReceiverCards: false,
+        showPixels: true,
+      }),
+      pixelMap: true,
+    },
+  ]
+}
+
+function getFaceSheets(layout: LayoutData): DrawingSetSheet[] {
+  if (!getModeDefinition(layout.project.mode ?? "indoor").features.supportsDoubleFace) return []
+  const faces = (["A", "B"] as const).filter((face) => layout.cabinets.some((cabinet) => cabinet.face === face))
+  if (faces.length < 2) return []
+  return faces.map((face) => ({ title: `FACE ${face}`, layout: getFaceLayout(layout, face) }))
+}
+
+// Consecutive pages with the same title (a BOM running over two pages) share one index line.
+function getSheetIndex(sheetTitles: string[]) {
+  const entries: { title: string; first: number; last: number }[] = []
+  sheetTitles.forEach((title, index) => {
+    const previous = entries[entries.length - 1]
+    if (previous && previous.title === title) previous.last = index + 1
+    else entries.push({ title, first: index + 1, last: index + 1 })
+  })
+  return entries
+}
+
+function drawCoverSheet(
+  pdf: jsPDF,
+  layout: LayoutData,
+  sheetTitles: string[],
+  pageWidthMm: number,
+  pageHeightMm: number,
+) {
+  const summary = buildLayoutSummary(layout)
+  const marginMm = 12
+  const customTitle = layout.project.exportSettings.title?.trim()
+  const title = customTitle && customTitle.length > 0 ? customTitle : getTitleParts(layout).join(" - ")
+  const pitchLabel = `P${summary.project.pitchMm}${summary.project.gob ? " GOB" : ""}`
+  const rows = [
+    { label: "Client", value: summary.project.client || "-" },
+    { label: "Mode", value: getModeDefinition(summary.project.mode ?? "indoor").label },
+    { label: "Pitch", value: pitchLabel },
+    { label: "Cabinets", value: String(summary.cabinets.total) },
+    { label: "Modules", value: `${summary.modules.count} x ${summary.modules.size} (${summary.modules.orientation})` },
+    {
+      label: "Pixel matrix",
+      value: summary.pixelMatrix.map((entry) => `${entry.widthPx}x${entry.heightPx} px`).join(", ") || "-",
+    },
+    { label: "Controller", value: summary.project.controller || "-" },
+    { label: "Max power", value: `${summary.power.totalW} W` },
+    { label: "Weight", value: `${summary.weight.kg.toFixed(1)} kg / ${summary.weight.lb} lb` },
+  ]
+
+  pdf.setTextColor(0)
+  pdf.setFont("helvetica", "bold")
+  pdf.setFontSize(22)
+  const titleLines = pdf.splitTextToSize(title, pageWidthMm - marginMm * 2) as string[]
+  pdf.text(titleLines, marginMm, marginMm + 18)
+  let y = marginMm + 18 + titleLines.length * 9
+  pdf.setFontSize(12)
+  pdf.setFont("helvetica", "normal")
+  pdf.text("DRAWING SET", marginMm, y)
+  pdf.setLineWidth(0.4)
+  pdf.line(marginMm, y + 4, pageWidthMm - marginMm, y + 4)
+
+  const columnTop = y + 16
+  const indexX = pageWidthMm / 2 + 6
+  pdf.setFontSize(10)
+  pdf.setFont("helvetica", "bold")
+  pdf.text("PROJECT", marginMm, columnTop)
+  pdf.text("SHEET INDEX", indexX, columnTop)
+  pdf.setFontSize(9)
+  y = columnTop + 8
+  rows.forEach((row) => {
+    pdf.setFont("helvetica", "bold")
+    pdf.text(row.label, marginMm, y)
+    pdf.setFont("helvetica", "normal")
+    pdf.text((pdf.splitTextToSize(row.value, pageWidthMm / 2 - marginMm - 40) as string[])[0], marginMm + 32, y)
+    y += 6
+  })
+
+  y = columnTop + 8
+  pdf.setFont("helvetica", "normal")
+  getSheetIndex(sheetTitles).forEach((entry) => {
+    if (y > pageHeightMm - marginMm) return
+    const pages = entry.first === entry.last ? String(entry.first) : `${entry.first}-${entry.last}`
+    pdf.text(pages, indexX, y)
+    pdf.text(entry.title, indexX + 16, y)
+    y += 6
+  })
+}
+
+function drawSheetTitleBlock(
+  pdf: jsPDF,
+  layout: LayoutData,
+  sheetTitle: string,
+  sheetNumber: number,
+  sheetCount: number,
+  pageWidthMm: number,
+  pageHeightMm: number,
+) {
+  const marginMm = 6
+  const top = pageHeightMm - TITLE_BLOCK_MM + 2
+  const height = TITLE_BLOCK_MM - 2 - marginMm / 2
+  const width = pageWidthMm - marginMm * 2
+  const cells = [
+    { label: "PROJECT", value: layout.project.name?.trim() || "NC", share: 0.32 },
+    { label: "CLIENT", value: layout.project.client?.trim() || "-", share: 0.24 },
+    { label: "SHEET TITLE", value: sheetTitle, share: 0.3 },
+    { label: "SHEET", value: `${sheetNumber} of ${sheetCount}`, share: 0.14 },
+  ]
+
+  // The overview grid runs to the page edge; blank the band before drawing the block over it.
+  pdf.setFillColor(255, 255, 255)
+  pdf.rect(0, pageHeightMm - TITLE_BLOCK_MM, pageWidthMm, TITLE_BLOCK_MM, "F")
+  pdf.setDrawColor(0)
+  pdf.setTextColor(0)
+  pdf.setLineWidth(0.3)
+  pdf.rect(marginMm, top, width, height, "S")
+  let x = marginMm
+  cells.forEach((cell, index) => {
+    const cellWidth = width * cell.share
+    if (index > 0) pdf.line(x, top, x, top + height)
+    pdf.setFont("helvetica", "normal")
+    pdf.setFontSize(6)
+    pdf.text(cell.label, x + 2, top + 3)
+    pdf.setFont("helvetica", "bold")
+    pdf.setFontSize(10)
+    pdf.text((pdf.splitTextToSize(cell.value, cellWidth - 4) as string[])[0], x + 2, top + height - 2.5)
+    x += cellWidth
+  })
+}
+
+// A plain export is the overview sheet plus the optional appendix pages. A drawing set adds a cover, one sheet
+// per system and per face, and the BOM/cable schedule, each page carrying the same numbered title block.
+function addOverviewPages(pdf: jsPDF, layout: LayoutData, drawSheet: OverviewSheetDrawer) {
+  const { pageWidthMm, pageHeightMm } = getOverviewPageSetup(layout)
+  const { exportSettings } = layout.project
+  if (!exportSettings.drawingSet) {
+    if (!drawSheet(layout, false)) return false
+    if (exportSettings.showBom) addBomPages(pdf, layout, pageWidthMm, pageHeightMm)
+    if (exportSettings.showQuote) addQuotePages(pdf, layout, pageWidthMm, pageHeightMm)
+    if (exportSettings.showCadViews) addCadViewPages(pdf, layout, pageWidthMm, pageHeightMm)
+    return true
+  }
+
+  const contentHeightMm = pageHeightMm - TITLE_BLOCK_MM
+  const sheetTitles = ["COVER"]
+  const labelNewPages = (title: string) => {
+    while (sheetTitles.length < pdf.getNumberOfPages()) sheetTitles.push(title)
+  }
+  const drawSheets = (sheets: DrawingSetSheet[]) =>
+    sheets.every((sheet) => {
+      pdf.addPage()
+      labelNewPages(sheet.title)
+      return drawSheet(sheet.layout, sheet.pixelMap ?? false)
+    })
+
+  if (!drawSheets(getSystemSheets(layout))) return false
+  addBomPages(pdf, layout, pageWidthMm, contentHeightMm)
+  addCableSchedulePages(pdf, layout, pageWidthMm, contentHeightMm)
+  labelNewPages("BOM / CABLE SCHEDULE")
+  if (!drawSheets(getFaceSheets(layout))) return false
+  if (exportSettings.showQuote) {
+    addQuotePages(pdf, layout, pageWidthMm, contentHeightMm)
+    labelNewPages("COST ESTIMATE")
+  }
+  if (exportSettings.showCadViews) {
+    addCadViewPages(pdf, layout, pageWidthMm, contentHeightMm)
+    labelNewPages("CAD VIEWS")
+  }
+
+  pdf.setPage(1)
+  drawCoverSheet(pdf, layout, sheetTitles, pageWidthMm, contentHeightMm)
+  sheetTitles.forEach((title, index) => {
+    pdf.setPage(index + 1)
+    drawSheetTitleBlock(pdf, layout, title, index + 1, sheetTitles.length, pageWidthMm, pageHeightMm)
+  })
+  return true
+}
+
+export async function renderOverviewPdf(
+  layout: LayoutData,
+  options: OverviewPdfRenderOptions = {},
+): Promise<OverviewPdfResult | null> {
+  const createCanvas = options.createCanvas ?? createBrowserCanvas
+  const logoImage = options.logoImage !== undefined ? options.logoImage : await loadNummaxLogo()
+  const output = options.output ?? layout.project.exportSettings.pdfOutput ?? "vector"
+  const { pageSize, orientation, sheet: pageSheet } = getOverviewPageSetup(layout)
+  const sheet = layout.project.exportSettings.drawingSet
+    ? { ...pageSheet, heightPx: pageSheet.heightPx - Math.round(TITLE_BLOCK_MM * pageSheet.pxPerMm) }
+    : pageSheet
+
+  let vectorError: unknown
+  if (output === "vector") {
+    try {
+      const pdf = new jsPDF({ orientation, unit: "mm", format: pageSize, compress: true })
+      addOverviewPages(pdf, layout, createVectorSheetDrawer(pdf, sheet, createCanvas, logoImage))
+      return { pdf, output: "vector" }
+    } catch (error) {
+      vectorError = error
+    }
+  }
+  const pdf = new jsPDF({ orientation, unit: "mm", format: pageSize })
+  const drawSheet = createRasterSheetDrawer(pdf, sheet, createCanvas, getRasterLogo(logoImage))
+  if (!addOverviewPages(pdf, layout, drawSheet)) return null
+  return output === "vector" ? { pdf, output: "raster", vectorError } : { pdf, output: "raster" }
+}
+
+// Returns the render result so the caller can tell the user when the vector pages fell back to raster.
+export async function exportOverviewPdf(layout: LayoutData) {
+  const result = await renderOverviewPdf(layout)
+  result?.pdf.save(getOverviewPdfFilename(layout))
+  return result
 }
 
@@ -0,0 +1,506 @@
+import type { LayoutData } from "./types"
+import type { OverviewLayer } from "./overview-renderer"
+import { PRINT_OVERVIEW_PALETTE, drawOverview } from "./overview-renderer"
+import { getLayoutBounds } from "./validation"
+import { downloadBlob } from "./download"
+
+// Records the overview drawing through a Canvas 2D look-alike and writes it out as SVG, one group per layer.
+// One SVG unit is one millimetre in layout coordinates, so the file drops into CAD at the right scale.
+
+type Matrix = [number, number, number, number, number, number]
+type SvgLayer = OverviewLayer | "background"
+
+interface SvgGradient {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+  stops: { offset: number; color: string }[]
+  addColorStop: (offset: number, color: string) => void
+}
+
+type SvgPaintStyle = string | SvgGradient
+
+interface SvgStyleState {
+  fillStyle: SvgPaintStyle
+  strokeStyle: SvgPaintStyle
+  lineWidth: number
+  lineCap: CanvasLineCap
+  lineJoin: CanvasLineJoin
+  font: string
+  textAlign: CanvasTextAlign
+  textBaseline: CanvasTextBaseline
+  globalAlpha: number
+}
+
+interface SvgDrawState {
+  style: SvgStyleState
+  matrix: Matrix
+  lineDash: number[]
+  clipId: string | null
+}
+
+interface SvgBounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+// The editor canvas size the labels are scaled for, so text reads like the fitted editor view.
+const REFERENCE_VIEW_WIDTH_PX = 1600
+const REFERENCE_VIEW_HEIGHT_PX = 1000
+const SVG_MARGIN_MM = 20
+const TAU = Math.PI * 2
+const FONT_PATTERN = /^\s*(?:(italic|oblique)\s+)?(?:(normal|bold|bolder|lighter|\d{3})\s+)?([\d.]+)px\s+(.+)$/
+const UNBOUNDED_LAYERS: SvgLayer[] = ["background", "grid"]
+
+const DEFAULT_STYLE: SvgStyleState = {
+  fillStyle: "#000000",
+  strokeStyle: "#000000",
+  lineWidth: 1,
+  lineCap: "butt",
+  lineJoin: "miter",
+  font: "10px sans-serif",
+  textAlign: "start",
+  textBaseline: "alphabetic",
+  globalAlpha: 1,
+}
+
+function formatNumber(value: number) {
+  return String(Number(value.toFixed(3)))
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+function formatAttributes(attributes: Record<string, string | number | null | undefined>) {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== null && value !== undefined && value !== "")
+    .map(([key, value]) => ` ${key}="${typeof value === "number" ? formatNumber(value) : escapeXml(String(value))}"`)
+    .join("")
+}
+
+function applyMatrix(matrix: Matrix, x: number, y: number) {
+  const [a, b, c, d, e, f] = matrix
+  return { x: a * x + c * y + e, y: b * x + d * y + f }
+}
+
+function multiplyMatrix(matrix: Matrix, [a2, b2, c2, d2, e2, f2]: Matrix): Matrix {
+  const [a, b, c, d, e, f] = matrix
+  return [a * a2 + c * b2, b * a2 + d * b2, a * c2 + c * d2, b * c2 + d * d2, a * e2 + c * f2 + e, b * e2 + d * f2 + f]
+}
+
+function getMatrixScale([a, b, c, d]: Matrix) {
+  return Math.sqrt(Math.abs(a * d - b * c))
+}
+
+// SVG 1.1 readers (Illustrator, older CAD importers) ignore rgba(), so the alpha moves to an opacity attribute.
+function splitColorAlpha(color: string) {
+  const match = color.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i)
+  if (match) {
+    return { color: `rgb(${match[1]}, ${match[2]}, ${match[3]})`, opacity: match[4] === undefined ? 1 : Number(match[4]) }
+  }
+  if (color === "transparent") return { color: "none", opacity: 1 }
+  return { color, opacity: 1 }
+}
+
+function createSvgRecorder(measureCtx: CanvasRenderingContext2D, originX: number, originY: number) {
+  const layers = new Map<SvgLayer, string[]>()
+  const defs: string[] = []
+  const stack: SvgDrawState[] = []
+  let layer: SvgLayer = "background"
+  // Starts offset by the viewport origin so the renderer's pan cancels out and output stays in layout millimetres.
+  let matrix: Matrix = [1, 0, 0, 1, originX, originY]
+  let lineDash: number[] = []
+  let clipId: string | null = null
+  let defCount = 0
+  let bounds: SvgBounds | null = null
+  let pathData: string[] = []
+  let pathBounds: SvgBounds | null = null
+  let currentPoint: { x: number; y: number } | null = null
+  let subpathStart: { x: number; y: number } | null = null
+
+  const extendBounds = (target: SvgBounds | null, x: number, y: number, pad = 0): SvgBounds => ({
+    minX: Math.min(target?.minX ?? Infinity, x - pad),
+    minY: Math.min(target?.minY ?? Infinity, y - pad),
+    maxX: Math.max(target?.maxX ?? -Infinity, x + pad),
+    maxY: Math.max(target?.maxY ?? -Infinity, y + pad),
+  })
+
+  const trackBounds = (area: SvgBounds | null, pad = 0) => {
+    if (!area || UNBOUNDED_LAYERS.includes(layer)) return
+    bounds = extendBounds(bounds, area.minX, area.minY, pad)
+    bounds = extendBounds(bounds, area.maxX, area.maxY, pad)
+  }
+
+  const emit = (tag: string, attributes: Record<string, string | number | null | undefined>, content?: string) => {
+    const element = `<${tag}${formatAttributes({ ...attributes, "clip-path": clipId ? `url(#${clipId})` : null })}`
+    const elements = layers.get(layer) ?? []
+    elements.push(content === undefined ? `${element}/>` : `${element}>${escapeXml(content)}</${tag}>`)
+    layers.set(layer, elements)
+  }
+
+  const addPoint = (command: "M" | "L", x: number, y: number) => {
+    const point = applyMatrix(matrix, x, y)
+    pathData.push(`${command}${formatNumber(point.x)} ${formatNumber(point.y)}`)
+    pathBounds = extendBounds(pathBounds, point.x, point.y)
+    currentPoint = point
+    if (command === "M") subpathStart = point
+  }
+
+  // Gradients keep their canvas semantics: coordinates are read in the transform active at paint time.
+  const resolvePaint = (paint: SvgPaintStyle) => {
+    if (typeof paint === "string") {
+      const { color, opacity } = splitColorAlpha(paint)
+      return { value: color, opacity: opacity * ctx.globalAlpha }
+    }
+    const id = `gradient-${++defCount}`
+    const start = applyMatrix(matrix, paint.x0, paint.y0)
+    const end = applyMatrix(matrix, paint.x1, paint.y1)
+    const stops = paint.stops
+      .map((stop) => {
+        const { color, opacity } = splitColorAlpha(stop.color)
+        return `<stop${formatAttributes({ offset: stop.offset, "stop-color": color, "stop-opacity": opacity < 1 ? opacity : null })}/>`
+      })
+      .join("")
+    defs.push(
+      `<linearGradient${formatAttributes({
+        id,
+        gradientUnits: "userSpaceOnUse",
+        x1: start.x,
+        y1: start.y,
+        x2: end.x,
+        y2: end.y,
+      })}>${stops}</linearGradient>`,
+    )
+    return { value: `url(#${id})`, opacity: ctx.globalAlpha }
+  }
+
+  const getStrokeAttributes = () => {
+    const scale = getMatrixScale(matrix)
+    const paint = resolvePaint(ctx.strokeStyle)
+    return {
+      fill: "none",
+      stroke: paint.value,
+      "stroke-opacity": paint.opacity < 1 ? paint.opacity : null,
+      "stroke-width": ctx.lineWidth * scale,
+      "stroke-linecap": ctx.lineCap === "butt" ? null : ctx.lineCap,
+      "stroke-linejoin": ctx.lineJoin === "miter" ? null : ctx.lineJoin,
+      "stroke-dasharray": lineDash.length > 0 ? lineDash.map((segment) => formatNumber(segment * scale)).join(" ") : null,
+    }
+  }
+
+  const getFillAttributes = () => {
+    const paint = resolvePaint(ctx.fillStyle)
+    return { fill: paint.value, "fill-opacity": paint.opacity < 1 ? paint.opacity : null }
+  }
+
+  const getRectPath = (x: number, y: number, width: number, height: number) => {
+    const corners = [
+      applyMatrix(matrix, x, y),
+      applyMatrix(matrix, x + width, y),
+      applyMatrix(matrix, x + width, y + height),
+      applyMatrix(matrix, x, y + height),
+    ]
+    const area = corners.reduce<SvgBounds | null>((acc, point) => extendBounds(acc, point.x, point.y), null)
+    const d = `${corners.map((point, index) => `${index === 0 ? "M" : "L"}${formatNumber(point.x)} ${formatNumber(point.y)}`).join("")}Z`
+    return { d, area }
+  }
+
+  const parseFont = () => {
+    const match = ctx.font.match(FONT_PATTERN)
+    if (!match) return { size: 10, weight: null, fontStyle: null, family: "sans-serif" }
+    const weight = match[2] && match[2] !== "normal" ? match[2] : null
+    return { size: Number(match[3]), weight, fontStyle: match[1] ?? null, family: match[4] }
+  }
+
+  // Canvas text sits on a chosen baseline; SVG readers only agree on the alphabetic one, so measure the shift.
+  const getAlphabeticOffset = (text: string, size: number) => {
+    if (ctx.textBaseline === "alphabetic") return 0
+    measureCtx.font = ctx.font
+    measureCtx.textBaseline = ctx.textBaseline
+    const ascent = measureCtx.measureText(text).actualBoundingBoxAscent
+    measureCtx.textBaseline = "alphabetic"
+    const alphabeticAscent = measureCtx.measureText(text).actualBoundingBoxAscent
+    const offset = alphabeticAscent - ascent
+    if (Number.isFinite(offset)) return offset
+    if (ctx.textBaseline === "top" || ctx.textBaseline === "hanging") return size * 0.8
+    if (ctx.textBaseline === "middle") return size * 0.3
+    return -size * 0.2
+  }
+
+  const drawText = (text: string, x: number, y: number, mode: "fill" | "stroke") => {
+    const font = parseFont()
+    measureCtx.font = ctx.font
+    const width = measureCtx.measureText(text).width
+    const baselineY = y + getAlphabeticOffset(text, font.size)
+    const anchor =
+      ctx.textAlign === "center" ? "middle" : ctx.textAlign === "right" || ctx.textAlign === "end" ? "end" : null
+    const left = anchor === "middle" ? x - width / 2 : anchor === "end" ? x - width : x
+    const [a, b, c, d, e, f] = matrix
+    const isTranslation = a === 1 && b === 0 && c === 0 && d === 1
+    emit(
+      "text",
+      {
+        x: isTranslation ? x + e : x,
+        y: isTranslation ? baselineY + f : baselineY,
+        transform: isTranslation ? null : `matrix(${[a, b, c, d, e, f].map(formatNumber).join(" ")})`,
+        "font-family": font.family,
+        "font-size": font.size,
+        "font-weight": font.weight,
+        "font-style": font.fontStyle,
+        "text-anchor": anchor,
+        ...(mode === "fill" ? getFillAttributes() : getStrokeAttributes()),
+      },
+      text,
+    )
+    const area = [
+      applyMatrix(matrix, left, baselineY - font.size),
+      applyMatrix(matrix, left + width, baselineY - font.size),
+      applyMatrix(matrix, left + width, baselineY + font.size * 0.25),
+      applyMatrix(matrix, left, baselineY + font.size * 0.25),
+    ].reduce<SvgBounds | null>((acc, point) => extendBounds(acc, point.x, point.y), null)
+    trackBounds(area)
+  }
+
+  const ctx = {
+    ...DEFAULT_STYLE,
+    save() {
+      stack.push({ style: readStyle(), matrix, lineDash, clipId })
+    },
+    restore() {
+      const saved = stack.pop()
+      if (!saved) return
+      Object.assign(ctx, saved.style)
+      matrix = saved.matrix
+      lineDash = saved.lineDash
+      clipId = saved.clipId
+    },
+    translate(x: number, y: number) {
+      matrix = multiplyMatrix(matrix, [1, 0, 0, 1, x, y])
+    },
+    scale(x: number, y: number) {
+      matrix = multiplyMatrix(matrix, [x, 0, 0, y, 0, 0])
+    },
+    rotate(angle: number) {
+      const cos = Math.cos(angle)
+      const sin = Math.sin(angle)
+      matrix = multiplyMatrix(matrix, [cos, sin, -sin, cos, 0, 0])
+    },
+    setLineDash(segments: number[]) {
+      lineDash = [...segments]
+    },
+    getLineDash() {
+      return [...lineDash]
+    },
+    createLinearGradient(x0: number, y0: number, x1: number, y1: number): SvgGradient {
+      const gradient: SvgGradient = {
+        x0,
+        y0,
+        x1,
+        y1,
+        stops: [],
+        addColorStop: (offset, color) => {
+          gradient.stops.push({ offset, color })
+        },
+      }
+      return gradient
+    },
+    measureText(text: string) {
+      measureCtx.font = ctx.font
+      return measureCtx.measureText(text)
+    },
+    beginPath() {
+      pathData = []
+      pathBounds = null
+      currentPoint = null
+      subpathStart = null
+    },
+    moveTo(x: number, y: number) {
+      addPoint("M", x, y)
+    },
+    lineTo(x: number, y: number) {
+      addPoint(currentPoint ? "L" : "M", x, y)
+    },
+    quadraticCurveTo(cpx: number, cpy: number, x: number, y: number) {
+      if (!currentPoint) addPoint("M", cpx, cpy)
+      const control = applyMatrix(matrix, cpx, cpy)
+      const end = applyMatrix(matrix, x, y)
+      pathData.push(
+        `Q${formatNumber(control.x)} ${formatNumber(control.y)} ${formatNumber(end.x)} ${formatNumber(end.y)}`,
+      )
+      pathBounds = extendBounds(extendBounds(pathBounds, control.x, control.y), end.x, end.y)
+      currentPoint = end
+    },
+    arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+      const direction = counterclockwise ? -1 : 1
+      const rawSweep = (endAngle - startAngle) * direction
+      const sweep = rawSweep >= TAU ? TAU : ((rawSweep % TAU) + TAU) % TAU
+      addPoint(currentPoint ? "L" : "M", x + radius * Math.cos(startAngle), y + radius * Math.sin(startAngle))
+      const r = formatNumber(radius * getMatrixScale(matrix))
+      const [a, b, c, d] = matrix
+      const sweepFlag = (direction > 0) === a * d - b * c > 0 ? 1 : 0
+      // SVG cannot close an arc on itself, so full circles are split into half turns.
+      const segments = Math.max(1, Math.ceil(sweep / Math.PI))
+      for (let i = 1; i <= segments && sweep > 0; i++) {
+        const angle = startAngle + direction * (sweep * i) / segments
+        const point = applyMatrix(matrix, x + radius * Math.cos(angle), y + radius * Math.sin(angle))
+        pathData.push(`A${r} ${r} 0 0 ${sweepFlag} ${formatNumber(point.x)} ${formatNumber(point.y)}`)
+        currentPoint = point
+      }
+      const center = applyMatrix(matrix, x, y)
+      pathBounds = extendBounds(pathBounds, center.x, center.y, radius * getMatrixScale(matrix))
+    },
+    rect(x: number, y: number, width: number, height: number) {
+      addPoint("M", x, y)
+      addPoint("L", x + width, y)
+      addPoint("L", x + width, y + height)
+      addPoint("L", x, y + height)
+      ctx.closePath()
+      addPoint("M", x, y)
+    },
+    closePath() {
+      if (!currentPoint) return
+      pathData.push("Z")
+      currentPoint = subpathStart
+    },
+    fill() {
+      if (pathData.length === 0) return
+      emit("path", { d: pathData.join(""), ...getFillAttributes() })
+      trackBounds(pathBounds)
+    },
+    stroke() {
+      if (pathData.length === 0) return
+      emit("path", { d: pathData.join(""), ...getStrokeAttributes() })
+      trackBounds(pathBounds, (ctx.lineWidth * getMatrixScale(matrix)) / 2)
+    },
+    clip() {
+      const id = `clip-${++defCount}`
+      const parent = clipId ? ` clip-path="url(#${clipId})"` : ""
+      defs.push(`<clipPath id="${id}"${parent}><path d="${pathData.join("")}"/></clipPath>`)
+      clipId = id
+    },
+    fillRect(x: number, y: number, width: number, height: number) {
+      const { d, area } = getRectPath(x, y, width, height)
+      emit("path", { d, ...getFillAttributes() })
+      trackBounds(area)
+    },
+    strokeRect(x: number, y: number, width: number, height: number) {
+      const { d, area } = getRectPath(x, y, width, height)
+      emit("path", { d, ...getStrokeAttributes() })
+      trackBounds(area, (ctx.lineWidth * getMatrixScale(matrix)) / 2)
+    },
+    fillText(text: string, x: number, y: number) {
+      drawText(text, x, y, "fill")
+    },
+    strokeText(text: string, x: number, y: number) {
+      drawText(text, x, y, "stroke")
+    },
+  }
+
+  function readStyle(): SvgStyleState {
+    return {
+      fillStyle: ctx.fillStyle,
+      strokeStyle: ctx.strokeStyle,
+      lineWidth: ctx.lineWidth,
+      lineCap: ctx.lineCap,
+      lineJoin: ctx.lineJoin,
+      font: ctx.font,
+      textAlign: ctx.textAlign,
+      textBaseline: ctx.textBaseline,
+      globalAlpha: ctx.globalAlpha,
+    }
+  }
+
+  return {
+    ctx,
+    setLayer: (next: SvgLayer) => {
+      layer = next
+    },
+    getBounds: () => bounds,
+    getLayers: () => layers,
+    getDefs: () => defs,
+  }
+}
+
+export function getOverviewSvgFilename(layout: LayoutData) {
+  const projectName = layout.project.name?.trim() || "NC"
+  return `${projectName} - OVERVIEW.svg`
+}
+
+// `measureCtx` only measures text, so labels, badges and dimension boxes size exactly as on the canvas.
+export function renderOverviewSvg(layout: LayoutData, measureCtx: CanvasRenderingContext2D) {
+  const layoutBounds = getLayoutBounds(layout)
+  const widthMm = Math.max(1, layoutBounds.width)
+  const heightMm = Math.max(1, layoutBounds.height)
+  const fitZoom = Math.min(REFERENCE_VIEW_WIDTH_PX / widthMm, REFERENCE_VIEW_HEIGHT_PX / heightMm)
+  // Labels, feed boxes and dimensions sit outside the cabinets; the final view box is cropped to what was drawn.
+  const spreadMm = Math.max(widthMm, heightMm)
+  const originX = layoutBounds.minX - spreadMm
+  const originY = layoutBounds.minY - spreadMm
+  const recorder = createSvgRecorder(measureCtx, originX, originY)
+
+  drawOverview(recorder.ctx as unknown as CanvasRenderingContext2D, layout, {
+    zoom: 1,
+    panX: -originX,
+    panY: -originY,
+    viewportWidth: widthMm + spreadMm * 2,
+    viewportHeight: heightMm + spreadMm * 2,
+    showGrid: true,
+    showOrigin: false,
+    labelsMode: layout.project.overview.labelsMode,
+    showCabinetLabels: layout.project.overview.showCabinetLabels,
+    showDimensions: true,
+    showPixels: layout.project.overview.showPixels,
+    showReceiverCards: layout.project.overview.showReceiverCards,
+    showDataRoutes: layout.project.overview.showDataRoutes,
+    showPowerRoutes: layout.project.overview.showPowerRoutes,
+    showModuleGrid: layout.project.overview.showModuleGrid,
+    forcePortLabelsBottom: layout.project.overview.forcePortLabelsBottom,
+    uiScale: 1 / fitZoom,
+    palette: PRINT_OVERVIEW_PALETTE,
+    onLayer: recorder.setLayer,
+  })
+
+  const drawn = recorder.getBounds() ?? {
+    minX: layoutBounds.minX,
+    minY: layoutBounds.minY,
+    maxX: layoutBounds.maxX,
+    maxY: layoutBounds.maxY,
+  }
+  const viewBox = [
+    drawn.minX - SVG_MARGIN_MM,
+    drawn.minY - SVG_MARGIN_MM,
+    drawn.maxX - drawn.minX + SVG_MARGIN_MM * 2,
+    drawn.maxY - drawn.minY + SVG_MARGIN_MM * 2,
+  ]
+  const groups = Array.from(recorder.getLayers(), ([id, elements]) => `<g id="${id}">\n${elements.join("\n")}\n</g>`)
+  const defs = recorder.getDefs()
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg"${formatAttributes({
+      width: `${formatNumber(viewBox[2])}mm`,
+      height: `${formatNumber(viewBox[3])}mm`,
+      viewBox: viewBox.map(formatNumber).join(" "),
+    })}>`,
+    `<title>${escapeXml(layout.project.name || "Overview")}</title>`,
+    ...(defs.length > 0 ? [`<defs>\n${defs.join("\n")}\n</defs>`] : []),
+    ...groups,
+    `</svg>`,
+    "",
+  ].join("\n")
+}
+
+export function exportOverviewSvg(layout: LayoutData) {
+  const measureCtx = document.createElement("canvas").getContext("2d")
+  if (!measureCtx) return
+  const svg = renderOverviewSvg(layout, measureCtx)
+  downloadBlob(new Blob([svg], { type: "image/svg+xml" }), getOverviewSvgFilename(layout))
+}
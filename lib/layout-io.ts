@@ -1,6 +1,7 @@
 import { DEFAULT_LAYOUT, type CabinetType, type LayoutData } from "./types"
 import { coerceModeModuleSize, coerceModePitch, coerceProjectMode, getModeCabinetTypes } from "./modes"
 import { getDefaultOutdoorLvBoxCabinetId } from "./controller-utils"
+import { migrateLayout } from "./layout-migrations"
 
 function inferCabinetTypeFromId(typeId: string): CabinetType | null {
   const match = typeId.match(/(\d+)\s*x\s*(\d+)/i)
@@ -15,10 +16,10 @@ function inferCabinetTypeFromId(typeId: string): CabinetType | null {
   }
 }
 
-export function normalizeLayout(input: LayoutData): LayoutData {
+// Throws when the layout comes from a newer schema version than this editor understands.
+export function normalizeLayout(rawInput: LayoutData): LayoutData {
+  const input = migrateLayout(rawInput) as LayoutData
   const mode = coerceProjectMode((input.project as { mode?: unknown } | undefined)?.mode)
-  const legacyControllerLabel = (input.project as { exportSettings?: { controllerLabel?: string } } | undefined)
-    ?.exportSettings?.controllerLabel
   const defaultOverview = DEFAULT_LAYOUT.project.overview
   const incomingOverview = input.project?.overview
   const mappingNumbers = {
@@ -49,10 +50,12 @@ export function normalizeLayout(input: LayoutData): LayoutData {
     exportSettings: { ...DEFAULT_LAYOUT.project.exportSettings, ...input.project?.exportSettings },
     dataRoutes: input.project?.dataRoutes ?? DEFAULT_LAYOUT.project.dataRoutes,
     powerFeeds: input.project?.powerFeeds ?? DEFAULT_LAYOUT.project.powerFeeds,
-    controllerLabel: input.project?.controllerLabel ?? legacyControllerLabel ?? DEFAULT_LAYOUT.project.controllerLabel,
+    controllers: input.project?.controllers?.length ? input.project.controllers : DEFAULT_LAYOUT.project.controllers,
   }
-  const requestedPlacement = input.project?.controllerPlacement
-  const effectivePlacement = requestedPlacement ?? (mode === "outdoor" ? "cabinet" : DEFAULT_LAYOUT.project.controllerPlacement)
+  const [mainController, ...otherControllers] = project.controllers
+  const requestedPlacement = mainController.placement
+  const effectivePlacement =
+    requestedPlacement ?? (mode === "outdoor" ? "cabinet" : DEFAULT_LAYOUT.project.controllers[0].placement)
   const coercedPitch = coerceModePitch(mode, project.pitch_mm, project.pitch_is_gob)
   const coercedModuleSize = coerceModeModuleSize(mode, project.overview.moduleSize)
   const normalizedProject = {
@@ -80,7 +83,7 @@ export function normalizeLayout(input: LayoutData): LayoutData {
   })
   const resolvedCabinetTypes = Array.from(resolvedCabinetTypesById.values())
   const cabinetIds = new Set(cabinets.map((cabinet) => cabinet.id))
-  const requestedCabinetId = normalizedProject.controllerCabinetId
+  const requestedCabinetId = mainController.cabinetId
   const wantsCabinetController = effectivePlacement === "cabinet"
   const hasRequestedCabinet = !!requestedCabinetId && cabinetIds.has(requestedCabinetId)
   const fallbackOutdoorCabinetId =
@@ -101,8 +104,14 @@ export function normalizeLayout(input: LayoutData): LayoutData {
   return {
     ...DEFAULT_LAYOUT,
     ...input,
-    schemaVersion: Math.max(input.schemaVersion ?? 1, DEFAULT_LAYOUT.schemaVersion),
-    project: { ...normalizedProject, controllerPlacement, controllerCabinetId },
+    schemaVersion: input.schemaVersion,
+    project: {
+      ...normalizedProject,
+      controllers: [
+        { ...mainController, placement: controllerPlacement, cabinetId: controllerCabinetId },
+        ...otherControllers,
+      ],
+    },
     cabinetTypes: resolvedCabinetTypes,
     cabinets,
   }
@@ -0,0 +1,102 @@
+import { DEFAULT_LAYOUT } from "./types"
+import { MAIN_CONTROLLER_ID } from "./controllers"
+
+export const CURRENT_LAYOUT_SCHEMA_VERSION = DEFAULT_LAYOUT.schemaVersion
+
+type RawProject = Record<string, unknown> & { exportSettings?: Record<string, unknown> }
+type RawLayout = Record<string, unknown>
+
+interface LayoutMigration {
+  from: number
+  description: string
+  migrate: (input: RawLayout) => RawLayout
+}
+
+function isRawObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// Ordered chain: each step upgrades a file from `from` to `from + 1`. Steps only reshape what they move and leave
+// the rest to the import check, so they must cope with malformed input.
+//
+// New optional project fields that older files simply lack (controllerModels, receiverCardModels, cabling, bomParts,
+// quote, powerDistros, breakerModels, connectorModels, powerReport, extra exportSettings flags) need no step: every
+// reader treats a missing value as "use the built-in default", which is what those files meant. Renaming, moving or
+// changing the meaning of a stored field needs a step and a version bump.
+const LAYOUT_MIGRATIONS: LayoutMigration[] = [
+  {
+    from: 1,
+    description: "Move exportSettings.controllerLabel to project.controllerLabel",
+    migrate: (input) => {
+      if (!isRawObject(input.project) || !isRawObject(input.project.exportSettings)) return input
+      const { controllerLabel: legacyLabel, ...exportSettings } = input.project.exportSettings
+      const project: RawProject = { ...input.project, exportSettings }
+      if (project.controllerLabel === undefined && typeof legacyLabel === "string") {
+        project.controllerLabel = legacyLabel
+      }
+      return { ...input, project }
+    },
+  },
+  {
+    from: 2,
+    description: "Introduce project modes (older files are indoor layouts)",
+    migrate: (input) => {
+      if (!isRawObject(input.project) || input.project.mode !== undefined) return input
+      return { ...input, project: { ...input.project, mode: "indoor" } }
+    },
+  },
+  {
+    from: 3,
+    description: "Move the flat controller fields and extraControllers into project.controllers",
+    migrate: (input) => {
+      if (!isRawObject(input.project) || input.project.controllers !== undefined) return input
+      const {
+        controller,
+        controllerLabel,
+        controllerPlacement,
+        controllerCabinetId,
+        extraControllers,
+        ...project
+      } = input.project
+      const main: Record<string, unknown> = {
+        id: MAIN_CONTROLLER_ID,
+        model: controller ?? DEFAULT_LAYOUT.project.controllers[0].model,
+      }
+      if (controllerLabel !== undefined) main.label = controllerLabel
+      if (controllerPlacement !== undefined) main.placement = controllerPlacement
+      if (controllerCabinetId !== undefined) main.cabinetId = controllerCabinetId
+      const extras = Array.isArray(extraControllers) ? extraControllers : []
+      return { ...input, project: { ...project, controllers: [main, ...extras] } }
+    },
+  },
+]
+
+export function getLayoutSchemaVersion(input: unknown) {
+  const version = isRawObject(input) ? input.schemaVersion : undefined
+  if (typeof version !== "number" || !Number.isFinite(version) || version < 1) return 1
+  return Math.floor(version)
+}
+
+export function getLayoutSchemaVersionError(input: unknown): string | null {
+  const version = getLayoutSchemaVersion(input)
+  if (version <= CURRENT_LAYOUT_SCHEMA_VERSION) return null
+  return `This layout was saved with schema version ${version}, but this editor only understands up to version ${CURRENT_LAYOUT_SCHEMA_VERSION}. Update the editor to open it.`
+}
+
+// Works on raw JSON: checkLayoutSchema types the result once its schema passes; normalizeLayout gets saved layouts.
+export function migrateLayout(input: unknown): unknown {
+  const versionError = getLayoutSchemaVersionError(input)
+  if (versionError) throw new Error(versionError)
+  if (!isRawObject(input)) return input
+
+  let version = getLayoutSchemaVersion(input)
+  let migrated: RawLayout = input
+  while (version < CURRENT_LAYOUT_SCHEMA_VERSION) {
+    const step = LAYOUT_MIGRATIONS.find((migration) => migration.from === version)
+    if (!step) throw new Error(`Missing layout migration from schema version ${version}`)
+    migrated = step.migrate(migrated)
+    version += 1
+  }
+
+  return { ...migrated, schemaVersion: version }
+}
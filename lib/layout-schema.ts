@@ -0,0 +1,498 @@
+import { z } from "zod"
+import type { ControllerModel, LayoutData } from "./types"
+import { MAIN_CONTROLLER_ID } from "./controllers"
+import { getLayoutSchemaVersionError, migrateLayout } from "./layout-migrations"
+
+export interface LayoutSchemaIssue {
+  path: string
+  message: string
+  // What the import does about it: drop the item, remove or reset the field, coerce the value, or refuse the file.
+  action: "dropped" | "removed" | "reset" | "coerced" | "fatal"
+}
+
+export interface LayoutSchemaReport {
+  layout: LayoutData | null // repaired layout, null when nothing is importable
+  issues: LayoutSchemaIssue[]
+}
+
+type JsonObject = Record<string, unknown>
+type IssuePath = (string | number)[]
+
+// Optional fields are removed when invalid, fields with a default are reset to it, and an invalid required field
+// drops the list item that holds it. Objects keep fields the schema does not know about.
+
+function oneOf<T extends string | number>(values: readonly [T, ...T[]]) {
+  const [first, ...rest] = values.map((value) => z.literal(value))
+  const message = `Expected one of ${values.map((value) => JSON.stringify(value)).join(", ")}`
+  if (rest.length === 0) return first
+  return z.union([first, rest[0], ...rest.slice(1)], { errorMap: () => ({ message }) })
+}
+
+const positive = () => z.number().positive("Expected a positive number")
+const integer = () => z.number().int("Expected an integer")
+const labelPosition = () => oneOf(["auto", "top", "bottom", "left", "right"]).optional()
+
+const routeStepSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("cabinet"), endpointId: z.string() }),
+  z.object({ type: z.literal("point"), x_mm: z.number(), y_mm: z.number() }),
+])
+
+const cabinetTypeSchema = z
+  .object({
+    typeId: z.string(),
+    width_mm: positive(),
+    height_mm: positive(),
+    depth_mm: positive().optional(),
+    cadKey: z.string().optional(),
+    description: z.string().optional(),
+    maxPowerW: positive().optional(),
+    typicalPowerW: positive().optional(),
+    weightKg: positive().optional(),
+  })
+  .passthrough()
+
+const cabinetSchema = z
+  .object({
+    id: z.string(),
+    typeId: z.string(),
+    x_mm: z.number(),
+    y_mm: z.number(),
+    rot_deg: oneOf([0, 90, 180, 270]).default(0),
+    screenId: z.string().optional(),
+    face: oneOf(["A", "B"]).optional(),
+    port: integer().optional(),
+    chainIndex: integer().optional(),
+    receiverCardCount: oneOf([0, 1, 2]).optional(),
+    receiverCardOverride: z.string().nullable().optional(),
+    dataAnchorOverride: z.object({ x: z.number(), y: z.number() }).optional(),
+    gridLabelOverride: z.string().optional(),
+  })
+  .passthrough()
+
+const dataRouteSchema = z
+  .object({
+    id: z.string(),
+    port: integer(),
+    cabinetIds: z.array(z.string()).default([]),
+    steps: z.array(routeStepSchema).optional(),
+    forcePortLabelBottom: z.boolean().optional(),
+    labelPosition: labelPosition(),
+    manualMode: z.boolean().optional(),
+    controllerId: z.string().optional(),
+    backupForRouteId: z.string().optional(),
+  })
+  .passthrough()
+
+const powerFeedSchema = z
+  .object({
+    id: z.string(),
+    label: z.string().default(""),
+    customLabel: z.string().optional(),
+    breaker: z.string().optional(),
+    connector: z.string().default(""),
+    consumptionW: z.number().default(0),
+    loadOverrideW: z.number().optional(),
+    assignedCabinetIds: z.array(z.string()).default([]),
+    steps: z.array(routeStepSchema).optional(),
+    manualMode: z.boolean().optional(),
+    connectLvBox: z.boolean().optional(),
+    positionX: z.number().optional(),
+    labelPosition: labelPosition(),
+    distroId: z.string().optional(),
+    phase: oneOf(["L1", "L2", "L3"]).optional(),
+  })
+  .passthrough()
+
+const powerDistroSchema = z
+  .object({
+    id: z.string(),
+    label: z.string().default(""),
+    phaseVoltageV: positive(),
+    ratedCurrentA: positive(),
+  })
+  .passthrough()
+
+const breakerModelSchema = z
+  .object({
+    id: z.string(),
+    voltageV: positive(),
+    currentA: positive(),
+    derating: positive().default(0.8),
+  })
+  .passthrough()
+
+const connectorModelSchema = z
+  .object({
+    id: z.string(),
+    maxCurrentA: positive(),
+    maxChainLength: integer(),
+  })
+  .passthrough()
+
+const controllerModelSchema = z
+  .object({
+    id: z.string(),
+    ports: integer(),
+    perPortMaxPx: positive(),
+    totalMaxPx: positive(),
+    maxWidthPx: positive().optional(),
+    maxHeightPx: positive().optional(),
+  })
+  .passthrough()
+
+const projectControllerSchema = z
+  .object({
+    id: z.string(),
+    model: z.string(),
+    label: z.string().optional(),
+    placement: oneOf(["external", "cabinet"]).optional(),
+    cabinetId: z.string().optional(),
+  })
+  .passthrough()
+
+const receiverCardModelSchema = z
+  .object({
+    id: z.string(),
+    label: z.string(),
+    width_px: positive().optional(),
+    height_px: positive().optional(),
+  })
+  .passthrough()
+
+const bomPartSchema = z
+  .object({
+    key: z.string(),
+    partNumber: z.string().optional(),
+    description: z.string().optional(),
+    unitPrice: z.number().optional(),
+    sparePercent: z.number().optional(),
+  })
+  .passthrough()
+
+const gridSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    step_mm: positive().optional(),
+  })
+  .passthrough()
+
+const overviewSchema = z
+  .object({
+    showReceiverCards: z.boolean().optional(),
+    receiverCardModel: z.string().optional(),
+    labelsMode: oneOf(["internal", "grid"]).optional(),
+    showCabinetLabels: z.boolean().optional(),
+    gridLabelAxis: oneOf(["columns", "rows"]).optional(),
+    showPixels: z.boolean().optional(),
+    showDataRoutes: z.boolean().optional(),
+    forcePortLabelsBottom: z.boolean().optional(),
+    showPowerRoutes: z.boolean().optional(),
+    showModuleGrid: z.boolean().optional(),
+    numberOfDisplays: integer().optional(),
+    moduleSize: z.string().optional(),
+    moduleOrientation: oneOf(["landscape", "portrait"]).optional(),
+    mappingNumbers: z.record(z.unknown()).optional(),
+  })
+  .passthrough()
+
+const cablingSchema = z
+  .object({
+    jumperSlackMm: z.number().optional(),
+    serviceLoopMm: z.number().optional(),
+    controllerDistanceMm: z.number().optional(),
+  })
+  .passthrough()
+
+const quoteSchema = z
+  .object({
+    currency: z.string().optional(),
+    marginPercent: z.number().optional(),
+    labourPerCabinet: z.number().optional(),
+    labourPerRoute: z.number().optional(),
+  })
+  .passthrough()
+
+const powerReportSchema = z
+  .object({
+    typicalDutyPercent: z.number().optional(),
+    standbyPercent: z.number().optional(),
+    voltageV: positive().optional(),
+  })
+  .passthrough()
+
+const exportSettingsSchema = z
+  .object({
+    pageSize: oneOf(["A4", "A3"]).optional(),
+    orientation: oneOf(["portrait", "landscape"]).optional(),
+    viewSide: oneOf(["front", "back"]).optional(),
+    title: z.string().optional(),
+    clientName: z.string().optional(),
+    showLegend: z.boolean().optional(),
+    doubleSidedTitle: z.boolean().optional(),
+    showBom: z.boolean().optional(),
+    showQuote: z.boolean().optional(),
+    showCadViews: z.boolean().optional(),
+    drawingSet: z.boolean().optional(),
+    showPowerReport: z.boolean().optional(),
+    pdfOutput: oneOf(["vector", "raster"]).optional(),
+  })
+  .passthrough()
+
+const projectSchema = z
+  .object({
+    name: z.string().default("NC"),
+    client: z.string().optional(),
+    mode: oneOf(["indoor", "die-cast", "outdoor"]).optional(),
+    units: oneOf(["mm"]).optional(),
+    pitch_mm: positive().optional(),
+    pitch_is_gob: z.boolean().optional(),
+    outdoorHardwareProfile: oneOf(["standard", "nova"]).optional(),
+    controllers: z
+      .array(projectControllerSchema)
+      .min(1, "Needs at least one controller")
+      .default(() => [{ id: MAIN_CONTROLLER_ID, model: "A100", label: "", placement: "external" as const }]),
+    controllerModels: z.array(controllerModelSchema).optional(),
+    receiverCardModels: z.array(receiverCardModelSchema).optional(),
+    bomParts: z.array(bomPartSchema).optional(),
+    powerDistros: z.array(powerDistroSchema).optional(),
+    breakerModels: z.array(breakerModelSchema).optional(),
+    connectorModels: z.array(connectorModelSchema).optional(),
+    grid: gridSchema.optional(),
+    overview: overviewSchema.optional(),
+    exportSettings: exportSettingsSchema.optional(),
+    cabling: cablingSchema.optional(),
+    quote: quoteSchema.optional(),
+    powerReport: powerReportSchema.optional(),
+    dataRoutes: z.array(dataRouteSchema).optional(),
+    powerFeeds: z.array(powerFeedSchema).optional(),
+  })
+  .passthrough()
+
+const layoutSchema = z
+  .object({
+    project: projectSchema,
+    cabinetTypes: z.array(cabinetTypeSchema).optional(),
+    cabinets: z.array(cabinetSchema).default([]),
+  })
+  .passthrough()
+
+const controllerLibrarySchema = z.array(controllerModelSchema)
+
+// Names used when a whole list item is skipped, keyed by the list's field name.
+const ITEM_LABELS: Record<string, string> = {
+  cabinets: "Cabinet",
+  cabinetTypes: "Cabinet type",
+  dataRoutes: "Data route",
+  powerFeeds: "Power feed",
+  steps: "Route step",
+  controllers: "Controller",
+  controllerModels: "Controller model",
+  receiverCardModels: "Receiver card model",
+  bomParts: "BOM part",
+  powerDistros: "Power distro",
+  breakerModels: "Breaker model",
+  connectorModels: "Connector model",
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function describeValue(value: unknown) {
+  if (value === undefined) return "nothing"
+  if (value === null) return "null"
+  if (Array.isArray(value)) return value.length === 0 ? "an empty list" : "an array"
+  if (typeof value === "string") return `"${value.length > 24 ? `${value.slice(0, 24)}…` : value}"`
+  if (typeof value === "object") return "an object"
+  return String(value)
+}
+
+function toFiniteNumber(value: unknown) {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value)
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  return null
+}
+
+function formatPath(root: string, path: IssuePath) {
+  const formatted = path.reduce<string>(
+    (result, key) => (typeof key === "number" ? `${result}[${key}]` : result ? `${result}.${key}` : key),
+    root,
+  )
+  return formatted || "$"
+}
+
+function isWithin(path: IssuePath, ancestor: IssuePath) {
+  return ancestor.length <= path.length && ancestor.every((key, index) => path[index] === key)
+}
+
+function getValueAt(value: unknown, path: IssuePath) {
+  return path.reduce<unknown>((current, key) => (current as Record<string | number, unknown> | null)?.[key], value)
+}
+
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrapSchema(schema.unwrap())
+  if (schema instanceof z.ZodDefault) return unwrapSchema(schema.removeDefault())
+  return schema
+}
+
+// Follows an issue path through the schema; `value` is the data at the same level, to pick the union branch.
+function getSchemaAt(schema: z.ZodTypeAny, value: unknown, path: IssuePath): z.ZodTypeAny | undefined {
+  if (path.length === 0) return schema
+  const [key, ...rest] = path
+  const inner = unwrapSchema(schema)
+  const child = (value as Record<string | number, unknown> | null | undefined)?.[key]
+  if (inner instanceof z.ZodArray) return getSchemaAt(inner.element, child, rest)
+  if (inner instanceof z.ZodRecord) return getSchemaAt(inner.valueSchema, child, rest)
+  if (inner instanceof z.ZodObject && typeof key === "string") {
+    const field = inner.shape[key] as z.ZodTypeAny | undefined
+    return field && getSchemaAt(field, child, rest)
+  }
+  if (inner instanceof z.ZodDiscriminatedUnion && isObject(value)) {
+    const option = inner.optionsMap.get(value[inner.discriminator] as string)
+    return option && getSchemaAt(option, value, path)
+  }
+  return undefined
+}
+
+interface Repair {
+  target: IssuePath
+  action: LayoutSchemaIssue["action"]
+  value?: unknown
+}
+
+// Walks up from the failing field until something can give way: coerce, reset or remove the field, or drop the list
+// item holding it. Reaching the root means the input cannot be repaired.
+function planRepair(schema: z.ZodTypeAny, data: unknown, path: IssuePath): Repair {
+  for (let depth = path.length; depth > 0; depth -= 1) {
+    const target = path.slice(0, depth)
+    if (Array.isArray(getValueAt(data, target.slice(0, -1)))) return { target, action: "dropped" }
+    const field = getSchemaAt(schema, data, target)
+    if (!field) continue
+    const value = getValueAt(data, target)
+    const numeric = typeof value === "string" ? toFiniteNumber(value) : null
+    if (depth === path.length && numeric !== null && field.safeParse(numeric).success) {
+      return { target, action: "coerced", value: numeric }
+    }
+    if (field instanceof z.ZodDefault) return { target, action: "reset", value: field._def.defaultValue() }
+    if (field.isOptional()) return { target, action: "removed" }
+  }
+  return { target: [], action: "fatal" }
+}
+
+function describeIssue(issue: z.ZodIssue, value: unknown) {
+  if (issue.code === z.ZodIssueCode.invalid_type) {
+    if (issue.received === "undefined") return "is required"
+    const article = /^[aeiou]/.test(issue.expected) ? "an" : "a"
+    return `expected ${article} ${issue.expected}, got ${describeValue(value)}`
+  }
+  return `${issue.message.charAt(0).toLowerCase()}${issue.message.slice(1)}, got ${describeValue(value)}`
+}
+
+function applyRepair(data: unknown, repair: Repair) {
+  const parent = getValueAt(data, repair.target.slice(0, -1)) as Record<string | number, unknown> | unknown[]
+  const key = repair.target[repair.target.length - 1]
+  if (repair.action === "dropped" && Array.isArray(parent)) parent.splice(key as number, 1)
+  else if (repair.action === "removed") delete (parent as Record<string | number, unknown>)[key]
+  else (parent as Record<string | number, unknown>)[key] = repair.value
+}
+
+// Outermost targets only, deepest first and from the end of each list, so one splice never shifts another target.
+function getDropTargets(targets: IssuePath[]) {
+  const unique = Array.from(new Map(targets.map((target) => [formatPath("", target), target])).values())
+  return unique
+    .filter((target) => !unique.some((other) => other.length < target.length && isWithin(target, other)))
+    .sort((a, b) => b.length - a.length || (b[b.length - 1] as number) - (a[a.length - 1] as number))
+}
+
+// Parses `input` against `schema`, repairing what the issues point at until it passes. A few passes are enough: a pass
+// only leaves new issues behind when a repair exposes a field the previous parse could not reach.
+function repairWithSchema<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  input: unknown,
+  root: string,
+  rootItemLabel = "Item",
+): { value: T | null; issues: LayoutSchemaIssue[] } {
+  const issues: LayoutSchemaIssue[] = []
+  const data = structuredClone(input)
+
+  for (let pass = 0; pass < 8; pass += 1) {
+    const parsed = schema.safeParse(data)
+    if (parsed.success) return { value: parsed.data, issues }
+
+    const repairs = parsed.error.issues.map((issue) => ({ issue, repair: planRepair(schema, data, issue.path) }))
+    const fatal = repairs.find(({ repair }) => repair.action === "fatal")
+    if (fatal) {
+      const value = getValueAt(data, fatal.issue.path)
+      issues.push({ path: formatPath(root, fatal.issue.path), message: describeIssue(fatal.issue, value), action: "fatal" })
+      return { value: null, issues }
+    }
+
+    const drops = getDropTargets(repairs.filter(({ repair }) => repair.action === "dropped").map(({ repair }) => repair.target))
+    const isDropped = (path: IssuePath) => drops.some((target) => isWithin(path, target))
+    const skippedItems = new Map<string, { target: IssuePath; after: number }>()
+    repairs.forEach(({ issue, repair }) => {
+      const action = isDropped(issue.path) ? "dropped" : repair.action
+      issues.push({ path: formatPath(root, issue.path), message: describeIssue(issue, getValueAt(data, issue.path)), action })
+      if (action === "dropped" && repair.target.length < issue.path.length) {
+        skippedItems.set(formatPath(root, repair.target), { target: repair.target, after: issues.length })
+      }
+    })
+    // An item dropped for a bad field gets its own line after that field's issues.
+    Array.from(skippedItems.entries())
+      .sort(([, a], [, b]) => b.after - a.after)
+      .forEach(([path, { target, after }]) => {
+        const listKey = target[target.length - 2]
+        const label = typeof listKey === "string" ? (ITEM_LABELS[listKey] ?? "Item") : rootItemLabel
+        issues.splice(after, 0, { path, message: `${label} skipped because required fields are invalid`, action: "dropped" })
+      })
+
+    repairs
+      .filter(({ repair }) => repair.action !== "dropped" && !isDropped(repair.target))
+      .forEach(({ repair }) => applyRepair(data, repair))
+    drops.forEach((target) => applyRepair(data, { target, action: "dropped" }))
+  }
+
+  issues.push({ path: root || "$", message: "could not be repaired", action: "fatal" })
+  return { value: null, issues }
+}
+
+// Structural check for imported layouts: reports every problem with its JSON path and returns the repairable parts.
+// Older files are migrated first, so the schema only describes the current version.
+export function checkLayoutSchema(input: unknown): LayoutSchemaReport {
+  if (!isObject(input)) {
+    return { layout: null, issues: [{ path: "$", message: `expected a layout object, got ${describeValue(input)}`, action: "fatal" }] }
+  }
+
+  const versionError = getLayoutSchemaVersionError(input)
+  if (versionError) {
+    return { layout: null, issues: [{ path: "schemaVersion", message: versionError, action: "fatal" }] }
+  }
+
+  const missingCabinets: LayoutSchemaIssue[] =
+    input.cabinets === undefined ? [{ path: "cabinets", message: "is missing; importing an empty layout", action: "reset" }] : []
+  const migrated = migrateLayout(input)
+  // Files older than version 4 get their controller list from the migration, so a missing one is a current-version gap.
+  const missingControllers: LayoutSchemaIssue[] =
+    isObject(migrated) && isObject(migrated.project) && migrated.project.controllers === undefined
+      ? [{ path: "project.controllers", message: "is missing; using the default controller", action: "reset" }]
+      : []
+  const { value, issues } = repairWithSchema(layoutSchema, migrated, "")
+  if (!value) return { layout: null, issues }
+  return { layout: value as unknown as LayoutData, issues: [...issues, ...missingCabinets, ...missingControllers] }
+}
+
+export function getUnreadableLayoutReport(message: string): LayoutSchemaReport {
+  return { layout: null, issues: [{ path: "$", message, action: "fatal" }] }
+}
+
+// Shared controller library files hold either a bare list of models or { controllerModels: [...] }.
+export function checkControllerLibrary(input: unknown): { models: ControllerModel[]; issues: LayoutSchemaIssue[] } {
+  const list = isObject(input) ? input.controllerModels : input
+  const root = isObject(input) ? "controllerModels" : ""
+  const { value, issues } = repairWithSchema(controllerLibrarySchema, list, root, "Controller model")
+  if (!value) return { models: [], issues: [{ ...issues[0], message: "expected a list of controller models" }] }
+  return { models: value as ControllerModel[], issues }
+}
@@ -0,0 +1,303 @@
+import type { CabinetType, LayoutData, ProjectMode } from "./types"
+import { getCabinetBounds, validateLayout } from "./validation"
+import { getPowerFeedDisplayLabel, getPowerFeedLoadW } from "./power-utils"
+import { getEffectivePitchMm } from "./pitch-utils"
+import { getOrientedModuleSize } from "./module-utils"
+import { getTotalizedPixelMatrixDimensions } from "./pixel-matrix"
+import { getControllerDisplayLabel, getProjectController, getRouteControllerId } from "./controllers"
+import { getDataRouteCabling } from "./cable-lengths"
+import { getDistroDisplayLabel, getProjectPhaseLoads } from "./power-phases"
+
+const WEIGHT_REF_AREA_MM2 = 1120 * 640
+const WEIGHT_REF_KG = 19
+// Die-cast cabinet density for export summaries.
+const DIE_CAST_WEIGHT_DENSITY_LB_M2 = 35.8
+const LB_PER_KG = 2.20462
+const INDOOR_WEIGHT_DENSITY_LB_M2 = (WEIGHT_REF_KG * LB_PER_KG) / (WEIGHT_REF_AREA_MM2 / 1_000_000)
+const WEIGHT_DENSITY_LB_M2_BY_MODE: Record<ProjectMode, number> = {
+  indoor: INDOOR_WEIGHT_DENSITY_LB_M2,
+  "die-cast": DIE_CAST_WEIGHT_DENSITY_LB_M2,
+  outdoor: 131,
+}
+
+// Datasheet weight when the type has one, otherwise the area estimate for the mode.
+export function getCabinetTypeWeightKg(type: CabinetType, mode: ProjectMode = "indoor") {
+  if (Number.isFinite(type.weightKg)) return type.weightKg as number
+  const densityLbM2 = WEIGHT_DENSITY_LB_M2_BY_MODE[mode] ?? WEIGHT_DENSITY_LB_M2_BY_MODE.indoor
+  return (((type.width_mm * type.height_mm) / 1_000_000) * densityLbM2) / LB_PER_KG
+}
+
+export function getTotalLayoutLoadW(layout: LayoutData) {
+  if (layout.cabinets.length === 0) return 0
+  return getPowerFeedLoadW(
+    {
+      id: "__layout__",
+      label: "",
+      connector: "",
+      consumptionW: 0,
+      assignedCabinetIds: layout.cabinets.map((cabinet) => cabinet.id),
+    },
+    layout.cabinets,
+    layout.cabinetTypes,
+    layout.project.mode ?? "indoor",
+  )
+}
+
+export function getTotalLayoutWeight(layout: LayoutData) {
+  const mode = layout.project.mode ?? "indoor"
+  const totalKg = layout.cabinets.reduce((sum, cabinet) => {
+    const type = layout.cabinetTypes.find((t) => t.typeId === cabinet.typeId)
+    return type ? sum + getCabinetTypeWeightKg(type, mode) : sum
+  }, 0)
+  return { totalKg, totalLb: totalKg * LB_PER_KG }
+}
+
+export function getModuleSpec(layout: LayoutData) {
+  const moduleSize = layout.project.overview.moduleSize
+  const moduleOrientation = layout.project.overview.moduleOrientation
+  const { baseModule, moduleWidth, moduleHeight } = getOrientedModuleSize(moduleSize, moduleOrientation)
+  return { baseModule, moduleWidth, moduleHeight, moduleOrientation }
+}
+
+export function getTotalModuleCount(layout: LayoutData) {
+  const { moduleWidth, moduleHeight } = getModuleSpec(layout)
+  if (!moduleWidth || !moduleHeight) return 0
+  return layout.cabinets.reduce((sum, cabinet) => {
+    const bounds = getCabinetBounds(cabinet, layout.cabinetTypes)
+    if (!bounds) return sum
+    const cols = Math.max(0, Math.round(bounds.width / moduleWidth))
+    const rows = Math.max(0, Math.round(bounds.height / moduleHeight))
+    return sum + cols * rows
+  }, 0)
+}
+
+export function getCabinetSizeCounts(layout: LayoutData) {
+  const counts = new Map<string, { width: number; height: number; count: number }>()
+  layout.cabinets.forEach((cabinet) => {
+    const bounds = getCabinetBounds(cabinet, layout.cabinetTypes)
+    if (!bounds) return
+    const width = Math.round(bounds.width)
+    const height = Math.round(bounds.height)
+    const key = `${width}x${height}`
+    const entry = counts.get(key)
+    if (entry) {
+      entry.count += 1
+    } else {
+      counts.set(key, { width, height, count: 1 })
+    }
+  })
+  return Array.from(counts.values()).sort((a, b) => {
+    const areaDiff = b.width * b.height - a.width * a.height
+    if (areaDiff !== 0) return areaDiff
+    if (b.width !== a.width) return b.width - a.width
+    return b.height - a.height
+  })
+}
+
+function areCabinetBoundsConnected(
+  a: { x: number; y: number; x2: number; y2: number },
+  b: { x: number; y: number; x2: number; y2: number },
+) {
+  const tolerance = 1 // 1mm tolerance for near-touching cabinets
+  const overlapX = a.x < b.x2 && a.x2 > b.x
+  const overlapY = a.y < b.y2 && a.y2 > b.y
+  if (overlapX && overlapY) return true
+
+  const horizontalTouch =
+    (Math.abs(a.x2 - b.x) <= tolerance || Math.abs(b.x2 - a.x) <= tolerance) && !(a.y2 <= b.y || b.y2 <= a.y)
+  const verticalTouch =
+    (Math.abs(a.y2 - b.y) <= tolerance || Math.abs(b.y2 - a.y) <= tolerance) && !(a.x2 <= b.x || b.x2 <= a.x)
+
+  return horizontalTouch || verticalTouch
+}
+
+export type ScreenSizeCount = { widthPx: number; heightPx: number; count: number }
+
+export function getScreenSizeCounts(layout: LayoutData): ScreenSizeCount[] {
+  const pitchMm = getEffectivePitchMm(layout.project.pitch_mm || 0)
+  if (!pitchMm || layout.cabinets.length === 0) {
+    return []
+  }
+
+  const cabinetBounds = layout.cabinets
+    .map((cabinet) => getCabinetBounds(cabinet, layout.cabinetTypes))
+    .filter((bounds): bounds is NonNullable<ReturnType<typeof getCabinetBounds>> => bounds !== null)
+
+  if (cabinetBounds.length === 0) {
+    return []
+  }
+
+  // Non-outdoor workflows expect one global matrix totalizing all cabinets,
+  // while ignoring physical spacing between disconnected groups.
+  if ((layout.project.mode ?? "indoor") !== "outdoor") {
+    const matrix = getTotalizedPixelMatrixDimensions(layout)
+
+    return [
+      {
+        widthPx: matrix.widthPx,
+        heightPx: matrix.heightPx,
+        count: 1,
+      },
+    ]
+  }
+
+  const visited = new Array(cabinetBounds.length).fill(false)
+  const counts = new Map<string, ScreenSizeCount>()
+
+  for (let i = 0; i < cabinetBounds.length; i++) {
+    if (visited[i]) continue
+    visited[i] = true
+
+    const queue = [i]
+    let minX = cabinetBounds[i].x
+    let minY = cabinetBounds[i].y
+    let maxX = cabinetBounds[i].x2
+    let maxY = cabinetBounds[i].y2
+
+    while (queue.length > 0) {
+      const currentIndex = queue.shift()
+      if (currentIndex === undefined) continue
+      const current = cabinetBounds[currentIndex]
+      minX = Math.min(minX, current.x)
+      minY = Math.min(minY, current.y)
+      maxX = Math.max(maxX, current.x2)
+      maxY = Math.max(maxY, current.y2)
+
+      for (let j = 0; j < cabinetBounds.length; j++) {
+        if (visited[j]) continue
+        if (!areCabinetBoundsConnected(current, cabinetBounds[j])) continue
+        visited[j] = true
+        queue.push(j)
+      }
+    }
+
+    const widthPx = Math.round((maxX - minX) / pitchMm)
+    const heightPx = Math.round((maxY - minY) / pitchMm)
+    const key = `${widthPx}x${heightPx}`
+    const entry = counts.get(key)
+    if (entry) {
+      entry.count += 1
+    } else {
+      counts.set(key, { widthPx, heightPx, count: 1 })
+    }
+  }
+
+  return Array.from(counts.values()).sort((a, b) => {
+    const areaDiff = b.widthPx * b.heightPx - a.widthPx * a.heightPx
+    if (areaDiff !== 0) return areaDiff
+    if (b.widthPx !== a.widthPx) return b.widthPx - a.widthPx
+    return b.heightPx - a.heightPx
+  })
+}
+
+
+export interface LayoutSummary {
+  project: {
+    name: string
+    client: string
+    mode: LayoutData["project"]["mode"]
+    pitchMm: number
+    gob: boolean
+    controller: string
+  }
+  cabinets: { total: number; sizes: { width: number; height: number; count: number }[] }
+  modules: { size: string; orientation: "landscape" | "portrait"; count: number }
+  pixelMatrix: ScreenSizeCount[]
+  power: {
+    totalW: number
+    feeds: {
+      id: string
+      label: string
+      breaker: string | null
+      loadW: number
+      cabinetCount: number
+      distroId?: string
+      phase?: string
+    }[]
+    distros: {
+      id: string
+      label: string
+      ratedCurrentA: number
+      imbalancePercent: number
+      phases: { phase: string; loadW: number; currentA: number }[]
+    }[]
+  }
+  weight: { kg: number; lb: number }
+  dataRoutes: {
+    id: string
+    controller: string
+    port: number
+    endpointCount: number
+    cableLengthM: number
+    backupFor?: string
+  }[]
+  dataCables: { routeId: string; from: string | null; to: string; lengthM: number }[] // from null = controller
+  validation: { errors: number; warnings: number; messages: string[] }
+}
+
+export function buildLayoutSummary(layout: LayoutData): LayoutSummary {
+  const mode = layout.project.mode ?? "indoor"
+  const { baseModule, moduleOrientation } = getModuleSpec(layout)
+  const { totalKg, totalLb } = getTotalLayoutWeight(layout)
+  const issues = validateLayout(layout)
+  const routeCabling = (layout.project.dataRoutes ?? []).map((route) => getDataRouteCabling(layout, route))
+  const toMeters = (lengthMm: number) => Math.round(lengthMm / 100) / 10
+
+  return {
+    project: {
+      name: layout.project.name?.trim() || "NC",
+      client: layout.project.client?.trim() ?? "",
+      mode,
+      pitchMm: layout.project.pitch_mm,
+      gob: layout.project.pitch_is_gob,
+      controller: layout.project.controllers.map(getControllerDisplayLabel).join(" + "),
+    },
+    cabinets: { total: layout.cabinets.length, sizes: getCabinetSizeCounts(layout) },
+    modules: {
+      size: `${baseModule.width}x${baseModule.height}`,
+      orientation: moduleOrientation,
+      count: getTotalModuleCount(layout),
+    },
+    pixelMatrix: getScreenSizeCounts(layout),
+    power: {
+      totalW: getTotalLayoutLoadW(layout),
+      feeds: (layout.project.powerFeeds ?? []).map((feed) => ({
+        id: feed.id,
+        label: getPowerFeedDisplayLabel(feed),
+        breaker: feed.breaker ?? null,
+        loadW: getPowerFeedLoadW(feed, layout.cabinets, layout.cabinetTypes, mode),
+        cabinetCount: feed.assignedCabinetIds.length,
+        ...(feed.distroId && feed.phase ? { distroId: feed.distroId, phase: feed.phase } : {}),
+      })),
+      distros: getProjectPhaseLoads(layout).map((loads) => ({
+        id: loads.distro.id,
+        label: getDistroDisplayLabel(loads.distro),
+        ratedCurrentA: loads.distro.ratedCurrentA,
+        imbalancePercent: loads.imbalancePercent,
+        phases: loads.phases.map(({ phase, loadW, currentA }) => ({ phase, loadW, currentA })),
+      })),
+    },
+    weight: { kg: Math.ceil(totalKg * 10) / 10, lb: Math.ceil(totalLb) },
+    dataRoutes: (layout.project.dataRoutes ?? []).map((route, index) => ({
+      id: route.id,
+      controller: getControllerDisplayLabel(getProjectController(layout.project, getRouteControllerId(layout.project, route))),
+      port: route.port,
+      endpointCount: route.cabinetIds.length,
+      cableLengthM: toMeters(routeCabling[index].totalMm),
+      ...(route.backupForRouteId ? { backupFor: route.backupForRouteId } : {}),
+    })),
+    dataCables: routeCabling.flatMap((cabling) =>
+      cabling.hops.map((hop) => ({
+        routeId: cabling.routeId,
+        from: hop.fromEndpointId,
+        to: hop.toEndpointId,
+        lengthM: toMeters(hop.lengthMm),
+      })),
+    ),
+    validation: {
+      errors: issues.filter((issue) => issue.type === "error").length,
+      warnings: issues.filter((issue) => issue.type === "warning").length,
+      messages: issues.map((issue) => `${issue.type.toUpperCase()} ${issue.code}: ${issue.message}`),
+    },
+  }
+}
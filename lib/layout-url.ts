@@ -39,12 +39,13 @@ export function encodeLayoutToUrlParam(layout: LayoutData) {
   return toBase64Url(base64)
 }
 
-export function decodeLayoutFromUrlParam(param: string): LayoutData | null {
+// Returns the raw parsed JSON; run it through checkLayoutSchema before use.
+export function decodeLayoutFromUrlParam(param: string): unknown {
   try {
     const base64 = fromBase64Url(param)
     const bytes = base64ToBytes(base64)
     const json = new TextDecoder().decode(bytes)
-    return JSON.parse(json) as LayoutData
+    return JSON.parse(json) as unknown
   } catch {
     return null
   }
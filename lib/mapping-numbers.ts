@@ -45,6 +45,7 @@ function getRouteCardGroup(route: DataRoute) {
 export function findRouteIdForEndpoint(routes: DataRoute[], endpointId: string): string | null {
   const target = parseRouteCabinetId(endpointId)
   for (const route of routes) {
+    if (route.backupForRouteId) continue
     const match = route.cabinetIds.some((candidate) => {
       const parsed = parseRouteCabinetId(candidate)
       return parsed.cabinetId === target.cabinetId && parsed.cardIndex === target.cardIndex
@@ -61,7 +62,8 @@ export function getMappingNumberLabelMap(layout: LayoutData) {
 
   const perEndpoint = settings.manualAssignments?.perEndpoint ?? {}
   const perChain = settings.manualAssignments?.perChain ?? {}
-  const routes = layout.project.dataRoutes ?? []
+  // Backup loops revisit their primary's endpoints and must not renumber them.
+  const routes = (layout.project.dataRoutes ?? []).filter((route) => !route.backupForRouteId)
 
   if (settings.mode === "manual") {
     routes.forEach((route) => {
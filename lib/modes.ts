@@ -17,7 +17,7 @@ export function getProjectHardwareDefaults(
   mode: ProjectMode,
   outdoorHardwareProfile: OutdoorHardwareProfile = "standard",
 ): {
-  controller: "A100" | "A200" | "X8E" | "TB-50"
+  controller: string
   receiverCardModel: string
 } {
   if (mode === "outdoor") {
@@ -1,12 +1,13 @@
 import type { LayoutData, LabelsMode, Cabinet, CabinetType, DataRouteStep } from "./types"
 import { computeGridLabel, formatRouteCabinetId, getCabinetReceiverCardCount, parseRouteCabinetId } from "./types"
-import { isDataRouteOverCapacity } from "./data-utils"
+import { getRoutePortCapacityPx, isDataRouteOverCapacity } from "./data-utils"
 import { getPowerFeedDisplayLabel, getPowerFeedLoadW, isPowerFeedOverloaded } from "./power-utils"
 import { getCabinetBounds, getLayoutBounds, validateLayout } from "./validation"
 import { getOverviewReadabilityScale, getReceiverCardLabel, shouldShowGridLabels } from "./overview-utils"
 import { getMappingNumberLabelMap } from "./mapping-numbers"
 import { getOrientedModuleSize } from "./module-utils"
-import { resolveControllerCabinetId } from "./controller-utils"
+import { getPlacedControllers, resolveControllerCabinetId } from "./controller-utils"
+import { getDataRoutePortLabel, getMainController, getRouteControllerId } from "./controllers"
 import { getEffectivePitchMm } from "./pitch-utils"
 import { getProjectHardwareDefaults } from "./modes"
 
@@ -29,6 +30,9 @@ export interface OverviewPalette {
   moduleGridLine: string
 }
 
+// Drawing categories, announced through `onLayer` so vector exports can group what follows.
+export type OverviewLayer = "grid" | "cabinets" | "power" | "data" | "labels" | "dimensions"
+
 export interface OverviewRenderOptions {
   zoom: number
   panX: number
@@ -46,6 +50,7 @@ export interface OverviewRenderOptions {
   showPowerRoutes: boolean
   showModuleGrid: boolean
   showMappingNumbers?: boolean
+  showPixelMap?: boolean // label cabinets with their pixel size and offset within their screen instead of mm
   uiScale?: number
   dimensionOffsetMm?: number
   dimensionSide?: "left" | "right"
@@ -53,6 +58,7 @@ export interface OverviewRenderOptions {
   readabilityScale?: number
   selectedCabinetId?: string | null
   palette?: Partial<OverviewPalette>
+  onLayer?: (layer: OverviewLayer) => void
 }
 
 const DEFAULT_PALETTE: OverviewPalette = {
@@ -74,6 +80,26 @@ const DEFAULT_PALETTE: OverviewPalette = {
   moduleGridLine: "rgba(148, 163, 184, 0.2)",
 }
 
+// Light palette used for printed and exported sheets.
+export const PRINT_OVERVIEW_PALETTE: Partial<OverviewPalette> = {
+  background: "#ffffff",
+  gridLine: "#e5e7eb",
+  cabinetFill: "rgba(224, 242, 254, 0.9)",
+  cabinetFillAlt: "rgba(191, 219, 254, 0.9)",
+  cabinetStroke: "#1d4ed8",
+  cabinetSelected: "#1d4ed8",
+  cabinetErrorFill: "rgba(248, 113, 113, 0.25)",
+  cabinetErrorStroke: "#b91c1c",
+  labelPrimary: "#0f172a",
+  labelSecondary: "#334155",
+  receiverCardFill: "#0b1220",
+  receiverCardStroke: "#1f2a44",
+  receiverCardText: "#f8fafc",
+  dimensionLine: "#1f2937",
+  dimensionText: "#111827",
+  moduleGridLine: "rgba(148, 163, 184, 0.35)",
+}
+
 const FONT_FAMILY = "Geist, sans-serif"
 
 function getLayoutBoundsFromCabinets(
@@ -539,7 +565,7 @@ function getDataRouteLabelExtents(
       return getCabinetBounds(cabinet, layout.cabinetTypes)
     })()
 
-    const portLabel = `Port ${route.port}`
+    const portLabel = getDataRoutePortLabel(layout.project, route)
     const labelWidth = ctx.measureText(portLabel).width + labelPadding * 2
     const forceBottom = route.forcePortLabelBottom ?? forcePortLabelsBottom
 
@@ -1228,17 +1254,12 @@ function drawDataRoutes(
   if (!layoutBounds) return
 
   const { maxY } = layoutBounds
-  const mode = layout.project.mode ?? "indoor"
-  const controllerPlacement = layout.project.controllerPlacement ?? "external"
-  const controllerCabinetId = resolveControllerCabinetId(
-    mode,
-    controllerPlacement,
-    layout.project.controllerCabinetId,
-    layout.cabinets,
-    layout.cabinetTypes,
+  const placedControllers = new Map(
+    getPlacedControllers(layout.project, layout.cabinets, layout.cabinetTypes).map((placed) => [
+      placed.controller.id,
+      placed,
+    ]),
   )
-  const outdoorLvBoxCabinetId =
-    cardVariant === "outdoor" && controllerPlacement === "cabinet" ? controllerCabinetId : undefined
   const rowCenters: number[] = []
   const rowTolerance = 50
   layout.cabinets.forEach((cabinet) => {
@@ -1274,7 +1295,13 @@ function drawDataRoutes(
     const useManualSteps = cardVariant !== "outdoor" && hasManualPointSteps
     const useOutdoorChaining = cardVariant === "outdoor"
 
-    const isOverloaded = isDataRouteOverCapacity(route, layout.cabinets, layout.cabinetTypes, pitch_mm)
+    const isOverloaded = isDataRouteOverCapacity(
+      route,
+      layout.cabinets,
+      layout.cabinetTypes,
+      pitch_mm,
+      getRoutePortCapacityPx(layout.project, route),
+    )
     const lineColor = isOverloaded ? "#ef4444" : "#3b82f6"
 
     ctx.save()
@@ -1283,6 +1310,10 @@ function drawDataRoutes(
     ctx.lineWidth = lineWidth
     ctx.lineCap = "round"
     ctx.lineJoin = "round"
+    // Backup loops run dashed over the same cards as their primary route.
+    if (route.backupForRouteId) {
+      ctx.setLineDash([lineWidth * 2, lineWidth * 2.2])
+    }
 
     const points: {
       x: number
@@ -1460,6 +1491,13 @@ function drawDataRoutes(
       })
     }
 
+    // Nudge auto-routed backups off the primary's anchors so the dashed run stays visible.
+    if (route.backupForRouteId && !useOutdoorChaining && !useManualSteps) {
+      points.forEach((point) => {
+        point.y += lineWidth * 1.6
+      })
+    }
+
     if (points.length === 0) {
       ctx.restore()
       return
@@ -1468,9 +1506,11 @@ function drawDataRoutes(
     const firstPoint = points[0]
     const firstBounds = firstPoint.bounds
     const isOutdoorDataRouting = cardVariant === "outdoor"
+    const routeController = placedControllers.get(getRouteControllerId(layout.project, route))
+    const outdoorLvBoxCabinetId = isOutdoorDataRouting ? routeController?.cabinetId : undefined
     const externalOutdoorLvBoxRect =
-      isOutdoorDataRouting && controllerPlacement === "external"
-        ? getExternalOutdoorControllerRect(layoutBounds, zoom, undefined, readabilityScale)
+      isOutdoorDataRouting && routeController?.externalSlot !== undefined
+        ? getExternalOutdoorControllerRect(layoutBounds, zoom, undefined, readabilityScale, routeController.externalSlot)
         : null
     const lvBoxDataSource =
       isOutdoorDataRouting && (outdoorLvBoxCabinetId || externalOutdoorLvBoxRect)
@@ -1529,7 +1569,7 @@ function drawDataRoutes(
     let lineStartY = firstPoint.y
 
     if (!isOutdoorDataRouting) {
-      const portLabel = `Port ${route.port}`
+      const portLabel = getDataRoutePortLabel(layout.project, route)
       ctx.font = `bold ${fontSize}px ${FONT_FAMILY}`
       const labelWidth = ctx.measureText(portLabel).width + labelPadding * 2
       const labelHeight = fontSize + labelPadding * 1.6
@@ -1867,6 +1907,7 @@ function drawDataRoutes(
         drawReturnToLvBox("#ef4444", lineWidth)
       }
 
+      ctx.setLineDash([])
       if (useOutdoorChaining) {
         ctx.save()
         ctx.lineCap = "round"
@@ -2054,11 +2095,12 @@ function drawPowerFeeds(
     compactMaxMm: 150,
   })
   const mode = layout.project.mode ?? "indoor"
-  const controllerPlacement = layout.project.controllerPlacement ?? "external"
+  const mainController = getMainController(layout.project)
+  const controllerPlacement = mainController.placement ?? "external"
   const controllerCabinetId = resolveControllerCabinetId(
     mode,
     controllerPlacement,
-    layout.project.controllerCabinetId,
+    mainController.cabinetId,
     layout.cabinets,
     layout.cabinetTypes,
   )
@@ -2191,7 +2233,7 @@ function drawPowerFeeds(
       const anchorPoint = getCabinetDataAnchorPoint(cabinet, bounds, zoom, cardIndex, readabilityScale, cardVariant)
       const anchor = { connectorX: anchorPoint.x, connectorY: anchorPoint.y }
 
-      const labelText = `Port ${route.port}`
+      const labelText = getDataRoutePortLabel(layout.project, route)
       ctx.font = `bold ${dataFontSize}px ${FONT_FAMILY}`
       const labelWidth = ctx.measureText(labelText).width + dataLabelPadding * 2
       const labelHeight = dataFontSize + dataLabelPadding * 1.6
@@ -2440,6 +2482,7 @@ function drawPowerFeeds(
       feed,
       layout.cabinets,
       layout.cabinetTypes,
+      layout.project,
       cardVariant === "outdoor" ? "outdoor" : "indoor",
     )
     const lineColor = isOverloaded ? "#ef4444" : "#f97316"
@@ -2801,9 +2844,10 @@ function drawPowerFeeds(
   })
 }
 
+// Draws one box per controller placed outside the wall, in slot order (main controller first).
 function drawControllerPorts(
   ctx: CanvasRenderingContext2D,
-  label: string,
+  labels: string[],
   layout: LayoutData,
   zoom: number,
   minY?: number,
@@ -2812,80 +2856,71 @@ function drawControllerPorts(
 ) {
   const bounds = getLayoutBounds(layout)
   if (bounds.width === 0 && bounds.height === 0) return
+  if (labels.length === 0) return
 
   const { minX, maxX, maxY } = bounds
   const layoutHeight = Math.max(1, bounds.maxY - bounds.minY)
-  const layoutWidth = Math.max(1, bounds.maxX - bounds.minX)
-  const isCompactOutdoorLayout = layoutHeight <= 400 && layoutWidth >= layoutHeight * 2
 
   if (mode === "outdoor") {
-    const title = "LV BOX"
-    const items = [label, "PI", "SWITCH", "ANTENNA"]
-    const boxWidth = isCompactOutdoorLayout
-      ? scaledReadableWorldSize(176, zoom, 150, 210, readabilityScale)
-      : scaledReadableWorldSize(188, zoom, 160, 224, readabilityScale)
-    const boxHeight = isCompactOutdoorLayout
-      ? scaledReadableWorldSize(74, zoom, 60, 92, readabilityScale)
-      : scaledReadableWorldSize(82, zoom, 66, 100, readabilityScale)
-    const boxX = maxX - boxWidth
-    const baseY =
-      maxY +
-      getCompactLayoutGap(layoutHeight, zoom, readabilityScale, {
-        basePx: 100,
-        minPx: 70,
-        maxPx: 160,
-        compactRatio: 0.24,
-        compactMinMm: 46,
-        compactMaxMm: 120,
-      })
-    const boxY = Math.max(baseY, minY ?? baseY)
-    const titleBandHeight = Math.max((10 * readabilityScale) / zoom, boxHeight * 0.24)
-    const listPadding = Math.max((6 * readabilityScale) / zoom, boxWidth * 0.08)
-    const listTop = boxY + titleBandHeight + Math.max((2 * readabilityScale) / zoom, boxHeight * 0.03)
-    const listBottom = boxY + boxHeight - Math.max((3 * readabilityScale) / zoom, boxHeight * 0.07)
-    const itemStep = (listBottom - listTop) / items.length
-    const titleFontSize = Math.max((7 * readabilityScale) / zoom, titleBandHeight * 0.46)
-    const itemFontSize = Math.max((6 * readabilityScale) / zoom, itemStep * 0.56)
+    labels.forEach((label, slot) => {
+      const title = "LV BOX"
+      const items = [label, "PI", "SWITCH", "ANTENNA"]
+      const {
+        x: boxX,
+        y: boxY,
+        width: boxWidth,
+        height: boxHeight,
+      } = getExternalOutdoorControllerRect(bounds, zoom, minY, readabilityScale, slot)
+      const titleBandHeight = Math.max((10 * readabilityScale) / zoom, boxHeight * 0.24)
+      const listPadding = Math.max((6 * readabilityScale) / zoom, boxWidth * 0.08)
+      const listTop = boxY + titleBandHeight + Math.max((2 * readabilityScale) / zoom, boxHeight * 0.03)
+      const listBottom = boxY + boxHeight - Math.max((3 * readabilityScale) / zoom, boxHeight * 0.07)
+      const itemStep = (listBottom - listTop) / items.length
+      const titleFontSize = Math.max((7 * readabilityScale) / zoom, titleBandHeight * 0.46)
+      const itemFontSize = Math.max((6 * readabilityScale) / zoom, itemStep * 0.56)
 
-    ctx.save()
-    ctx.shadowColor = "rgba(15, 23, 42, 0.2)"
-    ctx.shadowBlur = (4 * readabilityScale) / zoom
-    ctx.shadowOffsetY = (1.2 * readabilityScale) / zoom
-    ctx.fillStyle = "#0b1220"
-    ctx.strokeStyle = "#1f2a44"
-    ctx.lineWidth = scaledReadableWorldSize(1.1, zoom, 0.8, 1.8, readabilityScale)
-    ctx.fillRect(boxX, boxY, boxWidth, boxHeight)
-    ctx.restore()
+      ctx.save()
+      ctx.shadowColor = "rgba(15, 23, 42, 0.2)"
+      ctx.shadowBlur = (4 * readabilityScale) / zoom
+      ctx.shadowOffsetY = (1.2 * readabilityScale) / zoom
+      ctx.fillStyle = "#0b1220"
+      ctx.strokeStyle = "#1f2a44"
+      ctx.lineWidth = scaledReadableWorldSize(1.1, zoom, 0.8, 1.8, readabilityScale)
+      ctx.fillRect(boxX, boxY, boxWidth, boxHeight)
+      ctx.restore()
 
-    ctx.strokeStyle = "#1f2a44"
-    ctx.lineWidth = scaledReadableWorldSize(1.1, zoom, 0.8, 1.8, readabilityScale)
-    ctx.strokeRect(boxX, boxY, boxWidth, boxHeight)
-    ctx.strokeStyle = "#334155"
-    ctx.lineWidth = Math.max((0.9 * readabilityScale) / zoom, (0.7 * readabilityScale) / zoom)
-    ctx.beginPath()
-    ctx.moveTo(boxX + listPadding, boxY + titleBandHeight)
-    ctx.lineTo(boxX + boxWidth - listPadding, boxY + titleBandHeight)
-    ctx.stroke()
+      ctx.strokeStyle = "#1f2a44"
+      ctx.lineWidth = scaledReadableWorldSize(1.1, zoom, 0.8, 1.8, readabilityScale)
+      ctx.strokeRect(boxX, boxY, boxWidth, boxHeight)
+      ctx.strokeStyle = "#334155"
+      ctx.lineWidth = Math.max((0.9 * readabilityScale) / zoom, (0.7 * readabilityScale) / zoom)
+      ctx.beginPath()
+      ctx.moveTo(boxX + listPadding, boxY + titleBandHeight)
+      ctx.lineTo(boxX + boxWidth - listPadding, boxY + titleBandHeight)
+      ctx.stroke()
 
-    ctx.fillStyle = "#38bdf8"
-    ctx.font = `700 ${titleFontSize}px ${FONT_FAMILY}`
-    ctx.textAlign = "left"
-    ctx.textBaseline = "middle"
-    ctx.fillText(title, boxX + listPadding, boxY + titleBandHeight / 2)
+      ctx.fillStyle = "#38bdf8"
+      ctx.font = `700 ${titleFontSize}px ${FONT_FAMILY}`
+      ctx.textAlign = "left"
+      ctx.textBaseline = "middle"
+      ctx.fillText(title, boxX + listPadding, boxY + titleBandHeight / 2)
 
-    ctx.fillStyle = "#e2e8f0"
-    ctx.font = `600 ${itemFontSize}px ${FONT_FAMILY}`
-    items.forEach((item, index) => {
-      const textY = listTop + itemStep * (index + 0.5)
-      ctx.fillText(`- ${item}`, boxX + listPadding, textY)
+      ctx.fillStyle = "#e2e8f0"
+      ctx.font = `600 ${itemFontSize}px ${FONT_FAMILY}`
+      items.forEach((item, index) => {
+        const textY = listTop + itemStep * (index + 0.5)
+        ctx.fillText(`- ${item}`, boxX + listPadding, textY)
+      })
     })
     return
   }
 
   const boxWidth = scaledReadableWorldSize(120, zoom, 100, 160, readabilityScale)
   const boxHeight = scaledReadableWorldSize(40, zoom, 32, 60, readabilityScale)
+  const boxGap = scaledReadableWorldSize(24, zoom, 16, 40, readabilityScale)
   const fontSize = scaledReadableWorldSize(11, zoom, 10, 14, readabilityScale)
-  const boxX = (minX + maxX) / 2 - boxWidth / 2
+  const rowWidth = labels.length * boxWidth + (labels.length - 1) * boxGap
+  const rowX = (minX + maxX) / 2 - rowWidth / 2
   const baseY =
     maxY +
     getCompactLayoutGap(layoutHeight, zoom, readabilityScale, {
@@ -2898,26 +2933,31 @@ function drawControllerPorts(
     })
   const boxY = Math.max(baseY, minY ?? baseY)
 
-  ctx.save()
-  ctx.fillStyle = "#1e293b"
-  ctx.strokeStyle = "#475569"
-  ctx.lineWidth = scaledReadableWorldSize(2, zoom, 1.5, 3, readabilityScale)
-  ctx.fillRect(boxX, boxY, boxWidth, boxHeight)
-  ctx.strokeRect(boxX, boxY, boxWidth, boxHeight)
+  labels.forEach((label, slot) => {
+    const boxX = rowX + slot * (boxWidth + boxGap)
+    ctx.save()
+    ctx.fillStyle = "#1e293b"
+    ctx.strokeStyle = "#475569"
+    ctx.lineWidth = scaledReadableWorldSize(2, zoom, 1.5, 3, readabilityScale)
+    ctx.fillRect(boxX, boxY, boxWidth, boxHeight)
+    ctx.strokeRect(boxX, boxY, boxWidth, boxHeight)
 
-  ctx.fillStyle = "#e2e8f0"
-  ctx.font = `bold ${fontSize}px ${FONT_FAMILY}`
-  ctx.textAlign = "center"
-  ctx.textBaseline = "middle"
-  ctx.fillText(label, boxX + boxWidth / 2, boxY + boxHeight / 2)
-  ctx.restore()
+    ctx.fillStyle = "#e2e8f0"
+    ctx.font = `bold ${fontSize}px ${FONT_FAMILY}`
+    ctx.textAlign = "center"
+    ctx.textBaseline = "middle"
+    ctx.fillText(label, boxX + boxWidth / 2, boxY + boxHeight / 2)
+    ctx.restore()
+  })
 }
 
+// Extra external LV boxes line up to the left of the main one.
 function getExternalOutdoorControllerRect(
   layoutBounds: { minX: number; minY: number; maxX: number; maxY: number },
   zoom: number,
   minY?: number,
   readabilityScale = 1,
+  slot = 0,
 ) {
   const layoutHeight = Math.max(1, layoutBounds.maxY - layoutBounds.minY)
   const layoutWidth = Math.max(1, layoutBounds.maxX - layoutBounds.minX)
@@ -2928,7 +2968,8 @@ function getExternalOutdoorControllerRect(
   const boxHeight = isCompactOutdoorLayout
     ? scaledReadableWorldSize(74, zoom, 60, 92, readabilityScale)
     : scaledReadableWorldSize(82, zoom, 66, 100, readabilityScale)
-  const boxX = layoutBounds.maxX - boxWidth
+  const boxGap = scaledReadableWorldSize(24, zoom, 16, 40, readabilityScale)
+  const boxX = layoutBounds.maxX - boxWidth - slot * (boxWidth + boxGap)
   const baseY =
     layoutBounds.maxY +
     getCompactLayoutGap(layoutHeight, zoom, readabilityScale, {
@@ -2959,6 +3000,7 @@ export function drawOverview(ctx: CanvasRenderingContext2D, layout: LayoutData,
   ctx.translate(panX, panY)
   ctx.scale(zoom, zoom)
 
+  options.onLayer?.("grid")
   if (options.showGrid && layout.project.grid.enabled) {
     const step = layout.project.grid.step_mm
     ctx.strokeStyle = palette.gridLine
@@ -3017,19 +3059,12 @@ export function drawOverview(ctx: CanvasRenderingContext2D, layout: LayoutData,
   const { moduleWidth, moduleHeight } = getOrientedModuleSize(moduleSize, moduleOrientation)
   const moduleGridBounds = showModuleGrid ? getLayoutBoundsFromCabinets(layout.cabinets, layout.cabinetTypes) : null
   const moduleGridOrigin = moduleGridBounds ? { x: moduleGridBounds.minX, y: moduleGridBounds.minY } : null
-  const controllerPlacement = layout.project.controllerPlacement ?? "external"
-  const controllerCabinetId = resolveControllerCabinetId(
-    isOutdoorMode ? "outdoor" : "indoor",
-    controllerPlacement,
-    layout.project.controllerCabinetId,
-    layout.cabinets,
-    layout.cabinetTypes,
-  )
-  const controllerInCabinet =
-    controllerPlacement === "cabinet" &&
-    !!controllerCabinetId &&
-    layout.cabinets.some((cabinet) => cabinet.id === controllerCabinetId)
+  const placedControllers = getPlacedControllers(layout.project, layout.cabinets, layout.cabinetTypes)
+  const externalControllerLabels = placedControllers
+    .filter((placed) => placed.externalSlot !== undefined)
+    .map((placed) => placed.label)
 
+  options.onLayer?.("cabinets")
   layout.cabinets.forEach((cabinet) => {
     const bounds = getCabinetBounds(cabinet, layout.cabinetTypes)
     if (!bounds) return
@@ -3089,6 +3124,7 @@ export function drawOverview(ctx: CanvasRenderingContext2D, layout: LayoutData,
 
   })
 
+  options.onLayer?.("power")
   if (showPowerRoutes) {
     drawPowerFeeds(ctx, layout, uiZoom, readabilityScale, isOutdoorMode ? "outdoor" : "indoor")
   }
@@ -3119,6 +3155,7 @@ export function drawOverview(ctx: CanvasRenderingContext2D, layout: LayoutData,
     })
   }
 
+  options.onLayer?.("data")
   if (showDataRoutes) {
     drawDataRoutes(
       ctx,
@@ -3132,6 +3169,10 @@ export function drawOverview(ctx: CanvasRenderingContext2D, layout: LayoutData,
     )
   }
 
+  options.onLayer?.("labels")
+  const pixelMapPitch = options.showPixelMap ? getEffectivePitchMm(layout.project.pitch_mm) : 0
+  const pixelMapScreens =
+    pixelMapPitch > 0 ? getConnectedScreenBoundsFromCabinets(layout.cabinets, layout.cabinetTypes) : []
   layout.cabinets.forEach((cabinet) => {
     const bounds = getCabinetBounds(cabinet, layout.cabinetTypes)
     if (!bounds) return
@@ -3147,25 +3188,34 @@ export function drawOverview(ctx: CanvasRenderingContext2D, layout: LayoutData,
       ctx.fillText(cabinet.id, bounds.x + bounds.width / 2, bounds.y + bounds.height / 2 - fontSize / 2)
     }
 
-    if (controllerPlacement === "cabinet" && controllerCabinetId === cabinet.id) {
-      const controllerLabel = layout.project.controllerLabel?.trim() || layout.project.controller
-      drawControllerBadge(
-        ctx,
-        bounds,
-        controllerLabel,
-        uiZoom,
-        readabilityScale,
-        isOutdoorMode ? "outdoor" : "indoor",
-      )
-    }
+    placedControllers.forEach((placed) => {
+      if (placed.cabinetId !== cabinet.id) return
+      drawControllerBadge(ctx, bounds, placed.label, uiZoom, readabilityScale, isOutdoorMode ? "outdoor" : "indoor")
+    })
 
     ctx.fillStyle = palette.labelSecondary
     ctx.font = `600 ${smallFontSize}px ${FONT_FAMILY}`
     ctx.textAlign = "right"
     ctx.textBaseline = "alphabetic"
-    const sizeLabel = `${Math.round(bounds.width)}x${Math.round(bounds.height)}`
     const sizeLabelInset = (6 * readabilityScale) / uiZoom
-    ctx.fillText(sizeLabel, bounds.x + bounds.width - sizeLabelInset, bounds.y + bounds.height - sizeLabelInset)
+    const screen = pixelMapScreens.find(
+      (entry) =>
+        bounds.x >= entry.minX - 1 &&
+        bounds.x2 <= entry.maxX + 1 &&
+        bounds.y >= entry.minY - 1 &&
+        bounds.y2 <= entry.maxY + 1,
+    )
+    if (screen) {
+      const toPx = (mm: number) => Math.round(mm / pixelMapPitch)
+      const sizeLabel = `${toPx(bounds.width)}x${toPx(bounds.height)} px`
+      ctx.fillText(sizeLabel, bounds.x + bounds.width - sizeLabelInset, bounds.y + bounds.height - sizeLabelInset)
+      ctx.textBaseline = "top"
+      const offsetLabel = `X ${toPx(bounds.x - screen.minX)}  Y ${toPx(bounds.y - screen.minY)}`
+      ctx.fillText(offsetLabel, bounds.x + bounds.width - sizeLabelInset, bounds.y + sizeLabelInset)
+    } else {
+      const sizeLabel = `${Math.round(bounds.width)}x${Math.round(bounds.height)}`
+      ctx.fillText(sizeLabel, bounds.x + bounds.width - sizeLabelInset, bounds.y + bounds.height - sizeLabelInset)
+    }
   })
 
   if (showReceiverCards) {
@@ -3223,7 +3273,7 @@ export function drawOverview(ctx: CanvasRenderingContext2D, layout: LayoutData,
     })
   }
 
-  if (layout.cabinets.length > 0 && !controllerInCabinet) {
+  if (layout.cabinets.length > 0 && externalControllerLabels.length > 0) {
     const layoutBounds = getLayoutBoundsFromCabinets(layout.cabinets, layout.cabinetTypes)
     if (layoutBounds) {
       const rowCenters: number[] = []
@@ -3322,10 +3372,9 @@ export function drawOverview(ctx: CanvasRenderingContext2D, layout: LayoutData,
         (dataPortBottom ?? -Infinity) + clearance,
         (powerLabelBottom ?? -Infinity) + clearance,
       )
-      const controllerLabel = layout.project.controllerLabel?.trim() || layout.project.controller
       drawControllerPorts(
         ctx,
-        controllerLabel,
+        externalControllerLabels,
         layout,
         uiZoom,
         isOutdoorMode ? undefined : controllerMinY,
@@ -3335,6 +3384,7 @@ export function drawOverview(ctx: CanvasRenderingContext2D, layout: LayoutData,
     }
   }
 
+  options.onLayer?.("dimensions")
   if (options.showDimensions) {
     const baseOffset = options.dimensionOffsetMm ?? 40
     let sideOffset = baseOffset
@@ -1,7 +1,7 @@
 import type { Cabinet, LabelsMode, LayoutData } from "./types"
 import { getCabinetReceiverCardCount } from "./types"
 import { getCabinetBounds, getLayoutBounds } from "./validation"
-import { getProjectHardwareDefaults } from "./modes"
+import { getCabinetReceiverCardModelId } from "./receiver-card-capacity"
 import { getTotalizedPixelMatrixDimensions } from "./pixel-matrix"
 
 const LABEL_TOLERANCE_MM = 1
@@ -68,14 +68,7 @@ export function getGridLabelMap(layout: LayoutData) {
 export function getReceiverCardLabel(layout: LayoutData, cabinet: Cabinet) {
   if (!layout.project.overview.showReceiverCards) return null
   if (getCabinetReceiverCardCount(cabinet) === 0) return null
-  if (cabinet.receiverCardOverride === null) return null
-  if (cabinet.receiverCardOverride && cabinet.receiverCardOverride.trim().length > 0) {
-    return cabinet.receiverCardOverride.trim()
-  }
-  const model = layout.project.overview.receiverCardModel?.trim()
-  if (model && model.length > 0) return model
-  return getProjectHardwareDefaults(layout.project.mode ?? "indoor", layout.project.outdoorHardwareProfile ?? "standard")
-    .receiverCardModel
+  return getCabinetReceiverCardModelId(layout, cabinet)
 }
 
 export function getLayoutPixelDimensions(layout: LayoutData) {
@@ -0,0 +1,107 @@
+import type { LayoutData, PowerDistro, PowerPhase, Project } from "./types"
+import { getPowerFeedLoadW } from "./power-utils"
+
+// Three-phase distribution: feeds sit on one phase of a distro panel, and loads are totalled per phase.
+
+export const POWER_PHASES: PowerPhase[] = ["L1", "L2", "L3"]
+
+export const PHASE_IMBALANCE_WARN_PERCENT = 20
+
+export const DEFAULT_POWER_DISTRO: Omit<PowerDistro, "id" | "label"> = {
+  phaseVoltageV: 230,
+  ratedCurrentA: 32,
+}
+
+export interface PhaseLoad {
+  phase: PowerPhase
+  loadW: number
+  currentA: number
+  feedIds: string[]
+}
+
+export interface DistroPhaseLoads {
+  distro: PowerDistro
+  phases: PhaseLoad[]
+  totalW: number
+  imbalancePercent: number
+  overloadedPhases: PowerPhase[]
+}
+
+export function getPowerDistros(project: Pick<Project, "powerDistros">): PowerDistro[] {
+  return project.powerDistros ?? []
+}
+
+export function getNextDistroId(project: Pick<Project, "powerDistros">) {
+  const ids = new Set(getPowerDistros(project).map((distro) => distro.id))
+  let index = 1
+  while (ids.has(`DB${index}`)) index += 1
+  return `DB${index}`
+}
+
+export function getDistroDisplayLabel(distro: PowerDistro) {
+  return distro.label.trim() || distro.id
+}
+
+// Largest deviation from the phase average, as a percentage of the average (NEMA definition).
+export function getPhaseImbalancePercent(loadsW: number[]) {
+  const average = loadsW.reduce((sum, load) => sum + load, 0) / loadsW.length
+  if (average <= 0) return 0
+  const maxDeviation = Math.max(...loadsW.map((load) => Math.abs(load - average)))
+  return Math.round((maxDeviation / average) * 100)
+}
+
+export function getDistroPhaseLoads(layout: LayoutData, distro: PowerDistro): DistroPhaseLoads {
+  const mode = layout.project.mode ?? "indoor"
+  const phases = POWER_PHASES.map<PhaseLoad>((phase) => {
+    const feeds = layout.project.powerFeeds.filter((feed) => feed.distroId === distro.id && feed.phase === phase)
+    const loadW = feeds.reduce(
+      (sum, feed) => sum + getPowerFeedLoadW(feed, layout.cabinets, layout.cabinetTypes, mode),
+      0,
+    )
+    return {
+      phase,
+      loadW,
+      currentA: Math.round((loadW / distro.phaseVoltageV) * 10) / 10,
+      feedIds: feeds.map((feed) => feed.id),
+    }
+  })
+  return {
+    distro,
+    phases,
+    totalW: phases.reduce((sum, entry) => sum + entry.loadW, 0),
+    imbalancePercent: getPhaseImbalancePercent(phases.map((entry) => entry.loadW)),
+    overloadedPhases: phases.filter((entry) => entry.currentA > distro.ratedCurrentA).map((entry) => entry.phase),
+  }
+}
+
+export function getProjectPhaseLoads(layout: LayoutData): DistroPhaseLoads[] {
+  return getPowerDistros(layout.project).map((distro) => getDistroPhaseLoads(layout, distro))
+}
+
+// "DB1: L1 3.5 / L2 3.4 / L3 3.5 kW (3% imbalance)"
+export function formatPhaseLoadSummary(loads: DistroPhaseLoads) {
+  const phases = loads.phases.map((entry) => `${entry.phase} ${(entry.loadW / 1000).toFixed(1)}`).join(" / ")
+  return `${getDistroDisplayLabel(loads.distro)}: ${phases} kW (${loads.imbalancePercent}% imbalance)`
+}
+
+// Puts every feed on a distro phase so the watts even out: heaviest feed first, always onto the lightest
+// phase of its distro. Feeds wired to an unknown or no distro go to the first one.
+export function balanceFeedPhases(
+  distros: PowerDistro[],
+  feeds: { id: string; distroId?: string; loadW: number }[],
+): Map<string, { distroId: string; phase: PowerPhase }> {
+  const assignments = new Map<string, { distroId: string; phase: PowerPhase }>()
+  if (distros.length === 0) return assignments
+  const distroIds = new Set(distros.map((distro) => distro.id))
+  const phaseLoads = new Map(distros.map((distro) => [distro.id, POWER_PHASES.map(() => 0)]))
+
+  const heaviestFirst = [...feeds].sort((a, b) => b.loadW - a.loadW)
+  heaviestFirst.forEach((feed) => {
+    const distroId = feed.distroId && distroIds.has(feed.distroId) ? feed.distroId : distros[0].id
+    const loads = phaseLoads.get(distroId) ?? []
+    const phaseIndex = loads.indexOf(Math.min(...loads))
+    loads[phaseIndex] += feed.loadW
+    assignments.set(feed.id, { distroId, phase: POWER_PHASES[phaseIndex] })
+  })
+  return assignments
+}
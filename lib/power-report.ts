@@ -0,0 +1,97 @@
+import type { CabinetType, LayoutData, PowerReportSettings, Project, ProjectMode } from "./types"
+import { getCabinetTypeMaxPowerW } from "./power-utils"
+
+// Max, typical and standby consumption of the whole layout, with the matching current and heat load for HVAC.
+// Feed load overrides are left out: this reports what the cabinets draw, not how the feeds are sized.
+
+export const WATTS_TO_BTU_PER_HOUR = 3.412142
+
+export const DEFAULT_POWER_REPORT_SETTINGS: PowerReportSettings = {
+  typicalDutyPercent: 40,
+  standbyPercent: 5,
+  voltageV: 220,
+}
+
+export const POWER_REPORT_VOLTAGES = [110, 120, 208, 220, 230, 240]
+
+export type PowerReportLevelKey = "max" | "typical" | "standby"
+
+export interface PowerReportLevel {
+  key: PowerReportLevelKey
+  label: string
+  watts: number
+  currentA: number
+  btuPerHour: number
+}
+
+export interface PowerReport {
+  settings: PowerReportSettings
+  levels: PowerReportLevel[]
+}
+
+const LEVEL_LABELS: Record<PowerReportLevelKey, string> = {
+  max: "Max",
+  typical: "Typical",
+  standby: "Standby",
+}
+
+function clampPercent(value: number) {
+  return Math.min(100, Math.max(0, value))
+}
+
+export function getPowerReportSettings(project: Pick<Project, "powerReport">): PowerReportSettings {
+  const settings = { ...DEFAULT_POWER_REPORT_SETTINGS, ...project.powerReport }
+  return {
+    typicalDutyPercent: clampPercent(settings.typicalDutyPercent),
+    standbyPercent: clampPercent(settings.standbyPercent),
+    voltageV: settings.voltageV > 0 ? settings.voltageV : DEFAULT_POWER_REPORT_SETTINGS.voltageV,
+  }
+}
+
+// Datasheet typical power when the type has one, otherwise the duty share of its max power.
+export function getCabinetTypeTypicalPowerW(type: CabinetType, mode: ProjectMode, typicalDutyPercent: number) {
+  if (Number.isFinite(type.typicalPowerW)) return type.typicalPowerW as number
+  return (getCabinetTypeMaxPowerW(type, mode) * typicalDutyPercent) / 100
+}
+
+export function buildPowerReport(layout: LayoutData): PowerReport {
+  const settings = getPowerReportSettings(layout.project)
+  const mode = layout.project.mode ?? "indoor"
+  const totals: Record<PowerReportLevelKey, number> = { max: 0, typical: 0, standby: 0 }
+  layout.cabinets.forEach((cabinet) => {
+    const type = layout.cabinetTypes.find((t) => t.typeId === cabinet.typeId)
+    if (!type) return
+    const maxW = getCabinetTypeMaxPowerW(type, mode)
+    totals.max += maxW
+    totals.typical += getCabinetTypeTypicalPowerW(type, mode, settings.typicalDutyPercent)
+    totals.standby += (maxW * settings.standbyPercent) / 100
+  })
+
+  const levels = (Object.keys(LEVEL_LABELS) as PowerReportLevelKey[]).map<PowerReportLevel>((key) => ({
+    key,
+    label: LEVEL_LABELS[key],
+    watts: Math.round(totals[key]),
+    currentA: Math.round((totals[key] / settings.voltageV) * 10) / 10,
+    btuPerHour: Math.round(totals[key] * WATTS_TO_BTU_PER_HOUR),
+  }))
+  return { settings, levels }
+}
+
+// "315 W / 1.4 A / 1075 BTU/h"
+export function formatPowerReportLevel(level: PowerReportLevel) {
+  return `${level.watts} W / ${level.currentA} A / ${level.btuPerHour} BTU/h`
+}
+
+// Rows for the optional block in the PDF legend; max power already has its own row there.
+export function getPowerReportLegendRows(report: PowerReport) {
+  const [max, typical, standby] = report.levels
+  return [
+    { label: "Typical Power", value: `${typical.watts} W` },
+    { label: "Standby Power", value: `${standby.watts} W` },
+    {
+      label: `Current @ ${report.settings.voltageV}V`,
+      value: `${max.currentA} A max / ${typical.currentA} A typ. / ${standby.currentA} A stby`,
+    },
+    { label: "Heat Load", value: `${max.btuPerHour} BTU/h max / ${typical.btuPerHour} BTU/h typ.` },
+  ]
+}
@@ -1,23 +1,23 @@
-import type { Cabinet, CabinetType, PowerFeed, ProjectMode } from "./types"
+import type { Cabinet, CabinetType, PowerFeed, Project, ProjectMode } from "./types"
+import { getBreakerContinuousW, getBreakerModel, getConnectorModel } from "./electrical-catalog"
 
 const POWER_DENSITY_W_M2_BY_MODE: Record<ProjectMode, number> = {
   indoor: 550,
   "die-cast": 550,
   outdoor: 700,
 }
-const BREAKER_LIMITS: Record<string, { maxW: number }> = {
-  "220V 20A": { maxW: 3520 },
-  "110V 15A": { maxW: 1320 },
-  "120V 15A": { maxW: 1440 },
+type ElectricalCatalogSource = Pick<Project, "breakerModels" | "connectorModels">
+
+// Datasheet max power when the type has one, otherwise the area estimate for the mode.
+export function getCabinetTypeMaxPowerW(type: CabinetType, mode: ProjectMode = "indoor"): number {
+  if (Number.isFinite(type.maxPowerW)) return type.maxPowerW as number
+  const powerDensityWm2 = POWER_DENSITY_W_M2_BY_MODE[mode] ?? POWER_DENSITY_W_M2_BY_MODE.indoor
+  return ((type.width_mm * type.height_mm) / 1_000_000) * powerDensityWm2
 }
 
-function getCabinetAreaM2(cabinet: Cabinet, types: CabinetType[]): number {
+export function getCabinetMaxPowerW(cabinet: Cabinet, types: CabinetType[], mode: ProjectMode = "indoor"): number {
   const type = types.find((t) => t.typeId === cabinet.typeId)
-  if (!type) return 0
-  const isRotated = cabinet.rot_deg === 90 || cabinet.rot_deg === 270
-  const width = isRotated ? type.height_mm : type.width_mm
-  const height = isRotated ? type.width_mm : type.height_mm
-  return (width * height) / 1_000_000
+  return type ? getCabinetTypeMaxPowerW(type, mode) : 0
 }
 
 export function getPowerFeedLoadW(
@@ -29,12 +29,11 @@ export function getPowerFeedLoadW(
   if (Number.isFinite(feed.loadOverrideW)) {
     return Math.round(feed.loadOverrideW as number)
   }
-  const powerDensityWm2 = POWER_DENSITY_W_M2_BY_MODE[mode] ?? POWER_DENSITY_W_M2_BY_MODE.indoor
   const cabinetMap = new Map(cabinets.map((c) => [c.id, c]))
   const total = feed.assignedCabinetIds.reduce((sum, id) => {
     const cabinet = cabinetMap.get(id)
     if (!cabinet) return sum
-    return sum + getCabinetAreaM2(cabinet, types) * powerDensityWm2
+    return sum + getCabinetMaxPowerW(cabinet, types, mode)
   }, 0)
   return Math.round(total)
 }
@@ -59,19 +58,32 @@ export function shouldSyncPowerFeedLabelToBreaker(feed: PowerFeed): boolean {
   return label === breaker
 }
 
-export function getBreakerMaxW(breaker?: string | null): number | null {
+export function getBreakerMaxW(catalog: ElectricalCatalogSource, breaker?: string | null): number | null {
+  const model = getBreakerModel(catalog, breaker)
+  return model ? getBreakerContinuousW(model) : null
+}
+
+// Continuous watts the feed may carry: the derated breaker, capped by the connector rating at the breaker voltage.
+export function getPowerFeedMaxW(catalog: ElectricalCatalogSource, feed: PowerFeed): number | null {
+  const breaker = getBreakerModel(catalog, feed.breaker)
   if (!breaker) return null
-  const limit = BREAKER_LIMITS[breaker]
-  return limit ? limit.maxW : null
+  const connector = getConnectorModel(catalog, feed.connector)
+  const breakerW = getBreakerContinuousW(breaker)
+  return connector ? Math.min(breakerW, Math.round(connector.maxCurrentA * breaker.voltageV)) : breakerW
+}
+
+export function getPowerFeedMaxChain(catalog: ElectricalCatalogSource, feed: PowerFeed): number | null {
+  return getConnectorModel(catalog, feed.connector)?.maxChainLength ?? null
 }
 
 export function isPowerFeedOverloaded(
   feed: PowerFeed,
   cabinets: Cabinet[],
   types: CabinetType[],
+  catalog: ElectricalCatalogSource,
   mode: ProjectMode = "indoor",
 ): boolean {
-  const maxW = getBreakerMaxW(feed.breaker)
+  const maxW = getPowerFeedMaxW(catalog, feed)
   if (!maxW) return false
   return getPowerFeedLoadW(feed, cabinets, types, mode) > maxW
 }
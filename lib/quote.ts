@@ -0,0 +1,148 @@
+import type { LayoutData, Project, QuoteSettings } from "./types"
+import { buildBom } from "./bom"
+import { formatCsv, type CsvCell } from "./csv"
+
+// Cost estimate built on the bill of materials: BOM lines priced from the part catalog, labour per cabinet and per
+// data route, then the margin on top. Cabinet labour counts the installed cabinets of the BOM lines, spares excluded.
+
+export const DEFAULT_QUOTE_SETTINGS: QuoteSettings = {
+  currency: "USD",
+  marginPercent: 0,
+  labourPerCabinet: 0,
+  labourPerRoute: 0,
+}
+
+export const MAX_MARGIN_PERCENT = 95
+
+export interface QuoteLine {
+  kind: "material" | "labour"
+  key: string
+  description: string
+  quantity: number
+  unit: "pcs" | "m"
+  unitCost: number | null
+  cost: number | null // null when the item has no unit cost yet
+}
+
+export interface Quote {
+  currency: string
+  lines: QuoteLine[]
+  materialCost: number
+  labourCost: number
+  subtotal: number
+  marginPercent: number
+  marginAmount: number
+  total: number
+  unpricedCount: number
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+export function getQuoteSettings(project: Pick<Project, "quote">): QuoteSettings {
+  const settings = { ...DEFAULT_QUOTE_SETTINGS, ...project.quote }
+  return {
+    ...settings,
+    currency: settings.currency.trim().toUpperCase() || DEFAULT_QUOTE_SETTINGS.currency,
+    marginPercent: Math.min(MAX_MARGIN_PERCENT, Math.max(0, settings.marginPercent)),
+  }
+}
+
+// Falls back to a plain "1234.50 XYZ" when the currency code is unknown to Intl.
+export function formatMoney(amount: number, currency: string) {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount)
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`
+  }
+}
+
+export function buildQuote(layout: LayoutData): Quote {
+  const settings = getQuoteSettings(layout.project)
+  const bom = buildBom(layout)
+  const materialLines = bom.map<QuoteLine>((line) => ({
+    kind: "material",
+    key: line.key,
+    description: line.description,
+    quantity: line.totalQuantity,
+    unit: line.unit,
+    unitCost: line.unitPrice,
+    cost: line.totalPrice,
+  }))
+
+  const cabinetCount = bom
+    .filter((line) => line.category === "cabinet")
+    .reduce((sum, line) => sum + line.quantity, 0)
+  const routeCount = layout.project.dataRoutes.filter((route) => route.cabinetIds.length > 0).length
+  const labourLines = [
+    {
+      key: "labour:cabinet",
+      description: "Installation labour, per cabinet",
+      quantity: cabinetCount,
+      rate: settings.labourPerCabinet,
+    },
+    {
+      key: "labour:route",
+      description: "Cabling labour, per data route",
+      quantity: routeCount,
+      rate: settings.labourPerRoute,
+    },
+  ]
+    .filter((entry) => entry.quantity > 0)
+    .map<QuoteLine>((entry) => ({
+      kind: "labour",
+      key: entry.key,
+      description: entry.description,
+      quantity: entry.quantity,
+      unit: "pcs",
+      unitCost: entry.rate,
+      cost: roundMoney(entry.rate * entry.quantity),
+    }))
+
+  const lines = [...materialLines, ...labourLines]
+  const sumCost = (entries: QuoteLine[]) => roundMoney(entries.reduce((sum, line) => sum + (line.cost ?? 0), 0))
+  const materialCost = sumCost(materialLines)
+  const labourCost = sumCost(labourLines)
+  const subtotal = roundMoney(materialCost + labourCost)
+  // Margin is taken on the sell price, so 20% margin on 800 sells at 1000.
+  const total = roundMoney(subtotal / (1 - settings.marginPercent / 100))
+  return {
+    currency: settings.currency,
+    lines,
+    materialCost,
+    labourCost,
+    subtotal,
+    marginPercent: settings.marginPercent,
+    marginAmount: roundMoney(total - subtotal),
+    total,
+    unpricedCount: lines.filter((line) => line.cost === null).length,
+  }
+}
+
+export function getQuoteSummaryRows(quote: Quote): { label: string; amount: number }[] {
+  return [
+    { label: "Materials", amount: quote.materialCost },
+    { label: "Labour", amount: quote.labourCost },
+    { label: "Subtotal", amount: quote.subtotal },
+    { label: `Margin (${quote.marginPercent}%)`, amount: quote.marginAmount },
+    { label: "Total", amount: quote.total },
+  ]
+}
+
+export function formatQuoteCsv(quote: Quote): string {
+  const rows: CsvCell[][] = [
+    ["Type", "Description", "Quantity", "Unit", `Unit cost (${quote.currency})`, `Cost (${quote.currency})`],
+    ...quote.lines.map((line) => [
+      line.kind === "material" ? "Material" : "Labour",
+      line.description,
+      line.quantity,
+      line.unit,
+      line.unitCost ?? "",
+      line.cost ?? "",
+    ]),
+    [],
+    ...getQuoteSummaryRows(quote).map((row) => ["", row.label, "", "", "", row.amount]),
+  ]
+  return formatCsv(rows)
+}
@@ -0,0 +1,56 @@
+import type { Cabinet, LayoutData } from "./types"
+import { getCabinetReceiverCardCount } from "./types"
+import { getProjectHardwareDefaults } from "./modes"
+import { getEffectivePitchMm } from "./pitch-utils"
+import { findReceiverCardModel } from "./receiver-cards"
+
+export interface ReceiverCardCapacity {
+  modelId: string
+  cabinetWidthPx: number
+  cabinetHeightPx: number
+  cardWidthPx: number
+  cardHeightPx: number
+  cardCount: number
+  requiredCards: number
+}
+
+// Per-cabinet override, then the project model, then the mode's default card.
+export function getCabinetReceiverCardModelId(layout: LayoutData, cabinet: Cabinet): string | null {
+  if (cabinet.receiverCardOverride === null) return null
+  if (cabinet.receiverCardOverride && cabinet.receiverCardOverride.trim().length > 0) {
+    return cabinet.receiverCardOverride.trim()
+  }
+  const model = layout.project.overview.receiverCardModel?.trim()
+  if (model && model.length > 0) return model
+  return getProjectHardwareDefaults(layout.project.mode ?? "indoor", layout.project.outdoorHardwareProfile ?? "standard")
+    .receiverCardModel
+}
+
+// Null when the cabinet has no cards or its card model has no known pixel size.
+export function getReceiverCardCapacity(layout: LayoutData, cabinet: Cabinet): ReceiverCardCapacity | null {
+  const cardCount = getCabinetReceiverCardCount(cabinet)
+  if (cardCount === 0) return null
+  const modelId = getCabinetReceiverCardModelId(layout, cabinet)
+  const model = modelId ? findReceiverCardModel(layout.project, modelId) : undefined
+  if (!model?.width_px || !model.height_px) return null
+  const type = layout.cabinetTypes.find((t) => t.typeId === cabinet.typeId)
+  if (!type) return null
+
+  const pitchMm = getEffectivePitchMm(layout.project.pitch_mm)
+  if (!(pitchMm > 0)) return null
+  const isRotated = cabinet.rot_deg === 90 || cabinet.rot_deg === 270
+  const cabinetWidthPx = Math.round((isRotated ? type.height_mm : type.width_mm) / pitchMm)
+  const cabinetHeightPx = Math.round((isRotated ? type.width_mm : type.height_mm) / pitchMm)
+  // A card's load is bounded by its pixel count; the width/height pair only describes the default mapping.
+  const requiredCards = Math.max(1, Math.ceil((cabinetWidthPx * cabinetHeightPx) / (model.width_px * model.height_px)))
+
+  return {
+    modelId: model.id,
+    cabinetWidthPx,
+    cabinetHeightPx,
+    cardWidthPx: model.width_px,
+    cardHeightPx: model.height_px,
+    cardCount,
+    requiredCards,
+  }
+}
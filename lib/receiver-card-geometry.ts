@@ -0,0 +1,181 @@
+import { getCabinetReceiverCardCount, type Cabinet, type ProjectMode } from "./types"
+
+// Receiver card rectangles and data connector points in layout millimetres (zoom = 1), shared by the CAD export
+// and the cable length estimates.
+
+export type ReceiverCardRect = {
+  x: number
+  y: number
+  width: number
+  height: number
+  centerX: number
+  centerY: number
+  connectorX: number
+  connectorY: number
+}
+
+export type ReceiverCardVariant = "indoor" | "outdoor"
+
+export function getReceiverCardVariant(mode: ProjectMode | undefined): ReceiverCardVariant {
+  return mode === "outdoor" ? "outdoor" : "indoor"
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value))
+}
+
+function isCompactOutdoorCabinetBounds(bounds: { width: number; height: number }) {
+  return bounds.height <= 400 && bounds.width >= bounds.height * 2
+}
+
+function getReceiverCardRect(
+  bounds: { x: number; y: number; width: number; height: number },
+  zoom: number,
+  heightFraction = 0.28,
+  variant: ReceiverCardVariant = "indoor",
+): ReceiverCardRect {
+  const isCompactOutdoor = variant === "outdoor" && isCompactOutdoorCabinetBounds(bounds)
+  const maxWidth =
+    variant === "outdoor"
+      ? Math.min((isCompactOutdoor ? 106 : 68) / zoom, bounds.width * (isCompactOutdoor ? 0.64 : 0.55))
+      : Math.min(84 / zoom, bounds.width * 0.65)
+  const minWidth =
+    variant === "outdoor"
+      ? Math.min((isCompactOutdoor ? 48 : 30) / zoom, maxWidth)
+      : Math.min(40 / zoom, maxWidth)
+  const maxHeight =
+    variant === "outdoor"
+      ? Math.min(
+          (isCompactOutdoor ? 40 : 29) / zoom,
+          bounds.height * (heightFraction + (isCompactOutdoor ? 0.18 : 0.11)),
+        )
+      : Math.min(18 / zoom, bounds.height * heightFraction)
+  const minHeight =
+    variant === "outdoor"
+      ? Math.min((isCompactOutdoor ? 22 : 16.5) / zoom, maxHeight)
+      : Math.min(12 / zoom, maxHeight)
+  const cardWidth =
+    variant === "outdoor"
+      ? Math.min(maxWidth, Math.max(minWidth, bounds.width * (isCompactOutdoor ? 0.52 : 0.42)))
+      : Math.min(maxWidth, Math.max(minWidth, bounds.width * 0.7))
+  const cardHeight =
+    variant === "outdoor"
+      ? Math.min(maxHeight, Math.max(minHeight, bounds.height * (isCompactOutdoor ? 0.38 : 0.297)))
+      : Math.min(maxHeight, Math.max(minHeight, bounds.height * 0.2))
+  const cardX = bounds.x + bounds.width / 2 - cardWidth / 2
+  const cardCenterY =
+    variant === "outdoor" ? bounds.y + Math.min(160, bounds.height / 2) : bounds.y + bounds.height / 2
+  const cardY = cardCenterY - cardHeight / 2
+  const connectorX = cardX + cardWidth / 2
+  const connectorY = cardY + cardHeight + 6 / zoom
+
+  return {
+    x: cardX,
+    y: cardY,
+    width: cardWidth,
+    height: cardHeight,
+    centerX: cardX + cardWidth / 2,
+    centerY: cardY + cardHeight / 2,
+    connectorX,
+    connectorY,
+  }
+}
+
+export function getReceiverCardRects(
+  bounds: { x: number; y: number; width: number; height: number } | null,
+  zoom: number,
+  count: 0 | 1 | 2,
+  variant: ReceiverCardVariant = "indoor",
+): ReceiverCardRect[] {
+  if (!bounds || count <= 0) return []
+  const heightFraction = count === 2 ? 0.2 : 0.26
+  const base = getReceiverCardRect(bounds, zoom, heightFraction, variant)
+  if (count === 1) return [base]
+
+  const gap = Math.min(10 / zoom, base.height)
+  const totalHeight = base.height * 2 + gap
+  const targetCenterY =
+    variant === "outdoor" ? bounds.y + Math.min(160, bounds.height / 2) : bounds.y + bounds.height / 2
+  const startY = targetCenterY - totalHeight / 2
+  const cardX = base.x
+  const connectorOffset = 6 / zoom
+
+  const top: ReceiverCardRect = {
+    ...base,
+    x: cardX,
+    y: startY,
+    centerX: cardX + base.width / 2,
+    centerY: startY + base.height / 2,
+    connectorX: cardX + base.width / 2,
+    connectorY: startY + base.height + connectorOffset,
+  }
+  const bottomY = startY + base.height + gap
+  const bottom: ReceiverCardRect = {
+    ...base,
+    x: cardX,
+    y: bottomY,
+    centerX: cardX + base.width / 2,
+    centerY: bottomY + base.height / 2,
+    connectorX: cardX + base.width / 2,
+    connectorY: bottomY + base.height + connectorOffset,
+  }
+  return [top, bottom]
+}
+
+function getOutdoorReceiverCardDataPorts(rect: ReceiverCardRect, zoom: number) {
+  const bodyH = Math.max(13 / zoom, rect.height * 0.97)
+  const bodyW = Math.min(rect.width * 0.72, bodyH * 1.45)
+  const bodyX = rect.centerX - bodyW / 2
+  const portW = Math.max(5 / zoom, bodyW * 0.16)
+  const portH = Math.max(3 / zoom, bodyH * 0.16)
+  const portGap = Math.max(5 / zoom, bodyH * 0.58)
+  const portX = bodyX - portW * 0.9
+  const topPortY = rect.centerY - portGap / 2 - portH
+  const anchorX = portX + portW * 0.5
+
+  return {
+    in: { x: anchorX, y: topPortY + portH * 0.5 },
+  }
+}
+
+// Where the data cable plugs in: the connector of the given receiver card, or the cabinet's anchor override
+// (its center by default) when it has no card.
+export function getCabinetDataAnchorPoint(
+  cabinet: Cabinet,
+  bounds: { x: number; y: number; width: number; height: number },
+  zoom: number,
+  cardIndex?: number,
+  cardVariant: ReceiverCardVariant = "indoor",
+) {
+  const cardCount = getCabinetReceiverCardCount(cabinet)
+  if (cardCount > 0) {
+    const rects = getReceiverCardRects(bounds, zoom, cardCount, cardVariant)
+    const resolvedIndex = cardIndex === undefined ? 0 : Math.max(0, Math.min(rects.length - 1, cardIndex))
+    const anchorRect = rects[resolvedIndex]
+    if (anchorRect) {
+      if (cardVariant === "outdoor") {
+        const ports = getOutdoorReceiverCardDataPorts(anchorRect, zoom)
+        return {
+          x: ports.in.x,
+          y: ports.in.y,
+          resolvedIndex,
+          isVirtual: false,
+        }
+      }
+      return {
+        x: anchorRect.connectorX,
+        y: anchorRect.connectorY,
+        resolvedIndex,
+        isVirtual: false,
+      }
+    }
+  }
+
+  const override = cabinet.dataAnchorOverride
+  return {
+    x: bounds.x + bounds.width * clamp(override?.x ?? 0.5, 0, 1),
+    y: bounds.y + bounds.height * clamp(override?.y ?? 0.5, 0, 1),
+    resolvedIndex: undefined,
+    isVirtual: true,
+  }
+}
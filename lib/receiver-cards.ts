@@ -1,3 +1,5 @@
+import type { Project } from "./types"
+
 export type ReceiverCardModelOption = {
   id: string
   label: string
@@ -21,3 +23,17 @@ export function formatReceiverCardOptionLabel(option: ReceiverCardModelOption) {
   }
   return option.label
 }
+
+type ReceiverCardCatalogSource = Pick<Project, "receiverCardModels">
+
+// Built-in cards followed by the project's own; a project card replaces the built-in with the same id.
+export function getReceiverCardCatalog(project: ReceiverCardCatalogSource): ReceiverCardModelOption[] {
+  const custom = project.receiverCardModels ?? []
+  const builtIns = RECEIVER_CARD_MODELS.map((model) => custom.find((entry) => entry.id === model.id) ?? model)
+  return [...builtIns, ...custom.filter((model) => !RECEIVER_CARD_MODELS.some((entry) => entry.id === model.id))]
+}
+
+export function findReceiverCardModel(project: ReceiverCardCatalogSource, modelId: string) {
+  const key = modelId.trim().toLowerCase()
+  return getReceiverCardCatalog(project).find((model) => model.id.toLowerCase() === key)
+}
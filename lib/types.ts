@@ -1,5 +1,6 @@
 // Core data types for LED Cabinet Layout Editor
-import { DEFAULT_RECEIVER_CARD_MODEL } from "./receiver-cards"
+import { DEFAULT_RECEIVER_CARD_MODEL, type ReceiverCardModelOption } from "./receiver-cards"
+import { MAIN_CONTROLLER_ID } from "./controllers"
 
 export interface CabinetType {
   typeId: string
@@ -8,8 +9,14 @@ export interface CabinetType {
   depth_mm?: number
   cadKey?: string
   description?: string
+  // Datasheet values; when unset, power and weight are estimated from the cabinet area.
+  maxPowerW?: number
+  typicalPowerW?: number
+  weightKg?: number
 }
 
+export type CabinetTypeSpecs = Pick<CabinetType, "maxPowerW" | "typicalPowerW" | "weightKg">
+
 export interface Cabinet {
   id: string
   typeId: string
@@ -94,6 +101,8 @@ export interface DataRoute {
   cabinetIds: string[] // ordered cabinet endpoint IDs in chain
   manualMode?: boolean
   steps?: DataRouteStep[] // ordered route steps (points/cabinets) for manual routing
+  controllerId?: string // ProjectController feeding this route; unset = main controller
+  backupForRouteId?: string // backup loop: same endpoints as this primary route, fed from the far end
 }
 
 export interface PowerFeed {
@@ -110,6 +119,32 @@ export interface PowerFeed {
   connectLvBox?: boolean // outdoor: draw OUT -> LV BOX only when explicitly enabled
   positionX?: number // X position for the power line (auto-calculated or manual)
   labelPosition?: "auto" | "top" | "bottom" | "left" | "right"
+  distroId?: string // PowerDistro the feed is wired to
+  phase?: PowerPhase // phase of that distro
+}
+
+// Electrical catalog entries; a feed refers to them by id through `breaker` and `connector`.
+export interface BreakerModel {
+  id: string // shown on feeds, e.g. "220V 20A"
+  voltageV: number
+  currentA: number
+  derating: number // continuous-load factor, e.g. 0.8
+}
+
+export interface ConnectorModel {
+  id: string // e.g. "NAC3FX-W"
+  maxCurrentA: number
+  maxChainLength: number // cabinets a feed may daisy-chain through this connector
+}
+
+export type PowerPhase = "L1" | "L2" | "L3"
+
+// A three-phase distribution panel; each feed draws from one of its phases.
+export interface PowerDistro {
+  id: string
+  label: string
+  phaseVoltageV: number // line-to-neutral, e.g. 230 or 120
+  ratedCurrentA: number // per-phase rating
 }
 
 export interface ExportSettings {
@@ -120,10 +155,80 @@ export interface ExportSettings {
   clientName: string
   showLegend?: boolean
   doubleSidedTitle?: boolean
+  showBom?: boolean // append a bill of materials page to the PDF
+  showQuote?: boolean // append a cost estimate page to the PDF
+  showCadViews?: boolean // append side/top projection and isometric pages to the PDF
+  drawingSet?: boolean // export the PDF as a numbered sheet set (cover, data, power, pixel map, BOM, faces)
+  showPowerReport?: boolean // add typical/standby power and heat load rows to the PDF legend
+  pdfOutput?: PdfOutputMode // defaults to vector
 }
 
+// "vector" writes the overview as PDF paths and text; "raster" embeds a 200 DPI image of the sheet.
+export type PdfOutputMode = "vector" | "raster"
+
 export type ProjectMode = "indoor" | "die-cast" | "outdoor"
 
+export type BomCategory =
+  | "cabinet"
+  | "module"
+  | "receiver-card"
+  | "controller"
+  | "power-connector"
+  | "data-jumper"
+  | "data-cable"
+  | "power-jumper"
+  | "power-cable"
+
+// Catalog entry for one bill of materials line, matched by the line key (e.g. "cabinet:STD_1120x640").
+export interface BomPart {
+  key: string
+  partNumber?: string
+  description?: string // replaces the generated description
+  unitPrice?: number
+  sparePercent?: number // replaces the category default
+}
+
+// Allowances added to the geometric cable lengths of data routes.
+export interface CablingSettings {
+  jumperSlackMm: number // extra length on every cabinet-to-cabinet jumper
+  serviceLoopMm: number // service loop on each controller run and power lead
+  controllerDistanceMm: number // external controllers: distance from the controller to the bottom edge of the wall
+}
+
+export interface QuoteSettings {
+  currency: string // ISO 4217 code, e.g. "USD"
+  marginPercent: number // gross margin on the sell price, 0 to <100
+  labourPerCabinet: number // install labour per cabinet
+  labourPerRoute: number // cabling labour per data route
+}
+
+// Inputs for the max/typical/standby power report.
+export interface PowerReportSettings {
+  typicalDutyPercent: number // share of max power drawn on typical content, for types without a typical rating
+  standbyPercent: number // share of max power drawn with a black screen
+  voltageV: number // supply voltage used for the current figures
+}
+
+export interface ControllerModel {
+  id: string // model name shown in the picker, e.g. "A100"
+  ports: number
+  perPortMaxPx: number
+  totalMaxPx: number
+  maxWidthPx?: number
+  maxHeightPx?: number
+}
+
+export type ControllerPlacement = "external" | "cabinet"
+
+// A sending unit in the project. The first one is the main controller: routes without a controllerId use it.
+export interface ProjectController {
+  id: string
+  model: string // ControllerModel id from the controller catalog
+  label?: string
+  placement?: ControllerPlacement
+  cabinetId?: string
+}
+
 export interface Project {
   mode: ProjectMode
   name: string
@@ -132,10 +237,16 @@ export interface Project {
   pitch_mm: number
   pitch_is_gob: boolean
   outdoorHardwareProfile?: OutdoorHardwareProfile
-  controller: "A100" | "A200" | "X8E" | "TB-50"
-  controllerLabel?: string
-  controllerPlacement?: "external" | "cabinet"
-  controllerCabinetId?: string
+  controllers: ProjectController[] // sending units, main controller first; each feeds its own data routes
+  controllerModels?: ControllerModel[] // project-specific catalog entries (override built-ins with the same id)
+  receiverCardModels?: ReceiverCardModelOption[] // receiver cards added from the UI, alongside the built-in list
+  cabling?: CablingSettings
+  bomParts?: BomPart[]
+  quote?: QuoteSettings
+  powerReport?: PowerReportSettings
+  powerDistros?: PowerDistro[]
+  breakerModels?: BreakerModel[] // project-specific electrical catalog (override built-ins with the same id)
+  connectorModels?: ConnectorModel[]
   grid: GridSettings
   overview: OverviewSettings
   dataRoutes: DataRoute[]
@@ -150,11 +261,42 @@ export interface LayoutData {
   cabinets: Cabinet[]
 }
 
+export type ValidationErrorCode =
+  | "OVERLAP"
+  | "OUT_OF_GRID"
+  | "MISSING_TYPE"
+  | "DUPLICATE_ID"
+  | "ISOLATED_CABINET"
+  | "ROUTE_MISSING_CABINET"
+  | "ROUTE_MISSING_CARD"
+  | "UNROUTED_CARD"
+  | "ENDPOINT_MULTIPLE_ROUTES"
+  | "DUPLICATE_PORT"
+  | "PORT_OVER_CAPACITY"
+  | "POWER_FEED_OVERLOADED"
+  | "UNKNOWN_BREAKER"
+  | "UNPOWERED_CABINET"
+  | "DOUBLY_POWERED_CABINET"
+  | "FEED_MISSING_CABINET"
+  | "RECEIVER_CARD_OVER_CAPACITY"
+  | "CONTROLLER_OVER_CAPACITY"
+  | "ROUTE_UNKNOWN_CONTROLLER"
+  | "BACKUP_ROUTE_MISSING_PRIMARY"
+  | "BACKUP_ROUTE_MISMATCH"
+  | "DATA_RUN_TOO_LONG"
+  | "PHASE_OVERLOADED"
+  | "UNKNOWN_CONNECTOR"
+  | "CONNECTOR_OVERLOADED"
+  | "FEED_CHAIN_TOO_LONG"
+
 export interface ValidationError {
   type: "error" | "warning"
-  code: "OVERLAP" | "OUT_OF_GRID" | "MISSING_TYPE" | "DUPLICATE_ID" | "ISOLATED_CABINET"
+  code: ValidationErrorCode
   message: string
   cabinetIds: string[]
+  routeId?: string // data route the issue belongs to, when route-specific
+  feedId?: string // power feed the issue belongs to, when feed-specific
+  suggestedCardCount?: number // receiver cards a cabinet needs, for card capacity issues
 }
 
 export type RoutingMode = { type: "none" } | { type: "data"; routeId: string } | { type: "power"; feedId: string }
@@ -187,7 +329,7 @@ export const DEFAULT_CABINET_TYPES: CabinetType[] = DEFAULT_HEIGHTS_MM.flatMap((
 )
 
 export const DEFAULT_LAYOUT: LayoutData = {
-  schemaVersion: 3,
+  schemaVersion: 4,
   project: {
     mode: "indoor",
     name: "NC",
@@ -196,9 +338,7 @@ export const DEFAULT_LAYOUT: LayoutData = {
     pitch_mm: 2.5,
     pitch_is_gob: true,
     outdoorHardwareProfile: "standard",
-    controller: "A100",
-    controllerLabel: "",
-    controllerPlacement: "external",
+    controllers: [{ id: MAIN_CONTROLLER_ID, model: "A100", label: "", placement: "external" }],
     grid: { enabled: true, step_mm: 160 },
     overview: {
       showReceiverCards: true,
@@ -0,0 +1,261 @@
+import type { DataRouteStep, LayoutData, ValidationError } from "./types"
+import { getCabinetReceiverCardCount, parseRouteCabinetId } from "./types"
+import { getControllerModel, getProjectController, getRouteControllerId } from "./controllers"
+import { getBackupRouteEndpointIds } from "./data-utils"
+
+// One-click repairs offered by the issues panel. Each fix returns a new layout and leaves the input untouched.
+
+function nextCabinetId(existingIds: Set<string>) {
+  let counter = existingIds.size + 1
+  let id = `C${String(counter).padStart(2, "0")}`
+  while (existingIds.has(id)) {
+    counter++
+    id = `C${String(counter).padStart(2, "0")}`
+  }
+  return id
+}
+
+function snapToGrid(layout: LayoutData, cabinetIds: string[]): LayoutData {
+  const step = layout.project.grid.step_mm
+  if (!step) return layout
+  const ids = new Set(cabinetIds)
+  return {
+    ...layout,
+    cabinets: layout.cabinets.map((cabinet) =>
+      ids.has(cabinet.id)
+        ? { ...cabinet, x_mm: Math.round(cabinet.x_mm / step) * step, y_mm: Math.round(cabinet.y_mm / step) * step }
+        : cabinet,
+    ),
+  }
+}
+
+function reassignDuplicateId(layout: LayoutData, duplicateId: string): LayoutData {
+  const existingIds = new Set(layout.cabinets.map((cabinet) => cabinet.id))
+  let seen = false
+  return {
+    ...layout,
+    cabinets: layout.cabinets.map((cabinet) => {
+      if (cabinet.id !== duplicateId) return cabinet
+      // Routes and feeds keep pointing at the first cabinet with the ID.
+      if (!seen) {
+        seen = true
+        return cabinet
+      }
+      const id = nextCabinetId(existingIds)
+      existingIds.add(id)
+      return { ...cabinet, id }
+    }),
+  }
+}
+
+// Drops route endpoints whose cabinet is gone or whose card index is past the cabinet's card count.
+function removeDanglingEndpoints(layout: LayoutData, routeId: string): LayoutData {
+  const cabinetMap = new Map(layout.cabinets.map((cabinet) => [cabinet.id, cabinet]))
+  const isValidEndpoint = (endpointId: string) => {
+    const { cabinetId, cardIndex } = parseRouteCabinetId(endpointId)
+    const cabinet = cabinetMap.get(cabinetId)
+    if (!cabinet) return false
+    const cardCount = getCabinetReceiverCardCount(cabinet)
+    return cardCount > 0 && (cardIndex === undefined || cardIndex < cardCount)
+  }
+  const keepStep = (step: DataRouteStep) => step.type === "point" || isValidEndpoint(step.endpointId)
+
+  return {
+    ...layout,
+    project: {
+      ...layout.project,
+      dataRoutes: layout.project.dataRoutes.map((route) =>
+        route.id === routeId
+          ? {
+              ...route,
+              cabinetIds: route.cabinetIds.filter(isValidEndpoint),
+              ...(route.steps ? { steps: route.steps.filter(keepStep) } : {}),
+            }
+          : route,
+      ),
+    },
+  }
+}
+
+function removeMissingFeedCabinets(layout: LayoutData, feedId: string): LayoutData {
+  const cabinetIds = new Set(layout.cabinets.map((cabinet) => cabinet.id))
+  return {
+    ...layout,
+    project: {
+      ...layout.project,
+      powerFeeds: layout.project.powerFeeds.map((feed) =>
+        feed.id === feedId
+          ? {
+              ...feed,
+              assignedCabinetIds: feed.assignedCabinetIds.filter((id) => cabinetIds.has(id)),
+              ...(feed.steps
+                ? { steps: feed.steps.filter((step) => step.type === "point" || cabinetIds.has(step.endpointId)) }
+                : {}),
+            }
+          : feed,
+      ),
+    },
+  }
+}
+
+// Keeps the cabinet on the first feed (in list order) that has it and takes it off every other one.
+function keepCabinetOnFirstFeed(layout: LayoutData, cabinetId: string): LayoutData {
+  const firstFeedId = layout.project.powerFeeds.find((feed) => feed.assignedCabinetIds.includes(cabinetId))?.id
+  return {
+    ...layout,
+    project: {
+      ...layout.project,
+      powerFeeds: layout.project.powerFeeds.map((feed) =>
+        feed.id !== firstFeedId && feed.assignedCabinetIds.includes(cabinetId)
+          ? {
+              ...feed,
+              assignedCabinetIds: feed.assignedCabinetIds.filter((id) => id !== cabinetId),
+              ...(feed.steps
+                ? { steps: feed.steps.filter((step) => step.type === "point" || step.endpointId !== cabinetId) }
+                : {}),
+            }
+          : feed,
+      ),
+    },
+  }
+}
+
+// First port of the route's controller that no other route uses; null when the controller has none left.
+function getFreeRoutePort(layout: LayoutData, routeId: string) {
+  const { project } = layout
+  const target = project.dataRoutes.find((route) => route.id === routeId)
+  if (!target) return null
+  const controllerId = getRouteControllerId(project, target)
+  const ports = getControllerModel(project, getProjectController(project, controllerId).model).ports
+  const usedPorts = new Set(
+    project.dataRoutes
+      .filter((route) => route.id !== routeId && getRouteControllerId(project, route) === controllerId)
+      .map((route) => route.port),
+  )
+  let port = 1
+  while (usedPorts.has(port) && port <= ports) port++
+  return port > ports ? null : port
+}
+
+function moveRouteToFreePort(layout: LayoutData, routeId: string): LayoutData {
+  const port = getFreeRoutePort(layout, routeId)
+  if (port === null) return layout
+  return {
+    ...layout,
+    project: {
+      ...layout.project,
+      dataRoutes: layout.project.dataRoutes.map((route) => (route.id === routeId ? { ...route, port } : route)),
+    },
+  }
+}
+
+function assignRouteToMainController(layout: LayoutData, routeId: string): LayoutData {
+  return {
+    ...layout,
+    project: {
+      ...layout.project,
+      dataRoutes: layout.project.dataRoutes.map((route) =>
+        route.id === routeId ? { ...route, controllerId: undefined } : route,
+      ),
+    },
+  }
+}
+
+// Resets the backup to the primary's endpoints in reverse; manual points no longer match, so they go too.
+function mirrorPrimaryRoute(layout: LayoutData, routeId: string): LayoutData {
+  const backup = layout.project.dataRoutes.find((route) => route.id === routeId)
+  const primary = backup && layout.project.dataRoutes.find((route) => route.id === backup.backupForRouteId)
+  if (!primary) return layout
+  return {
+    ...layout,
+    project: {
+      ...layout.project,
+      dataRoutes: layout.project.dataRoutes.map((route) =>
+        route.id === routeId
+          ? { ...route, cabinetIds: getBackupRouteEndpointIds(primary), steps: undefined, manualMode: false }
+          : route,
+      ),
+    },
+  }
+}
+
+function unlinkBackupRoute(layout: LayoutData, routeId: string): LayoutData {
+  return {
+    ...layout,
+    project: {
+      ...layout.project,
+      dataRoutes: layout.project.dataRoutes.map((route) =>
+        route.id === routeId ? { ...route, backupForRouteId: undefined } : route,
+      ),
+    },
+  }
+}
+
+// Cabinets carry at most two receiver cards, so larger suggestions have no one-click fix.
+function setReceiverCardCount(layout: LayoutData, cabinetId: string, cardCount: number): LayoutData {
+  if (cardCount < 1 || cardCount > 2) return layout
+  return {
+    ...layout,
+    cabinets: layout.cabinets.map((cabinet) =>
+      cabinet.id === cabinetId ? { ...cabinet, receiverCardCount: cardCount as 1 | 2 } : cabinet,
+    ),
+  }
+}
+
+export function getValidationFixLabel(layout: LayoutData, issue: ValidationError): string | null {
+  switch (issue.code) {
+    case "OUT_OF_GRID":
+      return "Snap to grid"
+    case "DUPLICATE_ID":
+      return "Reassign duplicate ID"
+    case "ROUTE_MISSING_CABINET":
+    case "ROUTE_MISSING_CARD":
+      return issue.routeId ? "Remove dangling endpoint" : null
+    case "FEED_MISSING_CABINET":
+      return issue.feedId ? "Remove missing cabinets" : null
+    case "DOUBLY_POWERED_CABINET":
+      return issue.cabinetIds[0] ? "Keep on first feed" : null
+    case "DUPLICATE_PORT":
+      return issue.routeId && getFreeRoutePort(layout, issue.routeId) !== null ? "Move to free port" : null
+    case "RECEIVER_CARD_OVER_CAPACITY":
+      return issue.suggestedCardCount === 2 ? "Use 2 receiver cards" : null
+    case "ROUTE_UNKNOWN_CONTROLLER":
+      return issue.routeId ? "Assign to main controller" : null
+    case "BACKUP_ROUTE_MISMATCH":
+      return issue.routeId ? "Mirror primary route" : null
+    case "BACKUP_ROUTE_MISSING_PRIMARY":
+      return issue.routeId ? "Make regular route" : null
+    default:
+      return null
+  }
+}
+
+export function applyValidationFix(layout: LayoutData, issue: ValidationError): LayoutData {
+  switch (issue.code) {
+    case "OUT_OF_GRID":
+      return snapToGrid(layout, issue.cabinetIds)
+    case "DUPLICATE_ID":
+      return issue.cabinetIds[0] ? reassignDuplicateId(layout, issue.cabinetIds[0]) : layout
+    case "ROUTE_MISSING_CABINET":
+    case "ROUTE_MISSING_CARD":
+      return issue.routeId ? removeDanglingEndpoints(layout, issue.routeId) : layout
+    case "FEED_MISSING_CABINET":
+      return issue.feedId ? removeMissingFeedCabinets(layout, issue.feedId) : layout
+    case "DOUBLY_POWERED_CABINET":
+      return issue.cabinetIds[0] ? keepCabinetOnFirstFeed(layout, issue.cabinetIds[0]) : layout
+    case "DUPLICATE_PORT":
+      return issue.routeId ? moveRouteToFreePort(layout, issue.routeId) : layout
+    case "RECEIVER_CARD_OVER_CAPACITY":
+      return issue.cabinetIds[0] && issue.suggestedCardCount
+        ? setReceiverCardCount(layout, issue.cabinetIds[0], issue.suggestedCardCount)
+        : layout
+    case "ROUTE_UNKNOWN_CONTROLLER":
+      return issue.routeId ? assignRouteToMainController(layout, issue.routeId) : layout
+    case "BACKUP_ROUTE_MISMATCH":
+      return issue.routeId ? mirrorPrimaryRoute(layout, issue.routeId) : layout
+    case "BACKUP_ROUTE_MISSING_PRIMARY":
+      return issue.routeId ? unlinkBackupRoute(layout, issue.routeId) : layout
+    default:
+      return layout
+  }
+}
@@ -1,4 +1,36 @@
-import type { Cabinet, CabinetType, LayoutData, ValidationError } from "./types"
+import type { Cabinet, CabinetType, LayoutData, ValidationError, ValidationErrorCode } from "./types"
+import { formatRouteCabinetId, getCabinetReceiverCardCount, parseRouteCabinetId } from "./types"
+import {
+  getControllerPixelLoad,
+  getControllerPixelSpan,
+  getDataRouteLoadPx,
+  getRoutePortCapacityPx,
+  isBackupRouteInSync,
+} from "./data-utils"
+import {
+  getControllerDisplayLabel,
+  getControllerModel,
+  getDataRoutePortLabel,
+  getRouteControllerId,
+  hasMultipleControllers,
+} from "./controllers"
+import { getBreakerMaxW, getPowerFeedDisplayLabel, getPowerFeedLoadW } from "./power-utils"
+import { getBreakerModel, getConnectorModel } from "./electrical-catalog"
+import { getReceiverCardCapacity } from "./receiver-card-capacity"
+import { ETHERNET_MAX_RUN_MM, formatCableLength, getDataRouteCabling } from "./cable-lengths"
+import { getDistroDisplayLabel, getProjectPhaseLoads } from "./power-phases"
+
+export const POWER_VALIDATION_CODES: ValidationErrorCode[] = [
+  "POWER_FEED_OVERLOADED",
+  "UNKNOWN_BREAKER",
+  "UNPOWERED_CABINET",
+  "DOUBLY_POWERED_CABINET",
+  "FEED_MISSING_CABINET",
+  "PHASE_OVERLOADED",
+  "UNKNOWN_CONNECTOR",
+  "CONNECTOR_OVERLOADED",
+  "FEED_CHAIN_TOO_LONG",
+]
 
 function inferCabinetTypeFromId(typeId: string): CabinetType | null {
   const match = typeId.match(/(\d+)\s*x\s*(\d+)/i)
@@ -58,6 +90,367 @@ function areAdjacent(
   return horizontallyAdjacent || verticallyAdjacent
 }
 
+function getRouteCabinetIds(endpointIds: string[]) {
+  return Array.from(new Set(endpointIds.map((endpointId) => parseRouteCabinetId(endpointId).cabinetId)))
+}
+
+function validateDataRoutes(layout: LayoutData, errors: ValidationError[]) {
+  const { cabinets, cabinetTypes, project } = layout
+  const routes = project.dataRoutes ?? []
+  const cabinetMap = new Map(cabinets.map((c) => [c.id, c]))
+  // Card endpoint (cabinet + card index) -> routes that feed it
+  const endpointRoutes = new Map<string, string[]>()
+  const wholeCabinetRoutes = new Set<string>()
+
+  routes.forEach((route) => {
+    const label = getDataRoutePortLabel(project, route)
+    new Set(route.cabinetIds).forEach((endpointId) => {
+      const { cabinetId, cardIndex } = parseRouteCabinetId(endpointId)
+      const cabinet = cabinetMap.get(cabinetId)
+      if (!cabinet) {
+        errors.push({
+          type: "error",
+          code: "ROUTE_MISSING_CABINET",
+          message: `${label} references missing cabinet ${cabinetId}`,
+          cabinetIds: [cabinetId],
+          routeId: route.id,
+        })
+        return
+      }
+
+      const cardCount = getCabinetReceiverCardCount(cabinet)
+      if (cardCount === 0 || (cardIndex !== undefined && cardIndex >= cardCount)) {
+        errors.push({
+          type: "error",
+          code: "ROUTE_MISSING_CARD",
+          message: `${label} references receiver card ${endpointId} but cabinet ${cabinetId} has ${cardCount} card${cardCount === 1 ? "" : "s"}`,
+          cabinetIds: [cabinetId],
+          routeId: route.id,
+        })
+        return
+      }
+
+      // Backup loops feed the same cards as their primary by design.
+      if (route.backupForRouteId) return
+      if (cardIndex === undefined) wholeCabinetRoutes.add(cabinetId)
+      const cardKeys =
+        cardIndex !== undefined
+          ? [formatRouteCabinetId(cabinetId, cardIndex)]
+          : Array.from({ length: cardCount }, (_, index) => formatRouteCabinetId(cabinetId, index))
+      cardKeys.forEach((key) => endpointRoutes.set(key, [...(endpointRoutes.get(key) ?? []), route.id]))
+    })
+  })
+
+  endpointRoutes.forEach((routeIds, endpointId) => {
+    if (routeIds.length < 2) return
+    const { cabinetId } = parseRouteCabinetId(endpointId)
+    const ports = routeIds.map((id) => {
+      const route = routes.find((r) => r.id === id)
+      return route ? getDataRoutePortLabel(project, route) : "?"
+    })
+    errors.push({
+      type: "error",
+      code: "ENDPOINT_MULTIPLE_ROUTES",
+      message: `Receiver card ${wholeCabinetRoutes.has(cabinetId) ? cabinetId : endpointId} is on ${ports.join(", ")}`,
+      cabinetIds: [cabinetId],
+      routeId: routeIds[1],
+    })
+  })
+
+  // Unrouted cards only matter once the user has started routing.
+  if (routes.length > 0) {
+    cabinets.forEach((cabinet) => {
+      const cardCount = getCabinetReceiverCardCount(cabinet)
+      const missingCards = Array.from({ length: cardCount }, (_, index) => index).filter(
+        (index) => !endpointRoutes.has(formatRouteCabinetId(cabinet.id, index)),
+      )
+      if (missingCards.length === 0) return
+      errors.push({
+        type: "warning",
+        code: "UNROUTED_CARD",
+        message:
+          cardCount === 1
+            ? `Cabinet ${cabinet.id} receiver card is not on any data route`
+            : missingCards.length === cardCount
+              ? `Cabinet ${cabinet.id} receiver cards are not on any data route`
+              : `Cabinet ${cabinet.id} card ${missingCards.map((index) => index + 1).join(", ")} is not on any data route`,
+        cabinetIds: [cabinet.id],
+      })
+    })
+  }
+
+  // Ports are numbered per controller, so the same port on two controllers is fine.
+  const routesByPort = new Map<string, typeof routes>()
+  routes.forEach((route) => {
+    const key = `${getRouteControllerId(project, route)}:${route.port}`
+    routesByPort.set(key, [...(routesByPort.get(key) ?? []), route])
+  })
+  routesByPort.forEach((portRoutes) => {
+    if (portRoutes.length < 2) return
+    const label = getDataRoutePortLabel(project, portRoutes[0])
+    portRoutes.slice(1).forEach((route) => {
+      errors.push({
+        type: "error",
+        code: "DUPLICATE_PORT",
+        message: `${label} is used by ${portRoutes.length} data routes`,
+        cabinetIds: getRouteCabinetIds(route.cabinetIds),
+        routeId: route.id,
+      })
+    })
+  })
+
+  routes.forEach((route) => {
+    const loadPx = getDataRouteLoadPx(route, cabinets, cabinetTypes, project.pitch_mm)
+    const perPortMaxPx = getRoutePortCapacityPx(project, route)
+    if (loadPx <= perPortMaxPx) return
+    errors.push({
+      type: "error",
+      code: "PORT_OVER_CAPACITY",
+      message: `${getDataRoutePortLabel(project, route)} carries ${Math.round(loadPx).toLocaleString()} px (max ${perPortMaxPx.toLocaleString()} px)`,
+      cabinetIds: getRouteCabinetIds(route.cabinetIds),
+      routeId: route.id,
+    })
+  })
+
+  routes.forEach((route) => {
+    if (!route.controllerId || getRouteControllerId(project, route) === route.controllerId) return
+    errors.push({
+      type: "warning",
+      code: "ROUTE_UNKNOWN_CONTROLLER",
+      message: `Port ${route.port} is assigned to missing controller ${route.controllerId} and falls back to the main controller`,
+      cabinetIds: getRouteCabinetIds(route.cabinetIds),
+      routeId: route.id,
+    })
+  })
+
+  routes.forEach((route) => {
+    if (!route.backupForRouteId) return
+    const label = getDataRoutePortLabel(project, route)
+    const primary = routes.find((r) => r.id === route.backupForRouteId)
+    if (!primary || primary.backupForRouteId) {
+      errors.push({
+        type: "error",
+        code: "BACKUP_ROUTE_MISSING_PRIMARY",
+        message: `${label} is a backup for a data route that no longer exists`,
+        cabinetIds: getRouteCabinetIds(route.cabinetIds),
+        routeId: route.id,
+      })
+      return
+    }
+    if (isBackupRouteInSync(primary, route)) return
+    errors.push({
+      type: "error",
+      code: "BACKUP_ROUTE_MISMATCH",
+      message: `${label} does not cover the cards of ${getDataRoutePortLabel(project, primary)} in reverse order`,
+      cabinetIds: getRouteCabinetIds(route.cabinetIds),
+      routeId: route.id,
+    })
+  })
+}
+
+// Lengths are estimates from the route geometry plus the project cabling allowances.
+function validateCableRuns(layout: LayoutData, errors: ValidationError[]) {
+  const { project } = layout
+  project.dataRoutes.forEach((route) => {
+    getDataRouteCabling(layout, route).hops.forEach((hop) => {
+      if (hop.lengthMm <= ETHERNET_MAX_RUN_MM) return
+      const from = hop.fromEndpointId ? parseRouteCabinetId(hop.fromEndpointId).cabinetId : "the controller"
+      const to = parseRouteCabinetId(hop.toEndpointId).cabinetId
+      errors.push({
+        type: "warning",
+        code: "DATA_RUN_TOO_LONG",
+        message: `${getDataRoutePortLabel(project, route)} run from ${from} to ${to} is about ${formatCableLength(hop.lengthMm)}, over the ${ETHERNET_MAX_RUN_MM / 1000} m Ethernet limit`,
+        cabinetIds: getRouteCabinetIds(hop.fromEndpointId ? [hop.fromEndpointId, hop.toEndpointId] : [hop.toEndpointId]),
+        routeId: route.id,
+      })
+    })
+  })
+}
+
+// Single-controller projects keep the existing whole-wall check in the data routes panel.
+function validateControllers(layout: LayoutData, errors: ValidationError[]) {
+  const { project } = layout
+  if (!hasMultipleControllers(project)) return
+  project.controllers.forEach((controller) => {
+    const model = getControllerModel(project, controller.model)
+    const label = getControllerDisplayLabel(controller)
+    const routes = project.dataRoutes.filter((route) => getRouteControllerId(project, route) === controller.id)
+    const cabinetIds = getRouteCabinetIds(routes.flatMap((route) => route.cabinetIds))
+    const maxPort = routes.reduce((max, route) => Math.max(max, route.port), 0)
+    if (maxPort > model.ports) {
+      errors.push({
+        type: "error",
+        code: "CONTROLLER_OVER_CAPACITY",
+        message: `${label} uses port ${maxPort} but ${model.id} has ${model.ports} ports`,
+        cabinetIds,
+      })
+    }
+    const loadPx = getControllerPixelLoad(layout, controller.id)
+    if (loadPx > model.totalMaxPx) {
+      errors.push({
+        type: "error",
+        code: "CONTROLLER_OVER_CAPACITY",
+        message: `${label} carries ${Math.round(loadPx).toLocaleString()} px (max ${model.totalMaxPx.toLocaleString()} px)`,
+        cabinetIds,
+      })
+    }
+    const span = getControllerPixelSpan(layout, controller.id)
+    if ((model.maxWidthPx && span.widthPx > model.maxWidthPx) || (model.maxHeightPx && span.heightPx > model.maxHeightPx)) {
+      errors.push({
+        type: "error",
+        code: "CONTROLLER_OVER_CAPACITY",
+        message: `${label} spans ${span.widthPx} x ${span.heightPx} px (max ${model.maxWidthPx ?? "-"} x ${model.maxHeightPx ?? "-"} px)`,
+        cabinetIds,
+      })
+    }
+  })
+}
+
+function validatePowerPhases(layout: LayoutData, errors: ValidationError[]) {
+  getProjectPhaseLoads(layout).forEach(({ distro, phases, overloadedPhases }) => {
+    overloadedPhases.forEach((phase) => {
+      const load = phases.find((entry) => entry.phase === phase)
+      if (!load) return
+      const feeds = layout.project.powerFeeds.filter((feed) => load.feedIds.includes(feed.id))
+      errors.push({
+        type: "error",
+        code: "PHASE_OVERLOADED",
+        message: `${getDistroDisplayLabel(distro)} ${phase} draws ${load.currentA} A on a ${distro.ratedCurrentA} A rating`,
+        cabinetIds: feeds.flatMap((feed) => feed.assignedCabinetIds),
+        feedId: feeds[0]?.id,
+      })
+    })
+  })
+}
+
+function validatePowerFeeds(layout: LayoutData, errors: ValidationError[]) {
+  const { cabinets, cabinetTypes, project } = layout
+  const feeds = project.powerFeeds ?? []
+  const mode = project.mode ?? "indoor"
+  const cabinetIds = new Set(cabinets.map((c) => c.id))
+  const cabinetFeeds = new Map<string, string[]>()
+
+  feeds.forEach((feed) => {
+    const label = getPowerFeedDisplayLabel(feed)
+    const breaker = feed.breaker?.trim()
+    const maxW = getBreakerMaxW(project, breaker)
+    if (breaker && maxW === null) {
+      errors.push({
+        type: "warning",
+        code: "UNKNOWN_BREAKER",
+        message: `${label} uses unknown breaker "${breaker}"`,
+        cabinetIds: [...feed.assignedCabinetIds],
+        feedId: feed.id,
+      })
+    }
+
+    const loadW = getPowerFeedLoadW(feed, cabinets, cabinetTypes, mode)
+    if (maxW !== null && loadW > maxW) {
+      errors.push({
+        type: "error",
+        code: "POWER_FEED_OVERLOADED",
+        message: `${label} draws ${loadW} W on a ${maxW} W breaker`,
+        cabinetIds: [...feed.assignedCabinetIds],
+        feedId: feed.id,
+      })
+    }
+
+    const connectorId = feed.connector.trim()
+    const connector = getConnectorModel(project, connectorId)
+    if (connectorId && !connector) {
+      errors.push({
+        type: "warning",
+        code: "UNKNOWN_CONNECTOR",
+        message: `${label} uses unknown connector "${connectorId}"`,
+        cabinetIds: [...feed.assignedCabinetIds],
+        feedId: feed.id,
+      })
+    }
+    const breakerModel = getBreakerModel(project, breaker)
+    if (connector && breakerModel) {
+      const currentA = Math.round((loadW / breakerModel.voltageV) * 10) / 10
+      if (currentA > connector.maxCurrentA) {
+        errors.push({
+          type: "error",
+          code: "CONNECTOR_OVERLOADED",
+          message: `${label} draws ${currentA} A through ${connector.id}, rated ${connector.maxCurrentA} A`,
+          cabinetIds: [...feed.assignedCabinetIds],
+          feedId: feed.id,
+        })
+      }
+    }
+    if (connector && feed.assignedCabinetIds.length > connector.maxChainLength) {
+      errors.push({
+        type: "warning",
+        code: "FEED_CHAIN_TOO_LONG",
+        message: `${label} daisy-chains ${feed.assignedCabinetIds.length} cabinets; ${connector.id} allows ${connector.maxChainLength}`,
+        cabinetIds: [...feed.assignedCabinetIds],
+        feedId: feed.id,
+      })
+    }
+
+    const stepCabinetIds = (feed.steps ?? []).flatMap((step) => (step.type === "cabinet" ? [step.endpointId] : []))
+    const missingIds = Array.from(new Set([...feed.assignedCabinetIds, ...stepCabinetIds])).filter(
+      (id) => !cabinetIds.has(id),
+    )
+    if (missingIds.length > 0) {
+      errors.push({
+        type: "error",
+        code: "FEED_MISSING_CABINET",
+        message: `${label} references missing cabinet${missingIds.length === 1 ? "" : "s"} ${missingIds.join(", ")}`,
+        cabinetIds: missingIds,
+        feedId: feed.id,
+      })
+    }
+
+    new Set(feed.assignedCabinetIds).forEach((id) => {
+      if (cabinetIds.has(id)) cabinetFeeds.set(id, [...(cabinetFeeds.get(id) ?? []), feed.id])
+    })
+  })
+
+  cabinetFeeds.forEach((feedIds, cabinetId) => {
+    if (feedIds.length < 2) return
+    const labels = feedIds.map((id) => {
+      const feed = feeds.find((f) => f.id === id)
+      return feed ? getPowerFeedDisplayLabel(feed) : id
+    })
+    errors.push({
+      type: "error",
+      code: "DOUBLY_POWERED_CABINET",
+      message: `Cabinet ${cabinetId} is on ${feedIds.length} power feeds (${labels.join(", ")})`,
+      cabinetIds: [cabinetId],
+      feedId: feedIds[1],
+    })
+  })
+
+  // Unpowered cabinets only matter once the user has started laying out feeds.
+  if (feeds.length > 0) {
+    cabinets.forEach((cabinet) => {
+      if (cabinetFeeds.has(cabinet.id)) return
+      errors.push({
+        type: "warning",
+        code: "UNPOWERED_CABINET",
+        message: `Cabinet ${cabinet.id} is not on any power feed`,
+        cabinetIds: [cabinet.id],
+      })
+    })
+  }
+}
+
+function validateReceiverCards(layout: LayoutData, errors: ValidationError[]) {
+  layout.cabinets.forEach((cabinet) => {
+    const capacity = getReceiverCardCapacity(layout, cabinet)
+    if (!capacity || capacity.requiredCards <= capacity.cardCount) return
+    errors.push({
+      type: "error",
+      code: "RECEIVER_CARD_OVER_CAPACITY",
+      message: `Cabinet ${cabinet.id} is ${capacity.cabinetWidthPx} x ${capacity.cabinetHeightPx} px and needs ${capacity.requiredCards} ${capacity.modelId} cards (has ${capacity.cardCount})`,
+      cabinetIds: [cabinet.id],
+      suggestedCardCount: capacity.requiredCards,
+    })
+  })
+}
+
 export function validateLayout(layout: LayoutData): ValidationError[] {
   const errors: ValidationError[] = []
   const { cabinets, cabinetTypes, project } = layout
@@ -150,6 +543,13 @@ export function validateLayout(layout: LayoutData): ValidationError[] {
     }
   })
 
+  validateDataRoutes(layout, errors)
+  validateCableRuns(layout, errors)
+  validatePowerFeeds(layout, errors)
+  validatePowerPhases(layout, errors)
+  validateControllers(layout, errors)
+  validateReceiverCards(layout, errors)
+
   return errors
 }
 
@@ -0,0 +1,135 @@
+// Headless layout compiler: turns saved layout JSON files into the overview PDF, CAD JSON/DXF and a summary.
+// Usage: npm run compile-layout -- <layout.json...> [--out <dir>] [--font <file.ttf>] [--raster] [--force]
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { GlobalFonts, createCanvas, loadImage } from "@napi-rs/canvas"
+import { buildCadExport } from "../lib/cad-export"
+import { buildCadDxf } from "../lib/cad-dxf"
+import { getOverviewPdfFilename, renderOverviewPdf, type OverviewPdfResult } from "../lib/export-pdf"
+import { buildLayoutSummary } from "../lib/layout-summary"
+import { normalizeLayout } from "../lib/layout-io"
+import { checkLayoutSchema } from "../lib/layout-schema"
+import { POWER_VALIDATION_CODES, validateLayout } from "../lib/validation"
+
+const LOGO_PATH = path.resolve(__dirname, "../public/nummax-logo-lockup.png")
+
+type CliOptions = { inputs: string[]; outDir: string; fonts: string[]; raster: boolean; force: boolean }
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { inputs: [], outDir: "out", fonts: [], raster: false, force: false }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === "--out" || arg === "-o") {
+      options.outDir = argv[++i] ?? options.outDir
+    } else if (arg === "--font") {
+      const font = argv[++i]
+      if (font) options.fonts.push(font)
+    } else if (arg === "--raster") {
+      options.raster = true
+    } else if (arg === "--force") {
+      options.force = true
+    } else {
+      options.inputs.push(arg)
+    }
+  }
+  return options
+}
+
+function toFileSafeName(name: string) {
+  return name.replace(/[\\/:*?"<>|]+/g, "-").replace(/\s+/g, "_")
+}
+
+async function loadLogo() {
+  try {
+    return await loadImage(LOGO_PATH)
+  } catch {
+    return null
+  }
+}
+
+async function compileLayout(
+  inputPath: string,
+  options: CliOptions,
+  logo: Awaited<ReturnType<typeof loadLogo>>,
+) {
+  const report = checkLayoutSchema(JSON.parse(await readFile(inputPath, "utf8")))
+  report.issues.forEach((issue) => console.warn(`${inputPath}: ${issue.path} ${issue.message} (${issue.action})`))
+  if (!report.layout) throw new Error("not an importable layout file")
+  const layout = normalizeLayout(report.layout)
+  const jobDir = path.join(options.outDir, path.basename(inputPath, path.extname(inputPath)))
+  await mkdir(jobDir, { recursive: true })
+
+  // Same gate as the editor's PDF button: power errors would ship a wrong electrical plan.
+  const powerErrors = validateLayout(layout).filter(
+    (issue) => issue.type === "error" && POWER_VALIDATION_CODES.includes(issue.code),
+  )
+  let pdfPath: string | null = null
+  let pdfResult: OverviewPdfResult | null = null
+  if (powerErrors.length === 0 || options.force) {
+    pdfResult = await renderOverviewPdf(layout, {
+      createCanvas: (width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement,
+      logoImage: logo as unknown as HTMLImageElement | null,
+      output: options.raster ? "raster" : undefined,
+    })
+    if (!pdfResult) throw new Error("could not create a 2D canvas context")
+    pdfPath = path.join(jobDir, getOverviewPdfFilename(layout))
+    await writeFile(pdfPath, Buffer.from(pdfResult.pdf.output("arraybuffer")))
+  } else {
+    // Don't leave the PDF of an earlier run next to outputs it no longer matches.
+    await rm(path.join(jobDir, getOverviewPdfFilename(layout)), { force: true })
+  }
+
+  const cad = buildCadExport(layout)
+  const cadPath = path.join(jobDir, `${toFileSafeName(layout.project.name)}_cad.json`)
+  await writeFile(cadPath, JSON.stringify(cad, null, 2))
+  const dxfPath = path.join(jobDir, `${toFileSafeName(layout.project.name)}.dxf`)
+  await writeFile(dxfPath, buildCadDxf(cad))
+
+  const summary = buildLayoutSummary(layout)
+  const summaryPath = path.join(jobDir, "summary.json")
+  await writeFile(summaryPath, JSON.stringify(summary, null, 2))
+
+  return { jobDir, pdfPath, pdfResult, powerErrors, cadPath, dxfPath, summaryPath, summary }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  if (options.inputs.length === 0) {
+    console.error("Usage: compile-layout <layout.json...> [--out <dir>] [--font <file.ttf>] [--raster] [--force]")
+    process.exit(1)
+  }
+
+  // Register fonts under the family the renderers ask for so text renders without Geist installed.
+  options.fonts.forEach((font) => GlobalFonts.registerFromPath(path.resolve(font), "Geist"))
+  const logo = await loadLogo()
+
+  let failures = 0
+  for (const input of options.inputs) {
+    try {
+      const result = await compileLayout(input, options, logo)
+      const { errors, warnings } = result.summary.validation
+      console.log(`${input}: ${result.jobDir} (${errors} errors, ${warnings} warnings)`)
+      if (result.pdfResult?.vectorError !== undefined) {
+        const reason = result.pdfResult.vectorError
+        const message = reason instanceof Error ? reason.message : String(reason)
+        console.warn(`${input}: vector PDF failed, wrote raster pages (${message})`)
+      }
+      if (result.powerErrors.length > 0) {
+        result.powerErrors.forEach((issue) => console.error(`${input}: ${issue.message}`))
+        if (result.pdfPath) {
+          console.warn(`${input}: PDF written with ${result.powerErrors.length} power errors (--force)`)
+        } else {
+          failures += 1
+          console.error(`${input}: PDF skipped because of power errors; fix them or pass --force`)
+        }
+      }
+    } catch (error) {
+      failures += 1
+      console.error(`${input}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  if (failures > 0) process.exit(1)
+}
+
+void main()
@@ -0,0 +1,37 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { getCablingSettings, getDataRouteCabling, getPowerFeedCabling } from "../lib/cable-lengths"
+import { normalizeLayout } from "../lib/layout-io"
+import type { LayoutData } from "../lib/types"
+import { loadFixture } from "./load-fixture"
+
+describe("getDataRouteCabling", () => {
+  it("measures jumpers between the receiver card connectors of each endpoint", () => {
+    const layout = normalizeLayout(loadFixture<LayoutData>("auto-route-indoor.json"))
+    const { jumperSlackMm } = getCablingSettings(layout.project)
+
+    // c6 carries two cards stacked in the middle of the cabinet; c7 is its neighbour on the right.
+    const cabling = getDataRouteCabling(layout, { id: "route-1", port: 1, cabinetIds: ["c6::1", "c6::2", "c7"] })
+    const [, cardToCard, cabinetToCabinet] = cabling.hops
+
+    assert.equal(cardToCard.fromEndpointId, "c6::1")
+    assert.ok(cardToCard.lengthMm > jumperSlackMm, "the two cards of c6 have their own connectors")
+    assert.ok(cardToCard.lengthMm < jumperSlackMm + 100)
+    // From the lower card of c6 up to the single card of c7, not straight across between the centers.
+    assert.ok(cabinetToCabinet.lengthMm > 500 + jumperSlackMm)
+  })
+
+  it("keeps power feeds on the cabinet centers", () => {
+    const layout = normalizeLayout(loadFixture<LayoutData>("auto-route-indoor.json"))
+    const { jumperSlackMm } = getCablingSettings(layout.project)
+    const cabling = getPowerFeedCabling(layout, {
+      id: "feed-1",
+      label: "Feed 1",
+      connector: "",
+      consumptionW: 0,
+      assignedCabinetIds: ["c6", "c7"],
+    })
+
+    assert.equal(cabling.hops[1].lengthMm, 500 + jumperSlackMm)
+  })
+})
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { autoRouteDataRoutes } from "../lib/data-routing"
+import { normalizeLayout } from "../lib/layout-io"
+import type { LayoutData } from "../lib/types"
+import { loadFixture } from "./load-fixture"
+
+// Expected chains recorded from the auto-route handler of the routes panel before it moved to lib/data-routing.ts.
+const PANEL_INDOOR_ROUTES = [
+  ["c9", "c5", "c1", "c2", "c6::1", "c6::2", "c10"],
+  ["c11", "c7", "c3", "c4", "c8", "c12"],
+]
+const PANEL_OUTDOOR_ROUTE = [
+  ...["a6", "a5", "a4", "a1", "a2", "a3"],
+  ...["b4", "b3::1", "b3::2", "b1", "b2", "b6", "b5"],
+  ...["d4", "d3", "d1", "d2"],
+]
+
+function loadLayout(name: string) {
+  return normalizeLayout(loadFixture<LayoutData>(name))
+}
+
+describe("autoRouteDataRoutes", () => {
+  it("snakes indoor columns up from the bottom-left in the panel's order", () => {
+    const layout = loadLayout("auto-route-indoor.json")
+
+    // The whole wall fits on one port, so the capacity split keeps the panel's chains as one.
+    const { routes } = autoRouteDataRoutes(layout)
+    assert.deepEqual(
+      routes.map((route) => route.cabinetIds),
+      [PANEL_INDOOR_ROUTES.flat()],
+    )
+
+    const laneRoutes = autoRouteDataRoutes(layout, { splitAtCapacity: false }).routes
+    assert.deepEqual(
+      laneRoutes.map((route) => route.cabinetIds),
+      PANEL_INDOOR_ROUTES,
+    )
+    assert.deepEqual(
+      laneRoutes.map((route) => route.port),
+      [1, 2],
+    )
+  })
+
+  it("runs outdoor rows out of the LV box and leaves each screen towards the next", () => {
+    const layout = loadLayout("auto-route-outdoor.json")
+    const { routes } = autoRouteDataRoutes(layout)
+
+    assert.deepEqual(
+      routes.map((route) => ({ port: route.port, cabinetIds: route.cabinetIds })),
+      [{ port: 1, cabinetIds: PANEL_OUTDOOR_ROUTE }],
+    )
+  })
+})
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import {
+  CURRENT_LAYOUT_SCHEMA_VERSION,
+  getLayoutSchemaVersionError,
+  migrateLayout,
+} from "../lib/layout-migrations"
+import { MAIN_CONTROLLER_ID } from "../lib/controllers"
+import type { LayoutData } from "../lib/types"
+import { loadFixture } from "./load-fixture"
+
+function migrate(input: unknown) {
+  return migrateLayout(input) as LayoutData
+}
+
+describe("migrateLayout", () => {
+  it("moves exportSettings.controllerLabel to project.controllerLabel (1 -> 2)", () => {
+    const migrated = migrate(loadFixture("layout-v1.json"))
+
+    assert.equal(migrated.project.controllers[0].label, "MAIN A100")
+    assert.equal("controllerLabel" in migrated.project.exportSettings, false)
+    assert.equal(migrated.project.exportSettings.title, "Lobby")
+    assert.equal(migrated.schemaVersion, CURRENT_LAYOUT_SCHEMA_VERSION)
+  })
+
+  it("keeps an existing project.controllerLabel over the legacy one (1 -> 2)", () => {
+    const fixture = loadFixture<LayoutData>("layout-v1.json")
+    const project = { ...fixture.project, controllerLabel: "FOH" } as LayoutData["project"]
+    const migrated = migrate({ ...fixture, project })
+
+    assert.equal(migrated.project.controllers[0].label, "FOH")
+  })
+
+  it("fills mode: indoor on files from before project modes (2 -> 3)", () => {
+    const fixture = loadFixture<LayoutData>("layout-v2.json")
+    assert.equal("mode" in fixture.project, false)
+
+    const migrated = migrate(fixture)
+
+    assert.equal(migrated.project.mode, "indoor")
+    assert.equal(migrated.project.controllers[0].label, "FOH")
+    assert.deepEqual(migrated.project.dataRoutes, fixture.project.dataRoutes)
+    assert.equal(migrated.schemaVersion, CURRENT_LAYOUT_SCHEMA_VERSION)
+  })
+
+  it("moves the flat controller fields and extraControllers into project.controllers (3 -> 4)", () => {
+    const fixture = loadFixture<LayoutData>("layout-v3.json")
+    const migrated = migrate(fixture)
+
+    assert.deepEqual(migrated.project.controllers, [
+      { id: MAIN_CONTROLLER_ID, model: "A200", label: "LV box", placement: "cabinet", cabinetId: "c1" },
+      { id: "ctrl-2", model: "A100", label: "Roof", placement: "external" },
+    ])
+    for (const key of ["controller", "controllerLabel", "controllerPlacement", "controllerCabinetId", "extraControllers"]) {
+      assert.equal(key in migrated.project, false, key)
+    }
+    assert.deepEqual(migrated.project.dataRoutes, fixture.project.dataRoutes)
+    assert.equal(migrated.schemaVersion, CURRENT_LAYOUT_SCHEMA_VERSION)
+  })
+
+  it("refuses files from a newer schema version", () => {
+    const future = { ...loadFixture<LayoutData>("layout-v2.json"), schemaVersion: CURRENT_LAYOUT_SCHEMA_VERSION + 1 }
+    const message = getLayoutSchemaVersionError(future)
+
+    assert.match(message ?? "", new RegExp(`schema version ${CURRENT_LAYOUT_SCHEMA_VERSION + 1}`))
+    assert.throws(() => migrateLayout(future), { message: message ?? undefined })
+  })
+})
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { checkLayoutSchema } from "../lib/layout-schema"
+import { DEFAULT_LAYOUT, type LayoutData } from "../lib/types"
+import { loadFixture } from "./load-fixture"
+
+describe("checkLayoutSchema", () => {
+  it("passes a well-formed layout through without issues", () => {
+    const report = checkLayoutSchema(loadFixture("layout-v2.json"))
+
+    assert.deepEqual(report.issues, [])
+    assert.equal(report.layout?.cabinets.length, 2)
+  })
+
+  it("reports each problem by path and keeps the repairable parts", () => {
+    const fixture = loadFixture<LayoutData>("layout-v2.json")
+    const report = checkLayoutSchema({
+      ...fixture,
+      cabinets: [
+        { ...fixture.cabinets[0], x_mm: "12", rot_deg: 45 },
+        { ...fixture.cabinets[1], y_mm: "abc" },
+      ],
+    })
+
+    assert.deepEqual(
+      report.issues.map(({ path, action }) => [path, action]),
+      [
+        ["cabinets[0].x_mm", "coerced"],
+        ["cabinets[0].rot_deg", "reset"],
+        ["cabinets[1].y_mm", "dropped"],
+        ["cabinets[1]", "dropped"],
+      ],
+    )
+    assert.deepEqual(report.layout?.cabinets, [{ ...fixture.cabinets[0], x_mm: 12, rot_deg: 0 }])
+  })
+
+  it("resets an empty or missing controller list to the default controller", () => {
+    const migrated = checkLayoutSchema(loadFixture("layout-v2.json")).layout!
+    const { controllers: _controllers, ...project } = migrated.project
+
+    const emptied = checkLayoutSchema({ ...migrated, project: { ...project, controllers: [] } })
+    assert.deepEqual(
+      emptied.issues.map(({ path, action }) => [path, action]),
+      [["project.controllers", "reset"]],
+    )
+    assert.deepEqual(emptied.layout?.project.controllers, DEFAULT_LAYOUT.project.controllers)
+
+    const missing = checkLayoutSchema({ ...migrated, project })
+    assert.deepEqual(
+      missing.issues.map(({ path, action }) => [path, action]),
+      [["project.controllers", "reset"]],
+    )
+  })
+
+  it("refuses a file without a project", () => {
+    const report = checkLayoutSchema({ cabinets: [] })
+
+    assert.equal(report.layout, null)
+    assert.deepEqual(report.issues, [{ path: "project", message: "is required", action: "fatal" }])
+  })
+})
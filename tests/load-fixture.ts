@@ -0,0 +1,6 @@
+import { readFileSync } from "node:fs"
+import path from "node:path"
+
+export function loadFixture<T = unknown>(name: string): T {
+  return JSON.parse(readFileSync(path.join(__dirname, "fixtures", name), "utf8")) as T
+}